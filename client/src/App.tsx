@@ -8,6 +8,10 @@ import LoginPage from './pages/LoginPage';
 import RegisterPage from './pages/RegisterPage';
 import ProfilePage from './pages/ProfilePage';
 import ItineraryPage from './pages/ItineraryPage';
+import JoinPage from './pages/JoinPage';
+import ForgotPasswordPage from './pages/ForgotPasswordPage';
+import ResetPasswordPage from './pages/ResetPasswordPage';
+import VerifyEmailPage from './pages/VerifyEmailPage';
 import { Toaster } from './components/ui/toaster';
 
 function App() {
@@ -18,6 +22,9 @@ function App() {
         <main className="flex-1">
           <Switch>
             <Route path="/login" component={LoginPage} />
+            <Route path="/forgot-password" component={ForgotPasswordPage} />
+            <Route path="/reset-password" component={ResetPasswordPage} />
+            <Route path="/verify-email" component={VerifyEmailPage} />
             <Route path="/profile">
               <ProtectedRoute>
                 <ProfilePage />
@@ -26,6 +33,9 @@ function App() {
             <Route path="/itinerary/:id">
               <ItineraryPage />
             </Route>
+            <Route path="/join/:token">
+              <JoinPage />
+            </Route>
             <Route path="/">
               <HomePage />
             </Route>
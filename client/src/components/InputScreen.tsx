@@ -1,16 +1,29 @@
 import React, { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import Logo from './Logo';
 
 interface InputScreenProps {
-  onSubmit: (data: { date: string; time: string; plans: string }) => void;
+  onSubmit: (data: { date: string; time: string; plans: string; fillGaps: boolean; city: string }) => void;
   isLoading?: boolean;
 }
 
+interface CityOption {
+  id: string;
+  name: string;
+}
+
 const InputScreen: React.FC<InputScreenProps> = ({ onSubmit, isLoading }) => {
   // Initialize with current date and time
   const [date, setDate] = useState(formatDateForInput(new Date()));
   const [time, setTime] = useState(formatTimeForInput(new Date()));
   const [plans, setPlans] = useState('');
+  const [fillGaps, setFillGaps] = useState(false);
+  const [city, setCity] = useState('boston');
+
+  // Cities the server has packs for
+  const { data: cities } = useQuery<CityOption[]>({
+    queryKey: ['/api/cities'],
+  });
 
   // Format date for date input (YYYY-MM-DD)
   function formatDateForInput(date: Date): string {
@@ -36,7 +49,7 @@ const InputScreen: React.FC<InputScreenProps> = ({ onSubmit, isLoading }) => {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit({ date, time, plans });
+    onSubmit({ date, time, plans, fillGaps, city });
   };
 
   // Mobile-first design based on the mockup
@@ -57,6 +70,36 @@ const InputScreen: React.FC<InputScreenProps> = ({ onSubmit, isLoading }) => {
 
         {/* Form */}
         <form onSubmit={handleSubmit} className="w-full">
+          {/* City Field */}
+          {cities && cities.length > 1 && (
+            <div className="mb-6 bg-white rounded-2xl py-6 px-5 shadow-sm"
+              style={{
+                border: '1px solid transparent',
+                backgroundImage: 'linear-gradient(white, white), linear-gradient(to right, #E6DBEE, #BCC6E6)',
+                backgroundOrigin: 'border-box',
+                backgroundClip: 'padding-box, border-box',
+                minHeight: '80px'
+              }}
+            >
+              <label
+                htmlFor="city"
+                className="block mb-2 font-bold text-xl text-[#1C1C1C]"
+              >
+                City
+              </label>
+              <select
+                id="city"
+                value={city}
+                onChange={(e) => setCity(e.target.value)}
+                className="w-full bg-transparent text-gray-700 focus:outline-none text-lg pl-3 py-2"
+              >
+                {cities.map(option => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Date Field */}
           <div className="mb-6 bg-white rounded-2xl py-6 px-5 shadow-sm"
             style={{
@@ -134,6 +177,17 @@ const InputScreen: React.FC<InputScreenProps> = ({ onSubmit, isLoading }) => {
             />
           </div>
 
+          {/* Gap Filling Option */}
+          <label className="flex items-center gap-3 mb-8 px-1 text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={fillGaps}
+              onChange={(e) => setFillGaps(e.target.checked)}
+              className="w-5 h-5 accent-[#17B9E6]"
+            />
+            Suggest things to do in the free time between my plans
+          </label>
+
           {/* Submit Button */}
           <button
             type="submit"
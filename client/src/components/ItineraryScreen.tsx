@@ -1,28 +1,81 @@
 import React, { useEffect } from 'react';
 import { format, formatInTimeZone } from 'date-fns-tz';
+import type { TripDay, CostEstimate } from '@shared/schema';
 
 interface Venue {
   name: string;
   time: string; // Can be either displayTime (formatted) or ISO timestamp
+  timeZoneLabel?: string; // Abbreviation of the itinerary's timezone at this time, e.g. "EDT"
   address: string;
   rating: number;
   categories: string[];
+  durationMinutes?: number;
+  suggestionReason?: string;
+  day?: number; // Day of a multi-day trip, 0-based
+  estimatedCost?: number | null; // Rough spend per person; null when unknown
 }
 
 interface TravelInfo {
   duration: string;
   destination: string;
+  mode?: string; // walking, transit, driving or cycling
+  day?: number;
 }
 
+interface ScheduleWarning {
+  type: 'shifted' | 'shortened' | 'conflict' | 'closed';
+  message: string;
+}
+
+// Conflicts and closed venues need the user's attention; other warnings are informational
+const isBlocking = (warning: ScheduleWarning) => warning.type === 'conflict' || warning.type === 'closed';
+
 interface ItineraryScreenProps {
   venues: Venue[];
   travelInfo: TravelInfo[];
+  warnings?: ScheduleWarning[];
+  days?: TripDay[] | null; // Set for trips spanning several days
+  costEstimate?: CostEstimate | null;
   onExport: () => void;
 }
 
+interface DayGroup {
+  tripDay?: TripDay;
+  venues: Venue[];
+  travelInfo: TravelInfo[]; // travelInfo[i] is the leg after venues[i]
+}
+
+// Split a trip into its days; a single-day plan is one group without a header
+function groupByDay(venues: Venue[], travelInfo: TravelInfo[], days?: TripDay[] | null): DayGroup[] {
+  if (!days || days.length < 2) {
+    return [{ venues, travelInfo }];
+  }
+  return days.map((tripDay, index) => ({
+    tripDay,
+    venues: venues.filter(venue => venue.day === index),
+    travelInfo: travelInfo.filter(leg => leg.day === index)
+  }));
+}
+
+// e.g. "$35" or "£35"
+function formatCost(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en', { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+}
+
+// e.g. "Saturday, June 14 · Clear, 24°/15°C"
+function describeDay(tripDay: TripDay): string {
+  const date = format(new Date(`${tripDay.date}T12:00:00`), 'EEEE, MMMM d');
+  if (!tripDay.weather) return date;
+  const { conditions, tempHigh, tempLow } = tripDay.weather;
+  return `${date} · ${conditions}, ${Math.round(tempHigh)}°/${Math.round(tempLow)}°C`;
+}
+
 const ItineraryScreen: React.FC<ItineraryScreenProps> = ({
   venues,
   travelInfo,
+  warnings = [],
+  days,
+  costEstimate,
   onExport
 }) => {
   // Add debug logging to track the data flow
@@ -33,6 +86,7 @@ const ItineraryScreen: React.FC<ItineraryScreenProps> = ({
 
   const hasVenues = venues && Array.isArray(venues) && venues.length > 0;
   const hasTravelInfo = travelInfo && Array.isArray(travelInfo);
+  const dayGroups = groupByDay(venues || [], hasTravelInfo ? travelInfo : [], days);
 
   // Don't render anything if there are no venues
   if (!hasVenues) {
@@ -62,67 +116,132 @@ const ItineraryScreen: React.FC<ItineraryScreenProps> = ({
           </button>
         </div>
 
-        {/* Venues List */}
-        <div className="space-y-8">
-          {venues.map((venue, index) => (
-            <React.Fragment key={`${venue.name}-${index}`}>
-              <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100 venue-card" style={{ fontFamily: "'Inter', sans-serif" }}>
-                <h2 className="text-xl font-bold mb-4 venue-name" style={{ fontFamily: "'Inter', sans-serif", letterSpacing: 'normal' }}>
-                  {venue.name}
-                </h2>
-                
-                <div className="space-y-3 mb-5">
-                  <p className="text-lg font-semibold venue-time" style={{ fontFamily: "'Inter', sans-serif" }}>
-                    {/* Display time with ET (Eastern Time) suffix */}
-                    {venue.time.includes('ET') ? venue.time : `${venue.time} ET`}
-                  </p>
-                  <p className="text-gray-500 text-sm venue-address" style={{ fontFamily: "'Inter', sans-serif", textTransform: 'none' }}>{venue.address}</p>
-                  <p className="text-gray-500 text-sm venue-rating" style={{ fontFamily: "'Inter', sans-serif" }}>Rating: {venue.rating || 'N/A'}</p>
-                </div>
-                
-                <div className="flex flex-wrap gap-2">
-                  {venue.categories && Array.isArray(venue.categories) && venue.categories.map((category, catIndex) => (
-                    <span 
-                      key={`${category}-${catIndex}`} 
-                      className="px-3 py-1 rounded-full text-xs venue-tag"
-                      style={{
-                        background: 'rgba(23, 185, 230, 0.1)',
-                        color: 'var(--color-text-black)',
-                        border: '1px solid rgba(23, 185, 230, 0.2)',
-                        fontFamily: "'Inter', sans-serif"
-                      }}
-                    >
-                      {category.replace(/_/g, ' ')}
-                    </span>
-                  ))}
+        {/* Rough cost per person, when anything could be estimated */}
+        {costEstimate && costEstimate.stops.some(stop => stop.amount !== null) && (
+          <div className="mb-8 px-4 py-3 rounded-lg text-sm border border-gray-100 text-center cost-estimate" style={{ fontFamily: "'Inter', sans-serif" }}>
+            <p className="font-semibold">
+              Estimated cost: about {formatCost(costEstimate.total, costEstimate.currency)} per person
+            </p>
+            {costEstimate.stops.some(stop => stop.amount === null) && (
+              <p className="text-gray-500">Some stops have no price information and aren't included</p>
+            )}
+          </div>
+        )}
+
+        {/* Schedule warnings - blocking issues first */}
+        {warnings.length > 0 && (
+          <div className="mb-8 space-y-2 schedule-warnings" style={{ fontFamily: "'Inter', sans-serif" }}>
+            {[...warnings]
+              .sort((a, b) => (isBlocking(a) ? 0 : 1) - (isBlocking(b) ? 0 : 1))
+              .map((warning, index) => (
+                <div
+                  key={`${warning.type}-${index}`}
+                  className={`px-4 py-3 rounded-lg text-sm border ${
+                    isBlocking(warning)
+                      ? 'bg-red-50 border-red-200 text-red-700'
+                      : 'bg-amber-50 border-amber-200 text-amber-700'
+                  }`}
+                >
+                  {warning.message}
                 </div>
-              </div>
-              
-              {index < venues.length - 1 && hasTravelInfo && travelInfo[index] && (
-                <div className="flex items-center gap-3 px-5 py-4 mt-4 mb-4 bg-white rounded-lg text-gray-500 text-sm shadow-sm border border-gray-100 travel-info" style={{ fontFamily: "'Inter', sans-serif" }}>
-                  <svg
-                    width="16"
-                    height="16"
-                    viewBox="0 0 16 16"
-                    fill="none"
-                    xmlns="http://www.w3.org/2000/svg"
-                    style={{color: '#17B9E6'}}
-                  >
-                    <path
-                      d="M8 0C5.87827 0 3.84344 0.842855 2.34315 2.34315C0.842855 3.84344 0 5.87827 0 8C0 10.1217 0.842855 12.1566 2.34315 13.6569C3.84344 15.1571 5.87827 16 8 16C10.1217 16 12.1566 15.1571 13.6569 13.6569C15.1571 12.1566 16 10.1217 16 8C16 5.87827 15.1571 3.84344 13.6569 2.34315C12.1566 0.842855 10.1217 0 8 0ZM8 14.4C6.25044 14.4 4.57275 13.7257 3.32294 12.5259C2.07312 11.326 1.39819 9.64784 1.39819 7.89828C1.39819 6.14872 2.07312 4.47103 3.32294 3.27121C4.57275 2.0714 6.25044 1.39647 8 1.39647C9.74956 1.39647 11.4272 2.0714 12.6771 3.27121C13.9269 4.47103 14.6018 6.14872 14.6018 7.89828C14.6018 9.64784 13.9269 11.326 12.6771 12.5259C11.4272 13.7257 9.74956 14.4 8 14.4Z"
-                      fill="currentColor"
-                    />
-                    <path
-                      d="M8 3.2C7.68174 3.2 7.37652 3.32643 7.15147 3.55147C6.92643 3.77652 6.8 4.08174 6.8 4.4V7.6H4.4C4.08174 7.6 3.77652 7.72643 3.55147 7.95147C3.32643 8.17652 3.2 8.48174 3.2 8.8C3.2 9.11826 3.32643 9.42348 3.55147 9.64853C3.77652 9.87357 4.08174 10 4.4 10H8C8.31826 10 8.62348 9.87357 8.84853 9.64853C9.07357 9.42348 9.2 9.11826 9.2 8.8V4.4C9.2 4.08174 9.07357 3.77652 8.84853 3.55147C8.62348 3.32643 8.31826 3.2 8 3.2Z"
-                      fill="currentColor"
-                    />
-                  </svg>
-                  <span className="whitespace-normal overflow-visible travel-duration" style={{ fontFamily: "'Inter', sans-serif" }}>
-                    {travelInfo[index].duration} minutes to {travelInfo[index].destination}
-                  </span>
+              ))}
+          </div>
+        )}
+
+        {/* Venues List, one section per day of a trip */}
+        <div className="space-y-12">
+          {dayGroups.map((group, dayIndex) => (
+            <section key={group.tripDay?.date || 'day'} className="space-y-8 itinerary-day">
+              {group.tripDay && (
+                <div className="text-center trip-day-header" style={{ fontFamily: "'Inter', sans-serif" }}>
+                  <h2 className="text-2xl font-bold">Day {dayIndex + 1}</h2>
+                  <p className="text-gray-500 text-sm">{describeDay(group.tripDay)}</p>
+                  {(group.tripDay.startLocation || group.tripDay.endLocation) && (
+                    <p className="text-gray-500 text-sm trip-day-route">
+                      {group.tripDay.startLocation && `Starts at ${group.tripDay.startLocation}`}
+                      {group.tripDay.startLocation && group.tripDay.endLocation && ' · '}
+                      {group.tripDay.endLocation && `Ends at ${group.tripDay.endLocation}`}
+                    </p>
+                  )}
                 </div>
               )}
-            </React.Fragment>
+              {group.venues.map((venue, index) => (
+                <React.Fragment key={`${venue.name}-${index}`}>
+                  <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100 venue-card" style={{ fontFamily: "'Inter', sans-serif" }}>
+                    {venue.suggestionReason && (
+                      <p className="mb-2 text-xs font-semibold uppercase tracking-wide venue-suggested" style={{ color: '#17B9E6' }} title={venue.suggestionReason}>
+                        Suggested
+                      </p>
+                    )}
+                    <h2 className="text-xl font-bold mb-4 venue-name" style={{ fontFamily: "'Inter', sans-serif", letterSpacing: 'normal' }}>
+                      {venue.name}
+                    </h2>
+                    
+                    <div className="space-y-3 mb-5">
+                      <p className="text-lg font-semibold venue-time" style={{ fontFamily: "'Inter', sans-serif" }}>
+                        {/* Display time in the itinerary's timezone */}
+                        {venue.timeZoneLabel ? `${venue.time} ${venue.timeZoneLabel}` : venue.time}
+                        {venue.durationMinutes && (
+                          <span className="ml-2 text-sm font-normal text-gray-500">· {venue.durationMinutes} min</span>
+                        )}
+                      </p>
+                      <p className="text-gray-500 text-sm venue-address" style={{ fontFamily: "'Inter', sans-serif", textTransform: 'none' }}>{venue.address}</p>
+                      <p className="text-gray-500 text-sm venue-rating" style={{ fontFamily: "'Inter', sans-serif" }}>Rating: {venue.rating || 'N/A'}</p>
+                      {costEstimate && typeof venue.estimatedCost === 'number' && (
+                        <p className="text-gray-500 text-sm venue-cost" style={{ fontFamily: "'Inter', sans-serif" }}>
+                          {venue.estimatedCost === 0 ? 'Free' : `About ${formatCost(venue.estimatedCost, costEstimate.currency)} per person`}
+                        </p>
+                      )}
+                      {venue.suggestionReason && (
+                        <p className="text-gray-500 text-sm italic venue-suggestion-reason" style={{ fontFamily: "'Inter', sans-serif" }}>{venue.suggestionReason}</p>
+                      )}
+                    </div>
+                    
+                    <div className="flex flex-wrap gap-2">
+                      {venue.categories && Array.isArray(venue.categories) && venue.categories.map((category, catIndex) => (
+                        <span 
+                          key={`${category}-${catIndex}`} 
+                          className="px-3 py-1 rounded-full text-xs venue-tag"
+                          style={{
+                            background: 'rgba(23, 185, 230, 0.1)',
+                            color: 'var(--color-text-black)',
+                            border: '1px solid rgba(23, 185, 230, 0.2)',
+                            fontFamily: "'Inter', sans-serif"
+                          }}
+                        >
+                          {category.replace(/_/g, ' ')}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                  
+                  {index < group.venues.length - 1 && group.travelInfo[index] && (
+                    <div className="flex items-center gap-3 px-5 py-4 mt-4 mb-4 bg-white rounded-lg text-gray-500 text-sm shadow-sm border border-gray-100 travel-info" style={{ fontFamily: "'Inter', sans-serif" }}>
+                      <svg
+                        width="16"
+                        height="16"
+                        viewBox="0 0 16 16"
+                        fill="none"
+                        xmlns="http://www.w3.org/2000/svg"
+                        style={{color: '#17B9E6'}}
+                      >
+                        <path
+                          d="M8 0C5.87827 0 3.84344 0.842855 2.34315 2.34315C0.842855 3.84344 0 5.87827 0 8C0 10.1217 0.842855 12.1566 2.34315 13.6569C3.84344 15.1571 5.87827 16 8 16C10.1217 16 12.1566 15.1571 13.6569 13.6569C15.1571 12.1566 16 10.1217 16 8C16 5.87827 15.1571 3.84344 13.6569 2.34315C12.1566 0.842855 10.1217 0 8 0ZM8 14.4C6.25044 14.4 4.57275 13.7257 3.32294 12.5259C2.07312 11.326 1.39819 9.64784 1.39819 7.89828C1.39819 6.14872 2.07312 4.47103 3.32294 3.27121C4.57275 2.0714 6.25044 1.39647 8 1.39647C9.74956 1.39647 11.4272 2.0714 12.6771 3.27121C13.9269 4.47103 14.6018 6.14872 14.6018 7.89828C14.6018 9.64784 13.9269 11.326 12.6771 12.5259C11.4272 13.7257 9.74956 14.4 8 14.4Z"
+                          fill="currentColor"
+                        />
+                        <path
+                          d="M8 3.2C7.68174 3.2 7.37652 3.32643 7.15147 3.55147C6.92643 3.77652 6.8 4.08174 6.8 4.4V7.6H4.4C4.08174 7.6 3.77652 7.72643 3.55147 7.95147C3.32643 8.17652 3.2 8.48174 3.2 8.8C3.2 9.11826 3.32643 9.42348 3.55147 9.64853C3.77652 9.87357 4.08174 10 4.4 10H8C8.31826 10 8.62348 9.87357 8.84853 9.64853C9.07357 9.42348 9.2 9.11826 9.2 8.8V4.4C9.2 4.08174 9.07357 3.77652 8.84853 3.55147C8.62348 3.32643 8.31826 3.2 8 3.2Z"
+                          fill="currentColor"
+                        />
+                      </svg>
+                      <span className="whitespace-normal overflow-visible travel-duration" style={{ fontFamily: "'Inter', sans-serif" }}>
+                        {group.travelInfo[index].duration} minutes{group.travelInfo[index].mode ? ` by ${group.travelInfo[index].mode}` : ''} to {group.travelInfo[index].destination}
+                      </span>
+                    </div>
+                  )}
+                </React.Fragment>
+              ))}
+            </section>
           ))}
         </div>
       </div>
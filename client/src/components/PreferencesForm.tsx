@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import type { PreferenceProfile } from '@shared/schema';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+type ListField = 'dietary' | 'accessibility' | 'cuisine' | 'interests' | 'dislikedVenueTypes';
+
+const LIST_FIELDS: Array<{ name: ListField; label: string; placeholder: string }> = [
+  { name: 'dietary', label: 'Dietary needs', placeholder: 'vegetarian, gluten free' },
+  { name: 'accessibility', label: 'Accessibility needs', placeholder: 'wheelchair accessible' },
+  { name: 'cuisine', label: 'Favourite cuisines', placeholder: 'italian, thai' },
+  { name: 'interests', label: 'Interests', placeholder: 'art, history, parks' },
+  { name: 'dislikedVenueTypes', label: 'Places to avoid', placeholder: 'night_club, casino' },
+];
+
+// Select values can't be empty strings, so "any" stands for no preference
+const ANY = 'any';
+
+const splitList = (text: string) => text.split(',').map(item => item.trim()).filter(Boolean);
+
+// Preferences saved once and applied to every plan; anything said in a request takes precedence
+export function PreferencesForm() {
+  const { toast } = useToast();
+  const { data: saved } = useQuery<PreferenceProfile>({ queryKey: ['/api/preferences'] });
+  const [lists, setLists] = useState<Record<ListField, string>>({
+    dietary: '', accessibility: '', cuisine: '', interests: '', dislikedVenueTypes: ''
+  });
+  const [budget, setBudget] = useState(ANY);
+  const [pace, setPace] = useState(ANY);
+  const [minRating, setMinRating] = useState(ANY);
+
+  useEffect(() => {
+    if (!saved) return;
+    setLists({
+      dietary: saved.dietary.join(', '),
+      accessibility: saved.accessibility.join(', '),
+      cuisine: saved.cuisine.join(', '),
+      interests: saved.interests.join(', '),
+      dislikedVenueTypes: saved.dislikedVenueTypes.join(', '),
+    });
+    setBudget(saved.budget || ANY);
+    setPace(saved.pace || ANY);
+    setMinRating(saved.minRating !== undefined ? String(saved.minRating) : ANY);
+  }, [saved]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('PUT', '/api/preferences', {
+        dietary: splitList(lists.dietary),
+        accessibility: splitList(lists.accessibility),
+        cuisine: splitList(lists.cuisine),
+        interests: splitList(lists.interests),
+        dislikedVenueTypes: splitList(lists.dislikedVenueTypes),
+        budget: budget === ANY ? undefined : budget,
+        pace: pace === ANY ? undefined : pace,
+        minRating: minRating === ANY ? undefined : Number(minRating),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/preferences'] });
+      toast({ title: 'Preferences saved', description: 'Your next plans will use them.' });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Could not save preferences',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Preferences</CardTitle>
+        <CardDescription>Used for every plan; anything you say in a request wins</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label>Budget</Label>
+            <Select value={budget} onValueChange={setBudget}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>No preference</SelectItem>
+                <SelectItem value="budget">Budget</SelectItem>
+                <SelectItem value="moderate">Moderate</SelectItem>
+                <SelectItem value="expensive">Expensive</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Pace</Label>
+            <Select value={pace} onValueChange={setPace}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>No preference</SelectItem>
+                <SelectItem value="relaxed">Relaxed</SelectItem>
+                <SelectItem value="moderate">Moderate</SelectItem>
+                <SelectItem value="busy">Busy (fill free time with suggestions)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Minimum rating</Label>
+            <Select value={minRating} onValueChange={setMinRating}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>No preference</SelectItem>
+                <SelectItem value="3.5">3.5 stars</SelectItem>
+                <SelectItem value="4">4 stars</SelectItem>
+                <SelectItem value="4.5">4.5 stars</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {LIST_FIELDS.map(field => (
+            <div key={field.name} className="space-y-2">
+              <Label htmlFor={`preference-${field.name}`}>{field.label}</Label>
+              <Input
+                id={`preference-${field.name}`}
+                placeholder={field.placeholder}
+                value={lists[field.name]}
+                onChange={(e) => setLists({ ...lists, [field.name]: e.target.value })}
+              />
+            </div>
+          ))}
+
+          <Button type="submit" className="w-full" disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? 'Saving...' : 'Save Preferences'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
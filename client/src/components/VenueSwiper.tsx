@@ -1,13 +1,18 @@
 import React, { useState } from 'react';
-import { ChevronLeft, ChevronRight, CheckCircle2, Cloud, CloudRain, Sun, Umbrella } from 'lucide-react';
+import { ChevronLeft, ChevronRight, CheckCircle2, Cloud, CloudRain, Lock, Sun, ThumbsUp, Umbrella } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { PlaceDetails } from '@shared/schema';
+import { PlaceDetails, StopVoteSummary } from '@shared/schema';
 
 interface VenueSwiperProps {
   primary: PlaceDetails;
   alternatives: PlaceDetails[];
-  onSelect: (venue: PlaceDetails) => void;
+  onSelect?: (venue: PlaceDetails) => void; // Left out for collaborators who can't edit the plan; only the "Use this venue" button selects
   className?: string;
+  // Group planning: collaborators vote, the owner locks in a venue
+  votes?: StopVoteSummary;
+  locked?: boolean;
+  onVote?: (venue: PlaceDetails) => void;
+  onLock?: (venue: PlaceDetails) => void;
 }
 
 const VenueSwiper: React.FC<VenueSwiperProps> = ({
@@ -15,6 +20,10 @@ const VenueSwiper: React.FC<VenueSwiperProps> = ({
   alternatives,
   onSelect,
   className,
+  votes,
+  locked,
+  onVote,
+  onLock,
 }) => {
   // Create an array with primary venue first, then alternatives
   const allVenues = [primary, ...alternatives];
@@ -39,6 +48,7 @@ const VenueSwiper: React.FC<VenueSwiperProps> = ({
   };
   
   const handleSelect = (venue: PlaceDetails) => {
+    if (!onSelect) return;
     setSelectedVenueId(venue.place_id);
     onSelect(venue);
   };
@@ -110,6 +120,9 @@ const VenueSwiper: React.FC<VenueSwiperProps> = ({
   const currentVenue = allVenues[currentIndex];
   const isPrimary = currentIndex === 0;
   const isSelected = currentVenue.place_id === selectedVenueId;
+  const voteCount = votes?.counts[currentVenue.place_id] || 0;
+  const isMyVote = votes?.myVote === currentVenue.place_id;
+  const isLeader = votes?.leader === currentVenue.place_id;
 
   return (
     <div className={cn("w-full", className)}>
@@ -139,7 +152,7 @@ const VenueSwiper: React.FC<VenueSwiperProps> = ({
         {/* Swipeable area - enhanced with premium glass effect */}
         <div 
           className={cn(
-            "venue-glass relative overflow-hidden transition-all cursor-pointer py-3 sm:py-5 px-4 sm:px-6",
+            "venue-glass relative overflow-hidden transition-all py-3 sm:py-5 px-4 sm:px-6",
             isSelected ? "selected" : ""
           )}
           onTouchStart={onTouchStart}
@@ -149,7 +162,6 @@ const VenueSwiper: React.FC<VenueSwiperProps> = ({
           onMouseMove={onMouseMove}
           onMouseUp={onMouseUp}
           onMouseLeave={onMouseLeave}
-          onClick={() => handleSelect(currentVenue)}
         >
           {/* Primary venue indicator */}
           {isPrimary && (
@@ -227,6 +239,55 @@ const VenueSwiper: React.FC<VenueSwiperProps> = ({
           )}
         </div>
         
+        {/* Votes on this venue, the owner's lock-in and the editors' swap */}
+        {locked ? (
+          isPrimary && (
+            <div className="mt-2 flex items-center justify-center gap-1 text-xs sm:text-sm text-brand-black/70 venue-locked">
+              <Lock className="h-3 w-3 sm:h-4 sm:w-4" />
+              <span>Locked in by the owner</span>
+            </div>
+          )
+        ) : (onVote || onLock || onSelect) && (
+          <div className="mt-2 flex items-center justify-center gap-2 venue-voting">
+            {(onVote || onLock) && (
+              <span className="text-xs sm:text-sm text-brand-black/70">
+                {voteCount} {voteCount === 1 ? 'vote' : 'votes'}{isLeader ? ' · leading' : ''}
+              </span>
+            )}
+            {onSelect && !isSelected && (
+              <button
+                onClick={() => handleSelect(currentVenue)}
+                className="flex items-center gap-1 px-3 py-1 rounded-full text-xs sm:text-sm font-medium border border-brand-blue text-brand-blue"
+              >
+                <CheckCircle2 className="h-3 w-3 sm:h-4 sm:w-4" />
+                Use this venue
+              </button>
+            )}
+            {onVote && (
+              <button
+                onClick={() => onVote(currentVenue)}
+                disabled={isMyVote}
+                className={cn(
+                  "flex items-center gap-1 px-3 py-1 rounded-full text-xs sm:text-sm font-medium",
+                  isMyVote ? "bg-brand-blue/10 text-brand-blue" : "border border-brand-blue text-brand-blue"
+                )}
+              >
+                <ThumbsUp className="h-3 w-3 sm:h-4 sm:w-4" />
+                {isMyVote ? 'Your vote' : 'Vote'}
+              </button>
+            )}
+            {onLock && (
+              <button
+                onClick={() => onLock(currentVenue)}
+                className="flex items-center gap-1 px-3 py-1 rounded-full text-xs sm:text-sm font-medium border border-brand-pink text-brand-pink"
+              >
+                <Lock className="h-3 w-3 sm:h-4 sm:w-4" />
+                Lock in
+              </button>
+            )}
+          </div>
+        )}
+        
         {/* Pagination dots */}
         <div className="pagination-dots mt-2 sm:mt-4">
           {allVenues.map((_, idx) => (
@@ -0,0 +1,175 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { useAuth } from '../../hooks/useAuth';
+import { initializeGoogleAuth, renderGoogleButton } from '../../lib/googleAuth';
+import { useConfig } from '../../lib/env';
+
+// apiRequest errors look like "409: {json}"; show the server's message
+function describeError(err: unknown): string {
+  const text = err instanceof Error ? err.message.replace(/^\d+: /, '') : String(err);
+  try {
+    return JSON.parse(text).message || text;
+  } catch {
+    return text;
+  }
+}
+
+// Manage the ways of signing in: a password, a Google account, or both
+export function LinkedAccounts() {
+  const { user, refreshUser } = useAuth();
+  const { config, loading: configLoading } = useConfig();
+  const { toast } = useToast();
+  const [password, setPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // The Google callback is set up once, so it reads the latest form values from here
+  const latest = useRef({ user, password, newPassword, confirmPassword });
+  latest.current = { user, password, newPassword, confirmPassword };
+
+  // Google is either being linked (confirmed with the password) or confirms adding a password
+  const needsGoogleButton = !!user && user.has_password !== user.google_linked;
+
+  const save = async (request: () => Promise<Response>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await request();
+      const data = await response.json();
+      setPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      await refreshUser();
+      toast({ title: data.message });
+    } catch (err) {
+      console.error('Account linking error:', err);
+      setError(describeError(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  useEffect(() => {
+    if (configLoading || !config || !needsGoogleButton) {
+      return;
+    }
+
+    initializeGoogleAuth(config.googleClientId, (credential) => {
+      const { user, password, newPassword, confirmPassword } = latest.current;
+      if (user?.has_password) {
+        save(() => apiRequest('POST', '/api/auth/link/google', { token: credential, password }));
+      } else {
+        save(() => apiRequest('POST', '/api/auth/link/password', {
+          token: credential,
+          password: newPassword,
+          confirmPassword
+        }));
+      }
+    });
+    renderGoogleButton('link-google-button');
+  }, [config, configLoading, needsGoogleButton]);
+
+  if (!user) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sign-in Methods</CardTitle>
+        <CardDescription>Sign in with a password, with Google, or both</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="text-sm">
+          <div className="flex justify-between">
+            <span className="font-medium">Password</span>
+            <span className="text-muted-foreground">{user.has_password ? 'Set' : 'Not set'}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="font-medium">Google</span>
+            <span className="text-muted-foreground">{user.google_linked ? 'Linked' : 'Not linked'}</span>
+          </div>
+        </div>
+
+        <Separator />
+
+        {user.has_password && !user.google_linked && (
+          <div className="space-y-2">
+            <p className="text-sm">Enter your password, then sign in with the Google account to link.</p>
+            <Input
+              type="password"
+              placeholder="Current password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+        )}
+
+        {!user.has_password && user.google_linked && (
+          <div className="space-y-2">
+            <p className="text-sm">Choose a password, then sign in with Google again to confirm it's you.</p>
+            <Input
+              type="password"
+              placeholder="New password (at least 8 characters)"
+              autoComplete="new-password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+            />
+            <Input
+              type="password"
+              placeholder="Confirm new password"
+              autoComplete="new-password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+            />
+          </div>
+        )}
+
+        {needsGoogleButton && (
+          <div
+            id="link-google-button"
+            style={{ display: 'flex', justifyContent: 'center', width: '100%', minHeight: '40px' }}
+          ></div>
+        )}
+
+        {user.has_password && user.google_linked && (
+          <form
+            className="space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              save(() => apiRequest('POST', '/api/auth/unlink/google', { password }));
+            }}
+          >
+            <p className="text-sm">To unlink Google, confirm your password.</p>
+            <Input
+              type="password"
+              placeholder="Current password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+            <Button type="submit" variant="outline" className="w-full" disabled={isSaving || !password}>
+              {isSaving ? 'Unlinking...' : 'Unlink Google'}
+            </Button>
+          </form>
+        )}
+
+        {/* Container for Google Sign-In prompt */}
+        <div id="google-signin-prompt-container"></div>
+      </CardContent>
+    </Card>
+  );
+}
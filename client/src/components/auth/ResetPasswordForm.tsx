@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Link } from 'wouter';
+import { apiRequest } from '@/lib/queryClient';
+
+// Create the form schema with validation
+const resetPasswordSchema = z.object({
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+  confirmPassword: z.string().min(1, 'Please confirm your password'),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ['confirmPassword'],
+});
+
+type ResetPasswordFormValues = z.infer<typeof resetPasswordSchema>;
+
+interface ResetPasswordFormProps {
+  token: string; // From the link in the reset email
+}
+
+export function ResetPasswordForm({ token }: ResetPasswordFormProps) {
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Initialize the form with react-hook-form
+  const form = useForm<ResetPasswordFormValues>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      password: '',
+      confirmPassword: '',
+    },
+  });
+
+  // Submit handler
+  const onSubmit = async (values: ResetPasswordFormValues) => {
+    setError(null);
+    try {
+      await apiRequest('POST', '/api/auth/reset-password', { token, ...values });
+      setDone(true);
+    } catch (err) {
+      console.error('Reset password submission error:', err);
+      setError((err as Error).message.startsWith('400')
+        ? 'This reset link is invalid or has expired. Ask for a new one.'
+        : 'Could not reset your password. Please try again.');
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle className="text-2xl text-center">Choose a New Password</CardTitle>
+        <CardDescription className="text-center">
+          {done ? 'Your password has been reset' : 'Enter a new password for your account'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {done ? (
+          <Link href="/login">
+            <Button className="w-full">Log in</Button>
+          </Link>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>New Password</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Create a password"
+                        type="password"
+                        autoComplete="new-password"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="confirmPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Confirm Password</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Confirm your password"
+                        type="password"
+                        autoComplete="new-password"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? 'Saving...' : 'Reset Password'}
+              </Button>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+      {!done && (
+        <CardFooter className="flex justify-center">
+          <p className="text-sm text-muted-foreground">
+            Link expired?{' '}
+            <Link href="/forgot-password" className="text-primary font-medium hover:underline">
+              Get a new one
+            </Link>
+          </p>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
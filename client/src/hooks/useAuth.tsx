@@ -7,6 +7,9 @@ export interface User {
   email: string;
   name: string | null;
   avatar_url?: string | null;
+  email_verified?: boolean;
+  has_password?: boolean;  // Can log in with email and password
+  google_linked?: boolean; // Can sign in with Google
 }
 
 // Define the AuthContext interface
@@ -18,6 +21,7 @@ interface AuthContextProps {
   loginWithGoogle: (token: string) => Promise<void>;
   register: (email: string, password: string, confirmPassword: string, name?: string) => Promise<void>;
   logout: () => Promise<void>;
+  refreshUser: () => Promise<void>;
   clearError: () => void;
 }
 
@@ -30,6 +34,7 @@ const AuthContext = createContext<AuthContextProps>({
   loginWithGoogle: async () => {},
   register: async () => {},
   logout: async () => {},
+  refreshUser: async () => {},
   clearError: () => {},
 });
 
@@ -42,29 +47,30 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   // Clear error
   const clearError = () => setError(null);
 
-  // Check if user is already logged in
-  useEffect(() => {
-    const checkAuthStatus = async () => {
-      try {
-        const response = await fetch('/api/auth/status', {
-          credentials: 'include',
-        });
-        const data = await response.json();
-        
-        if (data.loggedIn && data.user) {
-          setUser(data.user);
-        } else {
-          setUser(null);
-        }
-      } catch (err) {
-        console.error('Error checking auth status:', err);
+  // Load the logged-in user, e.g. again after linking an account
+  const refreshUser = async () => {
+    try {
+      const response = await fetch('/api/auth/status', {
+        credentials: 'include',
+      });
+      const data = await response.json();
+      
+      if (data.loggedIn && data.user) {
+        setUser(data.user);
+      } else {
         setUser(null);
-      } finally {
-        setIsLoading(false);
       }
-    };
+    } catch (err) {
+      console.error('Error checking auth status:', err);
+      setUser(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-    checkAuthStatus();
+  // Check if user is already logged in
+  useEffect(() => {
+    refreshUser();
   }, []);
 
   // Login with email and password
@@ -152,6 +158,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         loginWithGoogle,
         register,
         logout,
+        refreshUser,
         clearError
       }}
     >
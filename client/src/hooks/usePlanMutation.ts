@@ -7,9 +7,87 @@ interface PlanFormData {
   date: string;
   time: string;
   plans: string;
+  fillGaps?: boolean;
+  city?: string;
 }
 
-export function usePlanMutation() {
+// Partial itinerary shown while the plan is still being built
+export interface PlanProgress {
+  venues: any[];
+  travelInfo: any[];
+  warnings: any[];
+  timeZone: string;
+  status: string;
+}
+
+// Itineraries made before timezones were stored are all in Boston
+const DEFAULT_TIMEZONE = 'America/New_York';
+
+// Convert an API place into the Venue format expected by the UI, with times shown in the itinerary's timezone
+function toVenue(place: any, timeZone: string) {
+  const venueDetails = place.details || {};
+
+  // Parse and format the time with timezone awareness
+  let formattedTime;
+  let timeZoneLabel;
+  if (place.scheduledTime) {
+    const scheduled = new Date(place.scheduledTime);
+    formattedTime = formatInTimeZone(scheduled, timeZone, 'h:mm a');
+    // e.g. "EDT" or "GMT+1", which changes with daylight saving
+    timeZoneLabel = formatInTimeZone(scheduled, timeZone, 'zzz');
+  } else if (place.displayTime) {
+    formattedTime = place.displayTime;
+  } else {
+    // Fallback if no time information is available
+    formattedTime = "Time not specified";
+  }
+
+  return {
+    name: place.name,
+    time: formattedTime,
+    timeZoneLabel,
+    scheduledTime: place.scheduledTime, // Exact time, used by the calendar export
+    address: place.address,
+    rating: venueDetails.rating || 0,
+    categories: venueDetails.types || [],
+    durationMinutes: venueDetails.visitDurationMinutes,
+    suggestionReason: venueDetails.suggestionReason, // Set for gap-filling suggestions
+    day: place.day // Day of a multi-day trip, 0-based; undefined for single-day plans
+  };
+}
+
+// Process a travel leg into the format expected by the UI
+function toTravelInfo(leg: any) {
+  return {
+    duration: leg.duration,
+    destination: leg.to, // Use 'to' field from server response as the destination
+    mode: leg.mode,
+    day: leg.day
+  };
+}
+
+// Split a Server-Sent Events buffer into complete events and the unfinished remainder
+function parseEvents(buffer: string): { events: Array<{ event: string; data: any }>; rest: string } {
+  const chunks = buffer.split('\n\n');
+  const rest = chunks.pop() || '';
+  const events = chunks.map(chunk => {
+    let event = 'message';
+    let data = '';
+    for (const line of chunk.split('\n')) {
+      if (line.startsWith('event: ')) event = line.slice(7);
+      else if (line.startsWith('data: ')) data += line.slice(6);
+    }
+    return { event, data: data ? JSON.parse(data) : null };
+  });
+  return { events, rest };
+}
+
+/**
+ * Create an itinerary, streaming stops to onProgress as the server finds them
+ *
+ * @param options.onProgress Receives the partial itinerary after every server event
+ */
+export function usePlanMutation(options: { onProgress?: (progress: PlanProgress) => void } = {}) {
   const { toast } = useToast();
   
   return useMutation({
@@ -18,54 +96,90 @@ export function usePlanMutation() {
       const apiData = {
         date: data.date,
         startTime: data.time,
-        query: data.plans
+        query: data.plans,
+        fillGaps: data.fillGaps,
+        city: data.city
       };
       
       console.log("Sending API request:", apiData);
-      const response = await apiRequest('POST', '/api/plan', apiData);
-      const responseData = await response.json();
-      console.log("API response:", responseData);
-      
-      // Transform API response to match the expected ItineraryData structure
-      const venues = responseData.places.map((place: any) => {
-        // Convert API response format to Venue format expected by the UI
-        const venueDetails = place.details || {};
-        
-        // Parse and format the time with timezone awareness
-        let formattedTime;
-        if (place.displayTime) {
-          // If displayTime is provided from the backend, use it directly
-          formattedTime = place.displayTime;
-        } else if (place.scheduledTime) {
-          // Otherwise, format the ISO timestamp with NYC timezone
-          formattedTime = formatInTimeZone(
-            new Date(place.scheduledTime),
-            'America/New_York',
-            'h:mm a'
-          );
-        } else {
-          // Fallback if no time information is available
-          formattedTime = "Time not specified";
+      const response = await apiRequest('POST', '/api/plan/stream', apiData);
+      if (!response.body) {
+        throw new Error('Streaming is not supported by this browser');
+      }
+
+      // Stops arrive in the order they're found, so keep them sorted by time
+      const places: any[] = [];
+      const legs: any[] = [];
+      let warnings: any[] = [];
+      let timeZone = DEFAULT_TIMEZONE;
+      let responseData: any = null;
+
+      const report = (status: string) => {
+        const sorted = [...places].sort((a, b) =>
+          new Date(a.scheduledTime).getTime() - new Date(b.scheduledTime).getTime());
+        options.onProgress?.({
+          venues: sorted.map(place => toVenue(place, timeZone)),
+          travelInfo: legs.map(toTravelInfo),
+          warnings,
+          timeZone,
+          status
+        });
+      };
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (!responseData) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        const parsed = parseEvents(buffer + decoder.decode(value, { stream: true }));
+        buffer = parsed.rest;
+
+        for (const { event, data: payload } of parsed.events) {
+          switch (event) {
+            case 'parsed':
+              timeZone = payload.timezone || timeZone;
+              report('Understood your request, finding venues...');
+              break;
+            case 'venue':
+              places.push(payload.place);
+              report(`Found ${payload.place.name}`);
+              break;
+            case 'travel':
+              legs.push(payload.leg);
+              report('Working out travel times...');
+              break;
+            case 'warnings':
+              warnings = payload.warnings;
+              report('Checking the schedule...');
+              break;
+            case 'done':
+              responseData = payload;
+              break;
+            case 'error':
+              throw new Error(payload?.message || 'Failed to create your itinerary');
+          }
         }
-        
-        return {
-          name: place.name,
-          time: formattedTime, // This will be properly formatted for NYC timezone
-          address: place.address,
-          rating: venueDetails.rating || 0,
-          categories: venueDetails.types || []
-        };
-      });
-      
-      // Process travel times into the format expected by the UI
-      const travelInfo = responseData.travelTimes.map((time: any) => ({
-        duration: time.duration,
-        destination: time.to // Use 'to' field from server response as the destination
-      }));
+      }
+
+      if (!responseData) {
+        throw new Error('The connection closed before your itinerary was ready');
+      }
+      console.log("API response:", responseData);
       
+      timeZone = responseData.timezone || timeZone;
       return {
-        venues,
-        travelInfo
+        venues: responseData.places.map((place: any, index: number) => ({
+          ...toVenue(place, timeZone),
+          estimatedCost: responseData.costEstimate?.stops[index]?.amount
+        })),
+        travelInfo: responseData.travelTimes.map(toTravelInfo),
+        warnings: responseData.warnings || [], // Scheduling conflicts and adjustments
+        timeZone,
+        days: responseData.days || null, // Date, weather and start/end of each day of a trip
+        costEstimate: responseData.costEstimate || null // Rough spend per person, total and per stop
       };
     },
     onSuccess: () => {
@@ -1,6 +1,57 @@
 import { saveAs } from 'file-saver';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
 
-export function exportToCalendar(venues: any[]) {
+// Used when the itinerary doesn't carry a visit duration (older itineraries)
+const DEFAULT_EVENT_MINUTES = 60;
+
+// Itineraries made before timezones were stored are all in Boston
+const DEFAULT_TIMEZONE = 'America/New_York';
+
+/**
+ * Work out when a venue starts
+ *
+ * Uses the exact scheduled time when the venue has one; otherwise reads its
+ * display time ("HH:MM" or "X PM/AM") as a time today in the itinerary's
+ * timezone, not the browser's.
+ */
+function getStartTime(venue: any, timeZone: string): Date {
+  if (venue.scheduledTime) {
+    const scheduled = new Date(venue.scheduledTime);
+    if (!isNaN(scheduled.getTime())) return scheduled;
+  }
+
+  try {
+    const timeParts = venue.time?.match(/(\d+):(\d+)\s*(am|pm)?|(\d+)(?:\s*)(am|pm)/i);
+    if (timeParts) {
+      let hours = parseInt(timeParts[1] ?? timeParts[4], 10);
+      const minutes = timeParts[2] ? parseInt(timeParts[2], 10) : 0;
+      const meridian = (timeParts[3] ?? timeParts[5])?.toLowerCase();
+
+      if (meridian === 'pm' && hours < 12) hours += 12;
+      if (meridian === 'am' && hours === 12) hours = 0;
+
+      const today = formatInTimeZone(new Date(), timeZone, 'yyyy-MM-dd');
+      const clock = `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+      return fromZonedTime(`${today}T${clock}:00`, timeZone);
+    }
+  } catch (error) {
+    console.error('Error parsing time:', error);
+  }
+
+  // Fallback - use current time
+  return new Date();
+}
+
+/**
+ * Download the venues as an .ics file
+ *
+ * Event times are written in UTC from the exact moment of each visit, so calendars
+ * show them correctly in any timezone and across daylight saving changes.
+ *
+ * @param venues Venues in the itinerary
+ * @param timeZone The itinerary's timezone, used for venues without an exact time
+ */
+export function exportToCalendar(venues: any[], timeZone: string = DEFAULT_TIMEZONE) {
   if (!venues || venues.length === 0) {
     console.error('No venues to export to calendar');
     return;
@@ -12,44 +63,16 @@ export function exportToCalendar(venues: any[]) {
     'VERSION:2.0',
     'PRODID:-//Boston Day Planner//EN',
     'CALSCALE:GREGORIAN',
+    `X-WR-TIMEZONE:${timeZone}`,
   ];
 
   // Add events for each venue
   venues.forEach(venue => {
-    // Parse time from the venue data
-    let startTime;
-    try {
-      // Expecting time in "HH:MM" or "X PM/AM" format
-      const timeParts = venue.time.match(/(\d+):(\d+)|(\d+)(?:\s*)(am|pm)/i);
-      if (timeParts) {
-        startTime = new Date();
-        
-        if (timeParts[1] && timeParts[2]) {
-          // HH:MM format
-          startTime.setHours(parseInt(timeParts[1], 10));
-          startTime.setMinutes(parseInt(timeParts[2], 10));
-        } else if (timeParts[3]) {
-          // X AM/PM format
-          let hours = parseInt(timeParts[3], 10);
-          const isPM = timeParts[4]?.toLowerCase() === 'pm';
-          
-          if (isPM && hours < 12) hours += 12;
-          if (!isPM && hours === 12) hours = 0;
-          
-          startTime.setHours(hours);
-          startTime.setMinutes(0);
-        }
-      } else {
-        // Fallback - use current time
-        startTime = new Date();
-      }
-    } catch (error) {
-      console.error('Error parsing time:', error);
-      startTime = new Date();
-    }
+    const startTime = getStartTime(venue, venue.timeZone || timeZone);
     
-    // Event duration - default 1.5 hours (90 minutes)
-    const endTime = new Date(startTime.getTime() + 90 * 60000);
+    // Event duration - use the scheduled visit length when available
+    const durationMinutes = venue.durationMinutes || venue.details?.visitDurationMinutes || DEFAULT_EVENT_MINUTES;
+    const endTime = new Date(startTime.getTime() + durationMinutes * 60000);
     
     // Format dates for iCal
     const formatDate = (date: Date) => {
@@ -75,4 +98,4 @@ export function exportToCalendar(venues: any[]) {
   });
   
   saveAs(blob, 'boston-day-planner.ics');
-}
\ No newline at end of file
+}
@@ -1,6 +1,9 @@
-import type { Itinerary } from "@shared/schema";
+import type { Itinerary, PlaceDetails } from "@shared/schema";
 import { saveAs } from "file-saver";
 
+// Used when a place doesn't carry a visit duration (older itineraries)
+const DEFAULT_EVENT_MINUTES = 60;
+
 export function generateICS(itinerary: Itinerary): void {
   let icsContent = [
     "BEGIN:VCALENDAR",
@@ -8,13 +11,17 @@ export function generateICS(itinerary: Itinerary): void {
     "CALSCALE:GREGORIAN",
     "METHOD:PUBLISH",
     "PRODID:-//Boston Day Planner//EN",
+    `X-WR-TIMEZONE:${itinerary.timezone}`,
   ];
 
   itinerary.places.forEach((place) => {
     if (!place.scheduledTime) return;
 
+    // Stored times are exact moments, so UTC output is right in every timezone and across DST
     const startTime = new Date(place.scheduledTime);
-    const endTime = new Date(startTime.getTime() + 90 * 60000); // 90 minutes default duration
+    const details = place.details as PlaceDetails | undefined;
+    const durationMinutes = details?.visitDurationMinutes || DEFAULT_EVENT_MINUTES;
+    const endTime = new Date(startTime.getTime() + durationMinutes * 60000);
 
     icsContent = icsContent.concat([
       "BEGIN:VEVENT",
@@ -0,0 +1,12 @@
+import React from 'react';
+import { ForgotPasswordForm } from '../components/auth/ForgotPasswordForm';
+
+export default function ForgotPasswordPage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-white">
+      <div className="w-full max-w-md">
+        <ForgotPasswordForm />
+      </div>
+    </div>
+  );
+}
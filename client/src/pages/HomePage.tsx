@@ -6,34 +6,61 @@ import { exportToCalendar } from '../lib/calendar';
 import { useAuth } from '../hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { useLocation } from 'wouter';
+import type { TripDay, CostEstimate } from '@shared/schema';
 
 interface PlanFormData {
   date: string;
   time: string;
   plans: string;
+  fillGaps?: boolean;
+  city?: string;
 }
 
 interface Venue {
   name: string;
   time: string;
+  timeZoneLabel?: string;
+  scheduledTime?: string;
   address: string;
   rating: number;
   categories: string[];
+  durationMinutes?: number;
+  suggestionReason?: string;
+  day?: number;
+  estimatedCost?: number | null;
 }
 
 interface TravelInfo {
   duration: string;
   destination: string;
+  mode?: string;
+  day?: number;
+}
+
+interface ScheduleWarning {
+  type: 'shifted' | 'shortened' | 'conflict' | 'closed';
+  message: string;
 }
 
 interface ItineraryData {
   venues: Venue[];
   travelInfo: TravelInfo[];
+  warnings?: ScheduleWarning[];
+  timeZone?: string;
+  days?: TripDay[] | null;
+  costEstimate?: CostEstimate | null;
 }
 
 export default function HomePage() {
   const [itineraryData, setItineraryData] = useState<ItineraryData | null>(null);
-  const planMutation = usePlanMutation();
+  const [progressStatus, setProgressStatus] = useState<string | null>(null);
+  // Show stops as the server finds them rather than waiting for the whole plan
+  const planMutation = usePlanMutation({
+    onProgress: ({ status, ...partial }) => {
+      setItineraryData(partial);
+      setProgressStatus(status);
+    }
+  });
   const { user, logout } = useAuth();
   const [, setLocation] = useLocation();
 
@@ -45,6 +72,7 @@ export default function HomePage() {
   const handlePlanSubmit = async (formData: PlanFormData) => {
     try {
       console.log("Submitting plan:", formData);
+      setItineraryData(null);
       const result = await planMutation.mutateAsync(formData);
       console.log("Plan creation result:", result);
       setItineraryData(result);
@@ -59,6 +87,8 @@ export default function HomePage() {
     } catch (error) {
       console.error('Error creating plan:', error);
       // Error handling is managed by the mutation
+    } finally {
+      setProgressStatus(null);
     }
   };
 
@@ -87,6 +117,11 @@ export default function HomePage() {
               onSubmit={handlePlanSubmit}
               isLoading={planMutation.isPending}
             />
+            {planMutation.isPending && progressStatus && (
+              <p className="mt-3 text-sm text-muted-foreground" aria-live="polite">
+                {progressStatus}
+              </p>
+            )}
           </section>
 
           {/* Itinerary Section - always render but conditionally show content */}
@@ -94,8 +129,11 @@ export default function HomePage() {
             <ItineraryScreen
               venues={itineraryData?.venues || []}
               travelInfo={itineraryData?.travelInfo || []}
+              warnings={itineraryData?.warnings || []}
+              days={itineraryData?.days}
+              costEstimate={itineraryData?.costEstimate}
               onExport={() => {
-                exportToCalendar(itineraryData?.venues || []);
+                exportToCalendar(itineraryData?.venues || [], itineraryData?.timeZone);
               }}
             />
           </section>
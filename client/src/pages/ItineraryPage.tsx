@@ -1,6 +1,6 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useParams, Link } from 'wouter';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import {
   Card,
@@ -10,23 +10,34 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Input } from '@/components/ui/input';
 import { Separator } from '@/components/ui/separator';
-import { Share } from 'lucide-react';
+import { Globe, Lock, Share, UserPlus } from 'lucide-react';
 import { exportToCalendar } from '../lib/calendar';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import VenueSwiper from '@/components/VenueSwiper';
+import type { CostEstimate, ItineraryRole, PlaceDetails, StopVoteSummary, TripDay } from '@shared/schema';
 
 // Interface for a venue/place in the itinerary
 interface Venue {
   name: string;
-  time: string;
+  placeId: string;
+  scheduledTime: string | null;
   address: string;
+  details: PlaceDetails;
+  alternatives: PlaceDetails[] | null;
   rating?: number;
   categories?: string[];
+  day?: number; // Day of a multi-day trip, 0-based
+  locked?: boolean; // The owner locked in this venue after a vote
 }
 
 // Interface for travel information between venues
 interface TravelInfo {
-  duration: string;
-  destination: string;
+  duration: number;
+  to: string;
+  day?: number;
 }
 
 // Interface for the complete itinerary data
@@ -35,6 +46,12 @@ interface ItineraryData {
   query: string;
   places: Venue[];
   travelTimes: TravelInfo[];
+  timezone?: string;
+  days?: TripDay[] | null; // Set for trips spanning several days
+  isPublic: boolean; // Readable by anyone with the link; otherwise only collaborators
+  role?: ItineraryRole | null; // The current user's role, if they're a collaborator
+  votes?: StopVoteSummary[]; // One per place, for collaborators
+  costEstimate?: CostEstimate; // Rough spend per person, total and per place
   created_at: string;
 }
 
@@ -47,14 +64,169 @@ const ItineraryPage = () => {
     enabled: !!id,
   });
 
-  // Format the time string for display
-  const formatTime = (timeString: string) => {
+  const { toast } = useToast();
+  const [instruction, setInstruction] = useState('');
+
+  const refreshItinerary = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/itineraries/${id}`] });
+    queryClient.invalidateQueries({ queryKey: ['/api/itineraries/user'] });
+  };
+
+  // Change the plan with a follow-up like "make dinner later"
+  const refineMutation = useMutation({
+    mutationFn: async (text: string) => {
+      const res = await apiRequest('POST', `/api/itineraries/${id}/refine`, { instruction: text });
+      return res.json();
+    },
+    onSuccess: (data: { diff?: { summary: string }; warnings?: Array<{ message: string }> }) => {
+      refreshItinerary();
+      setInstruction('');
+      toast({
+        title: data.diff?.summary || 'Itinerary updated',
+        description: data.warnings?.[0]?.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Could not change the plan',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Replace a stop with one of its alternatives and save the change
+  const swapMutation = useMutation({
+    mutationFn: async ({ index, venue }: { index: number; venue: PlaceDetails }) => {
+      const res = await apiRequest('POST', `/api/itineraries/${id}/places/${index}/swap`, {
+        alternativeId: venue.place_id
+      });
+      return res.json();
+    },
+    onSuccess: (data: { warnings?: Array<{ message: string }> }) => {
+      refreshItinerary();
+      toast({
+        title: 'Itinerary updated',
+        description: data.warnings?.[0]?.message || 'Your venue change has been saved.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Could not change venue',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Vote for a venue at a stop of a shared itinerary
+  const voteMutation = useMutation({
+    mutationFn: async ({ index, venue }: { index: number; venue: PlaceDetails }) => {
+      const res = await apiRequest('PUT', `/api/itineraries/${id}/places/${index}/vote`, {
+        placeId: venue.place_id
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/itineraries/${id}`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Could not vote',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Owner locks in a venue, usually the one with the most votes
+  const lockMutation = useMutation({
+    mutationFn: async ({ index, venue }: { index: number; venue: PlaceDetails }) => {
+      const res = await apiRequest('POST', `/api/itineraries/${id}/places/${index}/lock`, {
+        placeId: venue.place_id
+      });
+      return res.json();
+    },
+    onSuccess: (data: { warnings?: Array<{ message: string }> }) => {
+      refreshItinerary();
+      toast({
+        title: 'Venue locked in',
+        description: data.warnings?.[0]?.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Could not lock in venue',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Owner creates an invite link and copies it for sending to the group
+  const inviteMutation = useMutation({
+    mutationFn: async (role: 'editor' | 'viewer') => {
+      const res = await apiRequest('POST', `/api/itineraries/${id}/share`, { role });
+      return res.json();
+    },
+    onSuccess: async (data: { url: string; role: string }) => {
+      try {
+        await navigator.clipboard.writeText(data.url);
+        toast({
+          title: 'Invite link copied',
+          description: `Anyone with the link can join as ${data.role === 'editor' ? 'an editor' : 'a viewer'} for the next 7 days.`,
+        });
+      } catch {
+        toast({ title: 'Invite link', description: data.url });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Could not create invite link',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Owner decides whether anyone with the link can read the plan
+  const visibilityMutation = useMutation({
+    mutationFn: async (isPublic: boolean) => {
+      const res = await apiRequest('PATCH', `/api/itineraries/${id}/visibility`, { isPublic });
+      return res.json();
+    },
+    onSuccess: (data: { isPublic: boolean }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/itineraries/${id}`] });
+      toast({
+        title: data.isPublic ? 'Itinerary is public' : 'Itinerary is private',
+        description: data.isPublic
+          ? 'Anyone with the link can see it.'
+          : 'Only people you invite can see it.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Could not change who can see this itinerary',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const canEdit = itinerary?.role === 'owner' || itinerary?.role === 'editor';
+  const isOwner = itinerary?.role === 'owner';
+
+  // Format the time string for display in the itinerary's timezone rather than the browser's
+  const formatTime = (timeString: string | null) => {
+    if (!timeString) return '';
     try {
       const date = new Date(timeString);
       return date.toLocaleTimeString('en-US', {
         hour: 'numeric',
         minute: '2-digit',
-        hour12: true
+        hour12: true,
+        timeZone: itinerary?.timezone,
+        timeZoneName: 'short'
       });
     } catch (e) {
       return timeString; // Return the original string if parsing fails
@@ -76,10 +248,56 @@ const ItineraryPage = () => {
     }
   };
 
+  // Trips skip the travel leg from the last stop of one day to the first of the next
+  const travelAfter = (index: number): TravelInfo | undefined => {
+    if (!itinerary?.travelTimes) return undefined;
+    if (!itinerary.days) return itinerary.travelTimes[index];
+    const place = itinerary.places[index];
+    const next = itinerary.places[index + 1];
+    if (!next || next.day !== place.day) return undefined;
+    return itinerary.travelTimes.find(leg => leg.day === place.day && leg.to === next.name);
+  };
+
+  // e.g. "Day 2 · Sunday, June 15 · Rain, 18°/12°C"
+  const describeDay = (index: number) => {
+    const tripDay = itinerary?.days?.[index];
+    if (!tripDay) return `Day ${index + 1}`;
+    const date = new Date(`${tripDay.date}T12:00:00`).toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric'
+    });
+    const weather = tripDay.weather
+      ? ` · ${tripDay.weather.conditions}, ${Math.round(tripDay.weather.tempHigh)}°/${Math.round(tripDay.weather.tempLow)}°C`
+      : '';
+    return `Day ${index + 1} · ${date}${weather}`;
+  };
+
+  // Rough cost per person, left out when no stop could be estimated
+  const costEstimate = itinerary?.costEstimate?.stops.some(stop => stop.amount !== null)
+    ? itinerary.costEstimate
+    : undefined;
+
+  // e.g. "$35" or "£32"
+  const formatCost = (amount: number) =>
+    new Intl.NumberFormat('en', {
+      style: 'currency',
+      currency: costEstimate?.currency || 'USD',
+      maximumFractionDigits: 0
+    }).format(amount);
+
+  // e.g. "About £32 per person", or undefined when the stop has no estimate
+  const describeStopCost = (index: number) => {
+    const amount = costEstimate?.stops[index]?.amount;
+    if (amount === undefined || amount === null) return undefined;
+    return amount === 0 ? 'Free' : `About ${formatCost(amount)} per person`;
+  };
+
   // Handle exporting the itinerary to calendar
   const handleExport = () => {
     if (itinerary?.places) {
-      exportToCalendar(itinerary.places);
+      // Each place carries its exact scheduledTime, which the export uses as-is
+      exportToCalendar(itinerary.places, itinerary.timezone);
     }
   };
 
@@ -121,6 +339,26 @@ const ItineraryPage = () => {
             <Share className="h-4 w-4 mr-2" />
             Share
           </Button>
+          {isOwner && (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => visibilityMutation.mutate(!itinerary?.isPublic)}
+                disabled={visibilityMutation.isPending}
+              >
+                {itinerary?.isPublic ? <Globe className="h-4 w-4 mr-2" /> : <Lock className="h-4 w-4 mr-2" />}
+                {itinerary?.isPublic ? 'Public' : 'Private'}
+              </Button>
+              <Button variant="outline" onClick={() => inviteMutation.mutate('editor')} disabled={inviteMutation.isPending}>
+                <UserPlus className="h-4 w-4 mr-2" />
+                Invite editor
+              </Button>
+              <Button variant="outline" onClick={() => inviteMutation.mutate('viewer')} disabled={inviteMutation.isPending}>
+                <UserPlus className="h-4 w-4 mr-2" />
+                Invite viewer
+              </Button>
+            </>
+          )}
           <Link href="/">
             <Button variant="secondary">New Plan</Button>
           </Link>
@@ -162,6 +400,27 @@ const ItineraryPage = () => {
             </CardHeader>
             <CardContent>
               <p className="italic">"{itinerary.query}"</p>
+              {canEdit && (
+                <form
+                  className="mt-4 flex gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    if (instruction.trim()) {
+                      refineMutation.mutate(instruction.trim());
+                    }
+                  }}
+                >
+                  <Input
+                    value={instruction}
+                    onChange={(e) => setInstruction(e.target.value)}
+                    placeholder='Change something, e.g. "make dinner later"'
+                    disabled={refineMutation.isPending}
+                  />
+                  <Button type="submit" disabled={refineMutation.isPending || !instruction.trim()}>
+                    {refineMutation.isPending ? 'Updating...' : 'Update'}
+                  </Button>
+                </form>
+              )}
             </CardContent>
           </Card>
 
@@ -170,17 +429,41 @@ const ItineraryPage = () => {
             <CardHeader>
               <CardTitle>Your Day in London</CardTitle>
               <CardDescription>A personalized itinerary for your perfect day</CardDescription>
+              {costEstimate && (
+                <p className="text-sm pt-2">
+                  <span className="font-semibold">Estimated cost: about {formatCost(costEstimate.total)} per person</span>
+                  {costEstimate.stops.some(stop => stop.amount === null) && (
+                    <span className="text-muted-foreground"> · Some stops have no price information and aren't included</span>
+                  )}
+                </p>
+              )}
             </CardHeader>
             <CardContent>
               <div className="space-y-8">
                 {itinerary.places && itinerary.places.map((place, index) => (
-                  <div key={index} className="relative pl-6 pb-8 border-l border-muted last:border-l-transparent">
+                  <React.Fragment key={index}>
+                  {/* Header at the start of each day of a trip */}
+                  {itinerary.days && place.day !== undefined && place.day !== itinerary.places[index - 1]?.day && (
+                    <div className="pb-2">
+                      <h3 className="font-semibold text-lg">{describeDay(place.day)}</h3>
+                      {itinerary.days[place.day]?.startLocation && (
+                        <p className="text-muted-foreground text-sm">
+                          Starts at {itinerary.days[place.day].startLocation}
+                          {itinerary.days[place.day].endLocation && ` · Ends at ${itinerary.days[place.day].endLocation}`}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                  <div className="relative pl-6 pb-8 border-l border-muted last:border-l-transparent">
                     {/* Time indicator dot */}
                     <div className="absolute top-0 left-0 -translate-x-1/2 w-4 h-4 rounded-full bg-primary"></div>
                     
-                    <div className="mb-1 font-medium">{formatTime(place.time)}</div>
+                    <div className="mb-1 font-medium">{formatTime(place.scheduledTime)}</div>
                     <div className="font-bold text-lg">{place.name}</div>
                     <div className="text-muted-foreground text-sm mb-2">{place.address}</div>
+                    {describeStopCost(index) && (
+                      <div className="text-sm mb-2">{describeStopCost(index)}</div>
+                    )}
                     
                     {/* Display categories if available */}
                     {place.categories && place.categories.length > 0 && (
@@ -193,13 +476,41 @@ const ItineraryPage = () => {
                       </div>
                     )}
                     
+                    {/* Collaborators vote between this stop and its alternatives; editors can swap it */}
+                    {itinerary.role && place.alternatives && place.alternatives.length > 0 && (
+                      <VenueSwiper
+                        key={place.details.place_id}
+                        className="mt-3 mb-2"
+                        primary={place.details}
+                        alternatives={place.alternatives}
+                        votes={itinerary.votes?.[index]}
+                        locked={place.locked}
+                        onSelect={canEdit && !place.locked ? (venue) => {
+                          if (venue.place_id !== place.details.place_id && !swapMutation.isPending) {
+                            swapMutation.mutate({ index, venue });
+                          }
+                        } : undefined}
+                        onVote={(venue) => {
+                          if (!voteMutation.isPending) {
+                            voteMutation.mutate({ index, venue });
+                          }
+                        }}
+                        onLock={isOwner ? (venue) => {
+                          if (!lockMutation.isPending) {
+                            lockMutation.mutate({ index, venue });
+                          }
+                        } : undefined}
+                      />
+                    )}
+                    
                     {/* Show travel info if not the last place */}
-                    {index < (itinerary.places.length - 1) && itinerary.travelTimes && itinerary.travelTimes[index] && (
+                    {index < (itinerary.places.length - 1) && travelAfter(index) && (
                       <div className="mt-3 text-sm text-muted-foreground italic">
-                        <span className="font-medium">Next:</span> {itinerary.travelTimes[index].duration} travel to {itinerary.travelTimes[index].destination}
+                        <span className="font-medium">Next:</span> {travelAfter(index)!.duration} min travel to {travelAfter(index)!.to}
                       </div>
                     )}
                   </div>
+                  </React.Fragment>
                 ))}
               </div>
             </CardContent>
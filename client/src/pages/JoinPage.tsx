@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, useLocation, Link } from 'wouter';
+import { useAuth } from '../hooks/useAuth';
+import { apiRequest } from '@/lib/queryClient';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+
+// Accepts an invite link to a shared itinerary, then opens the itinerary
+export default function JoinPage() {
+  const { token } = useParams<{ token: string }>();
+  const { user, isLoading } = useAuth();
+  const [, setLocation] = useLocation();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isLoading) return;
+
+    // Come back to this link after logging in
+    if (!user) {
+      setLocation(`/login?next=${encodeURIComponent(`/join/${token}`)}`);
+      return;
+    }
+
+    apiRequest('POST', '/api/itineraries/join', { token })
+      .then(res => res.json())
+      .then((data: { itineraryId: number }) => setLocation(`/itinerary/${data.itineraryId}`))
+      .catch((err: Error) => {
+        console.error('Error joining itinerary:', err);
+        setError(err.message.startsWith('410')
+          ? 'This invite link has expired. Ask the owner for a new one.'
+          : 'This invite link is not valid.');
+      });
+  }, [user, isLoading, token, setLocation]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-white">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>{error ? 'Could not join itinerary' : 'Joining itinerary...'}</CardTitle>
+          {error && <CardDescription>{error}</CardDescription>}
+        </CardHeader>
+        {error && (
+          <CardContent>
+            <Link href="/">
+              <Button>Return to Planner</Button>
+            </Link>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -7,16 +7,22 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Link } from 'wouter';
 
+// Where to go after logging in, e.g. back to an invite link; only paths on this site
+function getReturnPath(): string {
+  const next = new URLSearchParams(window.location.search).get('next');
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : '/';
+}
+
 export default function LoginPage() {
   const { user, loginWithGoogle, error } = useAuth();
   const [, setLocation] = useLocation();
   const { config, loading: configLoading } = useConfig();
   const googleButtonRef = useRef<HTMLDivElement>(null);
 
-  // Redirect to home if already logged in
+  // Redirect to home (or the page that sent us here) if already logged in
   useEffect(() => {
     if (user) {
-      setLocation('/');
+      setLocation(getReturnPath());
     }
   }, [user, setLocation]);
 
@@ -31,7 +37,7 @@ export default function LoginPage() {
     initializeGoogleAuth(config.googleClientId, async (credential) => {
       try {
         await loginWithGoogle(credential);
-        setLocation('/');
+        setLocation(getReturnPath());
       } catch (err) {
         console.error('Google authentication error:', err);
       }
@@ -107,12 +113,17 @@ export default function LoginPage() {
               <div id="google-signin-prompt-container"></div>
             </div>
           </CardContent>
-          <CardFooter className="flex justify-center">
+          <CardFooter className="flex flex-col items-center gap-2">
             <p className="text-sm text-muted-foreground">
               <Link href="/" className="text-blue-600 font-medium hover:underline">
                 Continue without signing in
               </Link>
             </p>
+            <p className="text-sm text-muted-foreground">
+              <Link href="/forgot-password" className="text-blue-600 hover:underline">
+                Forgot your password?
+              </Link>
+            </p>
           </CardFooter>
         </Card>
       </div>
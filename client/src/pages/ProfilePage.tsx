@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { useAuth } from '../hooks/useAuth';
@@ -8,6 +8,9 @@ import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Link } from 'wouter';
+import { apiRequest } from '@/lib/queryClient';
+import { LinkedAccounts } from '../components/auth/LinkedAccounts';
+import { PreferencesForm } from '../components/PreferencesForm';
 
 interface ItineraryHistoryItem {
   id: number;
@@ -19,6 +22,7 @@ interface ItineraryHistoryItem {
 const ProfilePage = () => {
   const { user, logout } = useAuth();
   const { toast } = useToast();
+  const [resending, setResending] = useState(false);
   
   // Query to fetch user's itinerary history
   const { data: itineraries, isLoading, error } = useQuery<ItineraryHistoryItem[]>({
@@ -51,7 +55,25 @@ const ProfilePage = () => {
     }
   };
 
-  // Generate avatar fallback from user's name
+  // Email a new link for confirming the account's address
+  const handleResendVerification = async () => {
+    setResending(true);
+    try {
+      const res = await apiRequest('POST', '/api/auth/resend-verification', {});
+      const data = await res.json();
+      toast({ title: 'Check your email', description: data.message });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to send the confirmation link. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setResending(false);
+    }
+  };
+
+    // Generate avatar fallback from user's name
   const getAvatarFallback = (name: string) => {
     if (!name) return 'U';
     return name.split(' ')
@@ -64,8 +86,9 @@ const ProfilePage = () => {
   return (
     <div className="container mx-auto py-8 px-4 md:px-6">
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="md:col-span-1 space-y-6">
         {/* User Profile Card */}
-        <Card className="md:col-span-1">
+        <Card>
           <CardHeader className="flex flex-col items-center pb-2">
             <Avatar className="h-24 w-24 mb-4">
               <AvatarImage src={user?.avatar_url || ''} alt={user?.name || 'User'} />
@@ -75,6 +98,14 @@ const ProfilePage = () => {
             <CardDescription className="text-center">{user?.email}</CardDescription>
           </CardHeader>
           <CardContent className="flex flex-col gap-4">
+            {user && user.email_verified === false && (
+              <div className="text-sm text-center text-muted-foreground">
+                <p>Your email address isn't confirmed yet.</p>
+                <Button variant="link" onClick={handleResendVerification} disabled={resending}>
+                  {resending ? 'Sending...' : 'Send a new confirmation link'}
+                </Button>
+              </div>
+            )}
             <Button variant="outline" onClick={handleLogout}>
               Log Out
             </Button>
@@ -84,6 +115,13 @@ const ProfilePage = () => {
           </CardContent>
         </Card>
 
+        {/* Password and Google sign-in */}
+        <LinkedAccounts />
+
+        {/* Saved preferences applied to every plan */}
+        <PreferencesForm />
+        </div>
+
         {/* Itinerary History Card */}
         <Card className="md:col-span-2">
           <CardHeader>
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Link } from 'wouter';
+import { ResetPasswordForm } from '../components/auth/ResetPasswordForm';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+
+// Opened from the link in a password reset email: /reset-password?token=...
+export default function ResetPasswordPage() {
+  const token = new URLSearchParams(window.location.search).get('token');
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-white">
+      <div className="w-full max-w-md">
+        {token ? (
+          <ResetPasswordForm token={token} />
+        ) : (
+          <Card className="w-full">
+            <CardHeader>
+              <CardTitle>Reset link missing</CardTitle>
+              <CardDescription>Open the link from your reset email, or ask for a new one.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Link href="/forgot-password">
+                <Button>Get a new link</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'wouter';
+import { apiRequest } from '@/lib/queryClient';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+
+// Opened from the link in a verification email: /verify-email?token=...
+export default function VerifyEmailPage() {
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get('token');
+    if (!token) {
+      setStatus('failed');
+      return;
+    }
+
+    apiRequest('POST', '/api/auth/verify-email', { token })
+      .then(() => setStatus('verified'))
+      .catch((err: Error) => {
+        console.error('Error verifying email:', err);
+        setStatus('failed');
+      });
+  }, []);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-white">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>
+            {status === 'verifying' ? 'Confirming your email...' : status === 'verified' ? 'Email confirmed' : 'Could not confirm email'}
+          </CardTitle>
+          {status === 'failed' && (
+            <CardDescription>
+              This link is invalid or has expired. You can get a new one from your profile.
+            </CardDescription>
+          )}
+        </CardHeader>
+        {status !== 'verifying' && (
+          <CardContent>
+            <Link href={status === 'verified' ? '/' : '/profile'}>
+              <Button>{status === 'verified' ? 'Start Planning' : 'Go to Profile'}</Button>
+            </Link>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
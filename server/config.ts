@@ -10,6 +10,7 @@ import { z } from "zod";
 // API key validation schemas - using simple length validation to be more flexible
 const apiKeySchemas = {
   GEMINI_API_KEY: z.string().min(1),  // Always accept key if present, validation patterns will be checked later
+  ANTHROPIC_API_KEY: z.string().optional(),  // Second language model for request understanding
   GOOGLE_PLACES_API_KEY: z.string().min(1),  // Always accept key if present, validation patterns will be checked later
   WEATHER_API_KEY: z.string().optional(),
   GOOGLE_CLIENT_ID: z.string().optional()  // OAuth Client ID for Google authentication
@@ -47,6 +48,12 @@ const featureFlags = {
     required: ["GOOGLE_PLACES_API_KEY"],
     fallback: false,
     description: "Google Places API integration"
+  },
+  DIRECTIONS_API: {
+    enabled: true,
+    required: ["GOOGLE_PLACES_API_KEY"],
+    fallback: true,
+    description: "Google Directions API for multi-modal travel times"
   }
 };
 
@@ -54,6 +61,7 @@ const featureFlags = {
 const envSchema = z.object({
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   GEMINI_API_KEY: z.string().optional(),
+  ANTHROPIC_API_KEY: z.string().optional(),
   GOOGLE_PLACES_API_KEY: z.string().optional(),
   WEATHER_API_KEY: z.string().optional(),
   GOOGLE_CLIENT_ID: z.string().optional(),
@@ -192,6 +200,7 @@ class Config {
     
     // Force set the keys to ensure they are properly assigned
     this.apiKeys["GEMINI_API_KEY"] = process.env.GEMINI_API_KEY;
+    this.apiKeys["ANTHROPIC_API_KEY"] = process.env.ANTHROPIC_API_KEY;
     this.apiKeys["GOOGLE_PLACES_API_KEY"] = process.env.GOOGLE_PLACES_API_KEY;
     this.apiKeys["WEATHER_API_KEY"] = process.env.WEATHER_API_KEY;
     this.apiKeys["GOOGLE_CLIENT_ID"] = process.env.GOOGLE_CLIENT_ID;
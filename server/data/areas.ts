@@ -0,0 +1,90 @@
+import { z } from "zod";
+
+// Fields every city's area list shares; each city adds how it groups areas (region, borough)
+export const baseAreaSchema = z.object({
+  name: z.string(),
+  characteristics: z.array(z.string()),
+  neighbors: z.array(z.string()),
+  popularFor: z.array(z.string()),
+  crowdLevels: z.object({
+    morning: z.number(),
+    afternoon: z.number(),
+    evening: z.number(),
+    weekend: z.number(),
+  }),
+});
+
+export type CityArea = z.infer<typeof baseAreaSchema> & {
+  type: string;
+  region?: string;
+  borough?: string;
+};
+
+// Helper function to find areas by characteristics or what they're popular for
+export function findAreasByCharacteristics<T extends CityArea>(
+  areas: T[],
+  characteristics: string[],
+  excludeAreas: string[] = [],
+): T[] {
+  return areas.filter(area =>
+    !excludeAreas.includes(area.name) &&
+    characteristics.some(char =>
+      [...area.characteristics, ...area.popularFor].some(areaChar =>
+        areaChar.toLowerCase().includes(char.toLowerCase())
+      )
+    )
+  );
+}
+
+// Helper to get crowd level for a time of day ("morning", "evening") or clock time ("14:30")
+export function getAreaCrowdLevel(
+  area: CityArea,
+  timeOfDay: string,
+  isWeekend: boolean,
+): number {
+  if (isWeekend) {
+    return area.crowdLevels.weekend;
+  }
+
+  const hour = parseInt(timeOfDay.split(":")[0]);
+  if (!isNaN(hour)) {
+    if (hour < 12) return area.crowdLevels.morning;
+    if (hour < 17) return area.crowdLevels.afternoon;
+    return area.crowdLevels.evening;
+  }
+
+  switch (timeOfDay.toLowerCase()) {
+    case 'morning': return area.crowdLevels.morning;
+    case 'afternoon': return area.crowdLevels.afternoon;
+    case 'evening': return area.crowdLevels.evening;
+    default: return area.crowdLevels.afternoon;
+  }
+}
+
+// Helper to find quiet areas, listing neighbors of nearArea first
+export function findQuietAreas<T extends CityArea>(
+  areas: T[],
+  timeOfDay: string,
+  isWeekend: boolean,
+  nearArea?: string,
+): T[] {
+  const threshold = 3; // Areas with crowd level below this are considered quiet
+
+  const filteredAreas = areas.filter(area =>
+    getAreaCrowdLevel(area, timeOfDay, isWeekend) < threshold
+  );
+
+  if (nearArea) {
+    const area = areas.find(a => a.name.toLowerCase() === nearArea.toLowerCase());
+    if (area) {
+      const neighbors = area.neighbors;
+      filteredAreas.sort((a, b) => {
+        const aIsNeighbor = neighbors.includes(a.name) ? 0 : 1;
+        const bIsNeighbor = neighbors.includes(b.name) ? 0 : 1;
+        return aIsNeighbor - bIsNeighbor;
+      });
+    }
+  }
+
+  return filteredAreas;
+}
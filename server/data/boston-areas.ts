@@ -1,18 +1,16 @@
 import { z } from "zod";
+import {
+  baseAreaSchema,
+  findAreasByCharacteristics as findAreas,
+  findQuietAreas as findQuiet,
+  getAreaCrowdLevel,
+} from "./areas";
 
-export const areaSchema = z.object({
-  name: z.string(),
+export { getAreaCrowdLevel };
+
+export const areaSchema = baseAreaSchema.extend({
   type: z.enum(["region", "neighborhood", "area"]),
   region: z.string(),
-  characteristics: z.array(z.string()),
-  neighbors: z.array(z.string()),
-  popularFor: z.array(z.string()),
-  crowdLevels: z.object({
-    morning: z.number(),
-    afternoon: z.number(),
-    evening: z.number(),
-    weekend: z.number(),
-  }),
 });
 
 export type BostonArea = z.infer<typeof areaSchema>;
@@ -230,61 +228,94 @@ export const bostonAreas: BostonArea[] = [
   }
 ];
 
-// Helper functions for finding areas based on different criteria
+// Helper function to find areas by characteristics
 export function findAreasByCharacteristics(
   characteristics: string[],
   excludeAreas: string[] = [],
 ): BostonArea[] {
-  return bostonAreas.filter(area => 
-    !excludeAreas.includes(area.name) && 
-    characteristics.some(char => 
-      area.characteristics.some(areaChar => 
-        areaChar.toLowerCase().includes(char.toLowerCase())
-      )
-    )
-  );
-}
-
-export function getAreaCrowdLevel(
-  area: BostonArea,
-  timeOfDay: string,
-  isWeekend: boolean,
-): number {
-  if (isWeekend) {
-    return area.crowdLevels.weekend;
-  }
-  
-  switch (timeOfDay.toLowerCase()) {
-    case 'morning': return area.crowdLevels.morning;
-    case 'afternoon': return area.crowdLevels.afternoon;
-    case 'evening': return area.crowdLevels.evening;
-    default: return area.crowdLevels.afternoon;
-  }
+  return findAreas(bostonAreas, characteristics, excludeAreas);
 }
 
+// Helper to find quiet areas
 export function findQuietAreas(
   timeOfDay: string,
   isWeekend: boolean,
   nearArea?: string,
 ): BostonArea[] {
-  const threshold = 3; // Areas with crowd level below this are considered quiet
-  
-  let filteredAreas = bostonAreas.filter(area => 
-    getAreaCrowdLevel(area, timeOfDay, isWeekend) < threshold
-  );
-  
-  // If nearArea is specified, prioritize areas that are neighbors
-  if (nearArea) {
-    const area = bostonAreas.find(a => a.name.toLowerCase() === nearArea.toLowerCase());
-    if (area) {
-      const neighbors = area.neighbors;
-      filteredAreas.sort((a, b) => {
-        const aIsNeighbor = neighbors.includes(a.name) ? 0 : 1;
-        const bIsNeighbor = neighbors.includes(b.name) ? 0 : 1;
-        return aIsNeighbor - bIsNeighbor;
-      });
-    }
-  }
-  
-  return filteredAreas;
-} 
\ No newline at end of file
+  return findQuiet(bostonAreas, timeOfDay, isWeekend, nearArea);
+}
+
+// Dictionary of neighborhood name variations and colloquial references
+export const bostonNeighborhoodVariations: Record<string, string[]> = {
+  "Back Bay": ["back bay", "backbay", "newbury street area", "copley square area"],
+  "Beacon Hill": ["beacon hill", "beaconhill", "the hill", "state house area"],
+  "North End": ["north end", "little italy", "italian district", "boston's little italy"],
+  "Fenway": ["fenway", "fenway park area", "kenmore", "kenmore square"],
+  "Seaport": ["seaport district", "seaport", "innovation district", "south boston waterfront"],
+  "Downtown": ["downtown", "downtown crossing", "financial district", "government center"],
+  "South End": ["south end", "southend", "tremont street area"],
+  "Cambridge": ["cambridge", "harvard square", "central square", "kendall square", "harvard", "mit area"],
+  "Somerville": ["somerville", "davis square", "union square", "assembly row"],
+  "Charlestown": ["charlestown", "navy yard", "bunker hill area"],
+  "Jamaica Plain": ["jamaica plain", "jp", "jamaica pond area"],
+  "Allston/Brighton": ["allston", "brighton", "allston-brighton", "student area"],
+  "Chinatown": ["chinatown", "chinese district", "theater district", "leather district"],
+  "Dorchester": ["dorchester", "dot", "uphams corner", "fields corner"],
+  "Financial District": ["financial district", "fidi", "post office square", "downtown financial"]
+};
+
+// Common T stations that should always have "Station" appended
+export const bostonStations: string[] = [
+  "South Station",
+  "North Station",
+  "Park Street",
+  "Downtown Crossing",
+  "Government Center",
+  "Harvard Square",
+  "Kendall/MIT",
+  "Copley",
+  "Back Bay",
+  "JFK/UMass",
+  "Hynes Convention Center",
+  "Forest Hills",
+  "Maverick",
+  "Alewife",
+  "Porter",
+  "Quincy Center"
+];
+
+// Common misspellings and variants of Boston locations
+export const bostonSpellingCorrections: Record<string, string> = {
+  'backbay': 'Back Bay',
+  'beaconhill': 'Beacon Hill',
+  'northend': 'North End',
+  'southend': 'South End',
+  'harvard sq': 'Harvard Square',
+  'kendall': 'Kendall Square',
+  'govt center': 'Government Center',
+  'faneuil': 'Faneuil Hall',
+  'faneuil hall': 'Faneuil Hall',
+  'quincy mkt': 'Quincy Market',
+  'quincy market': 'Quincy Market',
+  'fenway': 'Fenway',
+  'seaport': 'Seaport',
+  'downtown': 'Downtown',
+  'cambridge': 'Cambridge',
+  'somerville': 'Somerville',
+  'charlestown': 'Charlestown',
+  'jamaica plain': 'Jamaica Plain',
+  'allston': 'Allston/Brighton',
+  'brighton': 'Allston/Brighton',
+  'chinatown': 'Chinatown',
+  'dorchester': 'Dorchester',
+  'fin district': 'Financial District',
+  'fidi': 'Financial District',
+  'south station': 'South Station',
+  'north station': 'North Station',
+  'newbury st': 'Newbury Street',
+  'boylston st': 'Boylston Street',
+  'tremont st': 'Tremont Street',
+  'boston common': 'Boston Common',
+  'public garden': 'Public Garden',
+  'freedom trail': 'Freedom Trail'
+};
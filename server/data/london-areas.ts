@@ -1,18 +1,16 @@
 import { z } from "zod";
+import {
+  baseAreaSchema,
+  findAreasByCharacteristics as findAreas,
+  findQuietAreas as findQuiet,
+  getAreaCrowdLevel,
+} from "./areas";
 
-export const areaSchema = z.object({
-  name: z.string(),
+export { getAreaCrowdLevel };
+
+export const areaSchema = baseAreaSchema.extend({
   type: z.enum(["borough", "neighborhood", "area"]),
   borough: z.string().optional(),
-  characteristics: z.array(z.string()),
-  neighbors: z.array(z.string()),
-  popularFor: z.array(z.string()),
-  crowdLevels: z.object({
-    morning: z.number(),
-    afternoon: z.number(),
-    evening: z.number(),
-    weekend: z.number(),
-  }),
 });
 
 export type LondonArea = z.infer<typeof areaSchema>;
@@ -669,27 +667,7 @@ export function findAreasByCharacteristics(
   characteristics: string[],
   excludeAreas: string[] = [],
 ): LondonArea[] {
-  return londonAreas.filter(
-    (area) =>
-      !excludeAreas.includes(area.name) &&
-      characteristics.some(
-        (c) => area.characteristics.includes(c) || area.popularFor.includes(c),
-      ),
-  );
-}
-
-// Helper to get crowd level for a specific time
-export function getAreaCrowdLevel(
-  area: LondonArea,
-  timeOfDay: string,
-  isWeekend: boolean,
-): number {
-  if (isWeekend) return area.crowdLevels.weekend;
-
-  const hour = parseInt(timeOfDay.split(":")[0]);
-  if (hour < 12) return area.crowdLevels.morning;
-  if (hour < 17) return area.crowdLevels.afternoon;
-  return area.crowdLevels.evening;
+  return findAreas(londonAreas, characteristics, excludeAreas);
 }
 
 // Helper to find quiet areas
@@ -698,12 +676,57 @@ export function findQuietAreas(
   isWeekend: boolean,
   nearArea?: string,
 ): LondonArea[] {
-  const areas = nearArea
-    ? londonAreas.filter((a) => a.neighbors.includes(nearArea))
-    : londonAreas;
-
-  return areas.filter((area) => {
-    const crowdLevel = getAreaCrowdLevel(area, timeOfDay, isWeekend);
-    return crowdLevel <= 2; // Areas with low crowd levels
-  });
+  return findQuiet(londonAreas, timeOfDay, isWeekend, nearArea);
 }
+
+// Dictionary of neighborhood name variations and colloquial references
+export const londonNeighborhoodVariations: Record<string, string[]> = {
+  "City of London": ["the city", "city of london", "square mile", "financial district"],
+  "Soho": ["soho", "soho london"],
+  "Covent Garden": ["covent garden", "theatreland", "west end"],
+  "Camden Town": ["camden town", "camden market area"],
+  "King's Cross": ["kings cross", "king's cross", "st pancras area"],
+  "South Kensington": ["south ken", "south kensington", "museum district"],
+  "Shoreditch": ["shoreditch", "east london", "old street area"],
+  "Canary Wharf": ["canary wharf", "docklands"],
+  "Westminster": ["westminster", "parliament area", "whitehall"],
+  "Marylebone": ["marylebone", "marylebone village"],
+  "Notting Hill": ["notting hill", "portobello", "portobello road area"]
+};
+
+// Common Underground stations that should always have "Station" appended
+export const londonStations: string[] = [
+  "Oxford Circus",
+  "Bank",
+  "Liverpool Street",
+  "Waterloo",
+  "Victoria",
+  "Paddington",
+  "Euston",
+  "London Bridge",
+  "Tottenham Court Road",
+  "Green Park",
+  "Bond Street",
+  "Baker Street",
+  "Old Street",
+  "Angel",
+  "Embankment"
+];
+
+// Common misspellings and variants of London locations
+export const londonSpellingCorrections: Record<string, string> = {
+  'piccadily': 'Piccadilly',
+  'picadilly': 'Piccadilly',
+  'piccadilly circus': 'Piccadilly Circus',
+  'liecester square': 'Leicester Square',
+  'leicester sq': 'Leicester Square',
+  'kings cross': "King's Cross",
+  'regents park': "Regent's Park",
+  'earls court': "Earl's Court",
+  'st james': "St. James's",
+  'st jamess': "St. James's",
+  'marleybone': 'Marylebone',
+  'south ken': 'South Kensington',
+  'covent gardens': 'Covent Garden',
+  'soho': 'Soho'
+};
@@ -1,18 +1,16 @@
 import { z } from "zod";
+import {
+  baseAreaSchema,
+  findAreasByCharacteristics as findAreas,
+  findQuietAreas as findQuiet,
+  getAreaCrowdLevel,
+} from "./areas";
 
-export const areaSchema = z.object({
-  name: z.string(),
+export { getAreaCrowdLevel };
+
+export const areaSchema = baseAreaSchema.extend({
   type: z.enum(["borough", "neighborhood", "area"]),
   borough: z.string(),
-  characteristics: z.array(z.string()),
-  neighbors: z.array(z.string()),
-  popularFor: z.array(z.string()),
-  crowdLevels: z.object({
-    morning: z.number(),
-    afternoon: z.number(),
-    evening: z.number(),
-    weekend: z.number(),
-  }),
 });
 
 export type NYCArea = z.infer<typeof areaSchema>;
@@ -391,27 +389,7 @@ export function findAreasByCharacteristics(
   characteristics: string[],
   excludeAreas: string[] = [],
 ): NYCArea[] {
-  return nycAreas.filter(
-    (area) =>
-      !excludeAreas.includes(area.name) &&
-      characteristics.some(
-        (c) => area.characteristics.includes(c) || area.popularFor.includes(c),
-      ),
-  );
-}
-
-// Helper to get crowd level for a specific time
-export function getAreaCrowdLevel(
-  area: NYCArea,
-  timeOfDay: string,
-  isWeekend: boolean,
-): number {
-  if (isWeekend) return area.crowdLevels.weekend;
-
-  const hour = parseInt(timeOfDay.split(":")[0]);
-  if (hour < 12) return area.crowdLevels.morning;
-  if (hour < 17) return area.crowdLevels.afternoon;
-  return area.crowdLevels.evening;
+  return findAreas(nycAreas, characteristics, excludeAreas);
 }
 
 // Helper to find quiet areas
@@ -420,12 +398,89 @@ export function findQuietAreas(
   isWeekend: boolean,
   nearArea?: string,
 ): NYCArea[] {
-  const areas = nearArea
-    ? nycAreas.filter((a) => a.neighbors.includes(nearArea))
-    : nycAreas;
+  return findQuiet(nycAreas, timeOfDay, isWeekend, nearArea);
+}
+
+// Dictionary of neighborhood name variations and colloquial references
+export const nycNeighborhoodVariations: Record<string, string[]> = {
+  "Harlem": ["harlem", "uptown harlem", "upper harlem", "central harlem"],
+  "East Harlem": ["spanish harlem", "el barrio", "east harlem"],
+  "West Village": ["west village", "greenwich village west", "west village nyc"],
+  "Greenwich Village": ["greenwich village", "the village", "village"],
+  "SoHo": ["soho", "so ho", "south of houston"],
+  "TriBeCa": ["tribeca", "tri beca", "triangle below canal"],
+  "Financial District": ["fidi", "financial district", "wall street area"],
+  "Upper East Side": ["ues", "upper east side", "east side"],
+  "Upper West Side": ["uws", "upper west side", "west side"],
+  "Williamsburg": ["williamsburg", "billyburg", "north brooklyn"],
+  "Dumbo": ["dumbo", "down under manhattan bridge overpass"],
+  "Times Square": ["times square", "times sq", "broadway district", "theater district"],
+  "East Village": ["east village", "alphabet city", "lower east side north"],
+  "Midtown": ["midtown", "midtown manhattan", "central manhattan"],
+  "Chelsea": ["chelsea", "chelsea nyc", "west chelsea"],
+  "Lower East Side": ["les", "lower east side", "lower manhattan east"],
+  "Murray Hill": ["murray hill", "kips bay area", "midtown east"]
+};
+
+// Common subway stations that should always have "Station" appended
+export const nycStations: string[] = [
+  "Grand Central",
+  "Penn Station",
+  "Times Square",
+  "Union Square",
+  "World Trade Center",
+  "Atlantic Terminal",
+  "Columbus Circle",
+  "Herald Square",
+  "Bryant Park",
+  "Fulton Street",
+  "Canal Street",
+  "Wall Street",
+  "Chambers Street",
+  "Jay Street",
+  "Borough Hall",
+  "Rockefeller Center",
+  "14th Street",
+  "Lexington Avenue",
+  "34th Street"
+];
 
-  return areas.filter((area) => {
-    const crowdLevel = getAreaCrowdLevel(area, timeOfDay, isWeekend);
-    return crowdLevel <= 2; // Areas with low crowd levels
-  });
-}
\ No newline at end of file
+// Common misspellings and variants of NYC locations
+export const nycSpellingCorrections: Record<string, string> = {
+  'greenwhich': 'Greenwich',
+  'greenwich village': 'Greenwich Village',
+  'green village': 'Greenwich Village',
+  'times sq': 'Times Square',
+  'time square': 'Times Square',
+  'timesquare': 'Times Square',
+  'central pk': 'Central Park',
+  'soho': 'SoHo',
+  'williamsburg': 'Williamsburg',
+  'dumbo': 'DUMBO',
+  'down under manhattan bridge': 'DUMBO',
+  'downtown brooklyn': 'Downtown Brooklyn',
+  'upper east': 'Upper East Side',
+  'upper west': 'Upper West Side',
+  'west village': 'West Village',
+  'east village': 'East Village',
+  'financial district': 'Financial District',
+  'fin district': 'Financial District',
+  'fidi': 'Financial District',
+  'midtown': 'Midtown',
+  'mid town': 'Midtown',
+  'china town': 'Chinatown',
+  'chelsea': 'Chelsea',
+  'gramercy': 'Gramercy',
+  'gramercy park': 'Gramercy Park',
+  'hells kitchen': 'Hell\'s Kitchen',
+  'hell\'s kitchen': 'Hell\'s Kitchen',
+  'tribeca': 'Tribeca',
+  'little italy': 'Little Italy',
+  'nolita': 'NoLita',
+  'noho': 'NoHo',
+  'flatbush': 'Flatbush',
+  'brooklyn heights': 'Brooklyn Heights',
+  'park slope': 'Park Slope',
+  'grand central': 'Grand Central Station',
+  'penn sta': 'Penn Station'
+};
@@ -0,0 +1,115 @@
+/**
+ * Golden-query evaluation of request parsing
+ *
+ * Runs every query in server/eval/golden-queries.json through parseItineraryRequest and scores the
+ * results (see lib/nlpEval). Model replies come from server/eval/model-replies.json, so runs are
+ * repeatable and offline; API calls are replayed from fixtures unless API_PROVIDER_MODE says otherwise.
+ *
+ *   npx tsx server/evalNlp.ts                    Print the report and how it differs from the baseline
+ *   npx tsx server/evalNlp.ts --update-baseline  Save the report as the new baseline
+ *   npx tsx server/evalNlp.ts --record           Ask the configured models again and save their replies
+ *   npx tsx server/evalNlp.ts --verbose          Keep the parser's own logging
+ *   npx tsx server/evalNlp.ts --out report.txt   Also write the report to a file
+ *
+ * Exits with 1 when the report differs from the baseline.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { runEvaluation, formatReport, diffReports, type GoldenQuery } from './lib/nlpEval';
+import { createScriptedProvider, getLlmProviders, setLlmProviders, type LlmProvider } from './lib/llmProviders';
+import { parseItineraryRequest } from './lib/nlp-fixed';
+import { getCityPack } from './lib/cityPacks';
+
+const evalDir = path.resolve(process.cwd(), 'server', 'eval');
+const corpusPath = path.join(evalDir, 'golden-queries.json');
+const repliesPath = path.join(evalDir, 'model-replies.json');
+const baselinePath = path.join(evalDir, 'baseline-report.txt');
+
+// Wrap a live provider so the last reply to each query can be saved as a fixture
+function recordReplies(provider: LlmProvider, replies: Record<string, unknown>): LlmProvider {
+  return {
+    ...provider,
+    async generate(request) {
+      const response = await provider.generate(request);
+      try {
+        replies[request.userQuery] = JSON.parse(response.text);
+      } catch {
+        replies[request.userQuery] = response.text;
+      }
+      return response;
+    }
+  };
+}
+
+async function evalNlp() {
+  const args = process.argv.slice(2);
+  const record = args.includes('--record');
+  const corpus: GoldenQuery[] = JSON.parse(fs.readFileSync(corpusPath, 'utf-8'));
+  const replies: Record<string, unknown> = fs.existsSync(repliesPath)
+    ? JSON.parse(fs.readFileSync(repliesPath, 'utf-8'))
+    : {};
+
+  if (record) {
+    const providers = getLlmProviders();
+    if (providers.length === 0) {
+      console.error('No language model configured; set LLM_PROVIDERS and the API keys to record replies');
+      process.exit(1);
+    }
+    setLlmProviders(providers.map(provider => recordReplies(provider, replies)));
+  } else {
+    process.env.API_PROVIDER_MODE = process.env.API_PROVIDER_MODE || 'replay';
+    setLlmProviders([createScriptedProvider(replies, 'golden-fixtures')]);
+  }
+
+  // The parser logs every step; keep the report readable unless asked otherwise
+  const { log, info } = console;
+  if (!args.includes('--verbose')) {
+    console.log = () => {};
+    console.info = () => {};
+  }
+  const report = await runEvaluation(corpus, golden =>
+    parseItineraryRequest(golden.query, `eval-${golden.id}`, getCityPack(golden.city))
+  );
+  console.log = log;
+  console.info = info;
+  const text = formatReport(report);
+
+  if (record) {
+    fs.writeFileSync(repliesPath, `${JSON.stringify(replies, null, 2)}\n`);
+    console.log(`Saved model replies for ${corpus.length} queries to ${repliesPath}`);
+  }
+
+  console.log(text);
+
+  const outIndex = args.indexOf('--out');
+  if (outIndex !== -1 && args[outIndex + 1]) {
+    fs.writeFileSync(args[outIndex + 1], text);
+  }
+
+  if (args.includes('--update-baseline')) {
+    fs.writeFileSync(baselinePath, text);
+    console.log(`Saved the report as the baseline in ${baselinePath}`);
+    return;
+  }
+
+  if (!fs.existsSync(baselinePath)) {
+    console.log('No baseline yet; run with --update-baseline to save one');
+    return;
+  }
+  const changes = diffReports(fs.readFileSync(baselinePath, 'utf-8'), text);
+  if (changes.length === 0) {
+    console.log('Same as the baseline');
+    return;
+  }
+  console.log('Changes from the baseline:');
+  console.log(changes.join('\n'));
+  process.exitCode = 1;
+}
+
+evalNlp()
+  .then(() => process.exit())
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -2,12 +2,15 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { registerAiAdminRoutes } from "./lib/aiAdminRoutes";
+import { registerPlacesCacheAdminRoutes } from "./lib/placesCacheAdminRoutes";
+import { registerAuthAdminRoutes } from "./lib/authAdminRoutes";
 import session from 'express-session';
 import connectPgSimple from 'connect-pg-simple';
 import { pool } from './db';
 import authRoutes from './routes/auth';
 import configRoutes from './routes/config';
 import itinerariesRoutes from './routes/itineraries';
+import preferencesRoutes from './routes/preferences';
 import { attachCurrentUser } from './middleware/requireAuth';
 
 // Import config module
@@ -22,6 +25,14 @@ if (!process.env.SESSION_SECRET) {
 }
 
 const app = express();
+
+// Behind a load balancer or proxy, trust this many hops of X-Forwarded-For so req.ip
+// is the client's address; sign-in throttling counts failures per IP
+if (process.env.TRUST_PROXY) {
+  const hops = parseInt(process.env.TRUST_PROXY, 10);
+  app.set('trust proxy', Number.isNaN(hops) ? process.env.TRUST_PROXY : hops);
+}
+
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -52,6 +63,9 @@ app.use('/api/config', configRoutes);
 // Register itineraries routes
 app.use('/api/itineraries', itinerariesRoutes);
 
+// Register saved preference routes
+app.use('/api/preferences', preferencesRoutes);
+
 // Serve static files for Boston route
 app.use('/Boston', express.static('dist/public'));
 // Also serve at root for custom domain access
@@ -146,11 +160,25 @@ app.use((req, res, next) => {
             query TEXT NOT NULL,
             places JSONB NOT NULL,
             travel_times JSONB NOT NULL,
-            created TIMESTAMP NOT NULL DEFAULT NOW()
+            created TIMESTAMP NOT NULL DEFAULT NOW(),
+            session_id TEXT,
+            city TEXT NOT NULL DEFAULT 'boston',
+            timezone TEXT NOT NULL DEFAULT 'America/New_York',
+            days JSONB,
+            travel_modes JSONB,
+            is_public BOOLEAN NOT NULL DEFAULT false
           );
         `);
         
         console.log("Itineraries table created successfully.");
+      } else {
+        // Itineraries created before conversational refinement have no session column
+        await pool.query(`ALTER TABLE itineraries ADD COLUMN IF NOT EXISTS session_id TEXT;`);
+        // ...and plans made before multi-city support are all in Boston
+        await pool.query(`ALTER TABLE itineraries ADD COLUMN IF NOT EXISTS city TEXT NOT NULL DEFAULT 'boston';`);
+        await pool.query(`ALTER TABLE itineraries ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'America/New_York';`);
+        await pool.query(`ALTER TABLE itineraries ADD COLUMN IF NOT EXISTS days JSONB;`);
+        await pool.query(`ALTER TABLE itineraries ADD COLUMN IF NOT EXISTS travel_modes JSONB;`);
       }
       
       // Check if the users table exists
@@ -177,13 +205,80 @@ app.use((req, res, next) => {
             created_at TIMESTAMP NOT NULL DEFAULT NOW(),
             avatar_url TEXT,
             google_id TEXT UNIQUE,
-            auth_provider TEXT DEFAULT 'local'
+            auth_provider TEXT DEFAULT 'local',
+            role TEXT NOT NULL DEFAULT 'user',
+            email_verified BOOLEAN NOT NULL DEFAULT false
           );
         `);
         
         console.log("Users table created successfully.");
+      } else {
+        // Accounts made before admin roles are regular users; admins come from ADMIN_EMAILS
+        await pool.query(`ALTER TABLE users ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'user';`);
+        // Google has already checked the addresses of Google accounts; local accounts need a verification link
+        await pool.query(`ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verified BOOLEAN NOT NULL DEFAULT false;`);
+        await pool.query(`UPDATE users SET email_verified = true WHERE auth_provider = 'google' AND email_verified = false;`);
       }
       
+      // Check if the auth_tokens table exists
+      const authTokensCheck = await pool.query(`
+        SELECT EXISTS (
+          SELECT FROM information_schema.tables 
+          WHERE table_schema = 'public' 
+          AND table_name = 'auth_tokens'
+        );
+      `);
+      
+      if (!authTokensCheck.rows[0].exists) {
+        console.log("Auth tokens table does not exist, creating it now...");
+        
+        // Create the auth_tokens table
+        await pool.query(`
+          CREATE TABLE IF NOT EXISTS auth_tokens (
+            id SERIAL PRIMARY KEY,
+            user_id UUID NOT NULL REFERENCES users(id),
+            purpose TEXT NOT NULL,
+            token_hash TEXT NOT NULL UNIQUE,
+            expires_at TIMESTAMP NOT NULL,
+            used_at TIMESTAMP,
+            created_at TIMESTAMP NOT NULL DEFAULT NOW()
+          );
+        `);
+        
+        console.log("Auth tokens table created successfully.");
+      }
+      
+      // Saved preference profiles, one per user
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS user_preferences (
+          user_id UUID PRIMARY KEY REFERENCES users(id),
+          preferences JSONB NOT NULL,
+          updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+        );
+      `);
+      
+      // Sign-in throttling counters and the audit log admins read; user_id has no foreign key
+      // because entries outlive deleted accounts
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS auth_throttles (
+          key TEXT PRIMARY KEY,
+          failures INTEGER NOT NULL DEFAULT 0,
+          last_failure_at TIMESTAMP NOT NULL,
+          blocked_until TIMESTAMP
+        );
+      `);
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS auth_audit_log (
+          id SERIAL PRIMARY KEY,
+          event TEXT NOT NULL,
+          email TEXT,
+          user_id UUID,
+          ip TEXT NOT NULL,
+          reason TEXT,
+          created_at TIMESTAMP NOT NULL DEFAULT NOW()
+        );
+      `);
+      
       // Check if the user_itineraries table exists
       const userItinerariesCheck = await pool.query(`
         SELECT EXISTS (
@@ -204,11 +299,62 @@ app.use((req, res, next) => {
             id SERIAL PRIMARY KEY,
             user_id UUID NOT NULL REFERENCES users(id),
             itinerary_id INTEGER NOT NULL REFERENCES itineraries(id),
-            created_at TIMESTAMP NOT NULL DEFAULT NOW()
+            created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+            role TEXT NOT NULL DEFAULT 'owner'
           );
         `);
         
         console.log("User itineraries table created successfully.");
+      } else {
+        // Before sharing, every link was the itinerary's creator
+        await pool.query(`ALTER TABLE user_itineraries ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'owner';`);
+      }
+      
+      // Itineraries made before the public/private flag could be read by anyone
+      const visibilityCheck = await pool.query(`
+        SELECT EXISTS (
+          SELECT FROM information_schema.columns 
+          WHERE table_schema = 'public' 
+          AND table_name = 'itineraries'
+          AND column_name = 'is_public'
+        );
+      `);
+      
+      if (!visibilityCheck.rows[0].exists) {
+        await pool.query(`ALTER TABLE itineraries ADD COLUMN is_public BOOLEAN NOT NULL DEFAULT false;`);
+        // Plans made without an account have nobody who could open them privately, so they stay public
+        await pool.query(`
+          UPDATE itineraries SET is_public = true
+          WHERE NOT EXISTS (SELECT 1 FROM user_itineraries WHERE user_itineraries.itinerary_id = itineraries.id);
+        `);
+      }
+      
+      // Check if the stop_votes table exists
+      const stopVotesCheck = await pool.query(`
+        SELECT EXISTS (
+          SELECT FROM information_schema.tables 
+          WHERE table_schema = 'public' 
+          AND table_name = 'stop_votes'
+        );
+      `);
+      
+      if (!stopVotesCheck.rows[0].exists) {
+        console.log("Stop votes table does not exist, creating it now...");
+        
+        // Create the stop_votes table
+        await pool.query(`
+          CREATE TABLE IF NOT EXISTS stop_votes (
+            id SERIAL PRIMARY KEY,
+            itinerary_id INTEGER NOT NULL REFERENCES itineraries(id),
+            user_id UUID NOT NULL REFERENCES users(id),
+            stop_place_id TEXT NOT NULL,
+            place_id TEXT NOT NULL,
+            created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+            UNIQUE (itinerary_id, user_id, stop_place_id)
+          );
+        `);
+        
+        console.log("Stop votes table created successfully.");
       }
       
       // Check if the sessions table exists
@@ -251,6 +397,8 @@ app.use((req, res, next) => {
 
   // Register AI admin routes
   registerAiAdminRoutes(app);
+  registerPlacesCacheAdminRoutes(app);
+  registerAuthAdminRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -6,28 +6,19 @@
 
 import { Express, Request, Response } from 'express';
 import { db } from '../db';
-import { sql } from 'drizzle-orm';
+import { requireAdmin } from '../middleware/requireAuth';
+import { and, sql } from 'drizzle-orm';
 import { aiInteractions } from './aiLogging';
+import { comparePromptVersions } from './promptTemplates';
+import { replayRequestSchema, replayInteractions, notReplayed } from './aiReplay';
 import { count } from 'drizzle-orm';
 import fs from 'fs';
 import path from 'path';
 
 /**
  * Register admin routes for AI analytics and debugging 
+ * Every route requires a logged-in user with the admin role
  */
-function isAdmin(req: Request): boolean {
-  // Check if user has admin role from Replit headers
-  const roles = req.headers['x-replit-user-roles'];
-  return roles?.includes('admin') || false;
-}
-
-function requireAdmin(req: Request, res: Response, next: NextFunction) {
-  if (!isAdmin(req)) {
-    return res.status(403).json({ error: 'Unauthorized' });
-  }
-  next();
-}
-
 export function registerAiAdminRoutes(app: Express): void {
   // Get all AI logs (paginated, most recent first)
   app.get('/api/admin/ai-logs', requireAdmin, async (req: Request, res: Response) => {
@@ -74,8 +65,28 @@ export function registerAiAdminRoutes(app: Express): void {
     }
   });
   
+  // Download log file (registered before /:id, which would otherwise match it)
+  app.get('/api/admin/ai-logs/file', requireAdmin, (req: Request, res: Response) => {
+    try {
+      const logPath = path.join('logs', 'ai-interactions.log');
+      
+      if (!fs.existsSync(logPath)) {
+        return res.status(404).json({ error: 'Log file not found' });
+      }
+      
+      res.setHeader('Content-Type', 'text/plain');
+      res.setHeader('Content-Disposition', 'attachment; filename="ai-interactions.log"');
+      
+      const fileStream = fs.createReadStream(logPath);
+      fileStream.pipe(res);
+    } catch (error) {
+      console.error('Error downloading log file:', error);
+      res.status(500).json({ error: 'Failed to download log file' });
+    }
+  });
+  
   // Get a specific log by ID
-  app.get('/api/admin/ai-logs/:id', async (req: Request, res: Response) => {
+  app.get('/api/admin/ai-logs/:id', requireAdmin, async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       
@@ -101,7 +112,7 @@ export function registerAiAdminRoutes(app: Express): void {
   });
   
   // Get all logs for a specific session
-  app.get('/api/admin/ai-logs/session/:sessionId', async (req: Request, res: Response) => {
+  app.get('/api/admin/ai-logs/session/:sessionId', requireAdmin, async (req: Request, res: Response) => {
     try {
       const sessionId = req.params.sessionId;
       
@@ -122,8 +133,8 @@ export function registerAiAdminRoutes(app: Express): void {
     }
   });
   
-  // Get statistics about AI usage
-  app.get('/api/admin/ai-stats', async (req: Request, res: Response) => {
+  // Get statistics about AI usage; calls made by replays aren't counted
+  app.get('/api/admin/ai-stats', requireAdmin, async (req: Request, res: Response) => {
     try {
       // Count by status
       const statusCounts = await db
@@ -132,6 +143,7 @@ export function registerAiAdminRoutes(app: Express): void {
           count: count()
         })
         .from(aiInteractions)
+        .where(notReplayed)
         .groupBy(aiInteractions.status);
       
       // Count by model
@@ -141,6 +153,7 @@ export function registerAiAdminRoutes(app: Express): void {
           count: count()
         })
         .from(aiInteractions)
+        .where(notReplayed)
         .groupBy(aiInteractions.modelName);
       
       // Average processing time
@@ -149,7 +162,7 @@ export function registerAiAdminRoutes(app: Express): void {
           avg: sql<number>`AVG(processing_time_ms)`
         })
         .from(aiInteractions)
-        .where(sql`processing_time_ms IS NOT NULL`);
+        .where(and(sql`processing_time_ms IS NOT NULL`, notReplayed));
       
       // Count by day (last 7 days)
       const lastWeekLogs = await db
@@ -158,15 +171,30 @@ export function registerAiAdminRoutes(app: Express): void {
           count: count()
         })
         .from(aiInteractions)
-        .where(sql`timestamp > NOW() - INTERVAL '7 days'`)
+        .where(and(sql`timestamp > NOW() - INTERVAL '7 days'`, notReplayed))
         .groupBy(sql`DATE(timestamp)`)
         .orderBy(sql`DATE(timestamp)`);
       
+      // Results per prompt version, to compare a candidate prompt with the current one
+      const promptVersionCounts = await db
+        .select({
+          promptVersion: aiInteractions.promptVersion,
+          attempts: sql<number>`COUNT(*)::int`,
+          successes: sql<number>`(COUNT(*) FILTER (WHERE status = 'success'))::int`,
+          validationFailures: sql<number>`(COUNT(*) FILTER (WHERE error_details LIKE 'Schema validation error%' OR error_details LIKE 'JSON parsing error%'))::int`,
+          averageLatencyMs: sql<number | null>`AVG(processing_time_ms)::float`
+        })
+        .from(aiInteractions)
+        .where(and(sql`prompt_version IS NOT NULL`, notReplayed))
+        .groupBy(aiInteractions.promptVersion)
+        .orderBy(aiInteractions.promptVersion);
+      
       res.json({
         statusCounts,
         modelCounts,
         averageProcessingTime: avgProcessingTime[0]?.avg || 0,
-        lastWeekActivity: lastWeekLogs
+        lastWeekActivity: lastWeekLogs,
+        promptVersions: comparePromptVersions(promptVersionCounts)
       });
     } catch (error) {
       console.error('Error fetching AI statistics:', error);
@@ -174,23 +202,18 @@ export function registerAiAdminRoutes(app: Express): void {
     }
   });
   
-  // Download log file
-  app.get('/api/admin/ai-logs/file', (req: Request, res: Response) => {
+  // Replay logged request parsing through the current pipeline (or the models again) and show what changed
+  app.post('/api/admin/ai-replay', requireAdmin, async (req: Request, res: Response) => {
+    const validation = replayRequestSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({ error: 'Invalid input', details: validation.error.format() });
+    }
+    
     try {
-      const logPath = path.join('logs', 'ai-interactions.log');
-      
-      if (!fs.existsSync(logPath)) {
-        return res.status(404).json({ error: 'Log file not found' });
-      }
-      
-      res.setHeader('Content-Type', 'text/plain');
-      res.setHeader('Content-Disposition', 'attachment; filename="ai-interactions.log"');
-      
-      const fileStream = fs.createReadStream(logPath);
-      fileStream.pipe(res);
+      res.json(await replayInteractions(validation.data));
     } catch (error) {
-      console.error('Error downloading log file:', error);
-      res.status(500).json({ error: 'Failed to download log file' });
+      console.error('Error replaying AI interactions:', error);
+      res.status(500).json({ error: 'Failed to replay AI interactions' });
     }
   });
-}
\ No newline at end of file
+}
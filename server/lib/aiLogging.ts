@@ -9,6 +9,7 @@
 import { db } from '../db';
 import { pgTable, serial, text, timestamp, jsonb, integer } from 'drizzle-orm/pg-core';
 import { createInsertSchema } from 'drizzle-zod';
+import { sql } from 'drizzle-orm';
 import { z } from 'zod';
 import { v4 as uuidv4 } from 'uuid';
 import winston from 'winston';
@@ -44,6 +45,7 @@ export const aiInteractions = pgTable("ai_interactions", {
   timestamp: timestamp("timestamp", { withTimezone: true }).defaultNow(),
   userQuery: text("user_query").notNull(),
   modelName: text("model_name").notNull(),
+  promptVersion: text("prompt_version"),
   rawRequest: jsonb("raw_request"),
   rawResponse: text("raw_response"),
   parsedResponse: jsonb("parsed_response"),
@@ -69,6 +71,7 @@ export async function logAiInteraction(data: {
   sessionId: string;
   userQuery: string;
   modelName: string;
+  promptVersion?: string;
   rawRequest?: any;
   rawResponse?: string;
   parsedResponse?: any;
@@ -94,6 +97,7 @@ export async function logAiInteraction(data: {
         sessionId: data.sessionId,
         userQuery: data.userQuery,
         modelName: data.modelName,
+        promptVersion: data.promptVersion || null,
         rawRequest: data.rawRequest ? data.rawRequest : null,
         rawResponse: data.rawResponse || null,
         parsedResponse: data.parsedResponse ? data.parsedResponse : null,
@@ -112,6 +116,27 @@ export async function logAiInteraction(data: {
   }
 }
 
+/**
+ * Keep the request the app made from the latest successful interaction for a query in metaData.pipelineResult,
+ * so replaying the interaction later can show what changed
+ */
+export async function recordPipelineResult(sessionId: string, userQuery: string, result: unknown): Promise<void> {
+  try {
+    await db.execute(sql`
+      UPDATE ai_interactions
+      SET meta_data = COALESCE(meta_data, '{}'::jsonb) || jsonb_build_object('pipelineResult', ${JSON.stringify(result)}::jsonb)
+      WHERE id = (
+        SELECT id FROM ai_interactions
+        WHERE session_id = ${sessionId} AND user_query = ${userQuery} AND status = 'success'
+        ORDER BY id DESC
+        LIMIT 1
+      )
+    `);
+  } catch (error) {
+    console.error('Failed to record the pipeline result of an AI interaction:', error);
+  }
+}
+
 /**
  * Create a session ID for tracking interactions in a conversation
  */
@@ -0,0 +1,233 @@
+/**
+ * AI Replay Module
+ *
+ * Re-runs logged request parsing against the current code, to catch regressions before deploy:
+ * - stored: the logged model reply goes through the current validation, conversion
+ *   (convertGeminiToAppFormat) and location normalization, without asking a model
+ * - requery: the logged query is sent to the configured models again, with the logged prompt version;
+ *   these calls are logged as turn "replay" and left out of stats and later replays
+ *
+ * Each result is compared with the request the app made when the interaction was logged
+ * (metaData.pipelineResult), field by field. Interactions logged before that was recorded are
+ * compared on the model reply instead: the logged parsedResponse and the replayed reply, both
+ * through the current processing.
+ */
+
+import { z } from 'zod';
+import { and, desc, eq, gte, ilike, sql, type SQL } from 'drizzle-orm';
+import type { StructuredRequest } from '@shared/types';
+import { db } from '../db';
+import { aiInteractions, type AiInteraction } from './aiLogging';
+import { processWithGemini, structureModelReply, structureLoggedReply, type StructuredRequest as ModelReply } from './geminiProcessor';
+import { buildRequestFromModelResult } from './nlp-fixed';
+import { getCityPack } from './cityPacks';
+
+export const REPLAY_MODES = ['stored', 'requery'] as const;
+export type ReplayMode = typeof REPLAY_MODES[number];
+
+// metaData.turn of interactions logged by requery replays
+export const REPLAY_TURN = 'replay';
+
+// Leaves out interactions logged by requery replays, so they don't count as traffic
+export const notReplayed = sql`${aiInteractions.metaData}->>'turn' IS DISTINCT FROM ${REPLAY_TURN}`;
+
+export const replayRequestSchema = z.object({
+  sessionId: z.string().min(1).optional(),
+  model: z.string().min(1).optional(),
+  promptVersion: z.string().min(1).optional(),
+  query: z.string().min(1).optional(),           // Part of the user's query, any case
+  since: z.coerce.date().optional(),
+  status: z.enum(['success', 'error']).default('success'),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  mode: z.enum(REPLAY_MODES).default('stored'),
+  city: z.string().min(1).optional()             // For interactions logged before their city was recorded
+});
+
+export type ReplayRequest = z.infer<typeof replayRequestSchema>;
+
+export interface ValueChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ReplayResult {
+  interactionId: number;
+  sessionId: string;
+  userQuery: string;
+  loggedAt: Date | null;
+  city: string;
+  compared: 'pipeline' | 'reply' | null;          // What the changes are between, if anything was logged to compare with
+  before: StructuredRequest | ModelReply | null;  // The logged pipeline result, else the logged model reply
+  after: StructuredRequest | null;
+  reply: ModelReply | null;                       // Model reply the new result was made from
+  changes: ValueChange[];
+  error?: string;
+}
+
+export interface ReplayReport {
+  mode: ReplayMode;
+  replayed: number;
+  changed: number;
+  unchanged: number;
+  failed: number;
+  notRecorded: number;   // Logged without a result or reply to compare with
+  results: ReplayResult[];
+}
+
+/**
+ * Logged request parsing interactions matching a filter, most recent first
+ * Plan refinement turns are left out, as they aren't request parsing, and so are earlier replays
+ */
+export async function findInteractions(request: ReplayRequest): Promise<AiInteraction[]> {
+  const conditions: SQL[] = [
+    eq(aiInteractions.status, request.status),
+    sql`${aiInteractions.metaData}->>'turn' IS DISTINCT FROM 'refinement'`,
+    notReplayed
+  ];
+  if (request.mode === 'stored') conditions.push(sql`${aiInteractions.rawResponse} IS NOT NULL`);
+  if (request.sessionId) conditions.push(eq(aiInteractions.sessionId, request.sessionId));
+  if (request.model) conditions.push(eq(aiInteractions.modelName, request.model));
+  if (request.promptVersion) conditions.push(eq(aiInteractions.promptVersion, request.promptVersion));
+  if (request.query) conditions.push(ilike(aiInteractions.userQuery, `%${request.query}%`));
+  if (request.since) conditions.push(gte(aiInteractions.timestamp, request.since));
+
+  return db
+    .select()
+    .from(aiInteractions)
+    .where(and(...conditions))
+    .orderBy(desc(aiInteractions.timestamp))
+    .limit(request.limit);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Field-by-field differences between two JSON values, e.g. { path: "fixedTimes[0].type", before: "attraction", after: "restaurant" }
+ * Missing and undefined fields count as the same
+ */
+export function diffValues(before: unknown, after: unknown, path: string = ''): ValueChange[] {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: ValueChange[] = [];
+    for (let index = 0; index < Math.max(before.length, after.length); index++) {
+      changes.push(...diffValues(before[index], after[index], `${path}[${index}]`));
+    }
+    return changes;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+    return keys.flatMap(key => diffValues(before[key], after[key], path ? `${path}.${key}` : key));
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+  return [{ path: path || '(root)', before, after }];
+}
+
+// The shape a value has once stored as JSON, so fresh results compare equal to logged ones
+function asJson<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Replay one logged interaction
+ *
+ * @param interaction Logged interaction
+ * @param mode Whether to reuse the logged reply or ask the models again
+ * @param cityOverride City to use when the interaction doesn't say which city it was for
+ */
+export async function replayInteraction(
+  interaction: AiInteraction,
+  mode: ReplayMode,
+  cityOverride?: string
+): Promise<ReplayResult> {
+  const metaData = (interaction.metaData || {}) as Record<string, any>;
+  const pipelineResult = (metaData.pipelineResult as StructuredRequest | undefined) ?? null;
+  const result: ReplayResult = {
+    interactionId: interaction.id,
+    sessionId: interaction.sessionId,
+    userQuery: interaction.userQuery,
+    loggedAt: interaction.timestamp,
+    city: metaData.city || cityOverride || getCityPack().id,
+    compared: pipelineResult ? 'pipeline' : interaction.parsedResponse ? 'reply' : null,
+    before: pipelineResult,
+    after: null,
+    reply: null,
+    changes: []
+  };
+
+  try {
+    const city = getCityPack(result.city);
+    const modelResult = mode === 'stored'
+      ? structureModelReply(interaction.userQuery, interaction.rawResponse || '', city)
+      : await processWithGemini(interaction.userQuery, `replay-${interaction.sessionId}`, city, {
+          promptVersion: interaction.promptVersion || undefined,
+          metaData: { turn: REPLAY_TURN, replayOf: interaction.id }
+        });
+    if (!modelResult) {
+      throw new Error('No language model could parse the query');
+    }
+    result.reply = asJson(modelResult);
+
+    if (result.compared === 'reply') {
+      result.before = asJson(structureLoggedReply(interaction.userQuery, interaction.parsedResponse, city));
+      result.changes = diffValues(result.before, result.reply);
+    }
+    result.after = asJson(await buildRequestFromModelResult(modelResult, city));
+    if (result.compared === 'pipeline') {
+      result.changes = diffValues(result.before, result.after);
+    }
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+
+  return result;
+}
+
+/**
+ * Replay every logged interaction matching a request and count what changed
+ */
+export async function replayInteractions(request: ReplayRequest): Promise<ReplayReport> {
+  const interactions = await findInteractions(request);
+  const results: ReplayResult[] = [];
+  for (const interaction of interactions) {
+    results.push(await replayInteraction(interaction, request.mode, request.city));
+  }
+
+  const compared = results.filter(result => !result.error && result.compared);
+  return {
+    mode: request.mode,
+    replayed: results.length,
+    changed: compared.filter(result => result.changes.length > 0).length,
+    unchanged: compared.filter(result => result.changes.length === 0).length,
+    failed: results.filter(result => result.error).length,
+    notRecorded: results.filter(result => !result.error && !result.compared).length,
+    results
+  };
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? '(none)' : JSON.stringify(value);
+}
+
+/**
+ * A replay result as text, one line per changed field
+ */
+export function formatReplayResult(result: ReplayResult): string {
+  const lines = [`#${result.interactionId} "${result.userQuery}" (session ${result.sessionId}, ${result.city})`];
+  if (result.compared === 'reply') {
+    lines.push('  compared on the model reply, as no pipeline result was logged');
+  }
+  if (result.error) {
+    lines.push(`  failed: ${result.error}`);
+  } else if (!result.compared) {
+    lines.push('  nothing was recorded to compare with');
+  } else if (result.changes.length === 0) {
+    lines.push('  no changes');
+  } else {
+    lines.push(...result.changes.map(change => `  ${change.path}: ${formatValue(change.before)} -> ${formatValue(change.after)}`));
+  }
+  return lines.join('\n');
+}
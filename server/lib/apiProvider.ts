@@ -0,0 +1,120 @@
+/**
+ * API Provider Module
+ *
+ * All HTTP calls to Google Maps and the weather API go through here so they can run in one of three modes
+ * (API_PROVIDER_MODE):
+ * - live (default): requests go straight to the network
+ * - record: requests go to the network and each response is saved as a fixture file
+ * - replay: responses are served from fixture files and the network is never touched
+ *
+ * Fixtures live in API_FIXTURES_DIR (default server/fixtures), one JSON file per request,
+ * named after a hash of the request URL with API keys removed, so recordings made with
+ * one key replay with any other (or a placeholder).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+export type ApiService = 'places' | 'geocoding' | 'directions' | 'weather';
+export type ApiProviderMode = 'live' | 'record' | 'replay';
+
+// Query parameters carrying credentials, which never end up in fixtures
+const SECRET_PARAMS = ['key', 'appid'];
+
+export interface ApiFixture {
+  service: ApiService;
+  request: string;     // Request URL with credentials removed
+  status: number;
+  body: unknown;
+  recordedAt: string;
+}
+
+export class MissingFixtureError extends Error {
+  constructor(service: ApiService, request: string, public fixturePath: string) {
+    super(`No recorded ${service} response for ${request} (expected ${fixturePath}). Run with API_PROVIDER_MODE=record to capture it.`);
+    this.name = 'MissingFixtureError';
+  }
+}
+
+export function getApiProviderMode(): ApiProviderMode {
+  const mode = process.env.API_PROVIDER_MODE;
+  return mode === 'record' || mode === 'replay' ? mode : 'live';
+}
+
+function getFixturesDir(): string {
+  return process.env.API_FIXTURES_DIR || path.resolve(process.cwd(), 'server', 'fixtures');
+}
+
+/**
+ * Remove credentials from a request URL and sort its parameters,
+ * so the same request always maps to the same fixture
+ */
+export function redactRequestUrl(url: string): string {
+  const parsed = new URL(url);
+  SECRET_PARAMS.forEach(name => parsed.searchParams.delete(name));
+  parsed.searchParams.sort();
+  return parsed.toString();
+}
+
+export function getFixturePath(service: ApiService, url: string): string {
+  const hash = crypto.createHash('sha1').update(redactRequestUrl(url)).digest('hex').slice(0, 16);
+  return path.join(getFixturesDir(), service, `${hash}.json`);
+}
+
+/**
+ * Save a response as a fixture
+ */
+export function saveFixture(service: ApiService, url: string, status: number, body: unknown): string {
+  const fixturePath = getFixturePath(service, url);
+  const fixture: ApiFixture = {
+    service,
+    request: redactRequestUrl(url),
+    status,
+    body,
+    recordedAt: new Date().toISOString()
+  };
+
+  fs.mkdirSync(path.dirname(fixturePath), { recursive: true });
+  fs.writeFileSync(fixturePath, JSON.stringify(fixture, null, 2));
+  return fixturePath;
+}
+
+function toResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * Fetch a JSON API response according to the current provider mode
+ *
+ * @param service Which API the request goes to (fixtures are grouped by service)
+ * @param url Full request URL, including credentials
+ * @returns A Response, so callers handle live and recorded responses the same way
+ */
+export async function providerFetch(service: ApiService, url: string): Promise<Response> {
+  const mode = getApiProviderMode();
+
+  if (mode === 'replay') {
+    const fixturePath = getFixturePath(service, url);
+    if (!fs.existsSync(fixturePath)) {
+      throw new MissingFixtureError(service, redactRequestUrl(url), fixturePath);
+    }
+
+    const fixture: ApiFixture = JSON.parse(fs.readFileSync(fixturePath, 'utf-8'));
+    return toResponse(fixture.status, fixture.body);
+  }
+
+  const response = await fetch(url);
+  if (mode === 'live') {
+    return response;
+  }
+
+  // The body can only be read once, so record it and hand back a copy
+  const body = await response.json();
+  const fixturePath = saveFixture(service, url, response.status, body);
+  console.log(`Recorded ${service} response to ${fixturePath}`);
+  return toResponse(response.status, body);
+}
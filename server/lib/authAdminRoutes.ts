@@ -0,0 +1,60 @@
+/**
+ * Auth Admin Routes
+ *
+ * This module provides admin API endpoints for the sign-in audit log and for lifting lockouts.
+ */
+
+import { Express, Request, Response } from 'express';
+import { storage } from '../storage';
+import { requireAdmin } from '../middleware/requireAuth';
+import { throttleKey } from './loginThrottle';
+
+/**
+ * Register admin routes for sign-in throttling
+ */
+export function registerAuthAdminRoutes(app: Express): void {
+  // Failed and blocked sign-in and registration attempts (paginated, most recent first)
+  app.get('/api/admin/auth-audit', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const page = parseInt(req.query.page as string) || 0;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+      const { entries, totalCount } = await storage.getAuthAuditLog({
+        email: req.query.email as string | undefined,
+        ip: req.query.ip as string | undefined,
+        limit,
+        offset: page * limit
+      });
+
+      res.json({ totalCount, page, limit, entries });
+    } catch (error) {
+      console.error('Error fetching auth audit log:', error);
+      res.status(500).json({ error: 'Failed to fetch auth audit log' });
+    }
+  });
+
+  // Lift the backoff or lockout on an account, an IP, or both
+  app.delete('/api/admin/auth-lockouts', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const email = req.query.email as string | undefined;
+      const ip = req.query.ip as string | undefined;
+      if (!email && !ip) {
+        return res.status(400).json({
+          error: 'Missing filter',
+          message: 'Give an email, an ip, or both'
+        });
+      }
+
+      const keys = [
+        ...(email ? [throttleKey('account', email)] : []),
+        ...(ip ? [throttleKey('ip', ip), throttleKey('registration', ip)] : [])
+      ];
+      const cleared = await Promise.all(keys.map(key => storage.clearAuthThrottle(key)));
+
+      res.json({ cleared: keys.filter((_key, i) => cleared[i]) });
+    } catch (error) {
+      console.error('Error clearing auth lockouts:', error);
+      res.status(500).json({ error: 'Failed to clear auth lockouts' });
+    }
+  });
+}
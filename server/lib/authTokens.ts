@@ -0,0 +1,60 @@
+/**
+ * Auth Tokens Module
+ *
+ * Tokens for the links in password reset and email verification emails.
+ * Tokens are random and only their SHA-256 hash is stored, so a leaked database can't be used
+ * to reset passwords. Each token expires and can only be used once.
+ */
+
+import crypto from 'crypto';
+import type { AuthTokenPurpose, InsertAuthToken } from '@shared/schema';
+
+// How long each kind of link works for
+export const AUTH_TOKEN_TTL_MINUTES: Record<AuthTokenPurpose, number> = {
+  password_reset: 60,
+  email_verification: 24 * 60
+};
+
+/**
+ * Hash a token the way it is stored
+ */
+export function hashAuthToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Create a token for a user
+ *
+ * @param userId User the link is for
+ * @param purpose What the link lets its holder do
+ * @param now Current time, for tests
+ * @returns The token to put in the link, and the record to store
+ */
+export function createAuthToken(
+  userId: string,
+  purpose: AuthTokenPurpose,
+  now: Date = new Date()
+): { token: string; record: InsertAuthToken } {
+  const token = crypto.randomBytes(32).toString('base64url');
+  return {
+    token,
+    record: {
+      userId,
+      purpose,
+      tokenHash: hashAuthToken(token),
+      expiresAt: new Date(now.getTime() + AUTH_TOKEN_TTL_MINUTES[purpose] * 60 * 1000)
+    }
+  };
+}
+
+/**
+ * Build the link a token is sent in
+ *
+ * @param origin Site the link points to, e.g. https://planner.example.com
+ * @param purpose Decides the page the link opens
+ * @param token The token from createAuthToken
+ */
+export function buildAuthLink(origin: string, purpose: AuthTokenPurpose, token: string): string {
+  const page = purpose === 'password_reset' ? 'reset-password' : 'verify-email';
+  return `${origin}/${page}?token=${encodeURIComponent(token)}`;
+}
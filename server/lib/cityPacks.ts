@@ -0,0 +1,181 @@
+/**
+ * City Packs Module
+ *
+ * Everything the planner knows about a city lives in one pack, so a single
+ * deployment can plan days in any registered city:
+ * - Areas with their character, neighbors and crowd levels
+ * - Neighborhood nicknames, transit stations and common misspellings
+ * - Timezone, currency, bounding box and the context added to geocoding queries
+ *
+ * Requests pick a city with a `city` parameter (an id or alias such as "nyc");
+ * anything that doesn't name a city uses Boston.
+ */
+
+import type { CityArea } from "../data/areas";
+import {
+  bostonAreas,
+  bostonNeighborhoodVariations,
+  bostonStations,
+  bostonSpellingCorrections
+} from "../data/boston-areas";
+import {
+  nycAreas,
+  nycNeighborhoodVariations,
+  nycStations,
+  nycSpellingCorrections
+} from "../data/new-york-areas";
+import {
+  londonAreas,
+  londonNeighborhoodVariations,
+  londonStations,
+  londonSpellingCorrections
+} from "../data/london-areas";
+
+export type { CityArea };
+
+export interface CityPack {
+  id: string;
+  name: string;                  // Display name, also used to spot queries that already name the city
+  aliases: string[];             // Other ways requests may name the city
+  geocodeContext: string;        // Appended to geocoding and search queries, e.g. "Boston, MA, USA"
+  regionCode: string;            // Google region bias (ccTLD)
+  localities: string[];          // Geocoder locality names that count as inside the city
+  timezone: string;
+  currency: string;              // ISO 4217 code
+  priceScale: number;            // Typical prices in the city's currency for one US dollar of Boston prices
+  center: { lat: number; lng: number };
+  bounds: { north: number; south: number; east: number; west: number };
+  defaultArea: string;           // Used when a request doesn't say where an activity should be
+  transitName: string;           // What locals call the transit system, used in station searches
+  areas: CityArea[];
+  neighborhoodVariations: Record<string, string[]>;
+  stations: string[];
+  spellingCorrections: Record<string, string>;
+}
+
+export const DEFAULT_CITY_ID = "boston";
+
+const cityPacks: CityPack[] = [
+  {
+    id: "boston",
+    name: "Boston",
+    aliases: ["boston, ma", "bos"],
+    geocodeContext: "Boston, MA, USA",
+    regionCode: "us",
+    localities: ["Boston", "Cambridge", "Somerville", "Brookline"],
+    timezone: "America/New_York",
+    currency: "USD",
+    priceScale: 1,
+    center: { lat: 42.3601, lng: -71.0589 },
+    bounds: { north: 42.40, south: 42.23, east: -70.99, west: -71.19 },
+    defaultArea: "Downtown",
+    transitName: "T Station",
+    areas: bostonAreas,
+    neighborhoodVariations: bostonNeighborhoodVariations,
+    stations: bostonStations,
+    spellingCorrections: bostonSpellingCorrections
+  },
+  {
+    id: "nyc",
+    name: "New York",
+    aliases: ["new york city", "new-york", "ny", "manhattan"],
+    geocodeContext: "New York, NY, USA",
+    regionCode: "us",
+    localities: ["New York", "Manhattan", "Brooklyn", "Queens", "Bronx", "Staten Island"],
+    timezone: "America/New_York",
+    currency: "USD",
+    priceScale: 1.2,
+    center: { lat: 40.7580, lng: -73.9855 },
+    bounds: { north: 40.92, south: 40.49, east: -73.70, west: -74.26 },
+    defaultArea: "Midtown",
+    transitName: "Subway Station",
+    areas: nycAreas,
+    neighborhoodVariations: nycNeighborhoodVariations,
+    stations: nycStations,
+    spellingCorrections: nycSpellingCorrections
+  },
+  {
+    id: "london",
+    name: "London",
+    aliases: ["london, uk", "ldn"],
+    geocodeContext: "London, UK",
+    regionCode: "uk",
+    localities: ["London"],
+    timezone: "Europe/London",
+    currency: "GBP",
+    priceScale: 0.9,
+    center: { lat: 51.5074, lng: -0.1278 },
+    bounds: { north: 51.69, south: 51.28, east: 0.33, west: -0.51 },
+    defaultArea: "Soho",
+    transitName: "Underground Station",
+    areas: londonAreas,
+    neighborhoodVariations: londonNeighborhoodVariations,
+    stations: londonStations,
+    spellingCorrections: londonSpellingCorrections
+  }
+];
+
+/**
+ * Find the pack for a city id, name or alias
+ *
+ * @returns The matching pack, or undefined if the city isn't registered
+ */
+export function findCityPack(city: string): CityPack | undefined {
+  const normalized = city.trim().toLowerCase();
+  return cityPacks.find(pack =>
+    pack.id === normalized ||
+    pack.name.toLowerCase() === normalized ||
+    pack.aliases.includes(normalized)
+  );
+}
+
+/**
+ * Get the pack for a city, falling back to the default city when none is given
+ *
+ * @throws Error if a city is given but isn't registered
+ */
+export function getCityPack(city?: string | null): CityPack {
+  if (!city) {
+    return findCityPack(DEFAULT_CITY_ID)!;
+  }
+
+  const pack = findCityPack(city);
+  if (!pack) {
+    throw new Error(`Unsupported city "${city}". Available cities: ${cityPacks.map(p => p.name).join(", ")}`);
+  }
+  return pack;
+}
+
+export function listCityPacks(): CityPack[] {
+  return [...cityPacks];
+}
+
+/**
+ * Register an additional city (or replace one with the same id)
+ */
+export function registerCityPack(pack: CityPack): void {
+  const index = cityPacks.findIndex(existing => existing.id === pack.id);
+  if (index === -1) {
+    cityPacks.push(pack);
+  } else {
+    cityPacks[index] = pack;
+  }
+}
+
+/**
+ * Check whether coordinates fall inside a city's bounding box
+ */
+export function isInCity(pack: CityPack, location: { lat: number; lng: number }): boolean {
+  const { north, south, east, west } = pack.bounds;
+  return location.lat <= north && location.lat >= south && location.lng <= east && location.lng >= west;
+}
+
+/**
+ * Whether a location is just the city itself or its default area, rather than a specific place
+ */
+export function isGenericLocation(pack: CityPack, location: string | null | undefined): boolean {
+  if (!location) return true;
+  const normalized = location.trim().toLowerCase();
+  const generic = [pack.name, pack.defaultArea, `${pack.defaultArea} ${pack.name}`, ...pack.aliases];
+  return generic.some(name => name.toLowerCase() === normalized);
+}
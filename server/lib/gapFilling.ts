@@ -0,0 +1,261 @@
+/**
+ * Gap Filling Module
+ *
+ * This module proposes venues for free windows between scheduled stops:
+ * - Only windows longer than a threshold are considered
+ * - Suggestions must be close to both the stop before and the stop after
+ * - Venue types follow the day part and the user's interests
+ * - Quiet areas are preferred when the user wants to avoid crowds
+ */
+
+import { formatInTimeZone } from 'date-fns-tz';
+import type { PlaceDetails } from "@shared/schema";
+import type { StructuredRequest } from "@shared/types";
+import { searchPlace } from "./googlePlaces";
+import { calculateTravelTime } from "./itinerary";
+import { haversineDistance, type LatLng, type TravelMode } from "./routing";
+import { getTypicalDuration } from "./scheduler";
+import { getDayPart, type DayPart } from "./timeUtils";
+import { findQuietAreas } from "../data/areas";
+import { getCityPack, type CityPack } from "./cityPacks";
+
+// Windows shorter than this are left free
+export const MIN_GAP_MINUTES = 90;
+
+// Suggestions may add at most this much distance compared with going straight between the stops
+export const MAX_DETOUR_METERS = 1500;
+
+// Don't suggest anything shorter than this
+const MIN_SUGGESTED_VISIT_MINUTES = 30;
+
+// Number of candidate venues we check travel times for before giving up on a gap
+const MAX_CANDIDATES_CHECKED = 3;
+
+export interface GapStop {
+  place: PlaceDetails;
+  time: Date;
+  durationMinutes: number;
+}
+
+export interface GapWindow {
+  after: GapStop;   // Stop before the gap
+  before: GapStop;  // Stop after the gap
+  start: Date;
+  end: Date;
+  minutes: number;
+}
+
+export interface GapSuggestion {
+  place: PlaceDetails;
+  alternatives: PlaceDetails[];
+  time: Date;
+  durationMinutes: number;
+  reason: string;
+}
+
+export interface GapFillingOptions {
+  interests?: string[];
+  avoidCrowds?: boolean;
+  preferredModes?: TravelMode[];
+  excludePlaceIds?: Set<string>;  // Venues already in the itinerary
+  city?: CityPack;                // City the itinerary is in (defaults to Boston)
+}
+
+// Place types that match common interests
+const INTEREST_TYPES: Array<{ keywords: string[]; types: string[] }> = [
+  { keywords: ['art', 'gallery', 'painting', 'design'], types: ['art_gallery', 'museum'] },
+  { keywords: ['museum', 'history', 'historic', 'culture', 'science'], types: ['museum', 'tourist_attraction'] },
+  { keywords: ['park', 'nature', 'outdoor', 'garden', 'walk'], types: ['park'] },
+  { keywords: ['shop', 'shopping', 'fashion', 'vintage'], types: ['shopping_mall', 'store'] },
+  { keywords: ['book', 'reading', 'literature'], types: ['book_store', 'library'] },
+  { keywords: ['coffee', 'cafe'], types: ['cafe'] },
+  { keywords: ['food', 'dining', 'cuisine', 'eat'], types: ['restaurant'] },
+  { keywords: ['drinks', 'beer', 'cocktail', 'nightlife', 'music', 'bar'], types: ['bar'] }
+];
+
+// Venue types that make sense at each part of the day
+const DAY_PART_TYPES: Record<DayPart, string[]> = {
+  morning: ['cafe', 'bakery', 'museum', 'art_gallery', 'park', 'library', 'book_store', 'tourist_attraction', 'store', 'shopping_mall'],
+  afternoon: ['museum', 'art_gallery', 'park', 'tourist_attraction', 'shopping_mall', 'store', 'book_store', 'library', 'cafe', 'restaurant'],
+  evening: ['restaurant', 'bar', 'tourist_attraction', 'park', 'shopping_mall', 'store', 'book_store', 'cafe'],
+  night: ['bar', 'night_club', 'restaurant']
+};
+
+// What we suggest when the user has no matching interests
+const DAY_PART_DEFAULTS: Record<DayPart, string> = {
+  morning: 'cafe',
+  afternoon: 'tourist_attraction',
+  evening: 'restaurant',
+  night: 'bar'
+};
+
+const CROWD_AVOIDANCE_PATTERN = /crowd|quiet|peaceful|calm|tranquil|not busy|less busy|low-key/i;
+
+/**
+ * Find free windows between consecutive stops
+ *
+ * @param stops Stops in chronological order with their visit durations
+ * @param minGapMinutes Only windows at least this long are returned
+ */
+export function findGaps(stops: GapStop[], minGapMinutes: number = MIN_GAP_MINUTES): GapWindow[] {
+  const gaps: GapWindow[] = [];
+
+  for (let i = 0; i < stops.length - 1; i++) {
+    const current = stops[i];
+    const next = stops[i + 1];
+    const start = new Date(current.time.getTime() + current.durationMinutes * 60 * 1000);
+    const minutes = Math.floor((next.time.getTime() - start.getTime()) / (60 * 1000));
+
+    if (minutes >= minGapMinutes) {
+      gaps.push({ after: current, before: next, start, end: next.time, minutes });
+    }
+  }
+
+  return gaps;
+}
+
+/**
+ * Pick venue types for a gap, most relevant first
+ *
+ * Interest matches come first when they suit the day part;
+ * otherwise a sensible default for the day part is used.
+ */
+export function chooseGapActivityTypes(dayPart: DayPart, interests: string[] = []): string[] {
+  const suitable = DAY_PART_TYPES[dayPart];
+  const types: string[] = [];
+
+  for (const interest of interests) {
+    const lowerInterest = interest.toLowerCase();
+    for (const entry of INTEREST_TYPES) {
+      if (entry.keywords.some(keyword => lowerInterest.includes(keyword))) {
+        types.push(...entry.types.filter(type => suitable.includes(type)));
+      }
+    }
+  }
+
+  if (types.length === 0) {
+    types.push(DAY_PART_DEFAULTS[dayPart]);
+  }
+
+  return Array.from(new Set(types));
+}
+
+/**
+ * Extra distance in meters for going from -> via -> to instead of from -> to
+ */
+export function detourMeters(from: LatLng, via: LatLng, to: LatLng): number {
+  return haversineDistance(from, via) + haversineDistance(via, to) - haversineDistance(from, to);
+}
+
+/**
+ * Check whether the user asked to avoid crowds anywhere in their request
+ */
+export function wantsToAvoidCrowds(request: StructuredRequest, query: string = ''): boolean {
+  const texts = [
+    query,
+    request.preferences?.type || '',
+    ...(request.preferences?.requirements || []),
+    ...(request.preferences?.interests || [])
+  ];
+  return texts.some(text => CROWD_AVOIDANCE_PATTERN.test(text));
+}
+
+function midpoint(a: LatLng, b: LatLng): LatLng {
+  return { lat: (a.lat + b.lat) / 2, lng: (a.lng + b.lng) / 2 };
+}
+
+/**
+ * Suggest a venue for a free window
+ *
+ * @param gap Window between two stops
+ * @param options Interests, crowd preference and venues to exclude
+ * @returns A suggestion that fits the window, or null when nothing suitable was found
+ */
+export async function suggestGapActivity(
+  gap: GapWindow,
+  options: GapFillingOptions = {}
+): Promise<GapSuggestion | null> {
+  const from = gap.after.place.geometry.location;
+  const to = gap.before.place.geometry.location;
+  const city = options.city || getCityPack();
+  const dayPart = getDayPart(new Date((gap.start.getTime() + gap.end.getTime()) / 2), city.timezone);
+  const types = chooseGapActivityTypes(dayPart, options.interests);
+
+  // Where to look: quiet areas when avoiding crowds, otherwise halfway between the stops
+  let searchLocations: Array<{ query: string; nearLocation?: LatLng; quietArea?: string }> = [];
+  if (options.avoidCrowds) {
+    const isWeekend = Number(formatInTimeZone(gap.start, city.timezone, 'i')) >= 6;
+    const quietAreas = findQuietAreas(city.areas, dayPart, isWeekend, gap.after.place.area_info?.name);
+    searchLocations = quietAreas.slice(0, 2).map(area => ({ query: area.name, quietArea: area.name }));
+  }
+  if (searchLocations.length === 0) {
+    searchLocations = [{ query: gap.after.place.name, nearLocation: midpoint(from, to) }];
+  }
+
+  console.log(`Looking for ${types.join('/')} to fill ${gap.minutes} minutes between ${gap.after.place.name} and ${gap.before.place.name}`);
+
+  for (const type of types.slice(0, 2)) {
+    for (const location of searchLocations) {
+      let candidates: PlaceDetails[] = [];
+      try {
+        const result = await searchPlace(location.query, {
+          type,
+          nearLocation: location.nearLocation,
+          keywords: options.interests ? [...options.interests] : [],
+          minRating: 4.0,
+          scheduledTime: gap.start,
+          visitDurationMinutes: getTypicalDuration([type]),
+          city
+        });
+        candidates = [result.primary, ...result.alternatives];
+      } catch (error) {
+        console.warn(`No ${type} found near ${location.query} for gap filling:`, error);
+        continue;
+      }
+
+      // Keep open venues we haven't used that are close to both stops, nearest first
+      const nearby = candidates
+        .filter(place => place.geometry?.location && place.openAtScheduledTime !== false)
+        .filter(place => !options.excludePlaceIds?.has(place.place_id))
+        .map(place => ({ place, detour: detourMeters(from, place.geometry.location, to) }))
+        .filter(candidate => candidate.detour <= MAX_DETOUR_METERS)
+        .sort((a, b) => a.detour - b.detour);
+
+      for (const { place } of nearby.slice(0, MAX_CANDIDATES_CHECKED)) {
+        const travelIn = await calculateTravelTime(gap.after.place, place, {
+          preferredModes: options.preferredModes,
+          departureTime: gap.start
+        });
+        const travelOut = await calculateTravelTime(place, gap.before.place, {
+          preferredModes: options.preferredModes,
+          arrivalTime: gap.end
+        });
+
+        const available = gap.minutes - travelIn.duration - travelOut.duration;
+        if (available < MIN_SUGGESTED_VISIT_MINUTES) {
+          continue;
+        }
+
+        const durationMinutes = Math.min(getTypicalDuration(place.types, type), available);
+        const reasons = [`Fits the ${gap.minutes}-minute gap between ${gap.after.place.name} and ${gap.before.place.name}`];
+        if (options.interests && options.interests.length > 0 && type !== DAY_PART_DEFAULTS[dayPart]) {
+          reasons.push(`matches your interest in ${options.interests.join(', ')}`);
+        }
+        if (location.quietArea) {
+          reasons.push(`in ${location.quietArea}, which is usually quiet in the ${dayPart}`);
+        }
+
+        return {
+          place,
+          alternatives: nearby.map(candidate => candidate.place).filter(alt => alt.place_id !== place.place_id),
+          time: new Date(gap.start.getTime() + travelIn.duration * 60 * 1000),
+          durationMinutes,
+          reason: reasons.join(', ')
+        };
+      }
+    }
+  }
+
+  console.log(`No suitable venue found for the gap between ${gap.after.place.name} and ${gap.before.place.name}`);
+  return null;
+}
@@ -2,20 +2,23 @@
  * Gemini Natural Language Processing
  * 
  * This module implements a robust, error-tolerant processing system using
- * Google's Gemini AI models to understand and structure itinerary requests.
+ * language models (Gemini by default, see llmProviders) to understand and structure itinerary requests.
  */
 
 import { z } from 'zod';
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
 import { logAiInteraction, generateSessionId } from './aiLogging';
-import { getApiKey, isFeatureEnabled } from '../config';
+import { getLlmProviders, type LlmProvider } from './llmProviders';
+import { zodToJsonSchema, describeZodIssues, buildRepairPrompt, type ResponseFormat } from './structuredOutput';
+import { selectPromptTemplate, getPromptTemplate, renderPrompt, promptVersionId, type PromptTemplate } from './promptTemplates';
+import { getCityPack, type CityPack } from './cityPacks';
 
 // Define the structured data schema that Gemini should return
 const FixedTimeEntrySchema = z.object({
   time: z.string().describe("The time for this activity (e.g., '9:00', '15:30')"),
   activity: z.string().describe("The activity description"),
-  location: z.string().describe("The specific location or area in NYC"),
+  location: z.string().describe("The specific location or area in the city"),
   venue: z.string().optional().describe("A specific venue name if mentioned"),
+  day: z.string().optional().describe("The day for this activity if different from the main date"),
   // Also extract venue preference directly from the schema for simpler access
   venuePreference: z.string().optional().describe("EXTRACT THIS FROM THE QUERY: Specific venue type preference (e.g., 'authentic Jewish deli', 'hipster coffee shop', 'traditional Italian restaurant')"),
   searchParameters: z.object({
@@ -32,7 +35,7 @@ const FixedTimeEntrySchema = z.object({
 const FlexibleTimeEntrySchema = z.object({
   time: z.string().describe("The time period for this activity (e.g., 'morning', 'afternoon')"),
   activity: z.string().describe("The activity description"),
-  location: z.string().describe("The specific location or area in NYC"),
+  location: z.string().describe("The specific location or area in the city"),
   venue: z.string().optional().describe("A specific venue name if mentioned"),
   day: z.string().optional().describe("The day for this activity if different from the main date"),
   searchParameters: z.object({
@@ -47,7 +50,7 @@ const FlexibleTimeEntrySchema = z.object({
 const StructuredRequestSchema = z.object({
   date: z.string().optional().describe("The date for the itinerary"),
   startLocation: z.string().optional().describe("Where the day starts"),
-  endLocation: z.string().optional().describe("Where the day ends"),
+  endLocation: z.string().optional().describe("Where the day ends, e.g. the hotel on a multi-day trip"),
   fixedTimeEntries: z.array(FixedTimeEntrySchema).describe("Activities with specific times"),
   flexibleTimeEntries: z.array(FlexibleTimeEntrySchema).optional().describe("Activities with flexible time periods"),
   preferences: z.object({
@@ -56,7 +59,7 @@ const StructuredRequestSchema = z.object({
     pace: z.enum(["relaxed", "moderate", "busy"]).optional().describe("Preferred pace of the day"),
     interests: z.array(z.string()).optional().describe("General interests"),
     accessibility: z.array(z.string()).optional().describe("Accessibility requirements"),
-    transportMode: z.array(z.enum(["walking", "tube", "bus", "taxi"])).optional().describe("Preferred transport modes"),
+    transportMode: z.array(z.enum(["walking", "tube", "bus", "taxi", "cycling"])).optional().describe("Preferred transport modes (use 'tube' for the T/subway)"),
   }).optional(),
   travelGroup: z.object({
     adults: z.number().optional().describe("Number of adults"),
@@ -70,50 +73,71 @@ export type FixedTimeEntry = z.infer<typeof FixedTimeEntrySchema>;
 export type FlexibleTimeEntry = z.infer<typeof FlexibleTimeEntrySchema>;
 export type StructuredRequest = z.infer<typeof StructuredRequestSchema>;
 
+// Temperature for every attempt; replies that don't match the schema are repaired rather than retried hotter
+const TEMPERATURE = 0.2;
+const MAX_OUTPUT_TOKENS = 1024;
+
+// Times a provider is asked to fix a reply that doesn't match the schema before failing over
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// The schema providers enforce on their replies
+const RESPONSE_FORMAT: ResponseFormat = {
+  name: 'structured_request',
+  description: 'The itinerary request broken down into timed activities, preferences and the travel group',
+  schema: zodToJsonSchema(StructuredRequestSchema)
+};
+
+export interface ProcessOptions {
+  promptVersion?: string;              // e.g. "parse-request@v1", instead of the version chosen for the session
+  metaData?: Record<string, unknown>;  // Logged with every attempt, e.g. { turn: 'replay' }
+}
+
 /**
- * Process a user query using Gemini's natural language understanding
+ * Process a user query using the configured language models (see llmProviders)
+ *
+ * Replies are requested in the schema's structured output format. A reply that still doesn't match
+ * is sent back to the same provider with the problems found, up to MAX_REPAIR_ATTEMPTS times; when a
+ * provider errors or can't repair its reply, the next provider is tried. Every attempt is logged
+ * with the model that answered and the prompt version (see promptTemplates).
+ *
+ * @param query The user's request
+ * @param sessionId Session to log all attempts under; pass one in to link later turns of the conversation
+ * @param city City the plan is for
+ * @param options Prompt version and log details for replays (see aiReplay)
  */
-export async function processWithGemini(query: string): Promise<StructuredRequest | null> {
-  // Generate session ID for tracking all attempts in this processing chain
-  const sessionId = generateSessionId();
-  
-  // Check if Gemini feature is enabled
-  if (!isFeatureEnabled('USE_GEMINI')) {
+export async function processWithGemini(
+  query: string,
+  sessionId: string = generateSessionId(),
+  city: CityPack = getCityPack(),
+  options: ProcessOptions = {}
+): Promise<StructuredRequest | null> {
+  const providers = getLlmProviders();
+
+  if (providers.length === 0) {
     await logAiInteraction({
       sessionId,
       userQuery: query,
-      modelName: 'gemini-1.5-pro',
+      modelName: 'none',
       status: 'warning',
-      errorDetails: 'Gemini processing disabled by feature flag'
+      errorDetails: 'No language model configured (check LLM_PROVIDERS and the provider API keys)',
+      metaData: options.metaData
     });
     return null;
   }
-  
-  // Check API key
-  const apiKey = getApiKey('GEMINI_API_KEY');
-  if (!apiKey) {
-    await logAiInteraction({
-      sessionId,
-      userQuery: query,
-      modelName: 'gemini-1.5-pro',
-      status: 'error',
-      errorDetails: 'Missing Gemini API key'
-    });
-    throw new Error('Missing Gemini API key');
-  }
-  
-  // Try multiple attempts with increasing temperatures for more flexibility
-  const temperatures = [0.2, 0.4, 0.7];
+
+  const template = options.promptVersion
+    ? findPromptVersion(options.promptVersion)
+    : selectPromptTemplate('parse-request', sessionId);
+  const prompt = buildPrompt(template, query, city);
   let lastError = null;
-  
-  for (const temperature of temperatures) {
+
+  for (const provider of providers) {
     try {
-      const result = await attemptGeminiProcessing(query, temperature, sessionId);
-      if (result) return result;
+      return await processWithProvider(provider, query, prompt, promptVersionId(template), sessionId, city, options.metaData);
     } catch (error) {
       lastError = error;
-      console.error(`Gemini processing attempt failed at temperature ${temperature}:`, error);
-      // Continue to next temperature
+      console.error(`${provider.name} (${provider.model}) could not process the request:`, error);
+      // Continue with the next provider
     }
   }
   
@@ -121,167 +145,211 @@ export async function processWithGemini(query: string): Promise<StructuredReques
   await logAiInteraction({
     sessionId,
     userQuery: query,
-    modelName: 'gemini-1.5-pro',
+    modelName: providers.map(provider => provider.model).join(', '),
     status: 'error',
-    errorDetails: lastError ? String(lastError) : 'All processing attempts failed'
+    errorDetails: lastError ? String(lastError) : 'All processing attempts failed',
+    metaData: options.metaData
   });
   
   return null;
 }
 
 /**
- * Single attempt at processing with Gemini at a specific temperature
+ * Prompt template for a logged version id such as "parse-request@v1"
+ * @throws Error if there is no such version
  */
-async function attemptGeminiProcessing(query: string, temperature: number, sessionId?: string): Promise<StructuredRequest | null> {
-  const startTime = Date.now();
-  const apiKey = getApiKey('GEMINI_API_KEY');
-  
-  if (!apiKey) {
-    throw new Error('Missing Gemini API key');
+function findPromptVersion(versionId: string): PromptTemplate {
+  const [name, version] = versionId.split('@');
+  const template = name && version ? getPromptTemplate(name, version) : undefined;
+  if (!template) {
+    throw new Error(`Prompt version ${versionId} no longer exists`);
   }
-  
-  const sessionIdForLogging = sessionId || generateSessionId();
-  const genAI = new GoogleGenerativeAI(apiKey);
-  // The newest Gemini model is "claude-3-7-sonnet-20250219" which was released February 24, 2025
-  const model = genAI.getGenerativeModel({ model: "gemini-1.5-pro-latest" });
-  
+  return template;
+}
+
+/**
+ * Ask one provider, repairing its reply until it matches the schema
+ * Throws when the provider errors or runs out of repair attempts
+ */
+async function processWithProvider(
+  provider: LlmProvider,
+  query: string,
+  prompt: string,
+  promptVersion: string,
+  sessionId: string,
+  city: CityPack,
+  extraMetaData?: Record<string, unknown>
+): Promise<StructuredRequest> {
+  let attemptPrompt = prompt;
+
+  for (let repairAttempts = 0; ; repairAttempts++) {
+    const attempt = await attemptProcessing(provider, query, attemptPrompt, promptVersion, sessionId, city, repairAttempts, extraMetaData);
+    if (attempt.data) {
+      // Apply additional processing and return the structured data
+      return processGeminiResponse(query, attempt.data, attempt.responseText, city);
+    }
+
+    if (repairAttempts >= MAX_REPAIR_ATTEMPTS) {
+      throw new Error(`Reply still invalid after ${repairAttempts} repair attempts: ${attempt.problems.join('; ')}`);
+    }
+    attemptPrompt = buildRepairPrompt(prompt, attempt.responseText, attempt.problems);
+  }
+}
+
+/**
+ * Request parsing prompt for a city, from the template chosen for the session
+ */
+function buildPrompt(template: PromptTemplate, query: string, city: CityPack): string {
+  return renderPrompt(template, {
+    city: city.name,
+    defaultArea: city.defaultArea,
+    exampleAreas: city.areas.slice(0, 4).map(area => `'${area.name}'`).join(', '),
+    query
+  });
+}
+
+interface ReplyCheck {
+  parsedData?: unknown;       // Set when the reply is JSON
+  data?: StructuredRequest;   // Set when it also matches the schema
+  problems: string[];
+  errorDetails?: string;
+}
+
+/**
+ * Parse a reply and validate it against the schema
+ */
+function checkReply(responseText: string): ReplyCheck {
+  let parsedData: unknown;
   try {
-    // Prepare the prompt with schema details and examples
-    const prompt = `
-    You are a travel planning assistant for Boston. Extract structured information from this itinerary request. 
-    
-    IMPORTANT RULES:
-    1. Return ONLY valid JSON that matches the schema - no extra text or markdown
-    2. For time values, use 24-hour format (e.g., "09:00", "15:30") when possible
-    3. If a time is mentioned without AM/PM (e.g., "at 6"), default to PM for evening activities like dinner
-    4. For vague meal times: use "09:00" for breakfast, "12:00" for lunch, and "19:00" for dinner unless a specific time is given
-    5. Include all explicitly mentioned fixed times in fixedTimeEntries
-    6. Put activities with vague times (morning, afternoon, evening) in flexibleTimeEntries
-    7. Keep location names authentic to Boston (don't change neighborhood names)
-    8. If the user mentions specific venue requirements, include them in searchParameters
-    9. If the user doesn't specify a budget level, default to "moderate"
-    10. Extract as much detail as possible while staying true to the user's request
-    11. For incomplete information, make reasonable assumptions based on context
-    12. Keep activity descriptions concise but clear
-    13. VENUE PREFERENCES: Always capture specific venue preferences when mentioned:
-       - If user specifies a venue type like "sandwich place", "sports bar", "authentic seafood restaurant", "trendy cafe", include it in searchParameters.venuePreference
-       - Use venuePreference for ANY specific venue descriptions (e.g., "hipster coffee shop", "upscale steakhouse", "family-friendly diner", "authentic Italian restaurant")
-       - This is different from venueType which should be broader categories like "restaurant", "cafe", "bar"
-       - Examples: for "I want to get a lobster roll from an authentic seafood place", set venuePreference to "authentic seafood place"
-    14. LOCATION HANDLING: For EACH activity in both fixedTimeEntries and flexibleTimeEntries:
-       - You MUST identify a specific Boston location (neighborhood, landmark, station, address)
-       - If the user explicitly provides a valid Boston location (e.g., 'Back Bay', 'Fenway', 'North End', 'Harvard Square'), use that exact location string
-       - If the user does NOT specify a location OR provides a vague location like 'somewhere', 'anywhere', 'Boston', 'nearby', you MUST use the exact string 'Downtown'
-       - The location field must NEVER be null or missing - always provide a valid string value
-    15. SCHEMA COMPLIANCE: Strictly adhere to the JSON schema. Ensure ALL required fields within fixedTimeEntries and flexibleTimeEntries (including time, activity, and location) are present and contain non-null string values.
-    
-    SCHEMA GUIDANCE:
-    - Use fixedTimeEntries for activities with specific clock times (9:00, 14:30, etc.)
-    - Use flexibleTimeEntries for activities with time periods (morning, afternoon, etc.)
-    - Both entry types MUST include: time, activity, location (never null, use 'Downtown' when unspecified)
-    - Always provide reasonable defaults: use '09:00' for breakfast, '12:00' for lunch, '19:00' for dinner
-    - For other activities, use '10:00' for morning, '14:00' for afternoon, '18:00' for evening
-    - Always use 'Downtown' for location if unspecified
-    - Always use searchParameters.venuePreference for specific venue descriptions (e.g., "sandwich place", "trendy bar")
-
-    Here's the request to analyze:
-    ${query}
-    `;
-    
-    // Send to Gemini
-    const result = await model.generateContent({
-      contents: [{ role: "user", parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: temperature,
-        maxOutputTokens: 1024,
-      },
+    parsedData = JSON.parse(responseText);
+  } catch (parseError) {
+    return {
+      problems: [`The reply is not valid JSON (${parseError})`],
+      errorDetails: `JSON parsing error: ${parseError}`
+    };
+  }
+
+  const validationResult = StructuredRequestSchema.safeParse(parsedData);
+  if (!validationResult.success) {
+    const problems = describeZodIssues(validationResult.error);
+    return { parsedData, problems, errorDetails: `Schema validation error: ${problems.join('; ')}` };
+  }
+  return { parsedData, data: validationResult.data, problems: [] };
+}
+
+/**
+ * Run a logged reply through the current validation and processing, without asking a model
+ * Throws when the reply doesn't match the current schema
+ */
+export function structureModelReply(query: string, responseText: string, city: CityPack = getCityPack()): StructuredRequest {
+  const check = checkReply(responseText);
+  if (!check.data) {
+    throw new Error(check.errorDetails);
+  }
+  return processGeminiResponse(query, check.data, responseText, city);
+}
+
+/**
+ * Run a reply that was validated when it was logged (its parsedResponse) through the current processing
+ */
+export function structureLoggedReply(query: string, parsedResponse: unknown, city: CityPack = getCityPack()): StructuredRequest {
+  // Processing fills in entries in place, so work on a copy
+  const reply = JSON.parse(JSON.stringify(parsedResponse)) as StructuredRequest;
+  return processGeminiResponse(query, reply, JSON.stringify(parsedResponse), city);
+}
+
+interface AttemptResult {
+  responseText: string;
+  data?: StructuredRequest;   // Set when the reply matched the schema
+  problems: string[];         // Otherwise what was wrong with it
+}
+
+/**
+ * Single request to one provider
+ * Throws when the provider errors; a reply that isn't valid JSON matching the schema comes back with its problems
+ *
+ * @param promptVersion Template the prompt was made from, recorded with the log entry
+ * @param city City the plan is for, recorded with the log entry so the reply can be replayed
+ * @param repairAttempts Number of repairs asked for before this attempt, recorded with the log entry
+ * @param extraMetaData Also recorded with the log entry
+ */
+async function attemptProcessing(
+  provider: LlmProvider,
+  query: string,
+  prompt: string,
+  promptVersion: string,
+  sessionId: string,
+  city: CityPack,
+  repairAttempts: number,
+  extraMetaData?: Record<string, unknown>
+): Promise<AttemptResult> {
+  const startTime = Date.now();
+  const rawRequest = { prompt, temperature: TEMPERATURE };
+  const metaData = { ...extraMetaData, provider: provider.name, repairAttempts, city: city.id };
+  let modelName = provider.model;
+  let responseText: string;
+
+  try {
+    const response = await provider.generate({
+      prompt,
+      userQuery: query,
+      temperature: TEMPERATURE,
+      maxOutputTokens: MAX_OUTPUT_TOKENS,
+      responseFormat: RESPONSE_FORMAT
     });
-    
-    const response = result.response;
-    const responseText = response.text();
-    
-    // Extract the JSON from the response
-    let jsonMatch = responseText.match(/```json\n([\s\S]*?)\n```/) || 
-                   responseText.match(/```\n([\s\S]*?)\n```/) ||
-                   responseText.match(/\{[\s\S]*\}/);
-                   
-    let jsonText = jsonMatch ? (jsonMatch[1] || jsonMatch[0]) : responseText;
-    
-    // Clean up any trailing commas which can break JSON parsing
-    jsonText = jsonText.replace(/,\s*([}\]])/g, '$1');
-    
-    try {
-      const parsedData = JSON.parse(jsonText);
-      
-      // Validate against our schema
-      const validationResult = StructuredRequestSchema.safeParse(parsedData);
-      
-      if (validationResult.success) {
-        // Successfully validated
-        const structuredData = validationResult.data;
-        
-        // Additional logging to see the raw response
-        console.log(`Raw Gemini structured data:`, JSON.stringify(structuredData, null, 2));
-        
-        // Log the successful interaction
-        await logAiInteraction({
-          sessionId: sessionIdForLogging,
-          userQuery: query,
-          modelName: 'gemini-1.5-pro',
-          rawRequest: { prompt, temperature },
-          rawResponse: responseText,
-          parsedResponse: structuredData,
-          processingTimeMs: Date.now() - startTime,
-          status: 'success'
-        });
-        
-        // Apply additional processing and return the structured data
-        return processGeminiResponse(query, structuredData, responseText);
-      } else {
-        // Validation failed
-        await logAiInteraction({
-          sessionId: sessionIdForLogging,
-          userQuery: query,
-          modelName: 'gemini-1.5-pro',
-          rawRequest: { prompt, temperature },
-          rawResponse: responseText,
-          status: 'error',
-          processingTimeMs: Date.now() - startTime,
-          errorDetails: `Schema validation error: ${JSON.stringify(validationResult.error)}`,
-          parsedResponse: parsedData  // Include the invalid parsed data for debugging
-        });
-        
-        throw new Error(`Schema validation error: ${validationResult.error.message}`);
-      }
-    } catch (parseError) {
-      // JSON parsing failed
-      await logAiInteraction({
-        sessionId: sessionIdForLogging,
-        userQuery: query,
-        modelName: 'gemini-1.5-pro',
-        rawRequest: { prompt, temperature },
-        rawResponse: responseText,
-        status: 'error',
-        processingTimeMs: Date.now() - startTime,
-        errorDetails: `JSON parsing error: ${parseError}`
-      });
-      
-      throw new Error(`Failed to parse Gemini response as JSON: ${parseError}`);
-    }
+    modelName = response.model;
+    responseText = response.text;
   } catch (error) {
-    // API or processing error
+    // API error
     await logAiInteraction({
-      sessionId: sessionIdForLogging,
+      sessionId,
       userQuery: query,
-      modelName: 'gemini-1.5-pro',
-      rawRequest: { temperature },
+      modelName,
+      promptVersion,
+      rawRequest,
       status: 'error',
       processingTimeMs: Date.now() - startTime,
-      errorDetails: `API or processing error: ${error}`
+      errorDetails: `API error: ${error}`,
+      metaData
     });
-    
     throw error;
   }
+
+  const check = checkReply(responseText);
+  if (!check.data) {
+    await logAiInteraction({
+      sessionId,
+      userQuery: query,
+      modelName,
+      promptVersion,
+      rawRequest,
+      rawResponse: responseText,
+      status: 'error',
+      processingTimeMs: Date.now() - startTime,
+      errorDetails: check.errorDetails,
+      parsedResponse: check.parsedData,  // Include the invalid parsed data for debugging
+      metaData
+    });
+    return { responseText, problems: check.problems };
+  }
+
+  const structuredData = check.data;
+  console.log(`Raw ${provider.name} structured data:`, JSON.stringify(structuredData, null, 2));
+
+  await logAiInteraction({
+    sessionId,
+    userQuery: query,
+    modelName,
+    promptVersion,
+    rawRequest,
+    rawResponse: responseText,
+    parsedResponse: structuredData,
+    processingTimeMs: Date.now() - startTime,
+    status: 'success',
+    metaData
+  });
+
+  return { responseText, data: structuredData, problems: [] };
 }
 
 /**
@@ -290,7 +358,8 @@ async function attemptGeminiProcessing(query: string, temperature: number, sessi
 function processGeminiResponse(
   query: string,
   validatedData: StructuredRequest,
-  rawResponse: string
+  rawResponse: string,
+  city: CityPack
 ): StructuredRequest {
   // Create a Set to track unique activity signatures to avoid duplicates
   const uniqueActivities = new Set<string>();
@@ -309,7 +378,7 @@ function processGeminiResponse(
 
   // Set default start location if not provided
   if (!structuredData.startLocation) {
-    structuredData.startLocation = "Downtown";
+    structuredData.startLocation = city.defaultArea;
   }
   
   // First process fixed time entries with duplicate detection
@@ -319,7 +388,7 @@ function processGeminiResponse(
     for (const entry of validatedData.fixedTimeEntries) {
       if (entry && entry.location && entry.time && entry.activity) {
         // Create a unique signature for this activity
-        const activitySignature = `${entry.location}|${entry.time}|${entry.activity}`;
+        const activitySignature = `${entry.day || ''}|${entry.location}|${entry.time}|${entry.activity}`;
         
         // Only add if we haven't seen this exact activity before
         if (!uniqueActivities.has(activitySignature)) {
@@ -349,7 +418,7 @@ function processGeminiResponse(
       };
       
       // Create a unique signature for this activity
-      const activitySignature = `${convertedEntry.location}|${convertedEntry.time}|${convertedEntry.activity}`;
+      const activitySignature = `${convertedEntry.day || ''}|${convertedEntry.location}|${convertedEntry.time}|${convertedEntry.activity}`;
       
       // Only add if we haven't seen this exact activity before
       if (!uniqueActivities.has(activitySignature)) {
@@ -12,6 +12,7 @@ export interface GoogleUserInfo {
   name: string;
   sub: string; // This is the Google user ID
   picture?: string;
+  email_verified: boolean;
 }
 
 /**
@@ -45,7 +46,8 @@ export async function verifyGoogleToken(token: string): Promise<GoogleUserInfo>
       email: payload.email,
       name: payload.name || '',
       sub: payload.sub,
-      picture: payload.picture
+      picture: payload.picture,
+      email_verified: payload.email_verified === true
     };
   } catch (error) {
     console.error('Google token verification error:', error);
@@ -1,6 +1,10 @@
-import type { PlaceDetails, VenueSearchResult, SearchParameters } from "@shared/schema";
+import type { PlaceDetails, VenueSearchResult, SearchParameters, PriceLevel } from "@shared/schema";
 import { normalizeLocationName, verifyPlaceMatch, suggestSimilarLocations } from "./locationNormalizer";
-import { bostonAreas, findAreasByCharacteristics } from "../data/boston-areas";
+import { getCityPack, type CityPack } from "./cityPacks";
+import { selectOpenVenue } from "./openingHours";
+import { placesCache, normalizeRequestKey } from "./placesCache";
+import { providerFetch } from "./apiProvider";
+import { PRICE_RANGES, preferPriceLevel } from "./pricing";
 
 const GOOGLE_PLACES_API_KEY = process.env.GOOGLE_PLACES_API_KEY;
 const PLACES_API_BASE = "https://maps.googleapis.com/maps/api/place";
@@ -13,8 +17,14 @@ interface SearchOptions {
   searchTerm?: string;
   keywords?: string[];
   requireOpenNow?: boolean;
+  scheduledTime?: Date; // When the venue will be visited - checked against opening hours instead of "open now"
+  visitDurationMinutes?: number; // Planned visit length, used to flag venues closing mid-visit
+  nearLocation?: { lat: number; lng: number }; // Search around these coordinates instead of geocoding the query
   checkReviewsForKeywords?: boolean; // Whether to perform the more intensive review check
   searchPreference?: string; // Specific venue preference (e.g., "hipster coffee shop", "authentic Jewish deli")
+  city?: CityPack; // City to search in (defaults to Boston)
+  priceLevel?: PriceLevel; // Budget for the venue, sent to Google as a price range
+  excludeTypes?: string[]; // Google place types the user doesn't want, e.g. "night_club"
 }
 
 // Helper function to calculate distance between two points using Haversine formula
@@ -31,6 +41,14 @@ function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: numbe
   return Math.round(distance * 1000) / 1000; // Round to 3 decimal places
 }
 
+// Fetch a Places search response, reusing cached results for identical requests
+async function fetchPlacesJson(endpoint: 'textsearch' | 'nearbysearch', params: URLSearchParams): Promise<any> {
+  return placesCache.getOrFetch('search', normalizeRequestKey(endpoint, params), async () => {
+    const res = await providerFetch('places', `${PLACES_API_BASE}/${endpoint}/json?${params.toString()}`);
+    return res.json();
+  }, data => data.status === "OK" || data.status === "ZERO_RESULTS");
+}
+
 // Helper function to fetch place details
 async function fetchPlaceDetails(placeId: string, includeReviews: boolean = false): Promise<any> {
   // Add reviews field if requested
@@ -39,8 +57,17 @@ async function fetchPlaceDetails(placeId: string, includeReviews: boolean = fals
     : "name,formatted_address,geometry,opening_hours,business_status,rating,price_level,types";
   
   const detailsUrl = `${PLACES_API_BASE}/details/json?place_id=${placeId}&fields=${fields}&key=${GOOGLE_PLACES_API_KEY}`;
-  const detailsRes = await fetch(detailsUrl);
-  const detailsData = await detailsRes.json();
+  const fetchDetails = async () => {
+    const detailsRes = await providerFetch('places', detailsUrl);
+    return detailsRes.json();
+  };
+  const isOk = (data: any) => data.status === "OK";
+
+  // Details fetched with reviews also answer requests without them
+  const detailsData = includeReviews
+    ? await placesCache.getOrFetch('details', `${placeId}:reviews`, fetchDetails, isOk)
+    : placesCache.peek('details', `${placeId}:reviews`) ??
+      await placesCache.getOrFetch('details', placeId, fetchDetails, isOk);
   
   if (detailsData.status !== "OK") {
     throw new Error(`Error fetching details for place ${placeId}.`);
@@ -49,6 +76,24 @@ async function fetchPlaceDetails(placeId: string, includeReviews: boolean = fals
   return detailsData.result;
 }
 
+/**
+ * Look up a single venue by its Google place_id
+ *
+ * @param placeId Google Places ID
+ * @returns Venue details in the same shape searchPlace returns
+ */
+export async function getPlaceById(placeId: string): Promise<PlaceDetails> {
+  if (!GOOGLE_PLACES_API_KEY) {
+    throw new Error("Google Places API key is not configured");
+  }
+
+  const details = await fetchPlaceDetails(placeId);
+  return {
+    ...details,
+    place_id: placeId
+  };
+}
+
 /**
  * Check if any of the place's reviews mention specific keywords
  * Useful for food-specific searches like "focaccia sandwich"
@@ -78,12 +123,21 @@ async function checkPlaceReviewsForKeywords(placeId: string, keywords: string[])
   }
 }
 
+// Re-rank results so the primary venue is open when it will actually be visited
+function applyScheduledOpeningHours(result: VenueSearchResult, options: SearchOptions): VenueSearchResult {
+  if (!options.scheduledTime) {
+    return result;
+  }
+  // Opening hours are local to the venue's city
+  return selectOpenVenue(result, options.scheduledTime, options.visitDurationMinutes, (options.city || getCityPack()).timezone);
+}
+
 export async function searchPlace(
   query: string, 
   options: SearchOptions = {}
 ): Promise<VenueSearchResult> {
   try {
-    console.log(`Search request for query: "${query}" with options:`, options);
+    console.log(`Search request for query: "${query}" with options:`, { ...options, city: options.city?.id });
     
     // Add better search term extraction from complex activity types
     let searchType = options.type;
@@ -131,26 +185,29 @@ export async function searchPlace(
       }
     }
     
+    const city = options.city || getCityPack();
+
     // First check if this matches any of our known areas
-    const matchingArea = bostonAreas.find(area => 
+    const matchingArea = city.areas.find(area => 
       area.name.toLowerCase() === query.toLowerCase() ||
       area.neighbors.some(n => n.toLowerCase() === query.toLowerCase())
     );
 
     // Normalize the location name
-    const normalizedLocation = normalizeLocationName(query);
+    const normalizedLocation = normalizeLocationName(query, city);
     console.log(`Normalized location: ${query} -> ${normalizedLocation}`);
 
     // Build search query with appropriate context
     let searchQuery = normalizedLocation;
-    if (!normalizedLocation.toLowerCase().includes('boston')) {
+    if (!normalizedLocation.toLowerCase().includes(city.name.toLowerCase())) {
       // Add more specific context for stations and streets
+      const district = matchingArea?.region || matchingArea?.borough;
       if (normalizedLocation.toLowerCase().includes('station')) {
-        searchQuery = `${normalizedLocation}, T Station, Boston`;
-      } else if (matchingArea) {
-        searchQuery = `${normalizedLocation}, ${matchingArea.region || 'Boston'}, MA`;
+        searchQuery = `${normalizedLocation}, ${city.transitName}, ${city.name}`;
+      } else if (district && district !== matchingArea?.name) {
+        searchQuery = `${normalizedLocation}, ${district}, ${city.geocodeContext}`;
       } else {
-        searchQuery = `${normalizedLocation}, Boston`;
+        searchQuery = `${normalizedLocation}, ${city.geocodeContext}`;
       }
     }
 
@@ -158,30 +215,34 @@ export async function searchPlace(
     if (options.type && options.type !== "landmark") {
       console.log(`Searching for ${options.type} near ${searchQuery} (using searchType: ${searchType}, searchKeyword: ${searchKeyword})`);
 
-      // First find the landmark
-      const landmarkParams = new URLSearchParams({
-        query: searchQuery,
-        region: "us",
-        key: GOOGLE_PLACES_API_KEY || "",
-        language: "en",
-        radius: "5000"
-      });
+      // First find the landmark, unless the caller already knows where to search
+      let lat: number;
+      let lng: number;
+      if (options.nearLocation) {
+        ({ lat, lng } = options.nearLocation);
+      } else {
+        const landmarkParams = new URLSearchParams({
+          query: searchQuery,
+          region: city.regionCode,
+          key: GOOGLE_PLACES_API_KEY || "",
+          language: "en",
+          radius: "5000"
+        });
 
-      const landmarkUrl = `${PLACES_API_BASE}/textsearch/json?${landmarkParams.toString()}`;
-      const landmarkRes = await fetch(landmarkUrl);
-      const landmarkData = await landmarkRes.json();
+        const landmarkData = await fetchPlacesJson('textsearch', landmarkParams);
 
-      if (landmarkData.status !== "OK" || !landmarkData.results?.length) {
-        const suggestions = suggestSimilarLocations(query);
-        throw new Error(
-          `Could not find "${query}"${suggestions.length ? `. Did you mean: ${suggestions.join(", ")}?` : ""}. ` +
-          "Try being more specific or using the full name."
-        );
-      }
+        if (landmarkData.status !== "OK" || !landmarkData.results?.length) {
+          const suggestions = suggestSimilarLocations(query, city);
+          throw new Error(
+            `Could not find "${query}"${suggestions.length ? `. Did you mean: ${suggestions.join(", ")}?` : ""}. ` +
+            "Try being more specific or using the full name."
+          );
+        }
 
-      // Get the landmark's location
-      const landmark = landmarkData.results[0];
-      const { lat, lng } = landmark.geometry.location;
+        // Get the landmark's location
+        const landmark = landmarkData.results[0];
+        ({ lat, lng } = landmark.geometry.location);
+      }
 
       // Now search for the activity type near this landmark
       const nearbyParams = new URLSearchParams({
@@ -216,7 +277,8 @@ export async function searchPlace(
       }
 
       // Handle OpenNow parameter - prefer the enhanced requireOpenNow if available
-      if (options.requireOpenNow || options.openNow) {
+      // Skipped for scheduled visits, which are checked against opening hours after fetching details
+      if (!options.scheduledTime && (options.requireOpenNow || options.openNow)) {
         nearbyParams.append("opennow", "true");
       }
       
@@ -225,9 +287,13 @@ export async function searchPlace(
         nearbyParams.append("minRating", options.minRating.toString());
       }
 
-      const nearbyUrl = `${PLACES_API_BASE}/nearbysearch/json?${nearbyParams.toString()}`;
-      const nearbyRes = await fetch(nearbyUrl);
-      const nearbyData = await nearbyRes.json();
+      if (options.priceLevel) {
+        const { min, max } = PRICE_RANGES[options.priceLevel];
+        nearbyParams.append("minprice", min.toString());
+        nearbyParams.append("maxprice", max.toString());
+      }
+
+      const nearbyData = await fetchPlacesJson('nearbysearch', nearbyParams);
 
       if (nearbyData.status !== "OK" || !nearbyData.results?.length) {
         console.log(`No results found for ${options.type} near ${normalizedLocation}. Trying a more generic search...`);
@@ -241,9 +307,7 @@ export async function searchPlace(
           language: "en"
         });
         
-        const fallbackUrl = `${PLACES_API_BASE}/nearbysearch/json?${fallbackParams.toString()}`;
-        const fallbackRes = await fetch(fallbackUrl);
-        const fallbackData = await fallbackRes.json();
+        const fallbackData = await fetchPlacesJson('nearbysearch', fallbackParams);
         
         if (fallbackData.status === "OK" && fallbackData.results?.length > 0) {
           console.log(`Fallback search successful, found ${fallbackData.results.length} results`);
@@ -265,6 +329,17 @@ export async function searchPlace(
           results = qualifiedResults;
         }
       }
+
+      // Drop venue types the user dislikes, unless nothing else was found
+      if (options.excludeTypes && options.excludeTypes.length > 0) {
+        const excluded = options.excludeTypes;
+        const wantedResults = results.filter(
+          (r: any) => !(r.types || []).some((type: string) => excluded.includes(type))
+        );
+        if (wantedResults.length > 0) {
+          results = wantedResults;
+        }
+      }
       
       // Check reviews for specific food items or keywords if requested
       if (options.checkReviewsForKeywords && keywordsList.length > 0) {
@@ -389,9 +464,7 @@ export async function searchPlace(
               language: "en"
             });
             
-            const keywordUrl = `${PLACES_API_BASE}/nearbysearch/json?${keywordParams.toString()}`;
-            const keywordRes = await fetch(keywordUrl);
-            const keywordData = await keywordRes.json();
+            const keywordData = await fetchPlacesJson('nearbysearch', keywordParams);
             
             if (keywordData.status === "OK" && keywordData.results?.length > 0) {
               results = keywordData.results;
@@ -416,9 +489,7 @@ export async function searchPlace(
               language: "en"
             });
             
-            const genericUrl = `${PLACES_API_BASE}/nearbysearch/json?${genericParams.toString()}`;
-            const genericRes = await fetch(genericUrl);
-            const genericData = await genericRes.json();
+            const genericData = await fetchPlacesJson('nearbysearch', genericParams);
             
             if (genericData.status === "OK" && genericData.results?.length > 0) {
               results = genericData.results;
@@ -427,6 +498,12 @@ export async function searchPlace(
         }
       }
       
+      // The fallback searches above ignore the price range, so pick the primary venue and
+      // alternatives from those within budget first
+      if (options.priceLevel) {
+        results = preferPriceLevel(results, options.priceLevel);
+      }
+      
       // Limit to maximum results (1 primary + MAX_ALTERNATIVES)
       results = results.slice(0, 1 + MAX_ALTERNATIVES);
       
@@ -479,27 +556,23 @@ export async function searchPlace(
         alternatives: alternatives.map(a => a.name)
       });
       
-      return {
-        primary,
-        alternatives
-      };
+      return applyScheduledOpeningHours({ primary, alternatives }, options);
 
     } else {
       // Regular landmark search
       const params = new URLSearchParams({
         query: searchQuery,
-        region: "us",
+        region: city.regionCode,
+        location: `${city.center.lat},${city.center.lng}`,
         key: GOOGLE_PLACES_API_KEY || "",
         language: "en",
-        radius: "50000" // 50km radius from London center
+        radius: "50000" // 50km radius from the city center
       });
 
-      const searchUrl = `${PLACES_API_BASE}/textsearch/json?${params.toString()}`;
-      const searchRes = await fetch(searchUrl);
-      const searchData = await searchRes.json();
+      const searchData = await fetchPlacesJson('textsearch', params);
 
       if (searchData.status !== "OK" || !searchData.results?.length) {
-        const suggestions = suggestSimilarLocations(query);
+        const suggestions = suggestSimilarLocations(query, city);
         throw new Error(
           `Could not find "${query}"${suggestions.length ? `. Did you mean: ${suggestions.join(", ")}?` : ""}. ` +
           "Try being more specific or using the full name."
@@ -512,7 +585,7 @@ export async function searchPlace(
       const primaryResult = results[0];
       
       // Verify the primary result matches what was requested
-      if (!verifyPlaceMatch(query, primaryResult.name, primaryResult.types)) {
+      if (!verifyPlaceMatch(query, primaryResult.name, primaryResult.types, city)) {
         console.warn(`Place match verification warning for "${query}". Got "${primaryResult.name}" instead.`);
       }
       
@@ -555,10 +628,10 @@ export async function searchPlace(
       
       console.log(`Found landmark "${primary.name}" with ${alternatives.length} alternatives`);
       
-      return {
+      return applyScheduledOpeningHours({
         primary,
         alternatives
-      };
+      }, options);
     }
   } catch (error) {
     console.error(`Error searching place "${query}":`, error);
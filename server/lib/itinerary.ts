@@ -1,26 +1,62 @@
 import type { PlaceDetails } from "@shared/schema";
+import {
+  getRoutes,
+  selectPreferredLeg,
+  ALL_TRAVEL_MODES,
+  type RouteLeg,
+  type TravelMode
+} from "./routing";
+
+export interface TravelTimeOptions {
+  preferredModes?: TravelMode[];
+  departureTime?: Date;
+  arrivalTime?: Date;
+}
+
+export interface TravelTimeResult {
+  duration: number;            // Minutes for the selected mode
+  mode: TravelMode;
+  distanceMeters: number;
+  polyline: string;
+  modes: RouteLeg[];           // Every mode that was available for this leg
+}
+
+// Used when we can't route at all (missing coordinates etc.)
+const DEFAULT_TRAVEL_MINUTES = 30;
+
+function fallbackResult(): TravelTimeResult {
+  return {
+    duration: DEFAULT_TRAVEL_MINUTES,
+    mode: 'transit',
+    distanceMeters: 0,
+    polyline: '',
+    modes: []
+  };
+}
 
 /**
  * Calculate travel time between two places
- * 
+ *
  * @param from Starting location
  * @param to Destination location
- * @returns Travel time in minutes
+ * @param options Preferred transport modes and trip timing
+ * @returns Selected leg (duration in minutes) plus every available mode
  */
-export function calculateTravelTime(
+export async function calculateTravelTime(
   from: PlaceDetails,
-  to: PlaceDetails
-): number {
+  to: PlaceDetails,
+  options: TravelTimeOptions = {}
+): Promise<TravelTimeResult> {
   // Validate input parameters
   if (!from || !to) {
     console.warn("Missing 'from' or 'to' parameter in calculateTravelTime");
-    return 30; // Default to 30 minutes
+    return fallbackResult();
   }
 
   // Check for required geometry properties
   if (!from.geometry?.location || !to.geometry?.location) {
     console.warn("Missing geometry data in calculateTravelTime parameters");
-    return 30; // Default to 30 minutes
+    return fallbackResult();
   }
 
   // Check for required lat/lng properties
@@ -29,40 +65,36 @@ export function calculateTravelTime(
   const toLat = to.geometry.location.lat;
   const toLng = to.geometry.location.lng;
 
-  if (typeof fromLat !== 'number' || typeof fromLng !== 'number' || 
+  if (typeof fromLat !== 'number' || typeof fromLng !== 'number' ||
       typeof toLat !== 'number' || typeof toLng !== 'number') {
-    console.warn("Invalid coordinate values in calculateTravelTime:", 
+    console.warn("Invalid coordinate values in calculateTravelTime:",
       { fromLat, fromLng, toLat, toLng });
-    return 30; // Default to 30 minutes
+    return fallbackResult();
   }
 
   try {
-    // Simple mock implementation - calculate straight line distance
-    // and assume average speed of 20km/h
-    const R = 6371; // Earth's radius in km
-    
-    const dLat = (toLat - fromLat) * Math.PI / 180;
-    const dLon = (toLng - fromLng) * Math.PI / 180;
-
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(fromLat * Math.PI / 180) * Math.cos(toLat * Math.PI / 180) * 
-      Math.sin(dLon/2) * Math.sin(dLon/2);
+    const legs = await getRoutes(
+      { lat: fromLat, lng: fromLng },
+      { lat: toLat, lng: toLng },
+      ALL_TRAVEL_MODES,
+      { departureTime: options.departureTime, arrivalTime: options.arrivalTime }
+    );
 
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    const distance = R * c;
+    const selected = selectPreferredLeg(legs, options.preferredModes);
+    if (!selected) {
+      console.warn(`No route found between ${from.name} and ${to.name}`);
+      return fallbackResult();
+    }
 
-    // Assume average speed of 20km/h
-    const timeInHours = distance / 20;
-    const minutes = Math.round(timeInHours * 60); // Convert to minutes
-    
-    // Add reasonable minimum and maximum constraints
-    if (minutes < 5) return 5; // Minimum travel time of 5 minutes
-    if (minutes > 120) return 120; // Cap at 2 hours
-    
-    return minutes;
+    return {
+      duration: selected.durationMinutes,
+      mode: selected.mode,
+      distanceMeters: selected.distanceMeters,
+      polyline: selected.polyline,
+      modes: legs
+    };
   } catch (error) {
     console.error("Error calculating travel time:", error);
-    return 30; // Default to 30 minutes in case of calculation error
+    return fallbackResult(); // Default to 30 minutes in case of routing error
   }
 }
@@ -0,0 +1,370 @@
+/**
+ * Itinerary Editing Module
+ *
+ * Helpers for changing a saved itinerary after it has been planned:
+ * - Swapping a stop for one of its stored alternatives
+ * - Adding, removing, reordering and retiming stops
+ * - Recomputing only the travel legs affected by a change
+ * - Re-running the scheduler and opening-hours checks on the edited day
+ */
+
+import type { Place, PlaceDetails } from "@shared/schema";
+import { calculateTravelTime } from "./itinerary";
+import { checkOpeningHours } from "./openingHours";
+import type { RouteLeg, TravelMode } from "./routing";
+import { resolveSchedule, getVisitDuration, DEFAULT_VISIT_MINUTES, type ScheduleWarning } from "./scheduler";
+import { BOSTON_TIMEZONE, getDateInTimeZone, zonedTimeToDate } from "./timeUtils";
+
+// A stop as stored in itineraries.places (a place record plus planning flags)
+export type ItineraryStop = Place & {
+  isFixed?: boolean;
+  day?: number;  // Index into itineraries.days for multi-day trips
+  locked?: boolean;  // The owner settled the venue after collaborators voted
+};
+
+export interface TravelTimeEntry {
+  from: string;
+  to: string;
+  duration: number;
+  mode?: TravelMode;
+  distanceMeters?: number;
+  polyline?: string;
+  modes?: RouteLeg[];
+  arrivalTime?: string;
+  day?: number;  // Day of a multi-day trip the leg belongs to
+}
+
+export interface ItineraryEditResult {
+  stops: ItineraryStop[];
+  travelTimes: TravelTimeEntry[];
+  warnings: ScheduleWarning[];
+}
+
+export class ItineraryEditError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ItineraryEditError';
+  }
+}
+
+function hasGeometry(details: unknown): details is PlaceDetails {
+  return !!details && typeof details === 'object' && 'geometry' in details && 'name' in details;
+}
+
+/**
+ * Calculate the travel entry for a single leg, in the same shape /api/plan stores
+ */
+async function buildTravelEntry(
+  from: ItineraryStop,
+  to: ItineraryStop,
+  preferredModes: TravelMode[]
+): Promise<TravelTimeEntry | null> {
+  if (!hasGeometry(from.details) || !hasGeometry(to.details)) {
+    return null;
+  }
+
+  const arrivalTime = to.scheduledTime ? new Date(to.scheduledTime) : undefined;
+  const travelTime = await calculateTravelTime(from.details, to.details, { arrivalTime, preferredModes });
+
+  return {
+    from: from.name,
+    to: to.name,
+    duration: travelTime.duration,
+    mode: travelTime.mode,
+    distanceMeters: travelTime.distanceMeters,
+    polyline: travelTime.polyline,
+    modes: travelTime.modes,
+    arrivalTime: to.scheduledTime || undefined,
+    ...(to.day !== undefined ? { day: to.day } : {})
+  };
+}
+
+// Travel legs aligned with the stops: legs[i] is the leg arriving at stops[i + 1]
+async function buildLegs(
+  stops: ItineraryStop[],
+  previous: TravelTimeEntry[],
+  changedIndices: number[],
+  preferredModes: TravelMode[]
+): Promise<Array<TravelTimeEntry | null>> {
+  const legs: Array<TravelTimeEntry | null> = [];
+
+  for (let i = 1; i < stops.length; i++) {
+    const from = stops[i - 1];
+    const to = stops[i];
+
+    // Each day of a trip starts fresh, so there's no leg from the last stop of one day to the next
+    if (from.day !== to.day) {
+      legs.push(null);
+      continue;
+    }
+
+    const touchesChange = changedIndices.includes(i) || changedIndices.includes(i - 1);
+
+    const existing = touchesChange
+      ? undefined
+      : previous.find(entry => entry.from === from.name && entry.to === to.name);
+
+    if (existing) {
+      legs.push({ ...existing, arrivalTime: to.scheduledTime || existing.arrivalTime });
+    } else {
+      legs.push(await buildTravelEntry(from, to, preferredModes));
+    }
+  }
+
+  return legs;
+}
+
+/**
+ * Rebuild the travel legs for an edited list of stops
+ *
+ * Legs touching a changed stop are recalculated; every other leg is reused
+ * from the previous travel times when its endpoints are unchanged.
+ *
+ * @param stops Stops after the edit, in order
+ * @param previous Travel times stored before the edit
+ * @param changedIndices Indices (in the new list) of stops that were added or replaced
+ * @param preferredModes Modes the itinerary was planned with (itineraries.travelModes)
+ */
+export async function rebuildTravelTimes(
+  stops: ItineraryStop[],
+  previous: TravelTimeEntry[],
+  changedIndices: number[],
+  preferredModes: TravelMode[] = []
+): Promise<TravelTimeEntry[]> {
+  const legs = await buildLegs(stops, previous, changedIndices, preferredModes);
+  return legs.filter((leg): leg is TravelTimeEntry => leg !== null);
+}
+
+/**
+ * Bring an edited itinerary back to a consistent state
+ *
+ * Recomputes affected travel legs, re-runs the scheduler so flexible stops
+ * make room for travel, and re-checks opening hours at the new times.
+ *
+ * @param stops Stops after the edit, in chronological order
+ * @param previous Travel times stored before the edit
+ * @param changedIndices Indices of stops that were added, replaced or moved
+ * @param timeZone Timezone the opening hours are expressed in
+ * @param preferredModes Modes the itinerary was planned with, so recalculated legs keep to them
+ */
+export async function revalidateItinerary(
+  stops: ItineraryStop[],
+  previous: TravelTimeEntry[],
+  changedIndices: number[],
+  timeZone: string = BOSTON_TIMEZONE,
+  preferredModes: TravelMode[] = []
+): Promise<ItineraryEditResult> {
+  const legs = await buildLegs(stops, previous, changedIndices, preferredModes);
+
+  const schedule = resolveSchedule(stops.map((stop, index) => {
+    const details = stop.details as PlaceDetails;
+    return {
+      name: stop.name,
+      time: stop.scheduledTime ? new Date(stop.scheduledTime) : new Date(),
+      isFixed: !!stop.isFixed,
+      durationMinutes: getVisitDuration(details),
+      travelMinutes: index > 0 ? legs[index - 1]?.duration : undefined
+    };
+  }));
+
+  const warnings: ScheduleWarning[] = [];
+
+  const updatedStops = schedule.items.map((item, index): ItineraryStop => {
+    const stop = stops[index];
+    const check = checkOpeningHours((stop.details as PlaceDetails).opening_hours, item.startTime, item.durationMinutes, timeZone);
+
+    if (check.status === 'closed') {
+      warnings.push({
+        type: 'closed',
+        message: `${stop.name}: ${check.reason}`,
+        items: [stop.name]
+      });
+    }
+
+    const leg = index > 0 ? legs[index - 1] : null;
+    if (leg) {
+      leg.arrivalTime = item.startTime.toISOString();
+    }
+
+    // Copy rather than mutate so the caller's stops aren't affected
+    return {
+      ...stop,
+      scheduledTime: item.startTime.toISOString(),
+      details: {
+        ...(stop.details as PlaceDetails),
+        visitDurationMinutes: item.durationMinutes,
+        openAtScheduledTime: check.status === 'unknown' ? undefined : check.status === 'open',
+        closesDuringVisit: check.closesDuringVisit || undefined,
+        closedReason: check.reason
+      }
+    };
+  });
+
+  return {
+    stops: updatedStops,
+    travelTimes: legs.filter((leg): leg is TravelTimeEntry => leg !== null),
+    warnings: [...warnings, ...schedule.warnings]
+  };
+}
+
+/**
+ * Turn a user-supplied time into a date on the itinerary's day
+ *
+ * Accepts full ISO timestamps or clock times like "14:30" or "3pm".
+ *
+ * @param input Time entered by the user
+ * @param referenceDate Any time on the itinerary's day
+ * @param timeZone Timezone clock times are expressed in
+ */
+export function resolveStopTime(input: string, referenceDate: Date, timeZone: string = BOSTON_TIMEZONE): Date {
+  if (/^\d{4}-\d{2}-\d{2}T/.test(input)) {
+    const date = new Date(input);
+    if (isNaN(date.getTime())) {
+      throw new ItineraryEditError(`Invalid time: ${input}`);
+    }
+    return date;
+  }
+
+  return zonedTimeToDate(getDateInTimeZone(referenceDate, timeZone), input, timeZone);
+}
+
+/**
+ * When a stop's planned visit ends
+ */
+export function stopEndTime(stop: ItineraryStop): Date {
+  const start = stop.scheduledTime ? new Date(stop.scheduledTime) : new Date();
+  const duration = (stop.details as PlaceDetails).visitDurationMinutes || DEFAULT_VISIT_MINUTES;
+  return new Date(start.getTime() + duration * 60 * 1000);
+}
+
+function stopTime(stop: ItineraryStop): number {
+  return stop.scheduledTime ? new Date(stop.scheduledTime).getTime() : Number.MAX_SAFE_INTEGER;
+}
+
+function checkIndex(stops: ItineraryStop[], index: number): void {
+  if (!Number.isInteger(index) || index < 0 || index >= stops.length) {
+    throw new ItineraryEditError(`Itinerary has no stop at index ${index}`, 404);
+  }
+}
+
+/**
+ * Refuse to change a stop the owner locked in after a vote
+ */
+export function checkUnlocked(stop: ItineraryStop): void {
+  if (stop.locked) {
+    throw new ItineraryEditError(`${stop.name} is locked in by the owner`, 409);
+  }
+}
+
+/**
+ * Insert a stop at its chronological position
+ *
+ * @returns The new list and the index the stop ended up at
+ */
+export function insertStop(stops: ItineraryStop[], stop: ItineraryStop): { stops: ItineraryStop[]; index: number } {
+  let index = stops.findIndex(existing => stopTime(existing) > stopTime(stop));
+  if (index === -1) {
+    index = stops.length;
+  }
+
+  return {
+    stops: [...stops.slice(0, index), stop, ...stops.slice(index)],
+    index
+  };
+}
+
+/**
+ * Remove the stop at the given index, unless it's locked
+ */
+export function removeStop(stops: ItineraryStop[], index: number): ItineraryStop[] {
+  checkIndex(stops, index);
+  checkUnlocked(stops[index]);
+  return stops.filter((_, i) => i !== index);
+}
+
+/**
+ * Give a stop a new time and move it to its chronological position
+ *
+ * A stop the user has explicitly timed is treated as fixed from then on. Locked stops keep their time.
+ *
+ * @returns The new list and the index the stop ended up at
+ */
+export function retimeStop(stops: ItineraryStop[], index: number, time: Date): { stops: ItineraryStop[]; index: number } {
+  checkIndex(stops, index);
+
+  const retimed: ItineraryStop = {
+    ...stops[index],
+    scheduledTime: time.toISOString(),
+    isFixed: true
+  };
+
+  return insertStop(removeStop(stops, index), retimed);
+}
+
+/**
+ * Put the stops in a new order
+ *
+ * Time slots stay where they are and flexible stops move between them.
+ * Fixed stops must keep their position; retime them instead. Locked stops can't move at all.
+ *
+ * @param order Current indices of the stops, in their new order
+ * @returns The new list and the indices of the stops that moved
+ */
+export function reorderStops(stops: ItineraryStop[], order: number[]): { stops: ItineraryStop[]; movedIndices: number[] } {
+  const isPermutation = order.length === stops.length &&
+    new Set(order).size === order.length &&
+    order.every(index => Number.isInteger(index) && index >= 0 && index < stops.length);
+
+  if (!isPermutation) {
+    throw new ItineraryEditError(`order must list each of the ${stops.length} stop indices exactly once`);
+  }
+
+  const movedIndices: number[] = [];
+  const reordered = order.map((oldIndex, newIndex): ItineraryStop => {
+    const stop = stops[oldIndex];
+    if (oldIndex === newIndex) {
+      return stop;
+    }
+
+    checkUnlocked(stop);
+    if (stop.isFixed) {
+      throw new ItineraryEditError(`${stop.name} has a fixed time and can't be moved; change its time instead`);
+    }
+
+    movedIndices.push(newIndex);
+    return { ...stop, scheduledTime: stops[newIndex].scheduledTime };
+  });
+
+  return { stops: reordered, movedIndices };
+}
+
+/**
+ * Build the stop that replaces stops[index] with one of its alternatives
+ *
+ * The replaced venue becomes an alternative of the new stop, so the user can swap back.
+ *
+ * @param stop Current stop
+ * @param alternativePlaceId Google place_id of the alternative to use
+ * @returns The chosen venue details and the alternatives to store with it
+ */
+export function prepareVenueSwap(
+  stop: ItineraryStop,
+  alternativePlaceId: string
+): { venue: PlaceDetails; alternatives: PlaceDetails[] } {
+  const alternatives = Array.isArray(stop.alternatives) ? stop.alternatives as PlaceDetails[] : [];
+  const chosen = alternatives.find(alternative => alternative.place_id === alternativePlaceId);
+
+  if (!chosen) {
+    throw new ItineraryEditError(`${alternativePlaceId} is not an alternative for ${stop.name}`);
+  }
+
+  const currentDetails = stop.details as PlaceDetails;
+
+  return {
+    venue: { ...chosen, is_primary: true },
+    alternatives: [
+      { ...currentDetails, is_primary: false },
+      ...alternatives.filter(alternative => alternative.place_id !== alternativePlaceId)
+    ]
+  };
+}
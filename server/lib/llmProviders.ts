@@ -0,0 +1,195 @@
+/**
+ * LLM Provider Module
+ *
+ * Query understanding can be backed by any of these language models:
+ * - gemini: Google Gemini (GEMINI_API_KEY, model GEMINI_MODEL)
+ * - anthropic: Anthropic Claude (ANTHROPIC_API_KEY, model ANTHROPIC_MODEL)
+ * - scripted: canned replies read from LLM_SCRIPT_FILE, for tests and offline runs
+ *
+ * Requests can carry a JSON schema the reply must follow, which each provider enforces with its
+ * own structured output (Gemini's response schema, Anthropic's forced tool call).
+ *
+ * LLM_PROVIDERS lists the providers to use in order of preference (default "gemini,anthropic");
+ * providers that aren't configured are skipped, and callers fail over to the next one
+ * when a provider errors or its reply can't be used.
+ */
+
+import fs from 'fs';
+import { GoogleGenerativeAI, type ResponseSchema } from '@google/generative-ai';
+import Anthropic from '@anthropic-ai/sdk';
+import { getApiKey, isFeatureEnabled } from '../config';
+import type { JsonSchema, ResponseFormat } from './structuredOutput';
+
+export type LlmProviderName = 'gemini' | 'anthropic' | 'scripted';
+
+export interface LlmRequest {
+  prompt: string;
+  userQuery: string;   // The user's own words, which scripted replies are looked up by
+  temperature: number;
+  maxOutputTokens: number;
+  responseFormat?: ResponseFormat;  // Schema the reply must follow; the reply text is then JSON
+}
+
+export interface LlmResponse {
+  text: string;
+  model: string;       // Model that actually answered, as reported by the provider where it says
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  model: string;
+  generate(request: LlmRequest): Promise<LlmResponse>;
+}
+
+const DEFAULT_PROVIDERS = 'gemini,anthropic';
+const DEFAULT_GEMINI_MODEL = 'gemini-1.5-pro-latest';
+const DEFAULT_ANTHROPIC_MODEL = 'claude-3-5-sonnet-latest';
+
+// Gemini's response schema is OpenAPI-style: the same shape, with enums marked by format
+function toGeminiSchema(schema: JsonSchema): ResponseSchema {
+  const converted: Record<string, unknown> = { ...schema };
+  if (schema.enum) converted.format = 'enum';
+  if (schema.items) converted.items = toGeminiSchema(schema.items);
+  if (schema.properties) {
+    converted.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    );
+  }
+  return converted as unknown as ResponseSchema;
+}
+
+export function createGeminiProvider(apiKey: string, model: string = process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL): LlmProvider {
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  return {
+    name: 'gemini',
+    model,
+    async generate(request) {
+      const result = await genAI.getGenerativeModel({ model }).generateContent({
+        contents: [{ role: 'user', parts: [{ text: request.prompt }] }],
+        generationConfig: {
+          temperature: request.temperature,
+          maxOutputTokens: request.maxOutputTokens,
+          ...(request.responseFormat && {
+            responseMimeType: 'application/json',
+            responseSchema: toGeminiSchema(request.responseFormat.schema),
+          }),
+        },
+      });
+      return { text: result.response.text(), model };
+    }
+  };
+}
+
+export function createAnthropicProvider(apiKey: string, model: string = process.env.ANTHROPIC_MODEL || DEFAULT_ANTHROPIC_MODEL): LlmProvider {
+  const client = new Anthropic({ apiKey });
+
+  return {
+    name: 'anthropic',
+    model,
+    async generate(request) {
+      const format = request.responseFormat;
+      const message = await client.messages.create({
+        model,
+        max_tokens: request.maxOutputTokens,
+        temperature: request.temperature,
+        messages: [{ role: 'user', content: request.prompt }],
+        // Structured replies come back as the input of a tool the model is made to call
+        ...(format && {
+          tools: [{
+            name: format.name,
+            description: format.description,
+            input_schema: format.schema as Anthropic.Tool.InputSchema,
+          }],
+          tool_choice: { type: 'tool' as const, name: format.name },
+        }),
+      });
+
+      const toolUse = message.content.find(block => block.type === 'tool_use');
+      if (format && toolUse?.type === 'tool_use') {
+        return { text: JSON.stringify(toolUse.input), model: message.model };
+      }
+      const text = message.content
+        .map(block => block.type === 'text' ? block.text : '')
+        .join('');
+      return { text, model: message.model };
+    }
+  };
+}
+
+/**
+ * A provider that answers from canned replies instead of a model
+ *
+ * @param replies Reply for each user query; objects are sent back as JSON, and a list
+ *   gives one reply per call for that query (the last one repeats). Queries without a
+ *   reply fail, like a provider that is down.
+ */
+export function createScriptedProvider(
+  replies: Record<string, unknown>,
+  model: string = 'scripted'
+): LlmProvider {
+  const calls = new Map<string, number>();
+
+  return {
+    name: 'scripted',
+    model,
+    async generate(request) {
+      const reply = replies[request.userQuery];
+      if (reply === undefined) {
+        throw new Error(`No scripted reply for "${request.userQuery}"`);
+      }
+
+      let next = reply;
+      if (Array.isArray(reply)) {
+        const call = calls.get(request.userQuery) || 0;
+        calls.set(request.userQuery, call + 1);
+        next = reply[Math.min(call, reply.length - 1)];
+      }
+      if (next instanceof Error) throw next;
+      return { text: typeof next === 'string' ? next : JSON.stringify(next), model };
+    }
+  };
+}
+
+function createConfiguredProvider(name: string): LlmProvider | null {
+  switch (name) {
+    case 'gemini': {
+      const apiKey = getApiKey('GEMINI_API_KEY');
+      return apiKey && isFeatureEnabled('USE_GEMINI') ? createGeminiProvider(apiKey) : null;
+    }
+    case 'anthropic': {
+      const apiKey = getApiKey('ANTHROPIC_API_KEY');
+      return apiKey ? createAnthropicProvider(apiKey) : null;
+    }
+    case 'scripted': {
+      const scriptFile = process.env.LLM_SCRIPT_FILE;
+      return scriptFile ? createScriptedProvider(JSON.parse(fs.readFileSync(scriptFile, 'utf-8'))) : null;
+    }
+    default:
+      console.warn(`Unknown LLM provider "${name}" in LLM_PROVIDERS`);
+      return null;
+  }
+}
+
+let providerOverride: LlmProvider[] | null = null;
+
+/**
+ * Use these providers instead of the configured ones (e.g. from tests); pass null to go back
+ */
+export function setLlmProviders(providers: LlmProvider[] | null): void {
+  providerOverride = providers;
+}
+
+/**
+ * Providers to try, in order of preference
+ */
+export function getLlmProviders(): LlmProvider[] {
+  if (providerOverride) return providerOverride;
+
+  return (process.env.LLM_PROVIDERS || DEFAULT_PROVIDERS)
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean)
+    .map(createConfiguredProvider)
+    .filter((provider): provider is LlmProvider => provider !== null);
+}
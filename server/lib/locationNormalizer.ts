@@ -1,49 +1,4 @@
-import { nycAreas, NYCArea } from "../data/new-york-areas";
-
-// Dictionary of neighborhood name variations and colloquial references
-// This helps match common ways people refer to neighborhoods
-const NYC_NEIGHBORHOOD_VARIATIONS: Record<string, string[]> = {
-  "Harlem": ["harlem", "uptown harlem", "upper harlem", "central harlem"],
-  "East Harlem": ["spanish harlem", "el barrio", "east harlem"],
-  "West Village": ["west village", "greenwich village west", "west village nyc"],
-  "Greenwich Village": ["greenwich village", "the village", "village"],
-  "SoHo": ["soho", "so ho", "south of houston"],
-  "TriBeCa": ["tribeca", "tri beca", "triangle below canal"],
-  "Financial District": ["fidi", "financial district", "wall street area"],
-  "Upper East Side": ["ues", "upper east side", "east side"],
-  "Upper West Side": ["uws", "upper west side", "west side"],
-  "Williamsburg": ["williamsburg", "billyburg", "north brooklyn"],
-  "Dumbo": ["dumbo", "down under manhattan bridge overpass"],
-  "Times Square": ["times square", "times sq", "broadway district", "theater district"],
-  "East Village": ["east village", "alphabet city", "lower east side north"],
-  "Midtown": ["midtown", "midtown manhattan", "central manhattan"],
-  "Chelsea": ["chelsea", "chelsea nyc", "west chelsea"],
-  "Lower East Side": ["les", "lower east side", "lower manhattan east"],
-  "Murray Hill": ["murray hill", "kips bay area", "midtown east"]
-};
-
-// Common NYC stations/subway stops that should always have "station" appended
-const COMMON_STATIONS = [
-  "Grand Central",
-  "Penn Station",
-  "Times Square",
-  "Union Square",
-  "World Trade Center",
-  "Atlantic Terminal",
-  "Columbus Circle",
-  "Herald Square",
-  "Bryant Park",
-  "Fulton Street",
-  "Canal Street",
-  "Wall Street",
-  "Chambers Street",
-  "Jay Street",
-  "Borough Hall",
-  "Rockefeller Center",
-  "14th Street",
-  "Lexington Avenue",
-  "34th Street"
-] as const;
+import { getCityPack, type CityPack } from "./cityPacks";
 
 // Common activity mappings to Google Places API types
 export const ACTIVITY_TYPE_MAPPINGS = {
@@ -77,50 +32,9 @@ export const ACTIVITY_TYPE_MAPPINGS = {
 } as const;
 
 type ActivityType = keyof typeof ACTIVITY_TYPE_MAPPINGS;
-type Station = typeof COMMON_STATIONS[number];
-
-// Common misspellings and variants of NYC locations
-const SPELLING_CORRECTIONS: Record<string, string> = {
-  'greenwhich': 'Greenwich',
-  'greenwich village': 'Greenwich Village',
-  'green village': 'Greenwich Village',
-  'times sq': 'Times Square',
-  'time square': 'Times Square',
-  'timesquare': 'Times Square',
-  'central pk': 'Central Park',
-  'soho': 'SoHo',
-  'williamsburg': 'Williamsburg',
-  'dumbo': 'DUMBO',
-  'down under manhattan bridge': 'DUMBO',
-  'downtown brooklyn': 'Downtown Brooklyn',
-  'upper east': 'Upper East Side',
-  'upper west': 'Upper West Side',
-  'west village': 'West Village',
-  'east village': 'East Village',
-  'financial district': 'Financial District',
-  'fin district': 'Financial District',
-  'fidi': 'Financial District',
-  'midtown': 'Midtown',
-  'mid town': 'Midtown',
-  'china town': 'Chinatown',
-  'chelsea': 'Chelsea',
-  'gramercy': 'Gramercy',
-  'gramercy park': 'Gramercy Park',
-  'hells kitchen': 'Hell\'s Kitchen',
-  'hell\'s kitchen': 'Hell\'s Kitchen',
-  'tribeca': 'Tribeca',
-  'little italy': 'Little Italy',
-  'nolita': 'NoLita',
-  'noho': 'NoHo',
-  'flatbush': 'Flatbush',
-  'brooklyn heights': 'Brooklyn Heights',
-  'park slope': 'Park Slope',
-  'grand central': 'Grand Central Station',
-  'penn sta': 'Penn Station'
-};
 
 // Helper to normalize location names with improved spelling corrections
-export function normalizeLocationName(location: string): string {
+export function normalizeLocationName(location: string, city: CityPack = getCityPack()): string {
   // Handle null, undefined, or empty string
   if (!location || typeof location !== 'string') return '';
   
@@ -130,7 +44,7 @@ export function normalizeLocationName(location: string): string {
   const lowercased = trimmed.toLowerCase();
   
   // Check for colloquial neighborhood names first
-  for (const [canonicalName, variations] of Object.entries(NYC_NEIGHBORHOOD_VARIATIONS)) {
+  for (const [canonicalName, variations] of Object.entries(city.neighborhoodVariations)) {
     if (variations.includes(lowercased)) {
       console.log(`Matched colloquial name: "${location}" -> "${canonicalName}"`);
       return canonicalName;
@@ -138,7 +52,7 @@ export function normalizeLocationName(location: string): string {
   }
   
   // Check for common spelling corrections
-  for (const [misspelled, correct] of Object.entries(SPELLING_CORRECTIONS)) {
+  for (const [misspelled, correct] of Object.entries(city.spellingCorrections)) {
     if (lowercased === misspelled) {
       return correct;
     }
@@ -149,7 +63,7 @@ export function normalizeLocationName(location: string): string {
     const dehyphenated = trimmed.replace(/-/g, ' ');
     // Check if the dehyphenated version has a correction
     const dehyphenatedLower = dehyphenated.toLowerCase();
-    for (const [misspelled, correct] of Object.entries(SPELLING_CORRECTIONS)) {
+    for (const [misspelled, correct] of Object.entries(city.spellingCorrections)) {
       if (dehyphenatedLower === misspelled) {
         return correct;
       }
@@ -161,8 +75,8 @@ export function normalizeLocationName(location: string): string {
       .join(' ');
   }
 
-  // Check if it's a common tube station that needs "Station" appended
-  const station = COMMON_STATIONS.find(s => 
+  // Check if it's a common transit station that needs "Station" appended
+  const station = city.stations.find(s => 
     s.toLowerCase() === lowercased ||
     lowercased === `${s.toLowerCase()} station`
   );
@@ -175,11 +89,7 @@ export function normalizeLocationName(location: string): string {
   // For other locations, apply proper capitalization
   // Convert to title case (first letter of each word capitalized)
   return trimmed.split(' ')
-    .map(word => {
-      // Special case for King's Cross and similar possessives
-      if (word.toLowerCase() === 'kings') return 'King\'s';
-      return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
-    })
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
     .join(' ');
 }
 
@@ -188,7 +98,8 @@ export function normalizeLocationName(location: string): string {
 export function verifyPlaceMatch(
   requestedLocation: string, 
   returnedName: string,
-  types: string[]
+  types: string[],
+  city: CityPack = getCityPack()
 ): boolean {
   // Handle invalid inputs
   if (!requestedLocation || !returnedName) return false;
@@ -206,7 +117,7 @@ export function verifyPlaceMatch(
   }
   
   // Check if this is a known neighborhood variation
-  for (const [canonicalName, variations] of Object.entries(NYC_NEIGHBORHOOD_VARIATIONS)) {
+  for (const [canonicalName, variations] of Object.entries(city.neighborhoodVariations)) {
     // If the requested location is a variation of this canonical neighborhood name
     if (variations.includes(normalized)) {
       // Check if the returned name matches or contains the canonical form
@@ -260,8 +171,8 @@ export function verifyPlaceMatch(
       }
     }
     
-    // Check if it's a known NYC area in our database
-    const matchingArea = nycAreas.find((area: NYCArea) => {
+    // Check if it's a known area of the city
+    const matchingArea = city.areas.find(area => {
       const areaLower = area.name.toLowerCase();
       
       // Check the area name
@@ -293,7 +204,7 @@ export function verifyPlaceMatch(
   
   // For stations, check if the returned name includes "station" and matches one of our known stations
   if (returnedNormalized.includes('station')) {
-    for (const station of COMMON_STATIONS) {
+    for (const station of city.stations) {
       const stationLower = station.toLowerCase();
       if (returnedNormalized.includes(stationLower) || normalized.includes(stationLower)) {
         return true;
@@ -304,18 +215,26 @@ export function verifyPlaceMatch(
   return false;
 }
 
+// The city's busiest areas, suggested when nothing closer matches
+function popularAreas(city: CityPack): string[] {
+  return [...city.areas]
+    .sort((a, b) => b.crowdLevels.weekend - a.crowdLevels.weekend)
+    .slice(0, 3)
+    .map(area => area.name);
+}
+
 // Helper to suggest similar locations when a match isn't found
-export function suggestSimilarLocations(location: string): string[] {
+export function suggestSimilarLocations(location: string, city: CityPack = getCityPack()): string[] {
   // Handle null, undefined, or empty string
   if (!location || typeof location !== 'string' || location.trim() === '') {
-    return ['Times Square', 'SoHo', 'Central Park']; // Default popular areas
+    return popularAreas(city);
   }
   
   const normalized = location.toLowerCase().trim();
   const suggestions = new Set<string>();
 
   // First check if this is a neighborhood variation
-  for (const [canonicalName, variations] of Object.entries(NYC_NEIGHBORHOOD_VARIATIONS)) {
+  for (const [canonicalName, variations] of Object.entries(city.neighborhoodVariations)) {
     // If the requested location is similar to any of the variations
     if (variations.some(variation => 
       variation.includes(normalized) || normalized.includes(variation)
@@ -324,7 +243,7 @@ export function suggestSimilarLocations(location: string): string[] {
       
       // If we have a direct match, also suggest the neighboring areas
       if (variations.includes(normalized)) {
-        const matchingArea = nycAreas.find(area => area.name === canonicalName);
+        const matchingArea = city.areas.find(area => area.name === canonicalName);
         if (matchingArea && matchingArea.neighbors) {
           // Add a few neighboring areas as suggestions
           matchingArea.neighbors.slice(0, 2).forEach(neighbor => {
@@ -336,7 +255,7 @@ export function suggestSimilarLocations(location: string): string[] {
   }
   
   // Then check stations
-  for (const station of COMMON_STATIONS) {
+  for (const station of city.stations) {
     const stationLower = station.toLowerCase();
     if (stationLower.includes(normalized) || normalized.includes(stationLower)) {
       suggestions.add(`${station} Station`);
@@ -347,7 +266,7 @@ export function suggestSimilarLocations(location: string): string[] {
   const requestWords = normalized.split(/\s+/).filter(word => word.length > 2);
 
   // Check areas, preserving original area names from our database
-  for (const area of nycAreas) {
+  for (const area of city.areas) {
     const areaLower = area.name.toLowerCase();
     
     // Full or partial location matching
@@ -378,7 +297,7 @@ export function suggestSimilarLocations(location: string): string[] {
   
   // If we didn't find any matches, return popular areas
   if (suggestions.size === 0) {
-    return ['Times Square', 'SoHo', 'Greenwich Village'];
+    return popularAreas(city);
   }
 
   // Convert to array and sort by relevance
@@ -0,0 +1,98 @@
+/**
+ * Login Throttle Module
+ *
+ * Slows down password guessing on the auth routes:
+ * - Failures are counted per client IP and per account (email), each with its own policy
+ * - After a few free failures, each further one blocks the key for twice as long as the last
+ * - After many failures the key is locked out for a while
+ * - Failures are forgotten once a key has had none for the reset period
+ *
+ * The counters are kept through storage, so they work in memory and in Postgres alike.
+ * Each attempt is claimed (counted) before the password is checked, in one atomic step that
+ * also refuses keys that are blocked, so parallel guesses can't all slip past the check.
+ */
+
+import type { AuthThrottle } from '@shared/schema';
+
+export type ThrottleScope = 'ip' | 'account' | 'registration';
+
+export interface ThrottlePolicy {
+  freeAttempts: number;      // Failures allowed before any delay
+  baseDelaySeconds: number;  // Delay after the first failure past the free ones, doubling after each further one
+  maxDelaySeconds: number;
+  lockoutAfter: number;      // Failures after which the key is locked out
+  lockoutMinutes: number;
+  resetAfterMinutes: number; // Quiet period after which failures are forgotten
+}
+
+// Many people can share an IP (offices, phone networks), so IPs get more room than accounts.
+// Registration counts every attempt from an IP, not just failures.
+export const THROTTLE_POLICIES: Record<ThrottleScope, ThrottlePolicy> = {
+  account: { freeAttempts: 3, baseDelaySeconds: 2, maxDelaySeconds: 5 * 60, lockoutAfter: 10, lockoutMinutes: 15, resetAfterMinutes: 60 },
+  ip: { freeAttempts: 10, baseDelaySeconds: 1, maxDelaySeconds: 5 * 60, lockoutAfter: 50, lockoutMinutes: 30, resetAfterMinutes: 60 },
+  registration: { freeAttempts: 5, baseDelaySeconds: 30, maxDelaySeconds: 30 * 60, lockoutAfter: 20, lockoutMinutes: 60, resetAfterMinutes: 60 }
+};
+
+/**
+ * Key the counter for an IP or account is stored under
+ */
+export function throttleKey(scope: ThrottleScope, value: string): string {
+  return `${scope}:${value.trim().toLowerCase()}`;
+}
+
+/**
+ * Policy for a key from throttleKey, by its scope
+ */
+export function getThrottlePolicy(key: string): ThrottlePolicy {
+  return THROTTLE_POLICIES[key.slice(0, key.indexOf(':')) as ThrottleScope];
+}
+
+/**
+ * Seconds a key is blocked for after its nth failure in a row: none for the free attempts,
+ * then doubling from the base delay, then the lockout
+ */
+export function throttleDelaySeconds(policy: ThrottlePolicy, failures: number): number {
+  if (failures >= policy.lockoutAfter) {
+    return policy.lockoutMinutes * 60;
+  }
+  if (failures > policy.freeAttempts) {
+    return Math.min(policy.baseDelaySeconds * Math.pow(2, failures - policy.freeAttempts - 1), policy.maxDelaySeconds);
+  }
+  return 0;
+}
+
+/**
+ * Seconds until a key may try again, or 0 if it may try now
+ */
+export function getRetryAfterSeconds(throttle: AuthThrottle | undefined, now: Date = new Date()): number {
+  if (!throttle?.blockedUntil) return 0;
+  return Math.max(0, Math.ceil((throttle.blockedUntil.getTime() - now.getTime()) / 1000));
+}
+
+/**
+ * Counter for a key after one more failure, with the key blocked for the backoff delay
+ * or locked out once it has failed too often
+ *
+ * @param throttle Current counter for the key, if any
+ * @param key Key from throttleKey, whose scope decides the policy
+ * @param now Current time, for tests
+ */
+export function recordThrottleFailure(throttle: AuthThrottle | undefined, key: string, now: Date = new Date()): AuthThrottle {
+  const policy = getThrottlePolicy(key);
+  const forgotten = !throttle || now.getTime() - throttle.lastFailureAt.getTime() > policy.resetAfterMinutes * 60 * 1000;
+  const failures = forgotten ? 1 : throttle.failures + 1;
+
+  const delaySeconds = throttleDelaySeconds(policy, failures);
+  const blockedUntil = delaySeconds > 0 ? new Date(now.getTime() + delaySeconds * 1000) : null;
+
+  return { key, failures, lastFailureAt: now, blockedUntil };
+}
+
+/**
+ * Describe a wait for people, e.g. "30 seconds" or "15 minutes"
+ */
+export function describeWait(seconds: number): string {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,75 @@
+/**
+ * Mailer Module
+ *
+ * Emails (password reset and verification links) go through a pluggable transport,
+ * chosen with MAIL_TRANSPORT:
+ * - console (default): the email is printed to the server log
+ * - file: each email is written to MAIL_OUTBOX_DIR (default logs/mail) as a .txt file,
+ *   so tests and local runs can pick up the links
+ *
+ * A real transport (SMTP, an email API) plugs in with setMailTransport.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export const consoleTransport: MailTransport = {
+  name: 'console',
+  async send(message: MailMessage) {
+    console.log(`📧 Email to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+};
+
+/**
+ * Transport that writes each email to a file in the given directory
+ */
+export function createFileTransport(outboxDir: string): MailTransport {
+  return {
+    name: 'file',
+    async send(message: MailMessage) {
+      await fs.promises.mkdir(outboxDir, { recursive: true });
+      const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+      const filePath = path.join(outboxDir, `${Date.now()}-${safeRecipient}.txt`);
+      const contents = `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`;
+      await fs.promises.writeFile(filePath, contents);
+      console.log(`📧 Email to ${message.to} written to ${filePath}`);
+    }
+  };
+}
+
+function getDefaultTransport(): MailTransport {
+  if (process.env.MAIL_TRANSPORT === 'file') {
+    return createFileTransport(process.env.MAIL_OUTBOX_DIR || path.join('logs', 'mail'));
+  }
+  return consoleTransport;
+}
+
+let transport: MailTransport | null = null;
+
+/**
+ * Replace the transport emails are sent with, e.g. with a real provider or a test double
+ */
+export function setMailTransport(next: MailTransport | null): void {
+  transport = next;
+}
+
+/**
+ * Send an email with the configured transport
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  if (!transport) {
+    transport = getDefaultTransport();
+  }
+  await transport.send(message);
+}
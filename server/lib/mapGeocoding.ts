@@ -6,6 +6,8 @@
  */
 
 import { getApiKey, isFeatureEnabled } from "../config";
+import { providerFetch } from "./apiProvider";
+import { getCityPack, isInCity, type CityPack } from "./cityPacks";
 
 // Interface for address component
 interface AddressComponent {
@@ -29,9 +31,10 @@ export interface GeocodingResult {
  * Validates and normalizes a location name by geocoding it through Google Maps API
  * 
  * @param location Location name to validate (e.g., "Hackney", "Soho", etc.)
+ * @param city City the location should be in
  * @returns Verified location name (neighborhood or locality) or original if verification fails
  */
-export async function validateAndNormalizeLocation(location: string): Promise<string> {
+export async function validateAndNormalizeLocation(location: string, city: CityPack = getCityPack()): Promise<string> {
   // Skip if the feature is disabled
   if (!isFeatureEnabled("PLACES_API")) {
     console.log("Places API is disabled, skipping location validation for:", location);
@@ -41,13 +44,13 @@ export async function validateAndNormalizeLocation(location: string): Promise<st
   try {
     const apiKey = getApiKey("GOOGLE_PLACES_API_KEY");
     
-    // Ensure the location is specifically within Boston
-    const searchQuery = `${location}, Boston, MA, USA`;
+    // Ensure the location is specifically within the city
+    const searchQuery = `${location}, ${city.geocodeContext}`;
     const geocodeUrl = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(searchQuery)}&key=${apiKey}`;
     
     console.log(`Validating location: "${location}" with Google Maps Geocoding API`);
     
-    const response = await fetch(geocodeUrl);
+    const response = await providerFetch('geocoding', geocodeUrl);
     
     if (!response.ok) {
       throw new Error(`Geocoding API request failed with status: ${response.status}`);
@@ -85,18 +88,14 @@ export async function validateAndNormalizeLocation(location: string): Promise<st
       (component: AddressComponent) => component.types.includes("locality")
     );
     
-    if (locality && locality.long_name.toLowerCase() !== "boston") {
-      console.log(`Location "${location}" is outside Boston (in ${locality.long_name})`);
+    if (locality && !city.localities.some(name => name.toLowerCase() === locality.long_name.toLowerCase())) {
+      console.log(`Location "${location}" is outside ${city.name} (in ${locality.long_name})`);
       return "";
     }
     
-    // Check for administrative area as last resort
-    const adminArea = components.find(
-      (component: AddressComponent) => component.types.includes("administrative_area_level_2")
-    );
-    
-    if (adminArea && adminArea.long_name.toLowerCase() !== "suffolk county") {
-      console.log(`Location "${location}" is outside Suffolk County (in ${adminArea.long_name})`);
+    // Check the coordinates as last resort
+    if (result.geometry?.location && !isInCity(city, result.geometry.location)) {
+      console.log(`Location "${location}" is outside ${city.name}'s bounds`);
       return "";
     }
     
@@ -114,19 +113,20 @@ export async function validateAndNormalizeLocation(location: string): Promise<st
  * Get full geocoding details for a location
  * 
  * @param location Location name or address
+ * @param city City the location should be in
  * @returns Detailed geocoding result or null if not found
  */
-export async function getLocationDetails(location: string): Promise<GeocodingResult | null> {
+export async function getLocationDetails(location: string, city: CityPack = getCityPack()): Promise<GeocodingResult | null> {
   if (!isFeatureEnabled("PLACES_API")) {
     return null;
   }
 
   try {
     const apiKey = getApiKey("GOOGLE_PLACES_API_KEY");
-    const searchQuery = `${location}, Boston, MA, USA`;
+    const searchQuery = `${location}, ${city.geocodeContext}`;
     const geocodeUrl = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(searchQuery)}&key=${apiKey}`;
     
-    const response = await fetch(geocodeUrl);
+    const response = await providerFetch('geocoding', geocodeUrl);
     
     if (!response.ok) {
       throw new Error(`Geocoding API request failed with status: ${response.status}`);
@@ -183,19 +183,23 @@ export async function getLocationDetails(location: string): Promise<GeocodingRes
  * 
  * This provides the most accurate location information possible.
  */
-export async function processLocationWithAIAndMaps(query: string, extractedLocation?: string): Promise<string> {
-  let locationToProcess = extractedLocation || "Midtown";
+export async function processLocationWithAIAndMaps(
+  query: string,
+  extractedLocation?: string,
+  city: CityPack = getCityPack()
+): Promise<string> {
+  let locationToProcess = extractedLocation || city.defaultArea;
   
   try {
     // Verify with Google Maps
-    const verifiedLocation = await validateAndNormalizeLocation(locationToProcess);
+    const verifiedLocation = await validateAndNormalizeLocation(locationToProcess, city);
     
-    if (verifiedLocation && verifiedLocation !== "Boston") {
-      console.log(`Verified broader location "${verifiedLocation}" is not Boston`);
+    if (verifiedLocation && verifiedLocation !== city.name) {
+      console.log(`Verified broader location "${verifiedLocation}" is not ${city.name}`);
       return "";
     }
     
-    // If we couldn't verify with Maps or got a generic "London" result,
+    // If we couldn't verify with Maps or got a generic city-wide result,
     // try to extract more specific location information from the query
     
     // Look for explicit location mentions with prepositions
@@ -205,14 +209,14 @@ export async function processLocationWithAIAndMaps(query: string, extractedLocat
       console.log(`Found potential location in query: "${locationToProcess}"`);
       
       // Try to validate this extracted location
-      const verifiedExplicitLocation = await validateAndNormalizeLocation(locationToProcess);
-      if (verifiedExplicitLocation && verifiedExplicitLocation !== "Boston") {
-        console.log(`Verified explicit location "${verifiedExplicitLocation}" is not Boston`);
+      const verifiedExplicitLocation = await validateAndNormalizeLocation(locationToProcess, city);
+      if (verifiedExplicitLocation && verifiedExplicitLocation !== city.name) {
+        console.log(`Verified explicit location "${verifiedExplicitLocation}" is not ${city.name}`);
         return "";
       }
     }
     
-    // If we still don't have a specific location, return the original or use Midtown as default
+    // If we still don't have a specific location, return the original or the city's default area
     return locationToProcess;
     
   } catch (error) {
@@ -14,10 +14,11 @@ import {
 } from "./languageProcessing";
 import { getApiKey, isFeatureEnabled, validateApiKey } from "../config";
 import { processWithGemini, StructuredRequest as GeminiStructuredRequest } from './geminiProcessor';
+import { generateSessionId, recordPipelineResult } from './aiLogging';
 import { validateAndNormalizeLocation, processLocationWithAIAndMaps } from './mapGeocoding';
-import { parseAndNormalizeTime } from './timeUtils';
+import { getCityPack, isGenericLocation, type CityPack } from './cityPacks';
+import { parseAndNormalizeTime, formatClockTime } from './timeUtils';
 import { format, parseISO } from 'date-fns';
-import { formatInTimeZone, toZonedTime } from 'date-fns-tz';
 
 // Configure Gemini model with safety settings
 let genAI: GoogleGenerativeAI | null = null;
@@ -85,46 +86,16 @@ type FixedTimeEntry = {
   searchTerm?: string;
   keywords?: string[];
   minRating?: number;
-  displayTime?: string; // New property for formatted display time in NYC timezone
+  displayTime?: string; // Clock time for display, e.g. "6:30 PM"
   searchPreference?: string; // Specific user preference for the venue (e.g., "sandwich place")
+  priceLevel?: "budget" | "moderate" | "expensive"; // Price asked for this activity, e.g. "a cheap lunch"
+  day?: string; // Day of a multi-day trip the activity was asked for (e.g., "Saturday")
 };
 
-/**
- * Helper function to correctly convert a time string into NYC timezone-aware values
- * 
- * @param timeString Time string in 24-hour format (HH:MM)
- * @returns Object containing the ISO timestamp and formatted display time
- */
-function convertTimeStringToNYC(timeString: string): { isoTimestamp: string, displayTime: string } {
-  const timeZone = 'America/New_York';
-  const [hours, minutes] = timeString.split(':').map(Number);
-  
-  // Get current date in NYC time zone to ensure proper DST handling
-  const now = new Date();
-  const nycTime = toZonedTime(now, timeZone);
-  
-  // Extract date components from NYC time
-  const year = nycTime.getFullYear();
-  const month = nycTime.getMonth(); // 0-indexed in JavaScript
-  const day = nycTime.getDate();
-  
-  // Create a new date with the parsed time components but NYC date
-  const localDate = new Date(year, month, day, hours, minutes);
-  
-  // Calculate UTC equivalent by accounting for timezone offset
-  const utcDate = new Date(localDate.getTime() + (localDate.getTimezoneOffset() * 60000));
-  
-  // Format for output
-  const isoTimestamp = utcDate.toISOString();
-  const displayTime = formatInTimeZone(localDate, timeZone, 'h:mm a');
-  
-  return { isoTimestamp, displayTime };
-}
-
 /**
  * Convert Gemini structured request to the application's expected format
  */
-function convertGeminiToAppFormat(geminiResult: GeminiStructuredRequest | null): StructuredRequest | null {
+function convertGeminiToAppFormat(geminiResult: GeminiStructuredRequest | null, city: CityPack): StructuredRequest | null {
   console.log("Converting Gemini result to app format:", JSON.stringify(geminiResult, null, 2));
   
   if (!geminiResult) {
@@ -133,7 +104,8 @@ function convertGeminiToAppFormat(geminiResult: GeminiStructuredRequest | null):
   
   // Initialize the result structure
   const appFormatRequest: StructuredRequest = {
-    startLocation: geminiResult.startLocation || "Midtown", // Default to Midtown Manhattan
+    startLocation: geminiResult.startLocation || city.defaultArea,
+    endLocation: geminiResult.endLocation || null,
     destinations: [],
     fixedTimes: [],
     preferences: {
@@ -177,12 +149,13 @@ function convertGeminiToAppFormat(geminiResult: GeminiStructuredRequest | null):
   };
   
   // Helper function to create a unique key for an activity at a location
-  const createActivityKey = (location: string, activityText: string): string => {
+  // The day is part of the key so the same kind of activity on two days of a trip isn't merged
+  const createActivityKey = (location: string, activityText: string, day?: string): string => {
     // Normalize the location and activity text to avoid case-sensitive duplicates
     const normalizedLocation = location.toLowerCase();
     const normalizedActivity = activityText.toLowerCase();
     
-    return `${normalizedLocation}|${determineActivityType(normalizedActivity)}`;
+    return `${(day || '').toLowerCase()}|${normalizedLocation}|${determineActivityType(normalizedActivity)}`;
   };
   
   // Process fixed time entries if present
@@ -201,21 +174,15 @@ function convertGeminiToAppFormat(geminiResult: GeminiStructuredRequest | null):
           timeValue = parseAndNormalizeTime(timeValue);
           console.log(`Fixed time entry: Normalized time from "${originalTime}" to "${timeValue}"`);
           
-          // Convert the normalized time string (HH:MM) to NYC timezone-aware values
-          const { isoTimestamp, displayTime: formattedTime } = convertTimeStringToNYC(timeValue);
-          
-          // Store the ISO timestamp for backend processing
-          timeValue = isoTimestamp;
-          displayTime = formattedTime;
-          
-          console.log(`Correctly interpreted time "${originalTime}" as NYC time: ${displayTime} (${timeValue})`);
+          // Keep the wall-clock time; it is placed on the plan's day in the city's timezone when scheduled
+          displayTime = formatClockTime(timeValue);
         }
         
         // Determine the most appropriate activity type
         const activityType = entry.searchParameters?.venueType || determineActivityType(entry.activity);
         
         // Create a key for this activity
-        const activityKey = createActivityKey(entry.location, entry.activity);
+        const activityKey = createActivityKey(entry.location, entry.activity, entry.day);
         
         // Check if there's a specific search preference from multiple possible locations
         let searchPreference: string | undefined = undefined;
@@ -241,12 +208,9 @@ function convertGeminiToAppFormat(geminiResult: GeminiStructuredRequest | null):
           console.log(`No venue preference found in Gemini data for activity: ${entry.activity}`);
         }
         
-        // Update references to NYC/Midtown to Downtown Boston
-        if (entry.location && entry.location !== "Boston" && entry.location !== "Downtown" && entry.location !== "Downtown Boston") {
-          // Keep the location as is
-        } else {
-          // Use default location
-          entry.location = "Downtown Boston";
+        // Fall back to the city's default area when no specific location was given
+        if (isGenericLocation(city, entry.location)) {
+          entry.location = `${city.defaultArea} ${city.name}`;
         }
         
         // Store in our map, potentially overwriting less specific entries
@@ -258,7 +222,9 @@ function convertGeminiToAppFormat(geminiResult: GeminiStructuredRequest | null):
           keywords: entry.searchParameters?.specificRequirements || undefined,
           minRating: 4.0, // Default to high quality
           displayTime: displayTime, // Add the display time for the frontend
-          searchPreference: searchPreference // Add user's specific venue preference
+          searchPreference: searchPreference, // Add user's specific venue preference
+          priceLevel: entry.searchParameters?.priceLevel,
+          ...(entry.day ? { day: entry.day } : {})
         });
         
         console.log(`Processed fixed time entry: ${entry.activity} at ${entry.location}, time: ${timeValue}, type: ${activityType}`);
@@ -284,21 +250,15 @@ function convertGeminiToAppFormat(geminiResult: GeminiStructuredRequest | null):
           timeValue = parseAndNormalizeTime(timeValue);
           console.log(`Normalized time from "${originalTime}" to "${timeValue}"`);
           
-          // Convert the normalized time string (HH:MM) to NYC timezone-aware values
-          const { isoTimestamp, displayTime: formattedTime } = convertTimeStringToNYC(timeValue);
-          
-          // Store the ISO timestamp for backend processing
-          timeValue = isoTimestamp;
-          displayTime = formattedTime;
-          
-          console.log(`Correctly interpreted time "${originalTime}" as NYC time: ${displayTime} (${timeValue})`);
+          // Keep the wall-clock time; it is placed on the plan's day in the city's timezone when scheduled
+          displayTime = formatClockTime(timeValue);
         }
         
         // Determine the most appropriate activity type
         const activityType = determineActivityType(entry.activity);
         
         // Create a key for this activity
-        const activityKey = createActivityKey(entry.location, entry.activity);
+        const activityKey = createActivityKey(entry.location, entry.activity, entry.day);
         
         // Check if there's a specific search preference from multiple possible locations
         let searchPreference: string | undefined = undefined;
@@ -324,12 +284,9 @@ function convertGeminiToAppFormat(geminiResult: GeminiStructuredRequest | null):
           console.log(`No venue preference found in Gemini data for flexible activity: ${entry.activity}`);
         }
         
-        // Update references to NYC/Midtown to Downtown Boston
-        if (entry.location && entry.location !== "Boston" && entry.location !== "Downtown" && entry.location !== "Downtown Boston") {
-          // Keep the location as is
-        } else {
-          // Use default location
-          entry.location = "Downtown Boston";
+        // Fall back to the city's default area when no specific location was given
+        if (isGenericLocation(city, entry.location)) {
+          entry.location = `${city.defaultArea} ${city.name}`;
         }
         
         // Only add if we don't already have this activity, or if we're adding a more specific type
@@ -341,7 +298,9 @@ function convertGeminiToAppFormat(geminiResult: GeminiStructuredRequest | null):
             searchTerm: entry.activity,
             minRating: 4.0, // Default to high quality
             displayTime: displayTime, // Add the display time for the frontend
-            searchPreference: searchPreference // Add user's specific venue preference
+            searchPreference: searchPreference, // Add user's specific venue preference
+            priceLevel: entry.searchParameters?.priceLevel,
+            ...(entry.day ? { day: entry.day } : {})
           });
           
           console.log(`Processed flexible time entry: ${entry.activity} at ${entry.location}, time: ${timeValue}, type: ${activityType}`);
@@ -365,12 +324,36 @@ function convertGeminiToAppFormat(geminiResult: GeminiStructuredRequest | null):
     // Extract budget preferences if available
     if (geminiResult.preferences.budget) {
       appFormatRequest.preferences.type = geminiResult.preferences.budget;
+      appFormatRequest.preferences.budget = geminiResult.preferences.budget;
+    }
+
+    if (geminiResult.preferences.pace) {
+      appFormatRequest.preferences.pace = geminiResult.preferences.pace;
+    }
+
+    // Keep cuisine and accessibility so they are merged with the user's saved profile
+    if (Array.isArray(geminiResult.preferences.cuisine) && geminiResult.preferences.cuisine.length > 0) {
+      appFormatRequest.preferences.cuisine = [...geminiResult.preferences.cuisine];
+    }
+
+    if (Array.isArray(geminiResult.preferences.accessibility) && geminiResult.preferences.accessibility.length > 0) {
+      appFormatRequest.preferences.accessibility = [...geminiResult.preferences.accessibility];
     }
     
     // Extract requirements/restrictions if available
     if (Array.isArray(geminiResult.specialRequests)) {
       appFormatRequest.preferences.requirements = geminiResult.specialRequests;
     }
+    
+    // Keep transport preferences so travel legs use the user's preferred modes
+    if (Array.isArray(geminiResult.preferences.transportMode) && geminiResult.preferences.transportMode.length > 0) {
+      appFormatRequest.preferences.transportModes = [...geminiResult.preferences.transportMode];
+    }
+
+    // Keep interests for gap-filling suggestions
+    if (Array.isArray(geminiResult.preferences.interests) && geminiResult.preferences.interests.length > 0) {
+      appFormatRequest.preferences.interests = [...geminiResult.preferences.interests];
+    }
   }
   
   // Sort fixed times chronologically
@@ -383,7 +366,7 @@ function convertGeminiToAppFormat(geminiResult: GeminiStructuredRequest | null):
   // Create destinations array from fixed time locations
   const uniqueLocations = new Set<string>();
   appFormatRequest.fixedTimes.forEach(entry => {
-    if (entry.location && entry.location !== "Boston" && entry.location !== "Downtown" && entry.location !== "Downtown Boston") {
+    if (!isGenericLocation(city, entry.location)) {
       uniqueLocations.add(entry.location);
     }
   });
@@ -470,13 +453,99 @@ function extractActivities(text: string): ActivityContext[] {
   return activities;
 }
 
+/**
+ * Turn the structured request from the language model into the app's format: convert it,
+ * sort the times and normalize the locations
+ * Also used to replay logged model replies through the current pipeline (see aiReplay)
+ *
+ * @param rawGeminiResult Validated request from processWithGemini
+ * @param city City the plan is for
+ */
+export async function buildRequestFromModelResult(
+  rawGeminiResult: GeminiStructuredRequest,
+  city: CityPack = getCityPack()
+): Promise<StructuredRequest | null> {
+  // Convert from Gemini processor format to application format
+  const geminiResult = convertGeminiToAppFormat(rawGeminiResult, city);
+  if (!geminiResult) {
+    return null;
+  }
+
+  // We don't need to process flexible time entries here again.
+  // The convertGeminiToAppFormat function we just updated already 
+  // handles both fixedTimeEntries and flexibleTimeEntries with proper de-duplication.
+  console.log("Using optimized Gemini result that was converted by convertGeminiToAppFormat function");
+  console.log(`Gemini result contains ${geminiResult.fixedTimes.length} de-duplicated activities`);
+  
+  // Sort fixed times chronologically if they exist
+  if (geminiResult.fixedTimes) {
+    geminiResult.fixedTimes.sort((a, b) => {
+      if (!a.time) return -1;
+      if (!b.time) return 1;
+      return a.time.localeCompare(b.time);
+    });
+  }
+  
+  // Apply location validation and normalization when possible
+  try {
+    // Using imported functions directly
+    for (const destination of geminiResult.destinations) {
+      const validatedLocation = await validateAndNormalizeLocation(destination, city);
+      // If validation succeeds, replace the original location with the validated one
+      if (validatedLocation) {
+        console.log(`Validated "${destination}" as neighborhood: "${validatedLocation}"`);
+        // Update it in-place
+        const index = geminiResult.destinations.indexOf(destination);
+        if (index !== -1) {
+          geminiResult.destinations[index] = validatedLocation;
+        }
+      }
+    }
+    
+    // Validate fixed time locations
+    if (geminiResult.fixedTimes) {
+      for (const fixedTime of geminiResult.fixedTimes) {
+        if (fixedTime.location) {
+          // Try more advanced mapping with AI first if it's a vague location
+          if (fixedTime.location.toLowerCase() === 'central manhattan' || 
+              fixedTime.location.toLowerCase() === 'central nyc' || 
+              fixedTime.location.toLowerCase() === 'central new york') {
+            
+            const enhancedLocation = await processLocationWithAIAndMaps(fixedTime.location, fixedTime.searchTerm, city);
+            if (enhancedLocation && !isGenericLocation(city, enhancedLocation)) {
+              fixedTime.location = enhancedLocation;
+              console.log(`Enhanced fixed time location from generic to "${enhancedLocation}"`);
+            }
+          } else if (fixedTime.location) {
+            const validatedLocation = await validateAndNormalizeLocation(fixedTime.location, city);
+            if (validatedLocation) {
+              fixedTime.location = validatedLocation;
+            }
+          }
+        }
+      }
+    }
+  } catch (error) {
+    console.warn("Location enhancement skipped due to error:", error);
+  }
+  
+  // Debug the final processed output
+  console.log("Final processed Gemini result:", JSON.stringify(geminiResult, null, 2));
+  return geminiResult;
+}
+
 /**
  * Parse a natural language itinerary request into structured data
  * 
  * @param query User's natural language request
+ * @param sessionId Optional ai_interactions session to log the AI processing under
  * @returns StructuredRequest object with parsed locations, activities and preferences
  */
-export async function parseItineraryRequest(query: string): Promise<StructuredRequest> {
+export async function parseItineraryRequest(
+  query: string,
+  sessionId?: string,
+  city: CityPack = getCityPack()
+): Promise<StructuredRequest> {
   // We've already imported processWithGemini from './geminiProcessor'
   
   // Initialize basic fallback structure with direct extraction methods
@@ -501,7 +570,7 @@ export async function parseItineraryRequest(query: string): Promise<StructuredRe
     destinations: extractedLocations.map(loc => loc.name),
     fixedTimes: extractedActivities.length > 0 ? 
       extractedActivities.map(activity => {
-        const location = extractedLocations[0]?.name || "Midtown";
+        const location = extractedLocations[0]?.name || city.defaultArea;
         
         // Try to extract time from the query directly if it's a simple time reference
         const time = timeFromQuery || activity.timeContext?.preferredTime || 
@@ -518,7 +587,7 @@ export async function parseItineraryRequest(query: string): Promise<StructuredRe
       }) : 
       // If no activities extracted but we found a time, create an entry with that time
       timeFromQuery ? [{
-        location: extractedLocations[0]?.name || "Midtown",
+        location: extractedLocations[0]?.name || city.defaultArea,
         time: timeFromQuery,
         type: 'activity',
         searchTerm: query
@@ -529,79 +598,22 @@ export async function parseItineraryRequest(query: string): Promise<StructuredRe
     }
   };
 
+  const loggingSessionId = sessionId || generateSessionId();
+
   try {
     // First attempt: Use the new Gemini processor
     console.log("Attempting to process query with new Gemini processor");
-    const rawGeminiResult = await processWithGemini(query);
+    const rawGeminiResult = await processWithGemini(query, loggingSessionId, city);
     
     if (rawGeminiResult) {
       console.log("Successfully processed query with new Gemini processor");
       console.log("Raw Gemini API response:", JSON.stringify(rawGeminiResult, null, 2));
       
-      // Convert from Gemini processor format to application format
-      const geminiResult = convertGeminiToAppFormat(rawGeminiResult);
+      const geminiResult = await buildRequestFromModelResult(rawGeminiResult, city);
       
       if (geminiResult) {
-        // We don't need to process flexible time entries here again.
-        // The convertGeminiToAppFormat function we just updated already 
-        // handles both fixedTimeEntries and flexibleTimeEntries with proper de-duplication.
-        console.log("Using optimized Gemini result that was converted by convertGeminiToAppFormat function");
-        console.log(`Gemini result contains ${geminiResult.fixedTimes.length} de-duplicated activities`);
-        
-        // Sort fixed times chronologically if they exist
-        if (geminiResult.fixedTimes) {
-          geminiResult.fixedTimes.sort((a, b) => {
-            if (!a.time) return -1;
-            if (!b.time) return 1;
-            return a.time.localeCompare(b.time);
-          });
-        }
-        
-        // Apply location validation and normalization when possible
-        try {
-          // Using imported functions directly
-          for (const destination of geminiResult.destinations) {
-            const validatedLocation = await validateAndNormalizeLocation(destination);
-            // If validation succeeds, replace the original location with the validated one
-            if (validatedLocation) {
-              console.log(`Validated "${destination}" as neighborhood: "${validatedLocation}"`);
-              // Update it in-place
-              const index = geminiResult.destinations.indexOf(destination);
-              if (index !== -1) {
-                geminiResult.destinations[index] = validatedLocation;
-              }
-            }
-          }
-          
-          // Validate fixed time locations
-          if (geminiResult.fixedTimes) {
-            for (const fixedTime of geminiResult.fixedTimes) {
-              if (fixedTime.location) {
-                // Try more advanced mapping with AI first if it's a vague location
-                if (fixedTime.location.toLowerCase() === 'central manhattan' || 
-                    fixedTime.location.toLowerCase() === 'central nyc' || 
-                    fixedTime.location.toLowerCase() === 'central new york') {
-                  
-                  const enhancedLocation = await processLocationWithAIAndMaps(fixedTime.location, fixedTime.searchTerm);
-                  if (enhancedLocation && enhancedLocation !== "New York" && enhancedLocation !== "NYC" && enhancedLocation !== "Midtown") {
-                    fixedTime.location = enhancedLocation;
-                    console.log(`Enhanced fixed time location from generic to "${enhancedLocation}"`);
-                  }
-                } else if (fixedTime.location) {
-                  const validatedLocation = await validateAndNormalizeLocation(fixedTime.location);
-                  if (validatedLocation) {
-                    fixedTime.location = validatedLocation;
-                  }
-                }
-              }
-            }
-          }
-        } catch (error) {
-          console.warn("Location enhancement skipped due to error:", error);
-        }
-        
-        // Debug the final processed output
-        console.log("Final processed Gemini result:", JSON.stringify(geminiResult, null, 2));
+        // Kept with the logged interaction so a replay can show what changed
+        await recordPipelineResult(loggingSessionId, query, geminiResult);
         return geminiResult;
       }
     }
@@ -617,7 +629,7 @@ export async function parseItineraryRequest(query: string): Promise<StructuredRe
       // This will help improve the location data quality even without Gemini
       for (let i = 0; i < fallbackStructure.destinations.length; i++) {
         const destination = fallbackStructure.destinations[i];
-        const validated = await validateAndNormalizeLocation(destination);
+        const validated = await validateAndNormalizeLocation(destination, city);
         if (validated) {
           fallbackStructure.destinations[i] = validated;
         }
@@ -625,7 +637,7 @@ export async function parseItineraryRequest(query: string): Promise<StructuredRe
       
       // Also validate fixed time locations
       for (const fixedTime of fallbackStructure.fixedTimes) {
-        const validated = await validateAndNormalizeLocation(fixedTime.location);
+        const validated = await validateAndNormalizeLocation(fixedTime.location, city);
         if (validated) {
           fixedTime.location = validated;
         }
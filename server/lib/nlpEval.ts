@@ -0,0 +1,280 @@
+/**
+ * NLP Evaluation Module
+ *
+ * Scores request parsing against a corpus of golden queries:
+ * - Each query comes with the fragment of the StructuredRequest it should produce
+ *   (times, locations, activity types, venue preferences, ...)
+ * - Expected and parsed requests are broken into facts such as "12:00 location=north end",
+ *   and each field gets a precision (parsed facts that were expected) and recall
+ *   (expected facts that were parsed)
+ * - Only fields a query's fragment mentions are scored for that query
+ *
+ * The report is plain text with no timestamps, so runs can be diffed against a saved baseline.
+ */
+
+import type { StructuredRequest } from '@shared/types';
+
+// The parts of a StructuredRequest a golden query can expect
+export interface ExpectedRequest {
+  startLocation?: string;
+  endLocation?: string;
+  fixedTimes?: Array<{
+    time: string;
+    day?: string;
+    location?: string;
+    type?: string;
+    searchPreference?: string;
+    priceLevel?: string;
+  }>;
+  preferences?: {
+    budget?: string;
+    pace?: string;
+    cuisine?: string[];
+    interests?: string[];
+  };
+}
+
+export interface GoldenQuery {
+  id: string;
+  query: string;
+  city?: string;   // City pack id; the default city when left out
+  expected: ExpectedRequest;
+}
+
+export interface Fact {
+  field: string;
+  label: string;
+}
+
+export interface FieldScore {
+  field: string;
+  expected: number;
+  found: number;
+  correct: number;
+  precision: number;
+  recall: number;
+}
+
+export interface CaseResult {
+  id: string;
+  query: string;
+  missing: string[];      // Expected but not parsed
+  unexpected: string[];   // Parsed but not expected
+  error?: string;
+}
+
+export interface EvalReport {
+  overall: FieldScore;
+  fields: FieldScore[];
+  cases: CaseResult[];
+}
+
+const FIXED_TIME_FIELDS = ['location', 'type', 'searchPreference', 'priceLevel'] as const;
+const SCALAR_PREFERENCES = ['budget', 'pace'] as const;
+const LIST_PREFERENCES = ['cuisine', 'interests'] as const;
+
+function normalize(value: unknown): string {
+  return String(value).trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Break a request into the facts that are scored
+ *
+ * @param request Expected fragment or parsed request
+ * @param expected The golden query's fragment, which decides the fields to score
+ */
+export function requestFacts(request: StructuredRequest | ExpectedRequest, expected: ExpectedRequest): Fact[] {
+  const facts: Fact[] = [];
+  const add = (field: string, label: string) => facts.push({ field, label });
+
+  for (const field of ['startLocation', 'endLocation'] as const) {
+    const value = request[field];
+    if (expected[field] !== undefined && value) {
+      add(field, `${field}=${normalize(value)}`);
+    }
+  }
+
+  if (expected.fixedTimes) {
+    // Entries are lined up by day and time, since they may come back in any order
+    const scoredFields = FIXED_TIME_FIELDS.filter(field => expected.fixedTimes!.some(entry => entry[field] !== undefined));
+    for (const entry of request.fixedTimes || []) {
+      const key = `${entry.day ? `${normalize(entry.day)} ` : ''}${normalize(entry.time)}`;
+      add('time', key);
+      for (const field of scoredFields) {
+        if (entry[field]) add(field, `${key} ${field}=${normalize(entry[field])}`);
+      }
+    }
+  }
+
+  const preferences = request.preferences || {};
+  const expectedPreferences = expected.preferences || {};
+  for (const field of SCALAR_PREFERENCES) {
+    if (expectedPreferences[field] !== undefined && preferences[field]) {
+      add(field, `${field}=${normalize(preferences[field])}`);
+    }
+  }
+  for (const field of LIST_PREFERENCES) {
+    if (expectedPreferences[field] !== undefined) {
+      for (const item of preferences[field] || []) add(field, `${field}=${normalize(item)}`);
+    }
+  }
+
+  return facts;
+}
+
+function score(field: string, expected: number, found: number, correct: number): FieldScore {
+  return {
+    field,
+    expected,
+    found,
+    correct,
+    precision: found > 0 ? correct / found : 1,
+    recall: expected > 0 ? correct / expected : 1
+  };
+}
+
+// Facts in the first list that aren't in the second, counting repeats
+function difference(facts: Fact[], others: Fact[]): Fact[] {
+  const remaining = others.map(fact => fact.label);
+  return facts.filter(fact => {
+    const index = remaining.indexOf(fact.label);
+    if (index === -1) return true;
+    remaining.splice(index, 1);
+    return false;
+  });
+}
+
+/**
+ * Parse every golden query and score the results
+ *
+ * @param corpus Golden queries
+ * @param parse Request parser, e.g. parseItineraryRequest for the query's city
+ */
+export async function runEvaluation(
+  corpus: GoldenQuery[],
+  parse: (query: GoldenQuery) => Promise<StructuredRequest>
+): Promise<EvalReport> {
+  const counts = new Map<string, { expected: number; found: number; correct: number }>();
+  const tally = (facts: Fact[], key: 'expected' | 'found' | 'correct') => {
+    for (const fact of facts) {
+      const fieldCounts = counts.get(fact.field) || { expected: 0, found: 0, correct: 0 };
+      fieldCounts[key]++;
+      counts.set(fact.field, fieldCounts);
+    }
+  };
+
+  const cases: CaseResult[] = [];
+  for (const golden of corpus) {
+    const expectedFacts = requestFacts(golden.expected, golden.expected);
+    let parsedFacts: Fact[] = [];
+    let error: string | undefined;
+    try {
+      parsedFacts = requestFacts(await parse(golden), golden.expected);
+    } catch (parseError) {
+      error = parseError instanceof Error ? parseError.message : String(parseError);
+    }
+
+    const missing = difference(expectedFacts, parsedFacts);
+    const unexpected = difference(parsedFacts, expectedFacts);
+    tally(expectedFacts, 'expected');
+    tally(parsedFacts, 'found');
+    tally(difference(expectedFacts, missing), 'correct');
+
+    cases.push({
+      id: golden.id,
+      query: golden.query,
+      missing: missing.map(fact => fact.label),
+      unexpected: unexpected.map(fact => fact.label),
+      ...(error ? { error } : {})
+    });
+  }
+
+  const fields = Array.from(counts.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([field, fieldCounts]) => score(field, fieldCounts.expected, fieldCounts.found, fieldCounts.correct));
+  const total = (key: 'expected' | 'found' | 'correct') => fields.reduce((sum, field) => sum + field[key], 0);
+
+  return {
+    overall: score('overall', total('expected'), total('found'), total('correct')),
+    fields,
+    cases
+  };
+}
+
+/**
+ * The report as text, the same for the same results so it can be diffed
+ */
+export function formatReport(report: EvalReport): string {
+  const row = (field: FieldScore) => [
+    field.field.padEnd(18),
+    field.precision.toFixed(3).padStart(9),
+    field.recall.toFixed(3).padStart(7),
+    String(field.expected).padStart(9),
+    String(field.found).padStart(6),
+    String(field.correct).padStart(8)
+  ].join('  ');
+
+  const lines = [
+    '# NLP evaluation',
+    '',
+    `${'field'.padEnd(18)}  precision  recall  expected  found  correct`,
+    ...report.fields.map(row),
+    row(report.overall),
+  ];
+
+  for (const result of report.cases) {
+    lines.push('', `## ${result.id}`, `query: ${result.query}`);
+    if (result.error) lines.push(`error: ${result.error}`);
+    lines.push(...result.missing.map(label => `- missing: ${label}`));
+    lines.push(...result.unexpected.map(label => `+ unexpected: ${label}`));
+    if (!result.error && result.missing.length === 0 && result.unexpected.length === 0) lines.push('ok');
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Lines that differ between two reports, with "-" for the baseline and "+" for the new report,
+ * each under the heading of the query it belongs to
+ */
+export function diffReports(baseline: string, current: string): string[] {
+  const before = baseline.split('\n');
+  const after = current.split('\n');
+
+  // Longest common subsequence of lines
+  const common: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      common[i][j] = before[i] === after[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const changes: string[] = [];
+  let heading = '';
+  let shownHeading = '';
+  const change = (line: string) => {
+    if (heading && heading !== shownHeading) {
+      changes.push(heading);
+      shownHeading = heading;
+    }
+    changes.push(line);
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      if (before[i].startsWith('## ')) heading = before[i];
+      i++;
+      j++;
+    } else if (j < after.length && (i === before.length || common[i][j + 1] >= common[i + 1][j])) {
+      change(`+${after[j]}`);
+      j++;
+    } else {
+      change(`-${before[i]}`);
+      i++;
+    }
+  }
+
+  return changes;
+}
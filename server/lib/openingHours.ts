@@ -0,0 +1,174 @@
+/**
+ * Opening Hours Module
+ *
+ * This module checks Google Places opening hours against the time a venue
+ * is actually scheduled, rather than whether it happens to be open right now.
+ *
+ * - Handles periods that run past midnight (e.g. bars open 17:00-02:00)
+ * - Handles venues open 24 hours (a single period with no close time)
+ * - Evaluates times in the venue's timezone (Boston by default)
+ */
+
+import { formatInTimeZone } from 'date-fns-tz';
+import type { PlaceDetails, VenueSearchResult } from "@shared/schema";
+import { BOSTON_TIMEZONE } from "./timeUtils";
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export type OpeningHours = NonNullable<PlaceDetails['opening_hours']>;
+
+export interface OpeningHoursCheck {
+  status: 'open' | 'closed' | 'unknown';
+  closesDuringVisit?: boolean;  // Open on arrival but closes before the visit would end
+  reason?: string;              // Human-readable explanation for closed venues
+}
+
+// Convert a Google "HHMM" time on a given day (0 = Sunday) to minutes since Sunday 00:00
+function toWeekMinutes(day: number, time: string): number {
+  const hours = parseInt(time.substring(0, 2), 10);
+  const minutes = parseInt(time.substring(2, 4), 10);
+  return day * MINUTES_PER_DAY + hours * 60 + minutes;
+}
+
+// Minutes since Sunday 00:00 for a date, in the given timezone
+function dateToWeekMinutes(date: Date, timeZone: string): number {
+  // 'i' is the ISO day of week (1 = Monday ... 7 = Sunday)
+  const [isoDay, hours, minutes] = formatInTimeZone(date, timeZone, 'i H m').split(' ').map(Number);
+  return (isoDay % 7) * MINUTES_PER_DAY + hours * 60 + minutes;
+}
+
+function formatWeekMinutes(weekMinutes: number): string {
+  const minutesOfDay = weekMinutes % MINUTES_PER_DAY;
+  const hours = Math.floor(minutesOfDay / 60);
+  const minutes = minutesOfDay % 60;
+  const suffix = hours >= 12 ? 'pm' : 'am';
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return minutes === 0 ? `${displayHours}${suffix}` : `${displayHours}:${minutes.toString().padStart(2, '0')}${suffix}`;
+}
+
+/**
+ * Check whether a venue is open for a visit starting at the given time
+ *
+ * @param openingHours Opening hours from Google Places details
+ * @param startTime Scheduled arrival time
+ * @param durationMinutes Planned visit length, used to flag venues closing mid-visit
+ * @param timeZone Timezone the opening hours are expressed in
+ */
+export function checkOpeningHours(
+  openingHours: OpeningHours | undefined,
+  startTime: Date,
+  durationMinutes: number = 0,
+  timeZone: string = BOSTON_TIMEZONE
+): OpeningHoursCheck {
+  const periods = openingHours?.periods;
+  if (!periods || periods.length === 0) {
+    return { status: 'unknown' };
+  }
+
+  // A single period opening Sunday 00:00 with no close means open 24/7
+  if (periods.length === 1 && !periods[0].close && periods[0].open.day === 0 && periods[0].open.time === '0000') {
+    return { status: 'open' };
+  }
+
+  const arrival = dateToWeekMinutes(startTime, timeZone);
+
+  for (const period of periods) {
+    if (!period.close) continue;
+
+    const opens = toWeekMinutes(period.open.day, period.open.time);
+    let closes = toWeekMinutes(period.close.day, period.close.time);
+
+    // Periods that wrap past Saturday night into Sunday
+    if (closes <= opens) {
+      closes += MINUTES_PER_WEEK;
+    }
+
+    // Check the arrival time both this week and shifted a week later for wrapped periods
+    for (const candidate of [arrival, arrival + MINUTES_PER_WEEK]) {
+      if (candidate >= opens && candidate < closes) {
+        return {
+          status: 'open',
+          closesDuringVisit: candidate + durationMinutes > closes
+        };
+      }
+    }
+  }
+
+  return {
+    status: 'closed',
+    reason: describeClosure(periods, arrival)
+  };
+}
+
+// Build a reason like "Closed on Monday at 8pm (opens Tuesday at 11am)"
+function describeClosure(periods: OpeningHours['periods'], arrival: number): string {
+  const dayName = DAY_NAMES[Math.floor(arrival / MINUTES_PER_DAY)];
+  const base = `Closed on ${dayName} at ${formatWeekMinutes(arrival)}`;
+
+  // Find the next opening after the scheduled time
+  const nextOpening = (periods || [])
+    .map(period => toWeekMinutes(period.open.day, period.open.time))
+    .map(opens => opens > arrival ? opens : opens + MINUTES_PER_WEEK)
+    .sort((a, b) => a - b)[0];
+
+  if (nextOpening === undefined) {
+    return base;
+  }
+
+  const nextDay = DAY_NAMES[Math.floor(nextOpening / MINUTES_PER_DAY) % 7];
+  return `${base} (opens ${nextDay} at ${formatWeekMinutes(nextOpening)})`;
+}
+
+/**
+ * Make sure the primary venue is open at the scheduled time
+ *
+ * Closed venues drop to the end of the alternatives with the reason recorded.
+ * When nothing is open, the original primary is kept but marked as closed
+ * so the caller can warn the user.
+ *
+ * @param result Search result from searchPlace
+ * @param startTime Scheduled arrival time
+ * @param durationMinutes Planned visit length
+ * @param timeZone Timezone the opening hours are expressed in
+ */
+export function selectOpenVenue(
+  result: VenueSearchResult,
+  startTime: Date,
+  durationMinutes: number = 0,
+  timeZone: string = BOSTON_TIMEZONE
+): VenueSearchResult {
+  const annotate = (place: PlaceDetails): PlaceDetails => {
+    const check = checkOpeningHours(place.opening_hours, startTime, durationMinutes, timeZone);
+    return {
+      ...place,
+      openAtScheduledTime: check.status === 'unknown' ? undefined : check.status === 'open',
+      closesDuringVisit: check.closesDuringVisit || undefined,
+      closedReason: check.reason
+    };
+  };
+
+  const candidates = [result.primary, ...result.alternatives].map(annotate);
+  const openCandidates = candidates.filter(place => place.openAtScheduledTime !== false);
+  const closedCandidates = candidates.filter(place => place.openAtScheduledTime === false);
+
+  if (openCandidates.length === 0) {
+    console.warn(`No open venue at ${startTime.toISOString()} - keeping ${result.primary.name}: ${candidates[0].closedReason}`);
+    return {
+      primary: candidates[0],
+      alternatives: candidates.slice(1)
+    };
+  }
+
+  const [primary, ...openAlternatives] = openCandidates;
+  if (primary.place_id !== result.primary.place_id) {
+    console.log(`${result.primary.name} is closed at the scheduled time (${candidates[0].closedReason}), using ${primary.name} instead`);
+  }
+
+  return {
+    primary: { ...primary, is_primary: true },
+    alternatives: [...openAlternatives, ...closedCandidates].map(place => ({ ...place, is_primary: false }))
+  };
+}
@@ -0,0 +1,357 @@
+/**
+ * Places Cache Module
+ *
+ * This module caches Google Places responses so the same search or place
+ * details aren't fetched again and again:
+ * - An in-memory LRU with a TTL per kind of response
+ * - An optional Postgres table (PLACES_CACHE_PERSIST=true) shared across restarts
+ * - Concurrent requests for the same key share a single API call
+ * - Hit/miss metrics and invalidation by key, place_id or kind
+ */
+
+import { pgTable, text, timestamp, jsonb } from 'drizzle-orm/pg-core';
+import { and, eq, gt, like, or, sql } from 'drizzle-orm';
+
+// Search results change as venues open, close and get reviewed; details change less often
+export const CACHE_TTL_MS = {
+  search: 6 * 60 * 60 * 1000,
+  details: 24 * 60 * 60 * 1000
+} as const;
+
+export type CacheNamespace = keyof typeof CACHE_TTL_MS;
+
+const MAX_MEMORY_ENTRIES = 500;
+
+// Persisted entries live in their own table; the places table only holds chosen venues
+export const placesCacheEntries = pgTable("places_cache", {
+  cacheKey: text("cache_key").primaryKey(),
+  namespace: text("namespace").notNull(),
+  value: jsonb("value").notNull(),
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull()
+});
+
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+/**
+ * Least-recently-used map whose entries also expire after a TTL
+ */
+export class LruCache<V> {
+  private entries = new Map<string, CacheEntry<V>>();
+  public evictions = 0;
+
+  constructor(private maxEntries: number) {}
+
+  get(key: string, now: number = Date.now()): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= now) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Move to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: V, ttlMs: number, now: number = Date.now()): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: now + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  delete(key: string): boolean {
+    return this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Build a cache key for a Places request that ignores the API key,
+ * parameter order, letter case and extra whitespace
+ */
+export function normalizeRequestKey(endpoint: string, params: URLSearchParams): string {
+  const normalized = Array.from(params.entries())
+    .filter(([name]) => name !== 'key')
+    .map(([name, value]) => [name, value.trim().toLowerCase().replace(/\s+/g, ' ')])
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+
+  return `${endpoint}?${normalized}`;
+}
+
+export interface CacheMetrics {
+  hits: number;
+  misses: number;
+  hitRate: number;
+  memoryHits: number;
+  databaseHits: number;
+  sharedRequests: number;  // Lookups that waited on an identical request already in flight
+  evictions: number;
+  size: number;
+  persistent: boolean;
+  byNamespace: Record<CacheNamespace, { hits: number; misses: number }>;
+}
+
+export interface InvalidateFilter {
+  namespace?: CacheNamespace;
+  key?: string;      // Exact key within the namespace
+  placeId?: string;  // All details entries for this place
+}
+
+export class PlacesCache {
+  private memory: LruCache<unknown>;
+  private pending = new Map<string, Promise<unknown>>();
+  private counters = {
+    memoryHits: 0,
+    databaseHits: 0,
+    sharedRequests: 0,
+    search: { hits: 0, misses: 0 },
+    details: { hits: 0, misses: 0 }
+  };
+  private tableReady: Promise<void> | null = null;
+
+  constructor(
+    maxEntries: number = MAX_MEMORY_ENTRIES,
+    private persist: boolean = process.env.PLACES_CACHE_PERSIST === 'true'
+  ) {
+    this.memory = new LruCache(maxEntries);
+  }
+
+  /**
+   * Return a cached response, or fetch and cache it
+   *
+   * @param namespace Kind of response, which decides the TTL
+   * @param key Normalized request key or place_id
+   * @param fetcher Makes the API call on a miss
+   * @param shouldCache Only responses passing this check are stored (e.g. skip API errors)
+   */
+  async getOrFetch<T>(
+    namespace: CacheNamespace,
+    key: string,
+    fetcher: () => Promise<T>,
+    shouldCache: (value: T) => boolean = () => true
+  ): Promise<T> {
+    const cacheKey = `${namespace}:${key}`;
+
+    // Callers may modify what they get back, so always hand out copies
+    const cached = this.memory.get(cacheKey);
+    if (cached !== undefined) {
+      this.counters.memoryHits++;
+      this.counters[namespace].hits++;
+      return structuredClone(cached) as T;
+    }
+
+    const inFlight = this.pending.get(cacheKey);
+    if (inFlight) {
+      this.counters.sharedRequests++;
+      this.counters[namespace].hits++;
+      return structuredClone(await inFlight) as T;
+    }
+
+    const request = this.lookupOrFetch(namespace, cacheKey, fetcher, shouldCache);
+    this.pending.set(cacheKey, request);
+    try {
+      return structuredClone(await request) as T;
+    } finally {
+      this.pending.delete(cacheKey);
+    }
+  }
+
+  /**
+   * Return an in-memory entry without fetching anything on a miss
+   */
+  peek<T>(namespace: CacheNamespace, key: string): T | undefined {
+    const cached = this.memory.get(`${namespace}:${key}`);
+    if (cached === undefined) return undefined;
+
+    this.counters.memoryHits++;
+    this.counters[namespace].hits++;
+    return structuredClone(cached) as T;
+  }
+
+  private async lookupOrFetch<T>(
+    namespace: CacheNamespace,
+    cacheKey: string,
+    fetcher: () => Promise<T>,
+    shouldCache: (value: T) => boolean
+  ): Promise<T> {
+    const stored = await this.readPersisted<T>(cacheKey);
+    if (stored) {
+      this.counters.databaseHits++;
+      this.counters[namespace].hits++;
+      this.memory.set(cacheKey, stored.value, Math.max(stored.expiresAt - Date.now(), 0));
+      return stored.value;
+    }
+
+    this.counters[namespace].misses++;
+    const value = await fetcher();
+
+    if (shouldCache(value)) {
+      const ttlMs = CACHE_TTL_MS[namespace];
+      this.memory.set(cacheKey, value, ttlMs);
+      this.writePersisted(cacheKey, namespace, value, ttlMs);
+    }
+
+    return value;
+  }
+
+  /**
+   * Remove entries from the cache
+   *
+   * @param filter Which entries to remove; everything when empty
+   * @returns Number of in-memory entries removed
+   */
+  async invalidate(filter: InvalidateFilter = {}): Promise<number> {
+    let matches: (cacheKey: string) => boolean;
+    if (filter.placeId) {
+      const prefix = `details:${filter.placeId}`;
+      matches = cacheKey => cacheKey === prefix || cacheKey.startsWith(`${prefix}:`);
+    } else if (filter.key) {
+      const exact = `${filter.namespace || 'search'}:${filter.key}`;
+      matches = cacheKey => cacheKey === exact;
+    } else if (filter.namespace) {
+      const prefix = `${filter.namespace}:`;
+      matches = cacheKey => cacheKey.startsWith(prefix);
+    } else {
+      matches = () => true;
+    }
+
+    const removed = this.memory.keys().filter(matches);
+    removed.forEach(cacheKey => this.memory.delete(cacheKey));
+
+    if (this.persist) {
+      try {
+        const { db } = await import('../db');
+        await this.ensureTable();
+        if (filter.placeId) {
+          await db.delete(placesCacheEntries).where(or(
+            eq(placesCacheEntries.cacheKey, `details:${filter.placeId}`),
+            like(placesCacheEntries.cacheKey, `details:${filter.placeId}:%`)
+          ));
+        } else if (filter.key) {
+          await db.delete(placesCacheEntries).where(eq(placesCacheEntries.cacheKey, `${filter.namespace || 'search'}:${filter.key}`));
+        } else if (filter.namespace) {
+          await db.delete(placesCacheEntries).where(eq(placesCacheEntries.namespace, filter.namespace));
+        } else {
+          await db.delete(placesCacheEntries);
+        }
+      } catch (error) {
+        console.error('Failed to invalidate persisted places cache entries:', error);
+      }
+    }
+
+    console.log(`Invalidated ${removed.length} places cache entries`, filter);
+    return removed.length;
+  }
+
+  getMetrics(): CacheMetrics {
+    const hits = this.counters.search.hits + this.counters.details.hits;
+    const misses = this.counters.search.misses + this.counters.details.misses;
+    return {
+      hits,
+      misses,
+      hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+      memoryHits: this.counters.memoryHits,
+      databaseHits: this.counters.databaseHits,
+      sharedRequests: this.counters.sharedRequests,
+      evictions: this.memory.evictions,
+      size: this.memory.size,
+      persistent: this.persist,
+      byNamespace: {
+        search: { ...this.counters.search },
+        details: { ...this.counters.details }
+      }
+    };
+  }
+
+  resetMetrics(): void {
+    this.counters = {
+      memoryHits: 0,
+      databaseHits: 0,
+      sharedRequests: 0,
+      search: { hits: 0, misses: 0 },
+      details: { hits: 0, misses: 0 }
+    };
+    this.memory.evictions = 0;
+  }
+
+  // The database module is only loaded when persistence is turned on
+  private ensureTable(): Promise<void> {
+    if (!this.tableReady) {
+      this.tableReady = import('../db').then(async ({ db }) => {
+        await db.execute(sql`
+          CREATE TABLE IF NOT EXISTS places_cache (
+            cache_key TEXT PRIMARY KEY,
+            namespace TEXT NOT NULL,
+            value JSONB NOT NULL,
+            expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+          )
+        `);
+      });
+    }
+    return this.tableReady;
+  }
+
+  private async readPersisted<T>(cacheKey: string): Promise<CacheEntry<T> | null> {
+    if (!this.persist) return null;
+
+    try {
+      const { db } = await import('../db');
+      await this.ensureTable();
+      const rows = await db.select()
+        .from(placesCacheEntries)
+        .where(and(eq(placesCacheEntries.cacheKey, cacheKey), gt(placesCacheEntries.expiresAt, new Date())))
+        .limit(1);
+
+      return rows.length > 0 ? { value: rows[0].value as T, expiresAt: rows[0].expiresAt.getTime() } : null;
+    } catch (error) {
+      console.error('Failed to read places cache from database:', error);
+      return null;
+    }
+  }
+
+  private writePersisted(cacheKey: string, namespace: CacheNamespace, value: unknown, ttlMs: number): void {
+    if (!this.persist) return;
+
+    // Don't hold up the request on the cache write
+    (async () => {
+      const { db } = await import('../db');
+      await this.ensureTable();
+      const expiresAt = new Date(Date.now() + ttlMs);
+      await db.insert(placesCacheEntries)
+        .values({ cacheKey, namespace, value, expiresAt })
+        .onConflictDoUpdate({
+          target: placesCacheEntries.cacheKey,
+          set: { value, expiresAt }
+        });
+    })().catch(error => {
+      console.error('Failed to write places cache to database:', error);
+    });
+  }
+}
+
+// Shared cache used by the Google Places integration
+export const placesCache = new PlacesCache();
@@ -0,0 +1,45 @@
+/**
+ * Places Cache Admin Routes
+ *
+ * This module provides admin API endpoints for inspecting and clearing the Google Places cache.
+ */
+
+import { Express, Request, Response } from 'express';
+import { placesCache, type CacheNamespace } from './placesCache';
+import { requireAdmin } from '../middleware/requireAuth';
+
+const NAMESPACES: CacheNamespace[] = ['search', 'details'];
+
+/**
+ * Register admin routes for the Google Places cache
+ */
+export function registerPlacesCacheAdminRoutes(app: Express): void {
+  // Hit/miss metrics and current size
+  app.get('/api/admin/places-cache', requireAdmin, (_req: Request, res: Response) => {
+    res.json(placesCache.getMetrics());
+  });
+
+  // Remove entries by namespace, exact key or place_id (everything when no filter is given)
+  app.delete('/api/admin/places-cache', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const namespace = req.query.namespace as string | undefined;
+      if (namespace && !NAMESPACES.includes(namespace as CacheNamespace)) {
+        return res.status(400).json({
+          error: 'Invalid namespace',
+          message: `namespace must be one of: ${NAMESPACES.join(', ')}`
+        });
+      }
+
+      const removed = await placesCache.invalidate({
+        namespace: namespace as CacheNamespace | undefined,
+        key: req.query.key as string | undefined,
+        placeId: req.query.placeId as string | undefined
+      });
+
+      res.json({ removed });
+    } catch (error) {
+      console.error('Error invalidating places cache:', error);
+      res.status(500).json({ error: 'Failed to invalidate places cache' });
+    }
+  });
+}
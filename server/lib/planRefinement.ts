@@ -0,0 +1,360 @@
+/**
+ * Plan Refinement Module
+ *
+ * This module handles follow-up instructions on a saved itinerary, such as
+ * "make dinner later", "replace the museum with a park" or "add coffee after lunch":
+ * - A language model (see llmProviders) turns the instruction into a structured diff against the current stops
+ * - The diff is validated and applied with the itinerary editing helpers
+ * - Every turn is logged under the itinerary's ai_interactions session
+ */
+
+import { z } from 'zod';
+import { formatInTimeZone } from 'date-fns-tz';
+import type { PlaceDetails } from '@shared/schema';
+import { logAiInteraction } from './aiLogging';
+import { getLlmProviders, type LlmProvider } from './llmProviders';
+import { zodToJsonSchema, describeZodIssues, buildRepairPrompt, type ResponseFormat } from './structuredOutput';
+import {
+  insertStop,
+  removeStop,
+  retimeStop,
+  resolveStopTime,
+  stopEndTime,
+  ItineraryEditError,
+  checkUnlocked,
+  type ItineraryStop
+} from './itineraryEditing';
+import { BOSTON_TIMEZONE, getDateInTimeZone, zonedTimeToDate } from './timeUtils';
+import { getCityPack, type CityPack } from './cityPacks';
+
+const TEMPERATURE = 0.2;
+const MAX_OUTPUT_TOKENS = 1024;
+
+// Times a provider is asked to fix a diff that doesn't validate before failing over
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const DaySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date in yyyy-MM-dd format");
+
+// Stop indices refer to the plan as it was shown to the model, before any operation is applied
+const PlanOperationSchema = z.discriminatedUnion('op', [
+  z.object({
+    op: z.literal('retime'),
+    stop: z.number().int().describe("Index of the stop to move"),
+    time: z.string().describe("New start time in 24-hour format, e.g. '20:30', on the stop's own day")
+  }),
+  z.object({
+    op: z.literal('remove'),
+    stop: z.number().int().describe("Index of the stop to remove")
+  }),
+  z.object({
+    op: z.literal('replace'),
+    stop: z.number().int().describe("Index of the stop to replace"),
+    query: z.string().describe("What to search for instead, e.g. 'cheap lunch spot' or 'park'")
+  }),
+  z.object({
+    op: z.literal('add'),
+    query: z.string().describe("What to search for, e.g. 'coffee shop'"),
+    time: z.string().optional().describe("Start time in 24-hour format if the user gave one"),
+    after: z.number().int().optional().describe("Index of the stop the new one should follow"),
+    day: DaySchema.optional().describe("Date of the day the new stop is on (yyyy-MM-dd), for trips over several days")
+  })
+]);
+
+export const PlanDiffSchema = z.object({
+  operations: z.array(PlanOperationSchema),
+  summary: z.string().describe("One sentence describing the change for the user")
+});
+
+export type PlanOperation = z.infer<typeof PlanOperationSchema>;
+export type PlanDiff = z.infer<typeof PlanDiffSchema>;
+
+// Structured output can't express the union of operations, so providers are given one object
+// with every field; PlanDiffSchema then checks each operation has the fields its op needs
+const PlanDiffFormatSchema = z.object({
+  operations: z.array(z.object({
+    op: z.enum(['retime', 'remove', 'replace', 'add']).describe("The kind of edit"),
+    stop: z.number().int().optional().describe("Index of the stop to retime, remove or replace"),
+    time: z.string().optional().describe("Start time in 24-hour format, e.g. '20:30'; required for retime"),
+    query: z.string().optional().describe("What to search for; required for replace and add"),
+    after: z.number().int().optional().describe("Index of the stop an added one should follow"),
+    day: z.string().optional().describe("Date (yyyy-MM-dd) of the day an added stop is on, for trips over several days")
+  })),
+  summary: z.string().describe("One sentence describing the change for the user")
+});
+
+const RESPONSE_FORMAT: ResponseFormat = {
+  name: 'plan_diff',
+  description: 'Edit operations that apply the instruction to the current plan',
+  schema: zodToJsonSchema(PlanDiffFormatSchema)
+};
+
+// Finds a venue for a free-text request and returns it as a stop (without a time yet)
+export type VenueFinder = (query: string, time: Date) => Promise<ItineraryStop>;
+
+export interface AppliedPlanDiff {
+  stops: ItineraryStop[];
+  changedIndices: number[];  // Indices in the new list of stops that were added, replaced or moved
+}
+
+/**
+ * Describe the current stops for the prompt, one per line with their index and local day and time
+ */
+export function describeStops(stops: ItineraryStop[], timeZone: string = BOSTON_TIMEZONE): string {
+  return stops.map((stop, index) => {
+    const details = stop.details as PlaceDetails;
+    const time = stop.scheduledTime ? formatInTimeZone(new Date(stop.scheduledTime), timeZone, 'EEE yyyy-MM-dd HH:mm') : 'unscheduled';
+    const kind = details.activityDescription || details.types?.[0] || 'visit';
+    return `${index}: ${time} - ${stop.name} (${kind})${stop.isFixed ? ' [fixed time]' : ''}${stop.locked ? ' [locked]' : ''}`;
+  }).join('\n');
+}
+
+/**
+ * Turn a follow-up instruction into a structured diff against the saved plan
+ *
+ * @param instruction The user's follow-up, e.g. "swap lunch for something cheaper"
+ * @param stops Current stops of the itinerary
+ * @param sessionId ai_interactions session linking this turn to the rest of the conversation
+ * @param metaData Extra context stored with the logged interaction
+ * @param city City the plan is in
+ */
+export async function interpretRefinement(
+  instruction: string,
+  stops: ItineraryStop[],
+  sessionId: string,
+  metaData: Record<string, any> = {},
+  city: CityPack = getCityPack()
+): Promise<PlanDiff> {
+  const providers = getLlmProviders();
+  if (providers.length === 0) {
+    await logAiInteraction({
+      sessionId,
+      userQuery: instruction,
+      modelName: 'none',
+      status: 'warning',
+      errorDetails: 'No language model configured (check LLM_PROVIDERS and the provider API keys)',
+      metaData: { ...metaData, turn: 'refinement' }
+    });
+    throw new ItineraryEditError('Plan refinement is unavailable: no language model is configured', 503);
+  }
+
+  const prompt = `
+    You are editing an existing ${city.name} plan. Turn the user's instruction into a list of edit operations.
+
+    CURRENT PLAN (index: day and start time - venue (activity)):
+    ${describeStops(stops, city.timezone)}
+
+    OPERATIONS:
+    - {"op": "retime", "stop": <index>, "time": "HH:MM"} moves a stop to a new start time
+    - {"op": "remove", "stop": <index>} removes a stop
+    - {"op": "replace", "stop": <index>, "query": "<what to search for>"} swaps a stop for a different venue
+    - {"op": "add", "query": "<what to search for>", "time": "HH:MM" (optional), "after": <index> (optional), "day": "YYYY-MM-DD" (optional)} adds a stop
+
+    RULES:
+    1. Return JSON of the form {"operations": [...], "summary": "..."}
+    2. Stop indices always refer to the CURRENT PLAN above
+    3. Always give concrete 24-hour times; "later" means about an hour later, "earlier" about an hour earlier
+    4. Put qualities the user asks for into the query (e.g. "cheaper" -> "cheap restaurant")
+    5. Use "after" when the user positions a new stop relative to an existing one
+    6. Use as few operations as possible and never change stops the user didn't mention
+    7. Never retime, remove or replace a stop marked [locked]; the group has settled on it
+    8. A retimed stop stays on its own day; give "day" when adding a stop to a day other than the first, unless "after" places it
+
+    INSTRUCTION:
+    ${instruction}
+    `;
+
+  for (const provider of providers) {
+    try {
+      return await refineWithProvider(provider, instruction, prompt, sessionId, metaData);
+    } catch (error) {
+      console.error(`${provider.name} (${provider.model}) could not interpret the refinement:`, error);
+      // Continue with the next provider
+    }
+  }
+
+  throw new ItineraryEditError(`Couldn't understand the change "${instruction}"`, 422);
+}
+
+/**
+ * Ask one provider for the diff, repairing its reply until it validates
+ * Every attempt is logged as a refinement turn; throws when the provider errors or runs out of repairs
+ */
+async function refineWithProvider(
+  provider: LlmProvider,
+  instruction: string,
+  prompt: string,
+  sessionId: string,
+  metaData: Record<string, any>
+): Promise<PlanDiff> {
+  let attemptPrompt = prompt;
+
+  for (let repairAttempts = 0; ; repairAttempts++) {
+    const startTime = Date.now();
+    const log = {
+      sessionId,
+      userQuery: instruction,
+      rawRequest: { prompt: attemptPrompt, temperature: TEMPERATURE },
+      metaData: { ...metaData, turn: 'refinement', provider: provider.name, repairAttempts }
+    };
+
+    let response;
+    try {
+      response = await provider.generate({
+        prompt: attemptPrompt,
+        userQuery: instruction,
+        temperature: TEMPERATURE,
+        maxOutputTokens: MAX_OUTPUT_TOKENS,
+        responseFormat: RESPONSE_FORMAT
+      });
+    } catch (error) {
+      await logAiInteraction({
+        ...log,
+        modelName: provider.model,
+        status: 'error',
+        processingTimeMs: Date.now() - startTime,
+        errorDetails: `API error: ${error}`
+      });
+      throw error;
+    }
+
+    let problems: string[];
+    try {
+      const validation = PlanDiffSchema.safeParse(JSON.parse(response.text));
+      if (validation.success) {
+        await logAiInteraction({
+          ...log,
+          modelName: response.model,
+          rawResponse: response.text,
+          parsedResponse: validation.data,
+          processingTimeMs: Date.now() - startTime,
+          status: 'success'
+        });
+        return validation.data;
+      }
+      problems = describeZodIssues(validation.error);
+    } catch (parseError) {
+      problems = [`The reply is not valid JSON (${parseError})`];
+    }
+
+    await logAiInteraction({
+      ...log,
+      modelName: response.model,
+      rawResponse: response.text,
+      processingTimeMs: Date.now() - startTime,
+      status: 'error',
+      errorDetails: `Refinement error: ${problems.join('; ')}`
+    });
+
+    if (repairAttempts >= MAX_REPAIR_ATTEMPTS) {
+      throw new Error(`Reply still invalid after ${repairAttempts} repair attempts: ${problems.join('; ')}`);
+    }
+    attemptPrompt = buildRepairPrompt(prompt, response.text, problems);
+  }
+}
+
+/**
+ * Apply a structured diff to the stops
+ *
+ * Operations are applied in order. Indices refer to the stops before the diff,
+ * so later operations still find the right stop after earlier ones moved things.
+ * A diff that would retime, remove, move or replace a locked stop is refused as a whole (409).
+ *
+ * @param stops Current stops in chronological order
+ * @param diff Operations to apply
+ * @param findVenue Looks up venues for replace and add operations
+ * @param timeZone Timezone the operations' clock times are expressed in; a retime is on its stop's
+ *   own day, an add on its given day, else its "after" stop's day, else the first stop's day
+ */
+export async function applyPlanDiff(
+  stops: ItineraryStop[],
+  diff: PlanDiff,
+  findVenue: VenueFinder,
+  timeZone: string = BOSTON_TIMEZONE
+): Promise<AppliedPlanDiff> {
+  const referenceDate = stops[0]?.scheduledTime ? new Date(stops[0].scheduledTime) : new Date();
+  const dateOf = (stop: ItineraryStop): Date => stop.scheduledTime ? new Date(stop.scheduledTime) : referenceDate;
+  let current = [...stops];
+  const changed = new Set<ItineraryStop>();
+
+  // Where each original stop currently lives, by its original index
+  const latest = new Map<number, ItineraryStop>(stops.map((stop, index) => [index, stop]));
+  const locate = (index: number): number => {
+    const stop = latest.get(index);
+    const position = stop ? current.indexOf(stop) : -1;
+    if (position === -1) {
+      throw new ItineraryEditError(`Stop ${index} is not in the plan`);
+    }
+    return position;
+  };
+
+  for (const operation of diff.operations) {
+    switch (operation.op) {
+      case 'retime': {
+        const position = locate(operation.stop);
+        const retimed = retimeStop(current, position, resolveStopTime(operation.time, dateOf(current[position]), timeZone));
+        current = retimed.stops;
+        latest.set(operation.stop, current[retimed.index]);
+        changed.add(current[retimed.index]);
+        break;
+      }
+
+      case 'remove': {
+        current = removeStop(current, locate(operation.stop));
+        latest.delete(operation.stop);
+        break;
+      }
+
+      case 'replace': {
+        const position = locate(operation.stop);
+        const previous = current[position];
+        checkUnlocked(previous);
+        const venue = await findVenue(operation.query, dateOf(previous));
+        const replacement: ItineraryStop = {
+          ...venue,
+          scheduledTime: previous.scheduledTime,
+          isFixed: previous.isFixed
+        };
+        current = current.map((stop, i) => i === position ? replacement : stop);
+        latest.set(operation.stop, replacement);
+        changed.add(replacement);
+        break;
+      }
+
+      case 'add': {
+        const after = operation.after !== undefined ? current[locate(operation.after)] : undefined;
+        const dayStops = operation.day
+          ? current.filter(stop => stop.scheduledTime && getDateInTimeZone(new Date(stop.scheduledTime), timeZone) === operation.day)
+          : current;
+        const day = operation.day ? zonedTimeToDate(operation.day, '12:00', timeZone) : after ? dateOf(after) : referenceDate;
+
+        let time: Date;
+        if (operation.time) {
+          time = resolveStopTime(operation.time, day, timeZone);
+        } else if (after) {
+          time = stopEndTime(after);
+        } else if (dayStops.length > 0) {
+          time = stopEndTime(dayStops[dayStops.length - 1]);
+        } else {
+          time = day;
+        }
+
+        const venue = await findVenue(operation.query, time);
+        const inserted = insertStop(current, {
+          ...venue,
+          scheduledTime: time.toISOString(),
+          isFixed: !!operation.time
+        });
+        current = inserted.stops;
+        changed.add(current[inserted.index]);
+        break;
+      }
+    }
+  }
+
+  return {
+    stops: current,
+    changedIndices: current
+      .map((stop, index) => changed.has(stop) ? index : -1)
+      .filter(index => index !== -1)
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * Preferences Module
+ *
+ * Combines a user's saved preference profile with the preferences found in a request:
+ * - The request wins for anything it states (budget, pace, cuisine, interests, minimum rating)
+ * - Needs (dietary, accessibility, disliked venue types) are added together, since a request
+ *   not mentioning them doesn't mean they no longer apply
+ * - The result is applied to the options of each venue search
+ */
+
+import type { PreferenceProfile } from "@shared/schema";
+import type { StructuredRequest } from "@shared/types";
+
+export type PlanPreferences = StructuredRequest['preferences'];
+
+// Venue types that dietary preferences apply to
+const FOOD_TYPES = ['restaurant', 'cafe', 'bakery', 'bar', 'meal_takeaway', 'food', 'lunch', 'dinner', 'breakfast', 'brunch', 'coffee'];
+
+function nonEmpty(list: string[] | undefined): string[] | undefined {
+  return list && list.length > 0 ? list : undefined;
+}
+
+function union(...lists: Array<string[] | undefined>): string[] | undefined {
+  const merged = new Map<string, string>();
+  for (const item of lists.flatMap(list => list || [])) {
+    const key = item.toLowerCase();
+    if (!merged.has(key)) merged.set(key, item);
+  }
+  return nonEmpty(Array.from(merged.values()));
+}
+
+/**
+ * Merge a user's saved profile into the preferences parsed from their request
+ *
+ * @param fromQuery Preferences parsed from the request
+ * @param profile The user's saved profile, if any
+ * @returns The preferences to plan with
+ */
+export function mergePreferences(fromQuery: PlanPreferences, profile?: PreferenceProfile | null): PlanPreferences {
+  if (!profile) return fromQuery;
+
+  return {
+    ...fromQuery,
+    budget: fromQuery.budget ?? profile.budget,
+    pace: fromQuery.pace ?? profile.pace,
+    minRating: fromQuery.minRating ?? profile.minRating,
+    cuisine: nonEmpty(fromQuery.cuisine) ?? nonEmpty(profile.cuisine),
+    interests: nonEmpty(fromQuery.interests) ?? nonEmpty(profile.interests),
+    dietary: union(fromQuery.dietary, profile.dietary),
+    accessibility: union(fromQuery.accessibility, profile.accessibility),
+    dislikedVenueTypes: union(fromQuery.dislikedVenueTypes, profile.dislikedVenueTypes)
+  };
+}
+
+// The venue search options that preferences change
+export interface PreferenceSearchOptions {
+  type?: string;
+  searchTerm?: string;
+  keywords?: string[];
+  minRating?: number;
+  priceLevel?: PlanPreferences['budget'];
+  excludeTypes?: string[];
+  searchPreference?: string;
+}
+
+function isFoodSearch(options: PreferenceSearchOptions): boolean {
+  const text = `${options.type || ''} ${options.searchTerm || ''}`.toLowerCase();
+  return FOOD_TYPES.some(type => text.includes(type));
+}
+
+/**
+ * Apply plan preferences to the options of one venue search
+ * Options the search already has (e.g. a price level from the activity itself) are kept
+ *
+ * @param options Search options built for the activity; changed in place
+ * @param preferences Merged plan preferences
+ * @returns The same options, for chaining
+ */
+export function applyPreferencesToSearch(
+  options: PreferenceSearchOptions,
+  preferences: PlanPreferences | undefined
+): PreferenceSearchOptions {
+  if (!preferences) return options;
+
+  if (preferences.minRating !== undefined) {
+    options.minRating = Math.max(options.minRating || 0, preferences.minRating);
+  }
+  if (preferences.budget && !options.priceLevel) {
+    options.priceLevel = preferences.budget;
+  }
+  if (preferences.dislikedVenueTypes) {
+    options.excludeTypes = union(options.excludeTypes, preferences.dislikedVenueTypes);
+  }
+
+  const keywords = [...(options.keywords || [])];
+  if (isFoodSearch(options)) {
+    keywords.push(...(preferences.dietary || []));
+    // A cuisine only steers the search when the activity didn't ask for a particular kind of place
+    if (preferences.cuisine && !options.searchPreference) {
+      keywords.push(preferences.cuisine[0]);
+    }
+  }
+  keywords.push(...(preferences.accessibility || []));
+  options.keywords = union(keywords) || [];
+
+  return options;
+}
@@ -0,0 +1,107 @@
+/**
+ * Pricing Module
+ *
+ * Venue prices for planning:
+ * - Which Google price levels (0 free - 4 very expensive) fit a budget
+ * - Ordering search results so venues within the budget are picked first
+ * - A rough per-person cost estimate for each stop and for the whole itinerary
+ *
+ * Amounts below are typical Boston prices in US dollars; each city pack's priceScale turns
+ * them into that city's prices and currency. They're meant as a guide, not a quote.
+ */
+
+import type { PlaceDetails, PriceLevel, CostEstimate, StopCostEstimate } from "@shared/schema";
+import type { CityPack } from "./cityPacks";
+
+// Google price levels allowed for each budget
+export const PRICE_RANGES: Record<PriceLevel, { min: number; max: number }> = {
+  budget: { min: 0, max: 1 },
+  moderate: { min: 0, max: 2 },
+  expensive: { min: 3, max: 4 }
+};
+
+// Typical spend per person at a venue with each Google price level
+export const COST_BY_PRICE_LEVEL = [0, 15, 35, 70, 120];
+
+// Typical admission per person for venue types Google gives no price level
+export const TYPICAL_ADMISSION: Record<string, number> = {
+  amusement_park: 60,
+  stadium: 50,
+  aquarium: 35,
+  zoo: 30,
+  museum: 20,
+  bowling_alley: 20,
+  tourist_attraction: 15,
+  movie_theater: 15,
+  art_gallery: 10
+};
+
+// Venue types that are usually free to visit
+export const FREE_VENUE_TYPES = ['park', 'church', 'place_of_worship', 'library', 'cemetery', 'city_hall', 'natural_feature'];
+
+/**
+ * Whether a venue's Google price level fits a budget
+ * @returns undefined when the venue has no price level
+ */
+export function isWithinPriceLevel(priceLevel: number | undefined, level: PriceLevel): boolean | undefined {
+  if (priceLevel === undefined || priceLevel === null) return undefined;
+  const { min, max } = PRICE_RANGES[level];
+  return priceLevel >= min && priceLevel <= max;
+}
+
+/**
+ * Order search results for a budget: venues known to fit first, then venues without a
+ * price level; venues known to be outside it are dropped unless nothing else was found
+ *
+ * @param venues Search results in relevance order, which is kept within each group
+ * @param level Budget to fit
+ */
+export function preferPriceLevel<T extends { price_level?: number }>(venues: T[], level: PriceLevel): T[] {
+  const fitting = venues.filter(venue => isWithinPriceLevel(venue.price_level, level) === true);
+  const unknown = venues.filter(venue => isWithinPriceLevel(venue.price_level, level) === undefined);
+  const preferred = [...fitting, ...unknown];
+  return preferred.length > 0 ? preferred : venues;
+}
+
+/**
+ * Estimated spend per person at one stop
+ * The price level is used when Google has one, then typical admission by venue type
+ *
+ * @param priceScale City prices for one US dollar of the amounts above, rounded to whole units
+ */
+export function estimateStopCost(name: string, details: Partial<PlaceDetails> | undefined, priceScale = 1): StopCostEstimate {
+  const priceLevel = details?.price_level;
+  if (priceLevel !== undefined && priceLevel !== null && COST_BY_PRICE_LEVEL[priceLevel] !== undefined) {
+    return { name, amount: Math.round(COST_BY_PRICE_LEVEL[priceLevel] * priceScale), basis: 'price_level' };
+  }
+
+  const types = details?.types || [];
+  const admissionType = types.find(type => TYPICAL_ADMISSION[type] !== undefined);
+  if (admissionType) {
+    return { name, amount: Math.round(TYPICAL_ADMISSION[admissionType] * priceScale), basis: 'admission' };
+  }
+  if (types.some(type => FREE_VENUE_TYPES.includes(type))) {
+    return { name, amount: 0, basis: 'free' };
+  }
+  return { name, amount: null, basis: 'unknown' };
+}
+
+/**
+ * Estimated spend per person for a whole itinerary, broken down by stop
+ *
+ * @param places Stops of the itinerary in order
+ * @param city Pack of the itinerary's city, for its currency and prices
+ */
+export function estimateItineraryCost(
+  places: Array<{ name: string; details?: unknown }>,
+  city: Pick<CityPack, 'currency' | 'priceScale'>
+): CostEstimate {
+  const stops = places.map(place =>
+    estimateStopCost(place.name, place.details as Partial<PlaceDetails> | undefined, city.priceScale)
+  );
+  return {
+    currency: city.currency,
+    total: stops.reduce((sum, stop) => sum + (stop.amount || 0), 0),
+    stops
+  };
+}
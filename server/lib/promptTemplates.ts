@@ -0,0 +1,164 @@
+/**
+ * Prompt Templates Module
+ *
+ * Prompts sent to language models, stored as versioned templates:
+ * - Each template has a list of rules, numbered and injected at {{rules}}, and placeholders
+ *   such as {{city}} filled in for each request
+ * - CURRENT_PROMPT_VERSIONS says which version of each prompt is used
+ * - PROMPT_CANDIDATE (e.g. "parse-request@v2") sends PROMPT_CANDIDATE_FRACTION (default 0.1) of
+ *   sessions to another version, so the two can be compared in /api/admin/ai-stats
+ *
+ * Never change a version once it has been used; add a new one so the logs stay comparable.
+ */
+
+import crypto from 'crypto';
+
+export interface PromptTemplate {
+  name: string;
+  version: string;
+  rules: string[];
+  template: string;
+}
+
+// Per-version results from the ai_interactions log
+export interface PromptVersionCounts {
+  promptVersion: string | null;
+  attempts: number;
+  successes: number;
+  validationFailures: number;
+  averageLatencyMs: number | null;
+}
+
+export interface PromptVersionStats extends PromptVersionCounts {
+  successRate: number;
+  validationFailureRate: number;
+}
+
+const DEFAULT_CANDIDATE_FRACTION = 0.1;
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    name: 'parse-request',
+    version: 'v1',
+    rules: [
+      'Return ONLY valid JSON that matches the schema - no extra text or markdown',
+      'For time values, use 24-hour format (e.g., "09:00", "15:30") when possible',
+      'If a time is mentioned without AM/PM (e.g., "at 6"), default to PM for evening activities like dinner',
+      'For vague meal times: use "09:00" for breakfast, "12:00" for lunch, and "19:00" for dinner unless a specific time is given',
+      'Include all explicitly mentioned fixed times in fixedTimeEntries',
+      'Put activities with vague times (morning, afternoon, evening) in flexibleTimeEntries',
+      "Keep location names authentic to {{city}} (don't change neighborhood names)",
+      'If the user mentions specific venue requirements, include them in searchParameters',
+      `If the user doesn't specify a budget level, default to "moderate"`,
+      "Extract as much detail as possible while staying true to the user's request",
+      'For incomplete information, make reasonable assumptions based on context',
+      'Keep activity descriptions concise but clear',
+      `VENUE PREFERENCES: Always capture specific venue preferences when mentioned:
+   - If user specifies a venue type like "sandwich place", "sports bar", "authentic seafood restaurant", "trendy cafe", include it in searchParameters.venuePreference
+   - Use venuePreference for ANY specific venue descriptions (e.g., "hipster coffee shop", "upscale steakhouse", "family-friendly diner", "authentic Italian restaurant")
+   - This is different from venueType which should be broader categories like "restaurant", "cafe", "bar"
+   - Examples: for "I want to get a lobster roll from an authentic seafood place", set venuePreference to "authentic seafood place"`,
+      `LOCATION HANDLING: For EACH activity in both fixedTimeEntries and flexibleTimeEntries:
+   - You MUST identify a specific {{city}} location (neighborhood, landmark, station, address)
+   - If the user explicitly provides a valid {{city}} location (e.g., {{exampleAreas}}), use that exact location string
+   - If the user does NOT specify a location OR provides a vague location like 'somewhere', 'anywhere', '{{city}}', 'nearby', you MUST use the exact string '{{defaultArea}}'
+   - The location field must NEVER be null or missing - always provide a valid string value`,
+      'SCHEMA COMPLIANCE: Strictly adhere to the JSON schema. Ensure ALL required fields within fixedTimeEntries and flexibleTimeEntries (including time, activity, and location) are present and contain non-null string values.',
+      `MULTI-DAY TRIPS: If the request covers more than one day (e.g. "a weekend in {{city}}", "Saturday ... then Sunday ..."):
+   - Set "day" on EVERY entry to the day it belongs to, using the user's words ("Saturday", "tomorrow") or "day 1", "day 2", ...
+   - If the user mentions where they are staying (hotel, Airbnb, friend's place), set endLocation to it
+   - Leave "day" out entirely for single-day requests`
+    ],
+    template: `You are a travel planning assistant for {{city}}. Extract structured information from this itinerary request.
+
+IMPORTANT RULES:
+{{rules}}
+
+SCHEMA GUIDANCE:
+- Use fixedTimeEntries for activities with specific clock times (9:00, 14:30, etc.)
+- Use flexibleTimeEntries for activities with time periods (morning, afternoon, etc.)
+- Both entry types MUST include: time, activity, location (never null, use '{{defaultArea}}' when unspecified)
+- Always provide reasonable defaults: use '09:00' for breakfast, '12:00' for lunch, '19:00' for dinner
+- For other activities, use '10:00' for morning, '14:00' for afternoon, '18:00' for evening
+- Always use '{{defaultArea}}' for location if unspecified
+- Always use searchParameters.venuePreference for specific venue descriptions (e.g., "sandwich place", "trendy bar")
+
+Here's the request to analyze:
+{{query}}`
+  }
+];
+
+// Version of each prompt used outside of a trial
+export const CURRENT_PROMPT_VERSIONS: Record<string, string> = {
+  'parse-request': 'v1'
+};
+
+/**
+ * Identifier recorded with each logged interaction, e.g. "parse-request@v1"
+ */
+export function promptVersionId(template: PromptTemplate): string {
+  return `${template.name}@${template.version}`;
+}
+
+export function getPromptTemplate(name: string, version: string): PromptTemplate | undefined {
+  return PROMPT_TEMPLATES.find(template => template.name === name && template.version === version);
+}
+
+// Position of a session in [0, 1), the same every time so a conversation keeps its prompt version
+function sessionBucket(sessionId: string): number {
+  return parseInt(crypto.createHash('sha1').update(sessionId).digest('hex').slice(0, 8), 16) / 0x100000000;
+}
+
+function getCandidateFraction(): number {
+  const fraction = Number(process.env.PROMPT_CANDIDATE_FRACTION ?? DEFAULT_CANDIDATE_FRACTION);
+  return Number.isFinite(fraction) ? Math.min(Math.max(fraction, 0), 1) : DEFAULT_CANDIDATE_FRACTION;
+}
+
+/**
+ * Template to use for a session: the candidate version for its share of sessions, else the current one
+ */
+export function selectPromptTemplate(name: string, sessionId: string): PromptTemplate {
+  const current = getPromptTemplate(name, CURRENT_PROMPT_VERSIONS[name]);
+  if (!current) {
+    throw new Error(`No current version of the "${name}" prompt`);
+  }
+
+  const [candidateName, candidateVersion] = (process.env.PROMPT_CANDIDATE || '').split('@');
+  if (candidateName === name && candidateVersion) {
+    const candidate = getPromptTemplate(name, candidateVersion);
+    if (!candidate) {
+      console.warn(`PROMPT_CANDIDATE ${process.env.PROMPT_CANDIDATE} doesn't exist; using ${promptVersionId(current)}`);
+    } else if (sessionBucket(sessionId) < getCandidateFraction()) {
+      return candidate;
+    }
+  }
+  return current;
+}
+
+/**
+ * Fill in a template's rules and placeholders
+ * Throws when the template uses a placeholder without a value, so typos don't reach the model
+ */
+export function renderPrompt(template: PromptTemplate, values: Record<string, string>): string {
+  const rules = template.rules.map((rule, index) => `${index + 1}. ${rule}`).join('\n');
+  return template.template
+    .replace('{{rules}}', rules)
+    .replace(/\{\{(\w+)\}\}/g, (_match, key: string) => {
+      if (values[key] === undefined) {
+        throw new Error(`No value for {{${key}}} in prompt ${promptVersionId(template)}`);
+      }
+      return values[key];
+    });
+}
+
+/**
+ * Success rate, latency and validation failures of each prompt version, for comparing a candidate
+ * with the current version
+ */
+export function comparePromptVersions(counts: PromptVersionCounts[]): PromptVersionStats[] {
+  return counts.map(row => ({
+    ...row,
+    successRate: row.attempts > 0 ? row.successes / row.attempts : 0,
+    validationFailureRate: row.attempts > 0 ? row.validationFailures / row.attempts : 0
+  }));
+}
@@ -0,0 +1,337 @@
+/**
+ * Routing Module
+ *
+ * This module provides multi-modal travel estimates (walking, MBTA transit,
+ * driving and cycling) between two points through a pluggable provider.
+ *
+ * - The local provider is deterministic and works offline (tests, dev)
+ * - The Google provider uses the Directions API in production
+ */
+
+import { getApiKey, isFeatureEnabled } from "../config";
+import { providerFetch } from "./apiProvider";
+
+const DIRECTIONS_API_URL = "https://maps.googleapis.com/maps/api/directions/json";
+
+export type TravelMode = 'walking' | 'transit' | 'driving' | 'cycling';
+
+export const ALL_TRAVEL_MODES: TravelMode[] = ['walking', 'transit', 'driving', 'cycling'];
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface RouteLeg {
+  mode: TravelMode;
+  durationMinutes: number;
+  distanceMeters: number;
+  polyline: string;         // Encoded polyline (Google polyline algorithm)
+  provider: string;         // Name of the provider that produced this leg
+  transitLines?: string[];  // Transit lines used, e.g. ["Red Line", "39"]
+}
+
+export interface RouteRequestOptions {
+  departureTime?: Date;
+  arrivalTime?: Date;
+}
+
+/**
+ * A routing provider returns a single leg for a given mode,
+ * or null when the mode is not available between the two points
+ */
+export interface RoutingProvider {
+  readonly name: string;
+  getRoute(
+    from: LatLng,
+    to: LatLng,
+    mode: TravelMode,
+    options?: RouteRequestOptions
+  ): Promise<RouteLeg | null>;
+}
+
+/**
+ * Calculate the straight-line distance between two points in meters (Haversine formula)
+ */
+export function haversineDistance(from: LatLng, to: LatLng): number {
+  const R = 6371000; // Earth's radius in meters
+  const dLat = (to.lat - from.lat) * Math.PI / 180;
+  const dLng = (to.lng - from.lng) * Math.PI / 180;
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(from.lat * Math.PI / 180) * Math.cos(to.lat * Math.PI / 180) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2);
+
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
+
+/**
+ * Encode a list of coordinates with Google's polyline algorithm
+ * so local routes can be drawn the same way as Directions API routes
+ */
+export function encodePolyline(points: LatLng[]): string {
+  let result = '';
+  let prevLat = 0;
+  let prevLng = 0;
+
+  const encodeValue = (value: number) => {
+    let v = value < 0 ? ~(value << 1) : value << 1;
+    let chunk = '';
+    while (v >= 0x20) {
+      chunk += String.fromCharCode((0x20 | (v & 0x1f)) + 63);
+      v >>= 5;
+    }
+    chunk += String.fromCharCode(v + 63);
+    return chunk;
+  };
+
+  for (const point of points) {
+    const lat = Math.round(point.lat * 1e5);
+    const lng = Math.round(point.lng * 1e5);
+    result += encodeValue(lat - prevLat) + encodeValue(lng - prevLng);
+    prevLat = lat;
+    prevLng = lng;
+  }
+
+  return result;
+}
+
+// Speed and overhead assumptions for the local provider
+const LOCAL_MODE_PROFILES: Record<TravelMode, { speedKmh: number; overheadMinutes: number }> = {
+  walking: { speedKmh: 4.8, overheadMinutes: 0 },
+  cycling: { speedKmh: 15, overheadMinutes: 2 },   // Unlocking/docking a Bluebikes bike
+  transit: { speedKmh: 22, overheadMinutes: 8 },   // Walking to the station and waiting
+  driving: { speedKmh: 25, overheadMinutes: 5 }    // City traffic plus parking
+};
+
+// Streets are rarely straight - scale the crow-flies distance
+const LOCAL_DETOUR_FACTOR = 1.3;
+
+/**
+ * Deterministic routing provider based on straight-line distance
+ * Used for tests, offline development and as a fallback when the Directions API fails
+ */
+export class LocalRoutingProvider implements RoutingProvider {
+  readonly name = 'local';
+
+  async getRoute(from: LatLng, to: LatLng, mode: TravelMode): Promise<RouteLeg | null> {
+    const distanceMeters = Math.round(haversineDistance(from, to) * LOCAL_DETOUR_FACTOR);
+    const profile = LOCAL_MODE_PROFILES[mode];
+
+    // Transit makes no sense for very short hops - walking is faster
+    if (mode === 'transit' && distanceMeters < 800) {
+      return null;
+    }
+
+    const travelMinutes = (distanceMeters / 1000) / profile.speedKmh * 60;
+    const durationMinutes = Math.max(1, Math.round(travelMinutes + profile.overheadMinutes));
+
+    return {
+      mode,
+      durationMinutes,
+      distanceMeters,
+      polyline: encodePolyline([from, to]),
+      provider: this.name
+    };
+  }
+}
+
+// Map our travel modes to the Directions API mode names
+const GOOGLE_MODE_NAMES: Record<TravelMode, string> = {
+  walking: 'walking',
+  transit: 'transit',
+  driving: 'driving',
+  cycling: 'bicycling'
+};
+
+/**
+ * Routing provider backed by the Google Directions API
+ */
+export class GoogleDirectionsProvider implements RoutingProvider {
+  readonly name = 'google';
+
+  constructor(private apiKey: string) {}
+
+  async getRoute(
+    from: LatLng,
+    to: LatLng,
+    mode: TravelMode,
+    options: RouteRequestOptions = {}
+  ): Promise<RouteLeg | null> {
+    const params = new URLSearchParams({
+      origin: `${from.lat},${from.lng}`,
+      destination: `${to.lat},${to.lng}`,
+      mode: GOOGLE_MODE_NAMES[mode],
+      key: this.apiKey
+    });
+
+    // Transit schedules depend on when the trip happens
+    if (mode === 'transit' && options.arrivalTime) {
+      params.append('arrival_time', Math.floor(options.arrivalTime.getTime() / 1000).toString());
+    } else if (options.departureTime && options.departureTime.getTime() > Date.now()) {
+      params.append('departure_time', Math.floor(options.departureTime.getTime() / 1000).toString());
+    }
+
+    const response = await providerFetch('directions', `${DIRECTIONS_API_URL}?${params.toString()}`);
+
+    if (!response.ok) {
+      throw new Error(`Directions API request failed with status: ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    if (data.status === 'ZERO_RESULTS') {
+      return null;
+    }
+
+    if (data.status !== 'OK' || !data.routes?.length) {
+      throw new Error(`Directions API error for ${mode}: ${data.status}`);
+    }
+
+    const route = data.routes[0];
+    const leg = route.legs[0];
+
+    // Collect the transit lines used on this route (e.g. "Red Line", "Route 39")
+    const transitLines: string[] = (leg.steps || [])
+      .filter((step: any) => step.travel_mode === 'TRANSIT' && step.transit_details?.line)
+      .map((step: any) => step.transit_details.line.short_name || step.transit_details.line.name);
+
+    return {
+      mode,
+      durationMinutes: Math.max(1, Math.round(leg.duration.value / 60)),
+      distanceMeters: leg.distance.value,
+      polyline: route.overview_polyline?.points || '',
+      provider: this.name,
+      ...(transitLines.length > 0 ? { transitLines } : {})
+    };
+  }
+}
+
+let activeProvider: RoutingProvider | null = null;
+const fallbackProvider = new LocalRoutingProvider();
+
+/**
+ * Get the configured routing provider
+ *
+ * ROUTING_PROVIDER=local|google selects explicitly; otherwise the Directions API
+ * is used whenever it is configured, with the local provider as the default
+ */
+export function getRoutingProvider(): RoutingProvider {
+  if (activeProvider) {
+    return activeProvider;
+  }
+
+  const requested = process.env.ROUTING_PROVIDER?.toLowerCase();
+  const apiKey = getApiKey("GOOGLE_PLACES_API_KEY");
+
+  if (requested !== 'local' && apiKey && (requested === 'google' || isFeatureEnabled("DIRECTIONS_API"))) {
+    activeProvider = new GoogleDirectionsProvider(apiKey);
+  } else {
+    activeProvider = fallbackProvider;
+  }
+
+  console.log(`Using ${activeProvider.name} routing provider`);
+  return activeProvider;
+}
+
+/**
+ * Override the routing provider (tests and offline development)
+ * Pass null to go back to the configured provider
+ */
+export function setRoutingProvider(provider: RoutingProvider | null): void {
+  activeProvider = provider;
+}
+
+/**
+ * Get routes between two points for every requested mode
+ * Falls back to the local provider for a mode when the configured provider errors
+ */
+export async function getRoutes(
+  from: LatLng,
+  to: LatLng,
+  modes: TravelMode[] = ALL_TRAVEL_MODES,
+  options: RouteRequestOptions = {}
+): Promise<RouteLeg[]> {
+  const provider = getRoutingProvider();
+
+  const legs = await Promise.all(modes.map(async (mode) => {
+    try {
+      return await provider.getRoute(from, to, mode, options);
+    } catch (error) {
+      console.warn(`${provider.name} routing failed for ${mode}, using local estimate:`, error);
+      return fallbackProvider.getRoute(from, to, mode);
+    }
+  }));
+
+  return legs.filter((leg): leg is RouteLeg => leg !== null);
+}
+
+/**
+ * Map the transport preferences extracted by Gemini to routing modes
+ * (e.g. "tube" and "bus" both mean public transit)
+ */
+export function mapTransportPreferences(transportModes?: string[]): TravelMode[] {
+  if (!transportModes || transportModes.length === 0) {
+    return [];
+  }
+
+  const mapping: Record<string, TravelMode> = {
+    walking: 'walking',
+    walk: 'walking',
+    tube: 'transit',
+    subway: 'transit',
+    t: 'transit',
+    bus: 'transit',
+    train: 'transit',
+    transit: 'transit',
+    taxi: 'driving',
+    uber: 'driving',
+    car: 'driving',
+    driving: 'driving',
+    cycling: 'cycling',
+    bike: 'cycling',
+    bicycle: 'cycling'
+  };
+
+  const modes = transportModes
+    .map(mode => mapping[mode.toLowerCase()])
+    .filter((mode): mode is TravelMode => mode !== undefined);
+
+  // Keep the user's order but drop duplicates
+  return Array.from(new Set(modes));
+}
+
+// Legs up to this length are walked when the user has no preference
+const COMFORTABLE_WALK_MINUTES = 20;
+
+/**
+ * Pick the leg the itinerary should use
+ *
+ * - With preferences: the fastest leg among the preferred modes
+ * - Without: walk short hops, otherwise the fastest of transit and driving
+ */
+export function selectPreferredLeg(legs: RouteLeg[], preferredModes: TravelMode[] = []): RouteLeg | null {
+  if (legs.length === 0) {
+    return null;
+  }
+
+  const fastest = (candidates: RouteLeg[]) =>
+    candidates.reduce((best, leg) => leg.durationMinutes < best.durationMinutes ? leg : best);
+
+  if (preferredModes.length > 0) {
+    const preferred = legs.filter(leg => preferredModes.includes(leg.mode));
+    if (preferred.length > 0) {
+      return fastest(preferred);
+    }
+  }
+
+  const walking = legs.find(leg => leg.mode === 'walking');
+  if (walking && walking.durationMinutes <= COMFORTABLE_WALK_MINUTES) {
+    return walking;
+  }
+
+  const motorized = legs.filter(leg => leg.mode === 'transit' || leg.mode === 'driving');
+  return fastest(motorized.length > 0 ? motorized : legs);
+}
@@ -0,0 +1,190 @@
+/**
+ * Scheduler Module
+ *
+ * This module turns a list of timed itinerary entries into a feasible schedule:
+ * - Assigns a typical visit duration per venue type
+ * - Detects entries that start before the previous visit plus travel has finished
+ * - Shifts flexible entries later and shortens visits to make room for fixed entries
+ * - Reports explicit warnings for anything that can't be reconciled
+ */
+
+import type { PlaceDetails } from "@shared/schema";
+
+// Typical visit length in minutes, keyed by Google Places type
+const TYPICAL_DURATIONS: Record<string, number> = {
+  cafe: 45,
+  bakery: 30,
+  restaurant: 90,
+  meal_takeaway: 30,
+  bar: 90,
+  night_club: 120,
+  museum: 120,
+  art_gallery: 75,
+  tourist_attraction: 60,
+  park: 60,
+  zoo: 150,
+  aquarium: 120,
+  amusement_park: 180,
+  shopping_mall: 90,
+  store: 45,
+  book_store: 45,
+  clothing_store: 45,
+  library: 60,
+  church: 30,
+  movie_theater: 150,
+  stadium: 180,
+  spa: 90,
+  gym: 60
+};
+
+// Fallback for activity descriptions when the venue has no recognised type
+const ACTIVITY_KEYWORD_DURATIONS: Array<{ keywords: string[]; minutes: number }> = [
+  { keywords: ['coffee', 'cafe', 'breakfast'], minutes: 45 },
+  { keywords: ['lunch'], minutes: 60 },
+  { keywords: ['dinner', 'restaurant', 'brunch'], minutes: 90 },
+  { keywords: ['drinks', 'bar', 'pub'], minutes: 90 },
+  { keywords: ['museum', 'gallery', 'exhibit'], minutes: 120 },
+  { keywords: ['park', 'garden', 'walk'], minutes: 60 },
+  { keywords: ['shopping', 'shop'], minutes: 90 },
+  { keywords: ['game', 'concert', 'show', 'theater', 'theatre'], minutes: 150 }
+];
+
+export const DEFAULT_VISIT_MINUTES = 60;
+
+// A visit can be cut down to this fraction of its typical length before we call it a conflict
+const MIN_VISIT_FRACTION = 0.5;
+
+/**
+ * Get the typical visit duration for a venue
+ *
+ * @param types Google Places types of the venue (most specific first)
+ * @param activityType Optional activity description, e.g. "dinner" or "coffee"
+ * @returns Duration in minutes
+ */
+export function getTypicalDuration(types?: string[], activityType?: string): number {
+  if (types) {
+    for (const type of types) {
+      if (TYPICAL_DURATIONS[type] !== undefined) {
+        return TYPICAL_DURATIONS[type];
+      }
+    }
+  }
+
+  if (activityType) {
+    const lowerActivity = activityType.toLowerCase();
+    for (const entry of ACTIVITY_KEYWORD_DURATIONS) {
+      if (entry.keywords.some(keyword => lowerActivity.includes(keyword))) {
+        return entry.minutes;
+      }
+    }
+  }
+
+  return DEFAULT_VISIT_MINUTES;
+}
+
+/**
+ * Visit duration to schedule for a stop: the one chosen when it was added, else the typical one
+ */
+export function getVisitDuration(details?: Partial<PlaceDetails>): number {
+  return details?.plannedDurationMinutes ?? getTypicalDuration(details?.types, details?.activityDescription);
+}
+
+export interface ScheduleItem {
+  name: string;
+  time: Date;              // Requested start time
+  isFixed: boolean;        // Fixed entries keep their time, flexible ones can move
+  durationMinutes: number;
+  travelMinutes?: number;  // Travel time from the previous entry
+}
+
+export type ScheduledItem<T extends ScheduleItem> = T & {
+  startTime: Date;
+  endTime: Date;
+  shiftedByMinutes: number;
+};
+
+export interface ScheduleWarning {
+  type: 'shifted' | 'shortened' | 'conflict' | 'closed';
+  message: string;
+  items: string[];          // Names of the entries involved
+  overlapMinutes?: number;  // How far apart the entries are from being feasible
+}
+
+export interface ScheduleResult<T extends ScheduleItem> {
+  items: ScheduledItem<T>[];
+  warnings: ScheduleWarning[];
+}
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Resolve overlaps between entries and the travel between them
+ *
+ * Entries must already be in chronological order; the result keeps that order.
+ *
+ * @param items Entries with their requested times, durations and travel times
+ * @returns Adjusted start/end times plus warnings describing every change
+ */
+export function resolveSchedule<T extends ScheduleItem>(items: T[]): ScheduleResult<T> {
+  const scheduled: ScheduledItem<T>[] = [];
+  const warnings: ScheduleWarning[] = [];
+
+  for (const item of items) {
+    let startTime = new Date(item.time);
+    let shiftedByMinutes = 0;
+    const previous = scheduled[scheduled.length - 1];
+
+    if (previous) {
+      const travelMs = (item.travelMinutes || 0) * MINUTE;
+      const earliestStart = previous.endTime.getTime() + travelMs;
+
+      if (startTime.getTime() < earliestStart) {
+        if (!item.isFixed) {
+          // Flexible entries simply move to when we can actually get there
+          shiftedByMinutes = Math.ceil((earliestStart - startTime.getTime()) / MINUTE);
+          startTime = new Date(earliestStart);
+          warnings.push({
+            type: 'shifted',
+            message: `${item.name} moved ${shiftedByMinutes} minutes later to allow for ${previous.name} and travel`,
+            items: [previous.name, item.name]
+          });
+        } else {
+          // Fixed entries can't move, so try to cut the previous visit short
+          const minimumEnd = previous.startTime.getTime() +
+            Math.ceil(previous.durationMinutes * MIN_VISIT_FRACTION) * MINUTE;
+          const latestEnd = startTime.getTime() - travelMs;
+
+          if (latestEnd >= minimumEnd) {
+            const shortenedMinutes = Math.round((latestEnd - previous.startTime.getTime()) / MINUTE);
+            warnings.push({
+              type: 'shortened',
+              message: `${previous.name} shortened from ${previous.durationMinutes} to ${shortenedMinutes} minutes to reach ${item.name} on time`,
+              items: [previous.name, item.name]
+            });
+            previous.endTime = new Date(latestEnd);
+            previous.durationMinutes = shortenedMinutes;
+          } else {
+            // Report the lateness even with the shortest acceptable visit
+            const overlapMinutes = Math.ceil((minimumEnd + travelMs - startTime.getTime()) / MINUTE);
+            warnings.push({
+              type: 'conflict',
+              message: `Not enough time between ${previous.name} and ${item.name}: ` +
+                `even with a short visit you would arrive ${overlapMinutes} minutes late`,
+              items: [previous.name, item.name],
+              overlapMinutes
+            });
+          }
+        }
+      }
+    }
+
+    scheduled.push({
+      ...item,
+      startTime,
+      endTime: new Date(startTime.getTime() + item.durationMinutes * MINUTE),
+      shiftedByMinutes
+    });
+  }
+
+  return { items: scheduled, warnings };
+}
@@ -0,0 +1,129 @@
+/**
+ * Sharing Module
+ *
+ * Group planning on a shared itinerary:
+ * - Roles: the owner can do everything, editors can change the plan, viewers can look and vote
+ * - Visibility: public itineraries can be read by anyone with the link, private ones only by
+ *   collaborators (and admins)
+ * - Invite links: a signed token carrying the itinerary, the role it grants and when it expires,
+ *   so links can't be altered (e.g. viewer -> editor) or forged without the server's secret
+ */
+
+import crypto from 'crypto';
+import type { Itinerary, ItineraryRole } from '@shared/schema';
+
+// Invite links stop working after this long
+export const SHARE_LINK_TTL_DAYS = 7;
+
+// Roles an invite link can grant; there is only ever one owner
+export type InviteRole = Exclude<ItineraryRole, 'owner'>;
+
+export interface ShareInvite {
+  itineraryId: number;
+  role: InviteRole;
+  expiresAt: Date;
+}
+
+export class ShareLinkError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ShareLinkError';
+  }
+}
+
+const ROLE_RANK: Record<ItineraryRole, number> = { viewer: 1, editor: 2, owner: 3 };
+
+/**
+ * Check whether a role allows at least what another role allows
+ *
+ * @param role The user's role on the itinerary, if any
+ * @param required The least role needed
+ */
+export function hasItineraryRole(role: ItineraryRole | undefined, required: ItineraryRole): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Check whether someone may read an itinerary
+ *
+ * @param itinerary The itinerary, for its public/private flag
+ * @param role The user's role on the itinerary, if any
+ * @param admin Whether the user is an admin
+ */
+export function canViewItinerary(itinerary: Pick<Itinerary, 'isPublic'>, role: ItineraryRole | undefined, admin: boolean): boolean {
+  return itinerary.isPublic || hasItineraryRole(role, 'viewer') || admin;
+}
+
+// Links are signed with the session secret so they survive restarts but not a secret rotation
+function getSigningSecret(): string {
+  return process.env.SESSION_SECRET || 'boston-day-planner-dev-secret';
+}
+
+function sign(payload: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Create the token for an invite link
+ *
+ * @param itineraryId Itinerary to share
+ * @param role Role the link grants
+ * @param now Current time, for tests
+ */
+export function createShareToken(
+  itineraryId: number,
+  role: InviteRole,
+  now: Date = new Date(),
+  secret: string = getSigningSecret()
+): { token: string; expiresAt: Date } {
+  const expiresAt = new Date(now.getTime() + SHARE_LINK_TTL_DAYS * 24 * 60 * 60 * 1000);
+  const payload = Buffer.from(JSON.stringify({
+    i: itineraryId,
+    r: role,
+    e: Math.floor(expiresAt.getTime() / 1000)
+  })).toString('base64url');
+
+  return { token: `${payload}.${sign(payload, secret)}`, expiresAt };
+}
+
+/**
+ * Check an invite link's token and read the invite from it
+ *
+ * @param token Token from the invite link
+ * @param now Current time, for tests
+ * @throws ShareLinkError when the token was tampered with or has expired
+ */
+export function verifyShareToken(
+  token: string,
+  now: Date = new Date(),
+  secret: string = getSigningSecret()
+): ShareInvite {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) {
+    throw new ShareLinkError('This share link is not valid');
+  }
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw new ShareLinkError('This share link is not valid');
+  }
+
+  let data: { i?: unknown; r?: unknown; e?: unknown };
+  try {
+    data = JSON.parse(Buffer.from(payload, 'base64url').toString());
+  } catch {
+    throw new ShareLinkError('This share link is not valid');
+  }
+
+  if (typeof data.i !== 'number' || (data.r !== 'editor' && data.r !== 'viewer') || typeof data.e !== 'number') {
+    throw new ShareLinkError('This share link is not valid');
+  }
+
+  const expiresAt = new Date(data.e * 1000);
+  if (expiresAt.getTime() <= now.getTime()) {
+    throw new ShareLinkError('This share link has expired. Ask the owner for a new one', 410);
+  }
+
+  return { itineraryId: data.i, role: data.r, expiresAt };
+}
@@ -0,0 +1,53 @@
+/**
+ * Stop Voting Module
+ *
+ * Collaborators on a shared itinerary vote between each stop's venue and its stored
+ * alternatives. Votes are tied to the stop's current venue, so they follow the stop
+ * when it is reordered or retimed and no longer count once the venue is replaced.
+ */
+
+import type { PlaceDetails, StopVote, StopVoteSummary } from "@shared/schema";
+import type { ItineraryStop } from "./itineraryEditing";
+
+/**
+ * Venues that can be voted for at a stop: its current venue and its alternatives
+ */
+export function votableVenueIds(stop: ItineraryStop): string[] {
+  const alternatives = Array.isArray(stop.alternatives) ? stop.alternatives as PlaceDetails[] : [];
+  return [stop.placeId, ...alternatives.map(alternative => alternative.place_id)];
+}
+
+/**
+ * Count the votes for each stop
+ *
+ * @param stops Stops of the itinerary in order
+ * @param votes All votes on the itinerary
+ * @param userId Current user, whose own vote is reported as myVote
+ * @returns One summary per stop, in the same order as the stops
+ */
+export function summarizeStopVotes(stops: ItineraryStop[], votes: StopVote[], userId?: string): StopVoteSummary[] {
+  return stops.map(stop => {
+    const venueIds = votableVenueIds(stop);
+    // Ignore votes for venues that are no longer options, e.g. after a swap
+    const stopVotes = votes.filter(vote => vote.stopPlaceId === stop.placeId && venueIds.includes(vote.placeId));
+
+    const counts: Record<string, number> = {};
+    for (const vote of stopVotes) {
+      counts[vote.placeId] = (counts[vote.placeId] || 0) + 1;
+    }
+
+    // The current venue wins ties, so a split vote doesn't change the plan
+    let leader: string | null = null;
+    for (const placeId of venueIds) {
+      if (counts[placeId] && (!leader || counts[placeId] > counts[leader])) {
+        leader = placeId;
+      }
+    }
+
+    return {
+      counts,
+      myVote: stopVotes.find(vote => vote.userId === userId)?.placeId || null,
+      leader
+    };
+  });
+}
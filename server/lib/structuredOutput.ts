@@ -0,0 +1,100 @@
+/**
+ * Structured Output Module
+ *
+ * Helpers for asking language models for replies that match a Zod schema:
+ * - Converting the Zod schema to a JSON schema that providers enforce natively
+ *   (Gemini's response schema, Anthropic's tool input schema)
+ * - Describing why a reply didn't match, by path, and asking the model to repair it
+ */
+
+import { z } from 'zod';
+
+// The subset of JSON Schema that every provider's structured output understands
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+}
+
+// A named schema to request replies in
+export interface ResponseFormat {
+  name: string;
+  description: string;
+  schema: JsonSchema;
+}
+
+// Longest previous reply quoted back in a repair prompt
+const MAX_QUOTED_REPLY = 4000;
+
+/**
+ * Convert a Zod schema to JSON Schema, keeping descriptions
+ * Only the Zod types request schemas are built from are supported.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const description = schema.description;
+  const withDescription = (json: JsonSchema): JsonSchema => description ? { ...json, description } : json;
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return withDescription(zodToJsonSchema(schema.unwrap()));
+  }
+  if (schema instanceof z.ZodDefault) {
+    return withDescription(zodToJsonSchema(schema.removeDefault()));
+  }
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(schema.shape as Record<string, z.ZodTypeAny>)) {
+      properties[key] = zodToJsonSchema(value);
+      if (!value.isOptional()) required.push(key);
+    }
+    return withDescription(required.length > 0
+      ? { type: 'object', properties, required }
+      : { type: 'object', properties });
+  }
+  if (schema instanceof z.ZodArray) {
+    return withDescription({ type: 'array', items: zodToJsonSchema(schema.element) });
+  }
+  if (schema instanceof z.ZodEnum) {
+    return withDescription({ type: 'string', enum: [...schema.options] });
+  }
+  if (schema instanceof z.ZodString) {
+    return withDescription({ type: 'string' });
+  }
+  if (schema instanceof z.ZodNumber) {
+    return withDescription({ type: schema.isInt ? 'integer' : 'number' });
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return withDescription({ type: 'boolean' });
+  }
+  throw new Error(`Unsupported schema type for structured output: ${schema._def.typeName}`);
+}
+
+/**
+ * One line per validation problem, e.g. "fixedTimeEntries.0.location: Required"
+ */
+export function describeZodIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`);
+}
+
+/**
+ * Prompt asking the model to fix its previous reply
+ *
+ * @param prompt The original prompt
+ * @param reply The reply that couldn't be used
+ * @param problems What was wrong with it, from describeZodIssues or the JSON parse error
+ */
+export function buildRepairPrompt(prompt: string, reply: string, problems: string[]): string {
+  const quoted = reply.length > MAX_QUOTED_REPLY ? `${reply.slice(0, MAX_QUOTED_REPLY)}...` : reply;
+  return `${prompt}
+
+Your previous reply could not be used:
+${quoted}
+
+Problems found:
+${problems.map(problem => `- ${problem}`).join('\n')}
+
+Reply again with the complete corrected JSON. Fix only these problems and keep everything else as it was.`;
+}
@@ -4,11 +4,12 @@
  * This module provides functions for parsing and handling time-related operations
  * for the itinerary planning application.
  * 
- * All time operations use America/New_York timezone unless otherwise specified.
+ * Each itinerary carries the timezone of its city. Times are interpreted in that
+ * timezone; functions fall back to America/New_York when none is given.
  */
 
 import { format as formatDateFns } from 'date-fns';
-import { formatInTimeZone, toZonedTime } from 'date-fns-tz';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
 
 // Default timezone for Boston (same as NYC)
 export const BOSTON_TIMEZONE = 'America/New_York';
@@ -197,180 +198,181 @@ export function isNight(timeStr: string): boolean {
   return hours >= 21 || hours < 5;
 }
 
+/**
+ * Get the calendar day (yyyy-MM-dd) a moment falls on in a timezone
+ *
+ * @param date Moment to look up
+ * @param timeZone IANA timezone, e.g. "Europe/London"
+ */
+export function getDateInTimeZone(date: Date, timeZone: string = BOSTON_TIMEZONE): string {
+  return formatInTimeZone(date, timeZone, 'yyyy-MM-dd');
+}
+
+/**
+ * Convert a wall-clock time on a calendar day in a timezone to the moment it happens
+ *
+ * Daylight saving changes are handled the way calendars do: a time the clocks skip
+ * (e.g. 2:30am when they spring forward) moves later by the size of the gap, and a
+ * time that happens twice when they fall back resolves to the first occurrence.
+ *
+ * @param day Calendar day in yyyy-MM-dd format
+ * @param timeStr Time to convert (HH:MM or natural language, see parseAndNormalizeTime)
+ * @param timeZone IANA timezone the time is expressed in
+ * @returns The exact moment as a Date
+ */
+export function zonedTimeToDate(day: string, timeStr: string, timeZone: string = BOSTON_TIMEZONE): Date {
+  const wallTime = `${day}T${parseAndNormalizeTime(timeStr)}:00`;
+  const wallTimeOf = (date: Date) => formatInTimeZone(date, timeZone, "yyyy-MM-dd'T'HH:mm:ss");
+
+  const date = fromZonedTime(wallTime, timeZone);
+  const rendered = wallTimeOf(date);
+
+  if (rendered !== wallTime) {
+    // The clocks skipped this time; move it forward by however far it was pulled back
+    return new Date(date.getTime() + (Date.parse(`${wallTime}Z`) - Date.parse(`${rendered}Z`)));
+  }
+
+  const hourEarlier = new Date(date.getTime() - 60 * 60 * 1000);
+  return wallTimeOf(hourEarlier) === wallTime ? hourEarlier : date;
+}
+
 /**
  * Format a time string for display (e.g. "14:30" to "2:30 PM")
- * Uses the NYC timezone for consistent time display
  * 
- * @param timeStr String representation of time to format
+ * @param timeStr Time string (HH:MM, natural language or ISO timestamp)
  * @param format Optional date-fns format string (defaults to 'h:mm a')
- * @returns Formatted time string in NYC timezone
+ * @param timeZone Timezone to show ISO timestamps in
+ * @returns Formatted time string
  */
-export function formatTimeForDisplay(timeStr: string, format: string = 'h:mm a'): string {
-  // First normalize the time string
-  const normalized = parseAndNormalizeTime(timeStr);
-  
+export function formatTimeForDisplay(timeStr: string, format: string = 'h:mm a', timeZone: string = BOSTON_TIMEZONE): string {
   // Check if timeStr is already a full ISO timestamp
   if (timeStr.includes('T') && timeStr.includes('Z')) {
-    // If it's already an ISO string, use it directly
-    try {
-      const date = new Date(timeStr);
-      return formatInTimeZone(date, NYC_TIMEZONE, format);
-    } catch (err) {
-      console.warn(`Could not parse ISO timestamp: ${timeStr}, falling back to manual parsing`);
-      // Fall through to the manual parsing below
+    const date = new Date(timeStr);
+    if (!isNaN(date.getTime())) {
+      return formatInTimeZone(date, timeZone, format);
     }
+    console.warn(`Could not parse ISO timestamp: ${timeStr}, falling back to manual parsing`);
   }
   
-  // Extract hours and minutes
-  const [hoursStr, minutesStr] = normalized.split(':');
-  const hours = parseInt(hoursStr);
-  const minutes = parseInt(minutesStr);
-  
-  // Create a date with today's date and the parsed time
-  const date = new Date();
-  date.setHours(hours, minutes, 0, 0);
-  
-  // Convert to NYC timezone and format
-  const nycDate = toZonedTime(date, NYC_TIMEZONE);
-  return formatInTimeZone(nycDate, NYC_TIMEZONE, format);
+  return formatInTimeZone(zonedTimeToDate(getDateInTimeZone(new Date(), timeZone), timeStr, timeZone), timeZone, format);
 }
 
 /**
  * Add minutes to a time string and return the new time
- * Handles timezone-aware calculations in NYC timezone
+ * Calculated on today's date in the timezone, so daylight saving changes are respected
  * 
  * @param timeStr String representation of time
  * @param minutesToAdd Number of minutes to add
+ * @param timeZone Timezone the time is expressed in
  * @returns New time string in HH:MM format (24-hour)
  */
-export function addMinutesToTime(timeStr: string, minutesToAdd: number): string {
-  // Check if timeStr is already an ISO timestamp
-  if (timeStr.includes('T') && timeStr.includes('Z')) {
-    try {
-      // Parse the ISO timestamp
-      const date = new Date(timeStr);
-      
-      // Convert to NYC timezone
-      const nycDate = toZonedTime(date, NYC_TIMEZONE);
-      
-      // Add minutes
-      nycDate.setMinutes(nycDate.getMinutes() + minutesToAdd);
-      
-      // Format and return as HH:MM
-      return formatInTimeZone(nycDate, NYC_TIMEZONE, 'HH:mm');
-    } catch (err) {
-      console.warn(`Could not parse ISO timestamp: ${timeStr}, falling back to manual parsing`);
-      // Fall through to the manual parsing below
-    }
-  }
-  
-  // Handle regular HH:MM time string
-  const normalized = parseAndNormalizeTime(timeStr);
-  const [hours, minutes] = normalized.split(':').map(Number);
-  
-  // Create a date object with the current date
-  const date = new Date();
-  
-  // Set the hours and minutes
-  date.setHours(hours, minutes, 0, 0);
-  
-  // Convert to NYC timezone
-  const nycDate = toZonedTime(date, NYC_TIMEZONE);
-  
-  // Add the minutes
-  nycDate.setMinutes(nycDate.getMinutes() + minutesToAdd);
-  
-  // Return formatted time string
-  return formatInTimeZone(nycDate, NYC_TIMEZONE, 'HH:mm');
+export function addMinutesToTime(timeStr: string, minutesToAdd: number, timeZone: string = BOSTON_TIMEZONE): string {
+  const start = toDateInTimeZone(timeStr, timeZone);
+  return formatInTimeZone(new Date(start.getTime() + minutesToAdd * 60 * 1000), timeZone, 'HH:mm');
 }
 
 /**
  * Calculate the time difference in minutes between two time strings
- * Handles timezone-aware calculations in NYC timezone
  * 
  * @param startTimeStr Start time string (either HH:MM or ISO timestamp)
  * @param endTimeStr End time string (either HH:MM or ISO timestamp)
+ * @param timeZone Timezone HH:MM times are expressed in
  * @returns Number of minutes between the two times
  */
-export function getMinutesBetweenTimes(startTimeStr: string, endTimeStr: string): number {
-  // Process start time
-  let startDate: Date;
-  if (startTimeStr.includes('T') && startTimeStr.includes('Z')) {
-    // ISO timestamp
-    startDate = new Date(startTimeStr);
-  } else {
-    // Parse HH:MM format
-    const start = parseAndNormalizeTime(startTimeStr);
-    const [startHours, startMinutes] = start.split(':').map(Number);
-    
-    startDate = new Date();
-    startDate.setHours(startHours, startMinutes, 0, 0);
-  }
-  
-  // Process end time
-  let endDate: Date;
-  if (endTimeStr.includes('T') && endTimeStr.includes('Z')) {
-    // ISO timestamp
-    endDate = new Date(endTimeStr);
-  } else {
-    // Parse HH:MM format
-    const end = parseAndNormalizeTime(endTimeStr);
-    const [endHours, endMinutes] = end.split(':').map(Number);
-    
-    endDate = new Date();
-    endDate.setHours(endHours, endMinutes, 0, 0);
-  }
-  
-  // Convert both dates to NYC timezone
-  const startNYC = toZonedTime(startDate, NYC_TIMEZONE);
-  const endNYC = toZonedTime(endDate, NYC_TIMEZONE);
+export function getMinutesBetweenTimes(startTimeStr: string, endTimeStr: string, timeZone: string = BOSTON_TIMEZONE): number {
+  const start = toDateInTimeZone(startTimeStr, timeZone);
+  let end = toDateInTimeZone(endTimeStr, timeZone);
   
   // Handle times that cross midnight
-  if (endNYC < startNYC) {
-    endNYC.setDate(endNYC.getDate() + 1);
+  if (end < start) {
+    end = new Date(end.getTime() + 24 * 60 * 60 * 1000);
   }
   
   // Calculate difference in minutes
-  return Math.round((endNYC.getTime() - startNYC.getTime()) / (1000 * 60));
+  return Math.round((end.getTime() - start.getTime()) / (1000 * 60));
+}
+
+// ISO timestamps are exact already; other times are taken to be today in the timezone
+function toDateInTimeZone(timeStr: string, timeZone: string): Date {
+  if (timeStr.includes('T') && timeStr.includes('Z')) {
+    const date = new Date(timeStr);
+    if (!isNaN(date.getTime())) return date;
+  }
+  return zonedTimeToDate(getDateInTimeZone(new Date(), timeZone), timeStr, timeZone);
 }
 
 /**
- * Converts a time string to an ISO timestamp in NYC timezone
+ * Converts a time string to an ISO timestamp for that time in a timezone
  * 
  * @param timeStr Time string to convert (HH:MM format or natural language)
- * @returns ISO timestamp string representing the time in NYC timezone
+ * @param timeZone Timezone the time is expressed in
+ * @param day Calendar day in yyyy-MM-dd format (defaults to today in the timezone)
+ * @returns ISO timestamp (UTC) of the moment
+ */
+export function timeStringToISOString(timeStr: string, timeZone: string, day: string = getDateInTimeZone(new Date(), timeZone)): string {
+  return zonedTimeToDate(day, timeStr, timeZone).toISOString();
+}
+
+/**
+ * Converts a time string to an ISO timestamp for today in NYC
+ * Kept for backwards compatibility, use timeStringToISOString
  */
 export function timeStringToNYCISOString(timeStr: string): string {
-  // First normalize the time to HH:MM format
-  const normalized = parseAndNormalizeTime(timeStr);
-  
-  // Split hours and minutes
-  const [hours, minutes] = normalized.split(':').map(Number);
-  
-  // Create a date with today's date
-  const date = new Date();
-  date.setHours(hours, minutes, 0, 0);
-  
-  // Convert to NYC timezone
-  const nycDate = toZonedTime(date, NYC_TIMEZONE);
-  
-  // Return ISO string
-  return nycDate.toISOString();
+  return timeStringToISOString(timeStr, NYC_TIMEZONE);
 }
 
 /**
  * Creates a formatted display time string from an ISO timestamp
  * 
  * @param isoTimestamp ISO timestamp to format
+ * @param timeZone Timezone to show the time in
  * @param format Optional format string (defaults to 'h:mm a')
- * @returns Formatted time string in NYC timezone
+ * @returns Formatted time string
  */
-export function formatISOToNYCTime(isoTimestamp: string, format: string = 'h:mm a'): string {
-  try {
-    const date = new Date(isoTimestamp);
-    return formatInTimeZone(date, NYC_TIMEZONE, format);
-  } catch (err) {
+export function formatISOInTimeZone(isoTimestamp: string, timeZone: string, format: string = 'h:mm a'): string {
+  const date = new Date(isoTimestamp);
+  if (isNaN(date.getTime())) {
     console.warn(`Invalid ISO timestamp: ${isoTimestamp}, returning as-is`);
     return isoTimestamp;
   }
-}
\ No newline at end of file
+  return formatInTimeZone(date, timeZone, format);
+}
+
+/**
+ * Creates a formatted display time string from an ISO timestamp in NYC
+ * Kept for backwards compatibility, use formatISOInTimeZone
+ */
+export function formatISOToNYCTime(isoTimestamp: string, format: string = 'h:mm a'): string {
+  return formatISOInTimeZone(isoTimestamp, NYC_TIMEZONE, format);
+}
+
+/**
+ * Format a 24-hour clock time without tying it to a day or timezone (e.g. "18:30" to "6:30 PM")
+ */
+export function formatClockTime(timeStr: string, format: string = 'h:mm a'): string {
+  const [hours, minutes] = parseAndNormalizeTime(timeStr).split(':').map(Number);
+  return formatDateFns(new Date(2000, 0, 1, hours, minutes), format);
+}
+
+export type DayPart = 'morning' | 'afternoon' | 'evening' | 'night';
+
+/**
+ * Determine the part of the day for a date (used for recommendations)
+ * 
+ * @param date Date to classify
+ * @param timeZone Timezone to read the hour in (the server's own when omitted)
+ * @returns 'morning', 'afternoon', 'evening' or 'night'
+ */
+export function getDayPart(date: Date, timeZone?: string): DayPart {
+  const hour = timeZone ? Number(formatInTimeZone(date, timeZone, 'H')) : date.getHours();
+  
+  if (hour >= 5 && hour < 12) {
+    return 'morning';
+  } else if (hour >= 12 && hour < 17) {
+    return 'afternoon';
+  } else if (hour >= 17 && hour < 22) {
+    return 'evening';
+  } else {
+    return 'night';
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Trip Days Module
+ *
+ * Helpers for plans that span several days:
+ * - Resolving the day an activity was asked for ("Saturday", "tomorrow", "day 2")
+ *   to a calendar date on or after the first day of the trip
+ * - Grouping requested activities into days
+ * - Working out which day of a trip a stop falls on after it has been edited
+ */
+
+import type { ItineraryStop } from "./itineraryEditing";
+import { getDateInTimeZone } from "./timeUtils";
+
+// Longer trips are rejected rather than planned with days nobody asked for
+export const MAX_TRIP_DAYS = 7;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Move a calendar day (yyyy-MM-dd) by a number of days
+ */
+export function addDaysToDate(day: string, days: number): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Resolve the day an activity was requested for to a calendar date
+ *
+ * Understands ISO dates, "today"/"tonight", "tomorrow", "day after tomorrow",
+ * "day 2" and weekday names (the next one on or after the first day of the trip).
+ * Anything else, including no day at all, is the first day of the trip.
+ *
+ * @param dayText Day as extracted from the request
+ * @param startDay First day of the trip (yyyy-MM-dd)
+ * @returns Calendar day (yyyy-MM-dd)
+ */
+export function resolveTripDay(dayText: string | null | undefined, startDay: string): string {
+  if (!dayText) return startDay;
+
+  const text = dayText.trim().toLowerCase();
+
+  const isoMatch = text.match(/^\d{4}-\d{2}-\d{2}/);
+  if (isoMatch) {
+    return daysBetween(startDay, isoMatch[0]) >= 0 ? isoMatch[0] : startDay;
+  }
+
+  if (text.includes('day after tomorrow')) return addDaysToDate(startDay, 2);
+  if (text.includes('tomorrow')) return addDaysToDate(startDay, 1);
+  if (text === 'today' || text === 'tonight') return startDay;
+
+  const dayNumber = text.match(/\bday\s*(\d+)\b/);
+  if (dayNumber) {
+    return addDaysToDate(startDay, Math.max(parseInt(dayNumber[1], 10) - 1, 0));
+  }
+
+  const weekday = WEEKDAYS.findIndex(name => text.includes(name) || text.split(/\W+/).includes(name.slice(0, 3)));
+  if (weekday !== -1) {
+    const startWeekday = new Date(`${startDay}T00:00:00Z`).getUTCDay();
+    return addDaysToDate(startDay, (weekday - startWeekday + 7) % 7);
+  }
+
+  return startDay;
+}
+
+/**
+ * Group requested activities into the days of a trip
+ *
+ * @param entries Activities, each with an optional day as extracted from the request
+ * @param startDay First day of the trip (yyyy-MM-dd)
+ * @returns Days in date order, each with its activities in their original order
+ * @throws Error when the activities span more than MAX_TRIP_DAYS days
+ */
+export function groupByTripDay<T extends { day?: string | null }>(
+  entries: T[],
+  startDay: string
+): Array<{ date: string; entries: T[] }> {
+  const byDate = new Map<string, T[]>();
+  for (const entry of entries) {
+    const date = resolveTripDay(entry.day, startDay);
+    byDate.set(date, [...(byDate.get(date) || []), entry]);
+  }
+
+  const days = Array.from(byDate.entries())
+    .map(([date, dayEntries]) => ({ date, entries: dayEntries }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  if (days.length > 0 && daysBetween(startDay, days[days.length - 1].date) >= MAX_TRIP_DAYS) {
+    throw new Error(`Trips can span at most ${MAX_TRIP_DAYS} days`);
+  }
+
+  return days.length > 0 ? days : [{ date: startDay, entries: [] }];
+}
+
+/**
+ * Set the day of each stop from its scheduled time, e.g. after a stop was added or moved
+ *
+ * Stops whose date isn't one of the trip's days keep the day they had.
+ *
+ * @param stops Stops of a multi-day itinerary
+ * @param dates Calendar day (yyyy-MM-dd) of each day of the trip, in order
+ * @param timeZone The itinerary's timezone
+ */
+export function assignTripDays(stops: ItineraryStop[], dates: string[], timeZone: string): ItineraryStop[] {
+  return stops.map(stop => {
+    if (!stop.scheduledTime) return stop;
+    const day = dates.indexOf(getDateInTimeZone(new Date(stop.scheduledTime), timeZone));
+    return day === -1 || day === stop.day ? stop : { ...stop, day };
+  });
+}
@@ -1,5 +1,7 @@
-import { PlaceDetails } from '@shared/schema';
+import { formatInTimeZone } from 'date-fns-tz';
+import { PlaceDetails, DayWeather } from '@shared/schema';
 import { getApiKey, isFeatureEnabled } from '../config';
+import { providerFetch } from './apiProvider';
 
 // API configuration
 const WEATHER_API_URL = 'https://api.openweathermap.org/data/2.5/forecast';
@@ -63,11 +65,11 @@ export async function getWeatherForecast(latitude: number, longitude: number): P
   url.searchParams.append('lat', latitude.toString());
   url.searchParams.append('lon', longitude.toString());
   url.searchParams.append('units', 'metric'); // Use Celsius
-  url.searchParams.append('cnt', '24'); // 24 forecasts (3-hour intervals for 3 days)
+  url.searchParams.append('cnt', '40'); // 40 forecasts (3-hour intervals for 5 days, enough for multi-day trips)
   url.searchParams.append('appid', getApiKey("WEATHER", true)); // Will throw if key missing
   
   try {
-    const response = await fetch(url.toString());
+    const response = await providerFetch('weather', url.toString());
     
     if (!response.ok) {
       throw new Error(`Weather API error: ${response.status} ${response.statusText}`);
@@ -169,6 +171,47 @@ export function isWeatherSuitableForOutdoor(weatherData: any, dateTime: Date): b
   return !isBadWeather && !isTooHot && !isTooCold;
 }
 
+/**
+ * Summarize the forecast for one calendar day
+ * 
+ * @param weatherData Weather forecast data
+ * @param day Calendar day (yyyy-MM-dd) in the given timezone
+ * @param timeZone Timezone of the place the forecast is for
+ * @returns Conditions and temperature range, or null when the forecast doesn't reach that day
+ */
+export function summarizeDayWeather(weatherData: any, day: string, timeZone: string): DayWeather | null {
+  if (!weatherData.list || !Array.isArray(weatherData.list)) {
+    return null;
+  }
+  
+  const forecasts = weatherData.list.filter((forecast: any) =>
+    formatInTimeZone(new Date(forecast.dt * 1000), timeZone, 'yyyy-MM-dd') === day
+  );
+  if (forecasts.length === 0) {
+    return null;
+  }
+  
+  // The condition forecast most often during the day
+  const counts = new Map<string, number>();
+  forecasts.forEach((forecast: any) => {
+    const main = forecast.weather[0].main;
+    counts.set(main, (counts.get(main) || 0) + 1);
+  });
+  const conditions = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+  
+  const temperatures = forecasts.map((forecast: any) => forecast.main.temp as number);
+  
+  return {
+    conditions,
+    tempHigh: Math.round(Math.max(...temperatures)),
+    tempLow: Math.round(Math.min(...temperatures)),
+    // Outdoor friendly when most of the day is
+    outdoorFriendly: forecasts.filter((forecast: any) =>
+      isWeatherSuitableForOutdoor({ list: [forecast] }, new Date(forecast.dt * 1000))
+    ).length * 2 >= forecasts.length
+  };
+}
+
 /**
  * Get a weather-aware venue recommendation
  * If the original venue is outdoor and weather is bad, it will
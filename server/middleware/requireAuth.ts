@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { storage } from '../storage';
+import type { UserRole } from '@shared/schema';
 
 /**
  * Middleware to require authentication for protected routes
@@ -24,6 +25,61 @@ export const requireAuth = (req: Request, res: Response, next: NextFunction) =>
   next();
 };
 
+/**
+ * Check whether the logged-in user is an admin
+ * The role comes from the user's account, never from anything the client sends
+ */
+export async function isAdmin(req: Request): Promise<boolean> {
+  if (!req.session || !req.session.userId) {
+    return false;
+  }
+
+  const user = await storage.getUserById(req.session.userId);
+  return user?.role === 'admin';
+}
+
+/**
+ * Check whether an email is listed in ADMIN_EMAILS (comma-separated)
+ * Accounts with these addresses are made admins once the address is verified
+ */
+export function isConfiguredAdminEmail(email: string): boolean {
+  const adminEmails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean);
+  return adminEmails.includes(email.trim().toLowerCase());
+}
+
+/**
+ * Middleware to require an admin for admin routes
+ * Returns 401 if not logged in and 403 if the user is not an admin
+ */
+export const requireAdmin = async (req: Request, res: Response, next: NextFunction) => {
+  if (!req.session || !req.session.userId) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'You must be logged in to access this resource'
+    });
+  }
+
+  try {
+    if (!(await isAdmin(req))) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'Only admins can access this resource'
+      });
+    }
+  } catch (error) {
+    console.error('Error checking admin role:', error);
+    return res.status(500).json({
+      error: 'Server error',
+      message: 'An error occurred while checking permissions'
+    });
+  }
+
+  next();
+};
+
 /**
  * Middleware to attach the current user to the request
  * This does not block the request if user is not authenticated
@@ -39,7 +95,8 @@ export const attachCurrentUser = async (req: Request, res: Response, next: NextF
           id: user.id,
           email: user.email,
           name: user.name || '',
-          avatar_url: user.avatar_url || undefined
+          avatar_url: user.avatar_url || undefined,
+          role: user.role as UserRole
         };
       }
     } catch (error) {
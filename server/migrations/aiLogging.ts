@@ -23,6 +23,7 @@ async function createAiInteractionsTable() {
         timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
         user_query TEXT NOT NULL,
         model_name TEXT NOT NULL,
+        prompt_version TEXT,
         raw_request JSONB,
         raw_response TEXT,
         parsed_response JSONB,
@@ -34,6 +35,9 @@ async function createAiInteractionsTable() {
       )
     `);
     
+    // Tables created before prompts were versioned
+    await db.execute(sql`ALTER TABLE ai_interactions ADD COLUMN IF NOT EXISTS prompt_version TEXT`);
+    
     console.log("AI interactions table created successfully");
     return true;
   } catch (error) {
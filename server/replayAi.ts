@@ -0,0 +1,71 @@
+/**
+ * Replay logged request parsing against the current code (see lib/aiReplay)
+ *
+ *   npx tsx server/replayAi.ts --session <id>
+ *   npx tsx server/replayAi.ts --query "north end" --since 2026-10-01 --limit 50
+ *
+ * Filters: --session, --model, --prompt-version, --query, --since, --status (success or error), --limit
+ * --requery asks the configured models again instead of reusing the logged replies,
+ * --city sets the city for interactions logged without one, and --json prints the full report.
+ *
+ * Exits with 1 when any result changed or failed, so it can run before a deploy.
+ */
+
+import { replayRequestSchema, replayInteractions, formatReplayResult } from './lib/aiReplay';
+
+// Command line options and the replay request fields they set
+const OPTIONS: Record<string, string> = {
+  '--session': 'sessionId',
+  '--model': 'model',
+  '--prompt-version': 'promptVersion',
+  '--query': 'query',
+  '--since': 'since',
+  '--status': 'status',
+  '--limit': 'limit',
+  '--city': 'city'
+};
+
+async function replayAi() {
+  const args = process.argv.slice(2);
+  const request: Record<string, string> = {};
+  for (let index = 0; index < args.length; index++) {
+    const field = OPTIONS[args[index]];
+    if (field && args[index + 1] !== undefined) {
+      request[field] = args[++index];
+    }
+  }
+  if (args.includes('--requery')) request.mode = 'requery';
+
+  const validation = replayRequestSchema.safeParse(request);
+  if (!validation.success) {
+    console.error('Invalid options:', validation.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '));
+    process.exit(1);
+  }
+
+  // The pipeline logs every step; keep the diff readable unless the full report was asked for
+  const { log, info } = console;
+  console.log = () => {};
+  console.info = () => {};
+  const report = await replayInteractions(validation.data);
+  console.log = log;
+  console.info = info;
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    report.results.forEach(result => console.log(`${formatReplayResult(result)}\n`));
+    console.log(`Replayed ${report.replayed} (${report.mode}): ${report.changed} changed, ${report.unchanged} unchanged, ` +
+      `${report.failed} failed, ${report.notRecorded} with nothing recorded to compare with`);
+  }
+
+  if (report.changed > 0 || report.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+replayAi()
+  .then(() => process.exit())
+  .catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -3,21 +3,31 @@ import { createServer } from "http";
 import { storage } from "./storage";
 import { searchPlace } from "./lib/googlePlaces";
 import { calculateTravelTime } from "./lib/itinerary";
+import { mapTransportPreferences, type TravelMode } from "./lib/routing";
+import { resolveSchedule, getTypicalDuration, getVisitDuration, type ScheduleWarning } from "./lib/scheduler";
+import { findGaps, suggestGapActivity, wantsToAvoidCrowds } from "./lib/gapFilling";
+import { mergePreferences, applyPreferencesToSearch } from "./lib/preferences";
+import { estimateItineraryCost } from "./lib/pricing";
+import { getCityPack, listCityPacks, type CityPack } from "./lib/cityPacks";
+import { groupByTripDay } from "./lib/tripDays";
+import { canViewItinerary } from "./lib/sharing";
+import { isAdmin } from "./middleware/requireAuth";
 import { parseItineraryRequest } from "./lib/nlp-fixed";
+import { generateSessionId } from "./lib/aiLogging";
 import { StructuredRequest } from "@shared/types";
-import { insertPlaceSchema, insertItinerarySchema, Place, PlaceDetails } from "@shared/schema";
+import { insertPlaceSchema, insertItinerarySchema, Place, PlaceDetails, TripDay, DayWeather } from "@shared/schema";
 import { z } from "zod";
 import { format } from 'date-fns';
-import { formatInTimeZone, toZonedTime } from 'date-fns-tz';
-import { findAreasByCharacteristics, findQuietAreas, getAreaCrowdLevel, BostonArea, bostonAreas } from "./data/boston-areas";
-import { getWeatherForecast, isVenueOutdoor, isWeatherSuitableForOutdoor, getWeatherAwareVenue } from "./lib/weatherService";
+import { formatInTimeZone } from 'date-fns-tz';
+import { getWeatherForecast, isWeatherSuitableForOutdoor, summarizeDayWeather } from "./lib/weatherService";
 
 // Import the timeUtils module
 import { 
   parseAndNormalizeTime, 
-  NYC_TIMEZONE, 
-  formatISOToNYCTime, 
-  timeStringToNYCISOString 
+  getDateInTimeZone,
+  zonedTimeToDate,
+  formatISOInTimeZone, 
+  timeStringToISOString 
 } from './lib/timeUtils';
 
 /**
@@ -113,760 +123,737 @@ function detectActivityTypeFromQuery(query: string, activity: string): string {
 /**
  * Parse a time string to a Date object
  * Provides consistent time parsing throughout the application
- * Uses America/New_York timezone for consistent local time representation
+ * Clock times are read as local time in the itinerary's timezone, so the result
+ * doesn't depend on the server's own timezone
  * 
  * @param timeStr Time string to parse (e.g., "3pm", "15:00", "evening", "at 6", "around noon", "around 3 PM")
- * @param baseDate Base date to use (defaults to current date)
- * @returns Date object with the specified time in America/New_York timezone
+ * @param day Calendar day of the plan (yyyy-MM-dd) in the itinerary's timezone
+ * @param timeZone IANA timezone of the itinerary's city
+ * @returns Date for that local time on that day
  */
-function parseTimeString(timeStr: string, baseDate?: Date): Date {
-  try {
-    // Using the imported constants and functions from timeUtils that are already imported at the top of the file
-    
-    // Use provided base date or current date
-    const currentDate = baseDate || new Date();
-    
-    // Check if we already have an ISO timestamp (contains 'T' and 'Z')
-    if (timeStr.includes('T') && timeStr.includes('Z')) {
-      try {
-        // Parse the ISO timestamp and return a Date object
-        const date = new Date(timeStr);
-        
-        // Log for debugging
-        console.log(`Parsed ISO timestamp "${timeStr}" to NYC time: ${formatInTimeZone(date, NYC_TIMEZONE, 'yyyy-MM-dd HH:mm:ss zzz')}`);
-        
-        return date;
-      } catch (err) {
-        console.warn(`Failed to parse ISO timestamp: ${timeStr}, falling back to manual parsing`);
-        // Fall through to manual parsing
-      }
+function parseTimeString(timeStr: string, day: string, timeZone: string): Date {
+  // Check if we already have an ISO timestamp (contains 'T' and 'Z')
+  if (timeStr.includes('T') && timeStr.includes('Z')) {
+    const date = new Date(timeStr);
+    if (!isNaN(date.getTime())) {
+      console.log(`Parsed ISO timestamp "${timeStr}" to local time: ${formatInTimeZone(date, timeZone, 'yyyy-MM-dd HH:mm:ss zzz')}`);
+      return date;
     }
-    
-    // Get the normalized time string in 24-hour format (HH:MM)
-    // Now handles "around X" phrases properly with our improved timeUtils
+    console.warn(`Failed to parse ISO timestamp: ${timeStr}, falling back to manual parsing`);
+  }
+
+  try {
+    // Handles "around X" phrases, day parts and 12/24-hour clock times
     const normalizedTime = parseAndNormalizeTime(timeStr);
-    
-    // Extract hours and minutes
-    const [hoursStr, minutesStr] = normalizedTime.split(':');
-    const hours = parseInt(hoursStr, 10);
-    const minutes = parseInt(minutesStr, 10);
-    
-    // Create a new date with the specified time based on the provided base date
-    const date = new Date(currentDate);
-    date.setHours(hours, minutes, 0, 0);
-    
-    // Convert to NYC timezone
-    const nycDate = toZonedTime(date, NYC_TIMEZONE);
-    
-    // Format time for logging
-    const displayTime = formatInTimeZone(nycDate, NYC_TIMEZONE, 'h:mm a');
-    const formattedTime = formatInTimeZone(nycDate, NYC_TIMEZONE, 'yyyy-MM-dd HH:mm:ss zzz');
-    
-    console.log(`Parsed time "${timeStr}" to normalized time "${normalizedTime}" and NYC time: ${displayTime} (${formattedTime})`);
-    
-    return nycDate;
+    const date = zonedTimeToDate(day, normalizedTime, timeZone);
+
+    console.log(`Parsed time "${timeStr}" to normalized time "${normalizedTime}" and local time: ${formatInTimeZone(date, timeZone, 'yyyy-MM-dd HH:mm:ss zzz')}`);
+    return date;
   } catch (error) {
     console.error(`Error parsing time:`, error);
-    // Return a default time if parsing fails
-    const defaultDate = baseDate || new Date();
-    // Default to 10:00 AM NYC time if parsing fails
-    defaultDate.setHours(10, 0, 0, 0);
-    
-    // Convert to NYC timezone
-    const nycDate = toZonedTime(defaultDate, 'America/New_York');
-    
-    return nycDate;
+    // Default to 10:00 AM local time if parsing fails
+    return zonedTimeToDate(day, '10:00', timeZone);
   }
 }
 
-export function findInterestingActivities(
-  currentLocation: string,
-  availableHours: number,
-  preferences: any,
-  // Optional user preferences
-  dayPart: 'morning' | 'afternoon' | 'evening' | 'night' = 'afternoon'
-): any[] {
-  console.log("Finding activities based on preferences:", preferences);
-  
-  // Check for area matches first
-  const possibleArea = bostonAreas.find((a: BostonArea) => 
-    a.name.toLowerCase().includes(currentLocation.toLowerCase()) ||
-    a.keywords.some(k => currentLocation.toLowerCase().includes(k))
-  );
-  
-  const areaParam = possibleArea ? possibleArea.name : undefined;
-  
-  // Start with empty results, we'll fill based on what we find
-  const results = [];
-  
-  // Attempt to find an area in Boston that matches the specified preferences
-  let matchedAreas: BostonArea[] = [];
-  
-  // If we have specific requirements, use them for filtering
-  if (preferences?.requirements && preferences.requirements.length > 0) {
-    matchedAreas = findAreasByCharacteristics(
-      preferences.requirements,
-      possibleArea ? [possibleArea.name] : undefined
-    );
-  } 
-  // Otherwise use preference type as a guide
-  else if (preferences?.type) {
-    const typeToCharacteristics: Record<string, string[]> = {
-      'cafe': ['quiet', 'relaxed'],
-      'park': ['outdoor', 'nature'],
-      'restaurant': ['dining', 'food'],
-      'bar': ['lively', 'nightlife'],
-      'shopping': ['shopping', 'busy'],
-      'museum': ['culture', 'quiet'],
-      'art': ['culture', 'creative'],
-      'activity': ['interesting', 'popular'],
-      'tourist_attraction': ['popular', 'must-see']
-    };
-    
-    // Get characteristics matching the preference type, or use 'interesting' as default
-    const characteristics = typeToCharacteristics[preferences.type] || ['interesting'];
-    
-    // Find areas matching these characteristics
-    matchedAreas = findAreasByCharacteristics(
-      characteristics,
-      possibleArea ? [possibleArea.name] : undefined
-    );
+/**
+ * Work out the plan's calendar day in the city
+ *
+ * @param date Date from the request: a yyyy-MM-dd day, or any timestamp
+ * @param timeZone IANA timezone of the itinerary's city
+ * @returns The day in yyyy-MM-dd format (today in the city when no date is given)
+ */
+function resolvePlanDay(date: string | undefined, timeZone: string): string {
+  if (date && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return date;
   }
-  
-  // If we got area matches, create suggested activities from them
-  if (matchedAreas.length > 0) {
-    // Limit to top 3 areas
-    matchedAreas = matchedAreas.slice(0, 3);
-    
-    for (const area of matchedAreas) {
-      // Time per activity in hours (roughly)
-      const activityLength = Math.min(1.5, availableHours / matchedAreas.length);
+  const parsed = date ? new Date(date) : new Date();
+  return getDateInTimeZone(isNaN(parsed.getTime()) ? new Date() : parsed, timeZone);
+}
+
+// Body of a plan request, shared by the JSON and streaming endpoints
+const planRequestSchema = z.object({
+  query: z.string(),
+  date: z.string().optional(),
+  startTime: z.string().optional(),
+  fillGaps: z.boolean().optional(),
+  city: z.string().optional()
+});
+
+type PlanRequest = z.infer<typeof planRequestSchema>;
+
+// Progress reported while a plan is being built, streamed to the client by /api/plan/stream
+type PlanProgressEvent =
+  | { type: 'parsed'; request: StructuredRequest; timezone: string }
+  | { type: 'venue'; place: Place & { isFixed: boolean } }
+  | { type: 'travel'; leg: any }
+  | { type: 'warnings'; warnings: ScheduleWarning[] };
+
+// Settings shared by every day of a plan
+interface PlanDayContext {
+  query: string;
+  city: CityPack;
+  timeZone: string;
+  enableGapFilling: boolean;
+  preferredModes: TravelMode[];
+  onProgress: (event: PlanProgressEvent) => void;
+}
+
+/**
+ * Find venues for one day's activities, then schedule them with travel between them
+ *
+ * @param parsed The parsed request, with fixedTimes narrowed to this day
+ * @param day Calendar day (yyyy-MM-dd) in the city
+ * @param startTime Requested start time for the day, if any
+ * @param dayIndex Position of the day in a multi-day trip; undefined for single-day plans
+ * @param context Settings shared by every day of the plan
+ * @returns The day's stops in order, the travel legs between them and any warnings
+ */
+async function planDay(
+  parsed: StructuredRequest,
+  day: string,
+  startTime: string | undefined,
+  dayIndex: number | undefined,
+  context: PlanDayContext
+) {
+  const { query, city, timeZone, enableGapFilling, preferredModes, onProgress } = context;
+  // Later days of a trip only hold the activities asked for on them
+  const isFirstDay = !dayIndex;
+  const dayField = dayIndex === undefined ? {} : { day: dayIndex };
+
+  // Initialize the start time
+  let currentTime = startTime
+    ? parseTimeString(startTime, day, timeZone)
+    : zonedTimeToDate(day, '09:00', timeZone);
+
+  const scheduledPlaces = new Set(); // Track unique places
+  const itineraryPlaces: Array<{ place: Place, time: Date, isFixed: boolean }> = [];
+  // Stops carry the details and alternatives of the search that found them: createPlace hands back
+  // a venue's existing record unchanged, and its alternatives may come from an unrelated search
+  const addStop = (stop: { place: Place, time: Date, isFixed: boolean }) => {
+    itineraryPlaces.push(stop);
+    onProgress({ type: 'venue', place: { ...stop.place, ...dayField, scheduledTime: stop.time.toISOString(), isFixed: stop.isFixed } });
+  };
+  // Venues we had to keep even though they are closed at their scheduled time
+  const openingHoursWarnings: ScheduleWarning[] = [];
+
+  // Handle fixed-time appointments first
+  for (const timeSlot of parsed.fixedTimes) {
+    try {
+      console.log("Processing fixed time appointment:", {
+        location: timeSlot.location,
+        time: timeSlot.time,
+        type: timeSlot.type,
+        searchTerm: timeSlot.searchTerm,
+        keywords: timeSlot.keywords,
+        minRating: timeSlot.minRating
+      });
+
+      const appointmentTime = parseTimeString(timeSlot.time, day, timeZone);
+      
+      // Infer activity type for vague or missing types
+      // NOTE: This is kept as a safety fallback even though Gemini should now provide types directly
+      // It serves as a final safeguard in case the AI doesn't properly categorize an activity
+      if (!timeSlot.type || timeSlot.type === 'activity') {
+        // Infer the type from the query and search term
+        timeSlot.type = detectActivityTypeFromQuery(
+          query, 
+          timeSlot.searchTerm || ''
+        );
+        console.log(`Inferred activity type for "${timeSlot.searchTerm}": ${timeSlot.type}`);
+      }
+      
+      // Enhanced search options with parameters from fixedTimes
+      const searchOptions: any = {
+        type: timeSlot.type,
+        city,
+        // Check opening hours at the appointment time rather than right now
+        scheduledTime: appointmentTime,
+        visitDurationMinutes: getTypicalDuration(undefined, timeSlot.type),
+        // Make a copy of the keywords array if available or use an empty array
+        keywords: Array.isArray(timeSlot.keywords) ? [...timeSlot.keywords] : [],
+        // Use explicitly provided searchTerm or fall back to type
+        searchTerm: timeSlot.searchTerm || timeSlot.type,
+        // Use explicitly provided minRating or default to 0
+        minRating: typeof timeSlot.minRating === 'number' ? timeSlot.minRating : 0,
+        // A price asked for this activity wins over the overall budget
+        priceLevel: timeSlot.priceLevel
+      };
       
-      // Type of place to suggest based on preferences and time of day
-      let placeType = 'tourist_attraction';
+      // Add searchPreference directly to the search options if available
+      if (timeSlot.searchPreference) {
+        console.log(`Using search preference for ${timeSlot.location}: "${timeSlot.searchPreference}"`);
+        // Add as a dedicated property for direct usage in the Google Places search
+        searchOptions.searchPreference = timeSlot.searchPreference;
+        
+        // Also add to keywords for broader matching
+        if (!searchOptions.keywords) {
+          searchOptions.keywords = [];
+        }
+        searchOptions.keywords.push(timeSlot.searchPreference);
+      }
       
-      if (preferences.type === 'cafe' || preferences.type === 'restaurant' || 
-          preferences.type === 'bar' || preferences.type === 'shop') {
-        placeType = preferences.type;
-      } else {
-        // Default types based on time of day if no specific type
-        if (dayPart === 'morning') {
-          placeType = 'cafe';
-        } else if (dayPart === 'afternoon') {
-          placeType = 'tourist_attraction';
-        } else if (dayPart === 'evening' || dayPart === 'night') {
-          placeType = 'bar';
+      // Only add additional context if we don't have rich search parameters already
+      if ((!timeSlot.searchTerm || !timeSlot.keywords || timeSlot.keywords.length === 0) && timeSlot.type) {
+        // Add keywords based on common activity types only if not provided by Gemini
+        if (timeSlot.type.includes('coffee') || timeSlot.type.includes('cafe')) {
+          searchOptions.keywords.push('coffee', 'espresso', 'cafe');
+          searchOptions.type = 'cafe';
+          // Use activity type as search term only if not explicitly provided
+          if (!timeSlot.searchTerm) {
+            searchOptions.searchTerm = 'coffee shop';
+          }
+        } else if (timeSlot.type.includes('dinner') || 
+                  timeSlot.type.includes('lunch') || 
+                  timeSlot.type.includes('restaurant')) {
+          searchOptions.keywords.push('restaurant', 'food', 'dining');
+          searchOptions.type = 'restaurant';
+          // Rating expectations are higher for restaurants
+          if (!timeSlot.minRating) {
+            searchOptions.minRating = 4.0;
+          }
+        } else if (timeSlot.type.includes('museum') || timeSlot.type.includes('gallery')) {
+          searchOptions.keywords.push('art', 'museum', 'exhibit');
+          searchOptions.type = 'museum';
+        } else if (timeSlot.type.includes('park') || timeSlot.type.includes('garden')) {
+          searchOptions.keywords.push('park', 'green space', 'outdoor');
+          searchOptions.type = 'park';
+        } else if (timeSlot.type.includes('shopping')) {
+          searchOptions.keywords.push('shopping', 'mall', 'store');
+          searchOptions.type = 'shopping_mall';
         }
       }
       
-      // Create a suggestion based on area characteristics
-      results.push({
-        activity: `Explore ${area.name}`,
-        location: area.name,
-        duration: Math.round(activityLength * 60), // Convert to minutes
-        type: placeType,
-        description: `${area.description || 'Interesting area to explore'} Known for ${area.knownFor.join(', ')}.`
+      // Saved and requested preferences: rating, budget, dietary and accessibility keywords
+      applyPreferencesToSearch(searchOptions, parsed.preferences);
+      
+      // Search for the venue with enhanced parameters
+      console.log(`Search options for ${timeSlot.location}:`, JSON.stringify(searchOptions, null, 2));
+      
+      // Log original values from fixedTimes for debugging
+      console.log(`Original fixedTimes values:`, {
+        searchTerm: timeSlot.searchTerm,
+        keywords: timeSlot.keywords,
+        minRating: timeSlot.minRating,
+        type: timeSlot.type
       });
-    }
-  }
-  
-  // If no area-based suggestions or fewer than needed, add general suggestions
-  if (results.length === 0) {
-    // Default suggestion - tourist_attraction is a good generic fallback
-    results.push({
-      activity: "See interesting sights",
-      location: possibleArea ? possibleArea.name : "Boston",
-      duration: Math.round(Math.min(2, availableHours) * 60), // Convert to minutes
-      type: "tourist_attraction",
-      description: "Explore interesting attractions and sights in the area."
-    });
-  }
-  
-  return results;
-}
+      
+      // VERIFIED: Now directly using the non-null location from Gemini without additional checks
+      // The location string should now always be valid as enforced by the Gemini prompt
+      const venueResult = await searchPlace(timeSlot.location, searchOptions);
 
-export async function registerRoutes(app: Express) {
-  const httpServer = createServer(app);
-  
-  app.post("/api/plan", async (req, res) => {
-    try {
-      const requestSchema = z.object({
-        query: z.string(),
-        date: z.string().optional(),
-        startTime: z.string().optional()
-      });
+      if (!venueResult || !venueResult.primary) {
+        throw new Error(`Could not find location: ${timeSlot.location}. Try specifying the full name (e.g. "The Green Park" instead of "Green Park")`);
+      }
 
-      const { query, date, startTime } = requestSchema.parse(req.body);
+      // Use the primary venue from the result
+      const place = venueResult.primary;
 
-      // Parse the request using NLP
-      const parsed = await parseItineraryRequest(query);
-      console.log("Parsed request:", parsed);
-      
-      // Flag to control automatic gap-filling (set to false to only use explicitly requested activities)
-      const enableGapFilling = false;
-
-      // If no explicit start location, use the first location mentioned
-      if (!parsed.startLocation) {
-        // Use the first fixed time location or first destination
-        parsed.startLocation = parsed.fixedTimes[0]?.location || parsed.destinations[0];
-        if (!parsed.startLocation) {
-          throw new Error("Could not determine a starting location from your request. Please mention where you'd like to start.");
-        }
+      if (place.openAtScheduledTime === false) {
+        openingHoursWarnings.push({
+          type: 'closed',
+          message: `${place.name}: ${place.closedReason}`,
+          items: [place.name]
+        });
       }
 
-      // Initialize base date and time
-      const baseDate = date ? new Date(date) : new Date();
-      let currentTime = startTime
-        ? parseTimeString(startTime, baseDate)
-        : new Date(baseDate.setHours(9, 0, 0, 0));
+      console.log("Found location:", {
+        name: place.name,
+        address: place.formatted_address,
+        type: place.types,
+        alternatives: venueResult.alternatives.length
+      });
 
-      const scheduledPlaces = new Set(); // Track unique places
-      const itineraryPlaces = [];
+      // Create a composite key using place_id + locationName to allow the same venue for different activities
+      const compositeKey = `${place.place_id}:${timeSlot.location}`;
+      
+      if (scheduledPlaces.has(compositeKey)) {
+        console.log("Skipping duplicate location-activity combination:", place.name, "at", timeSlot.location);
+        continue;
+      }
 
-      // Handle lunch request specifically - only if gap filling is enabled or explicitly requested
-      if (enableGapFilling && parsed.preferences?.type?.includes('lunch')) {
-        console.log("Searching for lunch venue near:", parsed.startLocation);
-        try {
-          // Enhanced search options for lunch
-          const searchOptions: any = {
-            type: 'restaurant',
-            requireOpenNow: true,
-            minRating: 4.0,
-            searchTerm: 'lunch restaurant',
-            keywords: ['restaurant', 'lunch', 'dining']
-          };
-          
-          // Add requirements as keywords for better place matching
-          if (parsed.preferences?.requirements && parsed.preferences.requirements.length > 0) {
-            searchOptions.keywords = [
-              ...searchOptions.keywords,
-              ...parsed.preferences.requirements
-            ];
-          }
-          
-          const venueResult = await searchPlace(parsed.startLocation, searchOptions);
-          
-          if (!venueResult || !venueResult.primary) {
-            console.error("Failed to find lunch venue near:", parsed.startLocation);
+      // Try to create the place with better error handling
+      let newPlace;
+      try {
+        newPlace = await storage.createPlace({
+          placeId: place.place_id,
+          name: place.name,
+          address: place.formatted_address,
+          location: place.geometry.location,
+          details: place,
+          alternatives: venueResult.alternatives,
+          scheduledTime: appointmentTime.toISOString(),
+        });
+      } catch (placeError: any) {
+        // If we get a duplicate key error, try to fetch the existing place
+        if (placeError.code === '23505') {
+          console.warn(`Duplicate place found for ${place.name}, trying to fetch existing record`);
+          const existingPlace = await storage.getPlaceByPlaceId(place.place_id);
+          if (existingPlace) {
+            console.log(`Using existing place record for ${place.name}`);
+            newPlace = existingPlace;
           } else {
-            // Use the primary venue from the result
-            let lunchPlace = venueResult.primary;
-
-            // Apply weather-aware venue selection for lunch
-            if (process.env.WEATHER_API_KEY && lunchPlace.types) {
-              try {
-                const lunchTime = parseTimeString('14:00', baseDate);
-                console.log("Checking weather conditions for lunch venue...");
-                
-                // Determine if venue is outdoors based on its types
-                const isOutdoor = lunchPlace.types && isVenueOutdoor(lunchPlace.types);
-                lunchPlace.isOutdoorVenue = isOutdoor;
-                
-                // Check if it's an outdoor venue and if weather conditions are suitable
-                const { venue: recommendedVenue, weatherSuitable } = await getWeatherAwareVenue(
-                  lunchPlace,
-                  venueResult.alternatives,
-                  lunchPlace.geometry.location.lat,
-                  lunchPlace.geometry.location.lng,
-                  lunchTime
-                );
-                
-                // Set weather information on both the suggested place and alternatives
-                lunchPlace.weatherSuitable = weatherSuitable;
-                
-                // If this venue has alternatives, mark them appropriately
-                if (venueResult.alternatives && venueResult.alternatives.length > 0) {
-                  venueResult.alternatives.forEach(alt => {
-                    alt.isOutdoorVenue = alt.types ? isVenueOutdoor(alt.types) : false;
-                    alt.weatherSuitable = weatherSuitable;
-                  });
-                }
-                
-                // If weather is not suitable and we have an indoor alternative
-                if (!weatherSuitable && recommendedVenue !== lunchPlace) {
-                  console.log(`Weather not optimal for ${lunchPlace.name} - outdoor seating may be uncomfortable`);
-                  console.log(`Suggesting alternative lunch venue: ${recommendedVenue.name}`);
-                  recommendedVenue.weatherAwareRecommendation = true;
-                  lunchPlace = recommendedVenue;
-                }
-              } catch (weatherError) {
-                console.warn("Weather service error for lunch venue (proceeding with original):", weatherError);
-              }
-            }
-
-            console.log("Found lunch venue:", {
-              name: lunchPlace.name,
-              address: lunchPlace.formatted_address,
-              rating: lunchPlace.rating,
-              alternatives: venueResult.alternatives.length
-            });
-
-            const lunchTime = parseTimeString('14:00', baseDate);
-            const newPlace = await storage.createPlace({
-              placeId: lunchPlace.place_id,
-              name: lunchPlace.name,
-              address: lunchPlace.formatted_address,
-              location: lunchPlace.geometry.location,
-              details: lunchPlace,
-              alternatives: venueResult.alternatives,
-              scheduledTime: lunchTime.toISOString(),
-            });
-
-            // Use composite key with lunch location
-            scheduledPlaces.add(`${lunchPlace.place_id}:lunch`);
-            itineraryPlaces.push({
-              place: newPlace,
-              time: lunchTime,
-              isFixed: true
-            });
+            throw placeError; // Re-throw if we can't recover
           }
-        } catch (error) {
-          console.error("Error finding lunch venue:", error);
+        } else {
+          throw placeError; // Re-throw other errors
         }
       }
 
-      // Handle fixed-time appointments first
-      for (const timeSlot of parsed.fixedTimes) {
-        try {
-          console.log("Processing fixed time appointment:", {
-            location: timeSlot.location,
-            time: timeSlot.time,
-            type: timeSlot.type,
-            searchTerm: timeSlot.searchTerm,
-            keywords: timeSlot.keywords,
-            minRating: timeSlot.minRating
-          });
-
-          const appointmentTime = parseTimeString(timeSlot.time, baseDate);
+      scheduledPlaces.add(compositeKey);
+      addStop({
+        place: { ...newPlace, details: place, alternatives: venueResult.alternatives },
+        time: appointmentTime,
+        isFixed: true
+      });
+    } catch (error: any) {
+      console.error(`Error scheduling ${timeSlot.location}:`, error);
+      throw new Error(`Error scheduling ${timeSlot.location}: ${error.message}`);
+    }
+  }
+
+  // Sort fixed appointments chronologically
+  itineraryPlaces.sort((a, b) => a.time.getTime() - b.time.getTime());
+
+  // Fill free windows between stops with suggestions (opt-in via fillGaps)
+  if (enableGapFilling && itineraryPlaces.length > 1) {
+    const gaps = findGaps(itineraryPlaces.map(sp => {
+      const details = sp.place.details as PlaceDetails;
+      return {
+        place: details,
+        time: sp.time,
+        durationMinutes: getVisitDuration(details)
+      };
+    }));
+    const usedPlaceIds = new Set(itineraryPlaces.map(sp => sp.place.placeId));
+    const avoidCrowds = wantsToAvoidCrowds(parsed, query);
+
+    for (const gap of gaps) {
+      try {
+        const suggestion = await suggestGapActivity(gap, {
+          interests: parsed.preferences?.interests,
+          avoidCrowds,
+          preferredModes,
+          excludePlaceIds: usedPlaceIds,
+          city
+        });
+
+        if (!suggestion) continue;
+
+        console.log(`Filling gap between ${gap.after.place.name} and ${gap.before.place.name} with ${suggestion.place.name}`);
+
+        const newPlace = await storage.createPlace({
+          placeId: suggestion.place.place_id,
+          name: suggestion.place.name,
+          address: suggestion.place.formatted_address,
+          location: suggestion.place.geometry.location,
+          details: suggestion.place,
+          alternatives: suggestion.alternatives,
+          scheduledTime: suggestion.time.toISOString(),
+        });
+
+        usedPlaceIds.add(suggestion.place.place_id);
+        scheduledPlaces.add(`${suggestion.place.place_id}:gap`);
+        addStop({
+          // The visit is cut to fit the gap; kept on this stop, not the shared place record
+          place: {
+            ...newPlace,
+            details: {
+              ...suggestion.place,
+              suggestionReason: suggestion.reason,
+              plannedDurationMinutes: suggestion.durationMinutes
+            },
+            alternatives: suggestion.alternatives
+          },
+          time: suggestion.time,
+          isFixed: false
+        });
+      } catch (error) {
+        console.error(`Error filling gap after ${gap.after.place.name}:`, error);
+      }
+    }
+  }
+
+  // Handle cases where preferences exist but no fixed times
+  // Only include activities that were explicitly mentioned by the user
+  if (isFirstDay && itineraryPlaces.length === 0 && 
+      (parsed.activities && parsed.activities.length > 0)
+    ) {
+    console.log(`No fixed times but found activities`);
+    
+    try {
+      // Start from the requested start time on the plan's day
+      
+      // Check if we have multiple activities from Gemini parsing
+      if (parsed.activities && Array.isArray(parsed.activities) && parsed.activities.length > 0) {
+        console.log(`Found ${parsed.activities.length} activities from Gemini with no fixed times`);
+        
+        // Store existing times to check for duplicates
+        const existingTimes: number[] = [];
+        // Start of the next activity; moves forward by each venue's typical duration
+        let nextActivityTime = currentTime;
+        
+        // Process up to 3 activities maximum to avoid overcrowding
+        const maxActivities = Math.min(3, parsed.activities.length);
+        
+        for (let i = 0; i < maxActivities; i++) {
+          const activity = parsed.activities[i];
+          if (!activity || !activity.description) continue;
           
-          // Infer activity type for vague or missing types
-          // NOTE: This is kept as a safety fallback even though Gemini should now provide types directly
-          // It serves as a final safeguard in case the AI doesn't properly categorize an activity
-          if (!timeSlot.type || timeSlot.type === 'activity') {
-            // Infer the type from the query and search term
-            timeSlot.type = detectActivityTypeFromQuery(
-              query, 
-              timeSlot.searchTerm || ''
-            );
-            console.log(`Inferred activity type for "${timeSlot.searchTerm}": ${timeSlot.type}`);
-          }
+          // Schedule activities back to back; travel is added by the scheduler below
+          const activityTime = new Date(nextActivityTime.getTime());
+          console.log(`Scheduling activity "${activity.description}" at ${activityTime.toLocaleTimeString()}`);
           
-          // Enhanced search options with parameters from fixedTimes
+          // Create search options from activity parameters
           const searchOptions: any = {
-            type: timeSlot.type,
-            requireOpenNow: true,
-            // Make a copy of the keywords array if available or use an empty array
-            keywords: Array.isArray(timeSlot.keywords) ? [...timeSlot.keywords] : [],
-            // Use explicitly provided searchTerm or fall back to type
-            searchTerm: timeSlot.searchTerm || timeSlot.type,
-            // Use explicitly provided minRating or default to 0
-            minRating: typeof timeSlot.minRating === 'number' ? timeSlot.minRating : 0
+            keywords: [],
+            scheduledTime: activityTime,
+            minRating: 4.0,
+            city
           };
           
-          // Add searchPreference directly to the search options if available
-          if (timeSlot.searchPreference) {
-            console.log(`Using search preference for ${timeSlot.location}: "${timeSlot.searchPreference}"`);
-            // Add as a dedicated property for direct usage in the Google Places search
-            searchOptions.searchPreference = timeSlot.searchPreference;
-            
-            // Also add to keywords for broader matching
-            if (!searchOptions.keywords) {
-              searchOptions.keywords = [];
-            }
-            searchOptions.keywords.push(timeSlot.searchPreference);
+          // Use rich parameters if available
+          if (activity.searchParameters) {
+            searchOptions.type = activity.searchParameters.type;
+            searchOptions.searchTerm = activity.searchParameters.searchTerm || activity.description;
+            searchOptions.keywords = Array.isArray(activity.searchParameters.keywords) ? 
+                                  [...activity.searchParameters.keywords] : [];
+            searchOptions.minRating = activity.searchParameters.minRating || 4.0;
+          } else {
+            // Use activity description as search term
+            searchOptions.searchTerm = activity.description;
           }
           
-          // Only add additional context if we don't have rich search parameters already
-          if ((!timeSlot.searchTerm || !timeSlot.keywords || timeSlot.keywords.length === 0) && timeSlot.type) {
-            // Add keywords based on common activity types only if not provided by Gemini
-            if (timeSlot.type.includes('coffee') || timeSlot.type.includes('cafe')) {
-              searchOptions.keywords.push('coffee', 'espresso', 'cafe');
-              searchOptions.type = 'cafe';
-              // Use activity type as search term only if not explicitly provided
-              if (!timeSlot.searchTerm) {
-                searchOptions.searchTerm = 'coffee shop';
-              }
-            } else if (timeSlot.type.includes('dinner') || 
-                      timeSlot.type.includes('lunch') || 
-                      timeSlot.type.includes('restaurant')) {
-              searchOptions.keywords.push('restaurant', 'food', 'dining');
-              searchOptions.type = 'restaurant';
-              // Rating expectations are higher for restaurants
-              if (!timeSlot.minRating) {
-                searchOptions.minRating = 4.0;
-              }
-            } else if (timeSlot.type.includes('museum') || timeSlot.type.includes('gallery')) {
-              searchOptions.keywords.push('art', 'museum', 'exhibit');
-              searchOptions.type = 'museum';
-            } else if (timeSlot.type.includes('park') || timeSlot.type.includes('garden')) {
-              searchOptions.keywords.push('park', 'green space', 'outdoor');
-              searchOptions.type = 'park';
-            } else if (timeSlot.type.includes('shopping')) {
-              searchOptions.keywords.push('shopping', 'mall', 'store');
-              searchOptions.type = 'shopping_mall';
-            }
+          // Add requirements as keywords
+          if (Array.isArray(activity.requirements) && activity.requirements.length > 0) {
+            searchOptions.keywords = [
+              ...searchOptions.keywords,
+              ...activity.requirements
+            ];
           }
           
-          // Search for the venue with enhanced parameters
-          console.log(`Search options for ${timeSlot.location}:`, JSON.stringify(searchOptions, null, 2));
-          
-          // Log original values from fixedTimes for debugging
-          console.log(`Original fixedTimes values:`, {
-            searchTerm: timeSlot.searchTerm,
-            keywords: timeSlot.keywords,
-            minRating: timeSlot.minRating,
-            type: timeSlot.type
-          });
-          
-          // VERIFIED: Now directly using the non-null location from Gemini without additional checks
-          // The location string should now always be valid as enforced by the Gemini prompt
-          const venueResult = await searchPlace(timeSlot.location, searchOptions);
-
-          if (!venueResult || !venueResult.primary) {
-            throw new Error(`Could not find location: ${timeSlot.location}. Try specifying the full name (e.g. "The Green Park" instead of "Green Park")`);
-          }
-
-          // Use the primary venue from the result
-          const place = venueResult.primary;
-
-          console.log("Found location:", {
-            name: place.name,
-            address: place.formatted_address,
-            type: place.types,
-            alternatives: venueResult.alternatives.length
-          });
-
-          // Create a composite key using place_id + locationName to allow the same venue for different activities
-          const compositeKey = `${place.place_id}:${timeSlot.location}`;
+          applyPreferencesToSearch(searchOptions, parsed.preferences);
           
-          if (scheduledPlaces.has(compositeKey)) {
-            console.log("Skipping duplicate location-activity combination:", place.name, "at", timeSlot.location);
-            continue;
-          }
-
-          // Try to create the place with better error handling
-          let newPlace;
           try {
-            newPlace = await storage.createPlace({
-              placeId: place.place_id,
-              name: place.name,
-              address: place.formatted_address,
-              location: place.geometry.location,
-              details: place,
-              alternatives: venueResult.alternatives,
-              scheduledTime: appointmentTime.toISOString(),
-            });
-          } catch (placeError: any) {
-            // If we get a duplicate key error, try to fetch the existing place
-            if (placeError.code === '23505') {
-              console.warn(`Duplicate place found for ${place.name}, trying to fetch existing record`);
-              const existingPlace = await storage.getPlaceByPlaceId(place.place_id);
-              if (existingPlace) {
-                console.log(`Using existing place record for ${place.name}`);
-                newPlace = existingPlace;
-              } else {
-                throw placeError; // Re-throw if we can't recover
-              }
-            } else {
-              throw placeError; // Re-throw other errors
-            }
-          }
-
-          scheduledPlaces.add(compositeKey);
-          itineraryPlaces.push({
-            place: newPlace,
-            time: appointmentTime,
-            isFixed: true
-          });
-        } catch (error: any) {
-          console.error(`Error scheduling ${timeSlot.location}:`, error);
-          throw new Error(`Error scheduling ${timeSlot.location}: ${error.message}`);
-        }
-      }
-
-      // Sort fixed appointments chronologically
-      itineraryPlaces.sort((a, b) => a.time.getTime() - b.time.getTime());
-
-      // Gap-filling logic has been commented out to only include activities explicitly requested by the user
-      /*
-      // Fill gaps with interesting activities based on preferences
-      if (parsed.preferences?.type || parsed.preferences?.requirements) {
-        for (let i = 0; i < itineraryPlaces.length - 1; i++) {
-          // Explicitly type the current and next variables
-          const current: { place: Place, time: Date, isFixed: boolean } = itineraryPlaces[i];
-          const next: { place: Place, time: Date, isFixed: boolean } = itineraryPlaces[i + 1];
-
-          // Calculate gap between activities
-          const gap = next.time.getTime() - (current.time.getTime() + 90 * 60 * 1000);
-       
-          if (gap > 1.5 * 60 * 60 * 1000) { // If gap > 1.5 hours
-            const suggestedActivities = findInterestingActivities(
-              current.place.name,
-              gap / (60 * 60 * 1000),
-              parsed.preferences,
-              getDayPart(next.time)
-            );
+            const venueResult = await searchPlace(activity.description, searchOptions);
             
-            // Only add the first suggestion to avoid overcrowding
-            if (suggestedActivities.length > 0) {
-              const activity = suggestedActivities[0];
+            if (venueResult && venueResult.primary) {
+              console.log(`Found venue for activity "${activity.description}": ${venueResult.primary.name}`);
+
+              if (venueResult.primary.openAtScheduledTime === false) {
+                openingHoursWarnings.push({
+                  type: 'closed',
+                  message: `${venueResult.primary.name}: ${venueResult.primary.closedReason}`,
+                  items: [venueResult.primary.name]
+                });
+              }
               
+              // Try to create the place with better error handling
+              let newPlace;
               try {
-                console.log(`Filling gap between ${current.place.name} and ${next.place.name} with activity: ${activity.activity}`);
-                
-                // Calculate the midpoint time for the gap activity
-                const midpointTime = new Date(current.time.getTime() + gap / 2);
-                
-                // Determine activity type based on day part and preferences
-                const activityType = 
-                  parsed.preferences?.type || 
-                  (midpointTime.getHours() < 12 ? 'cafe' : 
-                  midpointTime.getHours() < 18 ? 'museum' : 'restaurant');
-                
-                // Enhanced search options for the gap activity
-                const searchOptions: any = {
-                  type: activity.type || activityType,
-                  keywords: ['recommended', 'popular'],
-                  minRating: 4.0,
-                  // Use activity description as search term
-                  searchTerm: activity.activity
-                };
-                
-                // If we have requirements from preferences, add them as keywords
-                if (parsed.preferences?.requirements && parsed.preferences.requirements.length > 0) {
-                  searchOptions.keywords = [
-                    ...searchOptions.keywords,
-                    ...parsed.preferences.requirements
-                  ];
-                }
-                
-                const venueResult = await searchPlace(activity.location, searchOptions);
-                
-                if (venueResult && venueResult.primary) {
-                  const place = venueResult.primary;
-                  console.log(`Found gap-filling activity venue: ${place.name}`);
-                  
-                  // Create a composite key with gap location
-                  const compositeKey = `${place.place_id}:gap`;
-                  
-                  if (scheduledPlaces.has(compositeKey)) {
-                    console.log("Skipping duplicate gap-filling venue:", place.name);
-                    continue;
-                  }
-                  
-                  try {
-                    const newPlace = await storage.createPlace({
-                      placeId: place.place_id,
-                      name: place.name,
-                      address: place.formatted_address,
-                      location: place.geometry.location,
-                      details: place,
-                      alternatives: venueResult.alternatives,
-                      scheduledTime: midpointTime.toISOString(),
-                    });
-                    
-                    scheduledPlaces.add(compositeKey);
-                    
-                    // Add to itinerary
-                    itineraryPlaces.push({
-                      place: newPlace,
-                      time: midpointTime,
-                      isFixed: false
-                    });
-                  } catch (error) {
-                    console.error(`Error creating place for gap activity:`, error);
+                newPlace = await storage.createPlace({
+                  placeId: venueResult.primary.place_id,
+                  name: venueResult.primary.name,
+                  address: venueResult.primary.formatted_address,
+                  location: venueResult.primary.geometry.location,
+                  details: venueResult.primary,
+                  scheduledTime: activityTime.toISOString(),
+                  alternatives: venueResult.alternatives || []
+                });
+              } catch (placeError: any) {
+                // If we get a duplicate key error, try to fetch the existing place
+                if (placeError.code === '23505') {
+                  console.warn(`Duplicate place found for ${venueResult.primary.name}, trying to fetch existing record`);
+                  const existingPlace = await storage.getPlaceByPlaceId(venueResult.primary.place_id);
+                  if (existingPlace) {
+                    console.log(`Using existing place record for ${venueResult.primary.name}`);
+                    newPlace = existingPlace;
+                  } else {
+                    throw placeError; // Re-throw if we can't recover
                   }
+                } else {
+                  throw placeError; // Re-throw other errors
                 }
-              } catch (error) {
-                console.error(`Error finding venue for activity "${activity.activity}":`, error);
-              }
-            }
-          }
-        }
-      }
-      */
-
-      // Handle cases where preferences exist but no fixed times
-      // Only include activities that were explicitly mentioned by the user
-      if (itineraryPlaces.length === 0 && 
-          (parsed.activities && parsed.activities.length > 0)
-        ) {
-        console.log(`No fixed times but found activities`);
-        
-        try {
-          // Use current time as default starting point
-          let currentTime = new Date();
-          
-          // Check if we have multiple activities from Gemini parsing
-          if (parsed.activities && Array.isArray(parsed.activities) && parsed.activities.length > 0) {
-            console.log(`Found ${parsed.activities.length} activities from Gemini with no fixed times`);
-            
-            // Store existing times to check for duplicates
-            const existingTimes: number[] = [];
-            
-            // Process up to 3 activities maximum to avoid overcrowding
-            const maxActivities = Math.min(3, parsed.activities.length);
-            
-            for (let i = 0; i < maxActivities; i++) {
-              const activity = parsed.activities[i];
-              if (!activity || !activity.description) continue;
-              
-              // Schedule activities 90 minutes apart
-              const activityTime = new Date(currentTime.getTime() + (i * 90 * 60 * 1000));
-              console.log(`Scheduling activity "${activity.description}" at ${activityTime.toLocaleTimeString()}`);
-              
-              // Create search options from activity parameters
-              const searchOptions: any = {
-                keywords: [],
-                requireOpenNow: true,
-                minRating: 4.0
-              };
-              
-              // Use rich parameters if available
-              if (activity.searchParameters) {
-                searchOptions.type = activity.searchParameters.type;
-                searchOptions.searchTerm = activity.searchParameters.searchTerm || activity.description;
-                searchOptions.keywords = Array.isArray(activity.searchParameters.keywords) ? 
-                                      [...activity.searchParameters.keywords] : [];
-                searchOptions.minRating = activity.searchParameters.minRating || 4.0;
-              } else {
-                // Use activity description as search term
-                searchOptions.searchTerm = activity.description;
               }
               
-              // Add requirements as keywords
-              if (Array.isArray(activity.requirements) && activity.requirements.length > 0) {
-                searchOptions.keywords = [
-                  ...searchOptions.keywords,
-                  ...activity.requirements
-                ];
-              }
+              // Add to itinerary
+              addStop({
+                place: { ...newPlace, details: venueResult.primary, alternatives: venueResult.alternatives || [] },
+                time: activityTime,
+                isFixed: false
+              });
               
-              try {
-                const venueResult = await searchPlace(activity.description, searchOptions);
-                
-                if (venueResult && venueResult.primary) {
-                  console.log(`Found venue for activity "${activity.description}": ${venueResult.primary.name}`);
-                  
-                  // Try to create the place with better error handling
-                  let newPlace;
-                  try {
-                    newPlace = await storage.createPlace({
-                      placeId: venueResult.primary.place_id,
-                      name: venueResult.primary.name,
-                      address: venueResult.primary.formatted_address,
-                      location: venueResult.primary.geometry.location,
-                      details: venueResult.primary,
-                      scheduledTime: activityTime.toISOString(),
-                      alternatives: venueResult.alternatives || []
-                    });
-                  } catch (placeError: any) {
-                    // If we get a duplicate key error, try to fetch the existing place
-                    if (placeError.code === '23505') {
-                      console.warn(`Duplicate place found for ${venueResult.primary.name}, trying to fetch existing record`);
-                      const existingPlace = await storage.getPlaceByPlaceId(venueResult.primary.place_id);
-                      if (existingPlace) {
-                        console.log(`Using existing place record for ${venueResult.primary.name}`);
-                        newPlace = existingPlace;
-                      } else {
-                        throw placeError; // Re-throw if we can't recover
-                      }
-                    } else {
-                      throw placeError; // Re-throw other errors
-                    }
-                  }
-                  
-                  // Add to itinerary
-                  itineraryPlaces.push({
-                    place: newPlace,
-                    time: activityTime,
-                    isFixed: false
-                  });
-                  
-                  // Mark this place as scheduled with composite key
-                  scheduledPlaces.add(`${venueResult.primary.place_id}:${activity.description}`);
-                  existingTimes.push(activityTime.getTime());
-                }
-              } catch (error) {
-                console.error(`Error finding venue for activity "${activity.description}":`, error);
-              }
-            }
-            
-            // If we successfully added activities, skip the fallback single venue logic
-            if (itineraryPlaces.length > 0) {
-              console.log(`Successfully added ${itineraryPlaces.length} activities from Gemini parsing`);
-              // Skip the fallback logic
-              return res.json(await storage.createItinerary({
-                query,
-                places: itineraryPlaces.map(sp => sp.place),
-                travelTimes: [], // No travel times for now
-              }));
+              // Mark this place as scheduled with composite key
+              scheduledPlaces.add(`${venueResult.primary.place_id}:${activity.description}`);
+              existingTimes.push(activityTime.getTime());
+              nextActivityTime = new Date(activityTime.getTime() +
+                getTypicalDuration(venueResult.primary.types, activity.description) * 60 * 1000);
             }
-          }
-        } catch (error) {
-          console.error("Error processing activities with no fixed times:", error);
-        }
-      }
-
-      // Final chronological sort
-      itineraryPlaces.sort((a, b) => a.time.getTime() - b.time.getTime());
-
-      // Calculate travel times between places
-      const travelTimes = [];
-      let lastPlace: PlaceDetails | null = null;
-
-      for (const scheduledPlace of itineraryPlaces) {
-        // First check if we have valid objects for calculating travel time
-        if (lastPlace && 
-            scheduledPlace.place.details && 
-            typeof scheduledPlace.place.details === 'object' && 
-            'name' in scheduledPlace.place.details && 
-            'formatted_address' in scheduledPlace.place.details &&
-            'geometry' in scheduledPlace.place.details) {
-          
-          // Type assertion to help TypeScript understand the structure
-          const currentPlaceDetails = scheduledPlace.place.details as PlaceDetails;
-          
-          try {
-            const travelTime = calculateTravelTime(lastPlace, currentPlaceDetails);
-            travelTimes.push({
-              from: lastPlace.name,
-              to: scheduledPlace.place.name,
-              duration: travelTime,
-              arrivalTime: scheduledPlace.time.toISOString()
-            });
           } catch (error) {
-            console.error("Error calculating travel time:", error);
-            // Add fallback travel time calculation if main calculation fails
-            travelTimes.push({
-              from: lastPlace.name,
-              to: scheduledPlace.place.name,
-              duration: 30, // Default 30 minutes as fallback
-              arrivalTime: scheduledPlace.time.toISOString()
-            });
+            console.error(`Error finding venue for activity "${activity.description}":`, error);
           }
         }
         
-        // Update last place reference for next iteration
-        if (scheduledPlace.place.details && 
-            typeof scheduledPlace.place.details === 'object' && 
-            'name' in scheduledPlace.place.details && 
-            'formatted_address' in scheduledPlace.place.details &&
-            'geometry' in scheduledPlace.place.details &&
-            'place_id' in scheduledPlace.place.details) {
-          lastPlace = scheduledPlace.place.details as PlaceDetails;
+        if (itineraryPlaces.length > 0) {
+          console.log(`Successfully added ${itineraryPlaces.length} activities from Gemini parsing`);
         }
       }
+    } catch (error) {
+      console.error("Error processing activities with no fixed times:", error);
+    }
+  }
+
+  // Final chronological sort
+  itineraryPlaces.sort((a, b) => a.time.getTime() - b.time.getTime());
+
+  // Calculate travel times between places using the user's preferred transport modes
+  const travelTimes: any[] = [];
+  // Travel minutes into each place and the travelTimes entry describing that leg, by place index
+  const travelMinutesByPlace = new Map<number, number>();
+  const travelEntryByPlace = new Map<number, number>();
+  let lastPlace: PlaceDetails | null = null;
+
+  for (let index = 0; index < itineraryPlaces.length; index++) {
+    const scheduledPlace = itineraryPlaces[index];
+
+    // First check if we have valid objects for calculating travel time
+    if (lastPlace && 
+        scheduledPlace.place.details && 
+        typeof scheduledPlace.place.details === 'object' && 
+        'name' in scheduledPlace.place.details && 
+        'formatted_address' in scheduledPlace.place.details &&
+        'geometry' in scheduledPlace.place.details) {
+      
+      // Type assertion to help TypeScript understand the structure
+      const currentPlaceDetails = scheduledPlace.place.details as PlaceDetails;
+      
+      try {
+        const travelTime = await calculateTravelTime(lastPlace, currentPlaceDetails, {
+          preferredModes,
+          arrivalTime: scheduledPlace.time
+        });
+        travelMinutesByPlace.set(index, travelTime.duration);
+        travelEntryByPlace.set(index, travelTimes.length);
+        travelTimes.push({
+          ...dayField,
+          from: lastPlace.name,
+          to: scheduledPlace.place.name,
+          duration: travelTime.duration,
+          mode: travelTime.mode,
+          distanceMeters: travelTime.distanceMeters,
+          polyline: travelTime.polyline,
+          modes: travelTime.modes,
+          arrivalTime: scheduledPlace.time.toISOString()
+        });
+        onProgress({ type: 'travel', leg: travelTimes[travelTimes.length - 1] });
+      } catch (error) {
+        console.error("Error calculating travel time:", error);
+        // Add fallback travel time calculation if main calculation fails
+        travelMinutesByPlace.set(index, 30);
+        travelEntryByPlace.set(index, travelTimes.length);
+        travelTimes.push({
+          ...dayField,
+          from: lastPlace.name,
+          to: scheduledPlace.place.name,
+          duration: 30, // Default 30 minutes as fallback
+          arrivalTime: scheduledPlace.time.toISOString()
+        });
+        onProgress({ type: 'travel', leg: travelTimes[travelTimes.length - 1] });
+      }
+    }
+    
+    // Update last place reference for next iteration
+    if (scheduledPlace.place.details && 
+        typeof scheduledPlace.place.details === 'object' && 
+        'name' in scheduledPlace.place.details && 
+        'formatted_address' in scheduledPlace.place.details &&
+        'geometry' in scheduledPlace.place.details &&
+        'place_id' in scheduledPlace.place.details) {
+      lastPlace = scheduledPlace.place.details as PlaceDetails;
+    }
+  }
+
+  // Make sure every visit plus the travel after it fits before the next entry
+  const schedule = resolveSchedule(itineraryPlaces.map((scheduledPlace, index) => {
+    const details = scheduledPlace.place.details as PlaceDetails | undefined;
+    return {
+      name: scheduledPlace.place.name,
+      time: scheduledPlace.time,
+      isFixed: scheduledPlace.isFixed,
+      durationMinutes: getVisitDuration(details),
+      travelMinutes: travelMinutesByPlace.get(index)
+    };
+  }));
+
+  schedule.items.forEach((item, index) => {
+    const scheduledPlace = itineraryPlaces[index];
+    scheduledPlace.time = item.startTime;
+
+    // Copy rather than mutate so stored place records aren't affected
+    scheduledPlace.place = {
+      ...scheduledPlace.place,
+      scheduledTime: item.startTime.toISOString(),
+      details: {
+        ...(scheduledPlace.place.details as PlaceDetails),
+        visitDurationMinutes: item.durationMinutes
+      }
+    };
+
+    const travelEntry = travelEntryByPlace.get(index);
+    if (travelEntry !== undefined) {
+      travelTimes[travelEntry].arrivalTime = item.startTime.toISOString();
+    }
+  });
+
+  if (schedule.warnings.length > 0) {
+    console.warn("Schedule adjustments:", schedule.warnings.map(w => w.message));
+  }
 
-      // Create the final itinerary
-      const userId = req.session.userId;
-      console.log(`Creating itinerary with user ID: ${userId || 'none (anonymous)'}`);
-      const itinerary = await storage.createItinerary({
-        query,
-        places: itineraryPlaces.map(sp => sp.place),
-        travelTimes,
-      }, userId); // Associate with the current user if they're logged in
+  return {
+    // isFixed tells the client which stops were requested and which were suggested or moved
+    stops: itineraryPlaces.map(sp => ({ ...sp.place, ...dayField, isFixed: sp.isFixed })),
+    travelTimes,
+    warnings: [...openingHoursWarnings, ...schedule.warnings]
+  };
+}
 
+/**
+ * Forecast summary for one day of a trip, near its first stop
+ *
+ * @returns The summary, or null when weather is unavailable or the day is beyond the forecast
+ */
+async function getDayWeather(stops: Place[], day: string, city: CityPack): Promise<DayWeather | null> {
+  if (!process.env.WEATHER_API_KEY) {
+    return null;
+  }
+
+  const location = (stops[0]?.location as { lat: number; lng: number } | undefined) || city.center;
+  try {
+    const forecast = await getWeatherForecast(location.lat, location.lng);
+    return summarizeDayWeather(forecast, day, city.timezone);
+  } catch (error) {
+    console.warn(`Weather unavailable for ${day}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Build, schedule and save an itinerary for a plan request
+ *
+ * @param input Validated request body
+ * @param userId Owner of the new itinerary, if logged in
+ * @param onProgress Called as each step completes
+ * @returns The saved itinerary plus scheduling and opening-hours warnings
+ */
+async function planItinerary(
+  input: PlanRequest,
+  userId: string | undefined,
+  onProgress: (event: PlanProgressEvent) => void = () => {}
+) {
+  const { query, date, startTime, fillGaps } = input;
+  const city = getCityPack(input.city);
+  // Times in the request are local to the city, whatever timezone the server or browser is in
+  const timeZone = city.timezone;
+  const firstDay = resolvePlanDay(date, timeZone);
+
+  // Parse the request using NLP, under a session that later refinements of this plan continue
+  const sessionId = generateSessionId();
+  const parsed = await parseItineraryRequest(query, sessionId, city);
+
+  // Fill in what the request didn't say from the user's saved preferences; the request wins
+  if (userId) {
+    try {
+      parsed.preferences = mergePreferences(parsed.preferences, await storage.getUserPreferences(userId));
+    } catch (error) {
+      console.warn("Could not load saved preferences, planning with the request's only:", error);
+    }
+  }
+  console.log("Parsed request:", parsed);
+  onProgress({ type: 'parsed', request: parsed, timezone: timeZone });
+  
+  // Automatic gap-filling is opt-in so by default we only use explicitly requested activities;
+  // a busy pace opts in unless the request says otherwise
+  const enableGapFilling = fillGaps ?? parsed.preferences.pace === 'busy';
+  const preferredModes = mapTransportPreferences(parsed.preferences?.transportModes);
+
+  // If no explicit start location, use the first location mentioned
+  if (!parsed.startLocation) {
+    // Use the first fixed time location or first destination
+    parsed.startLocation = parsed.fixedTimes[0]?.location || parsed.destinations[0];
+    if (!parsed.startLocation) {
+      throw new Error("Could not determine a starting location from your request. Please mention where you'd like to start.");
+    }
+  }
+
+  // Activities asked for on other days ("Sunday brunch") become later days of a trip
+  const tripDays = groupByTripDay(parsed.fixedTimes, firstDay);
+  const isTrip = tripDays.length > 1;
+  const context: PlanDayContext = { query, city, timeZone, enableGapFilling, preferredModes, onProgress };
+
+  const places: any[] = [];
+  const travelTimes: any[] = [];
+  const warnings: ScheduleWarning[] = [];
+  const days: TripDay[] = [];
+
+  for (let index = 0; index < tripDays.length; index++) {
+    const tripDay = tripDays[index];
+    if (isTrip) {
+      console.log(`Planning day ${index + 1} of ${tripDays.length} (${tripDay.date})`);
+    }
+
+    const dayPlan = await planDay(
+      { ...parsed, fixedTimes: tripDay.entries },
+      tripDay.date,
+      index === 0 ? startTime : undefined,
+      isTrip ? index : undefined,
+      context
+    );
+    places.push(...dayPlan.stops);
+    travelTimes.push(...dayPlan.travelTimes);
+    warnings.push(...dayPlan.warnings);
+
+    if (isTrip) {
+      days.push({
+        date: tripDay.date,
+        // After the first day, each day starts where the previous one ended (e.g. the hotel)
+        startLocation: (index === 0 ? parsed.startLocation : parsed.endLocation) || dayPlan.stops[0]?.name,
+        endLocation: parsed.endLocation || undefined,
+        weather: await getDayWeather(dayPlan.stops, tripDay.date, city)
+      });
+    }
+  }
+
+  if (warnings.length > 0) {
+    onProgress({ type: 'warnings', warnings });
+  }
+
+  // Create the final itinerary
+  console.log(`Creating itinerary with user ID: ${userId || 'none (anonymous)'}`);
+  const itinerary = await storage.createItinerary({
+    query,
+    places,
+    travelTimes,
+    sessionId,
+    city: city.id,
+    timezone: timeZone,
+    days: isTrip ? days : null,
+    travelModes: preferredModes.length > 0 ? preferredModes : null,
+    isPublic: !userId, // Nobody could open a private plan made without an account
+  }, userId); // Associate with the current user if they're logged in
+
+  return {
+    ...itinerary,
+    warnings,
+    costEstimate: estimateItineraryCost(places, city)
+  };
+}
+
+export async function registerRoutes(app: Express) {
+  const httpServer = createServer(app);
+  
+  app.post("/api/plan", async (req, res) => {
+    try {
+      const itinerary = await planItinerary(planRequestSchema.parse(req.body), req.session.userId);
       res.json(itinerary);
     } catch (error: any) {
       console.error("Error creating itinerary:", error);
@@ -874,16 +861,79 @@ export async function registerRoutes(app: Express) {
     }
   });
 
+  // Same as /api/plan, but streams progress as Server-Sent Events while the plan is built:
+  // parsed (with the plan's timezone), venue (one per stop), travel (one per leg), warnings, then done with the saved itinerary
+  app.post("/api/plan/stream", async (req, res) => {
+    const parsedBody = planRequestSchema.safeParse(req.body);
+    if (!parsedBody.success) {
+      return res.status(400).json({ message: parsedBody.error.message });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no' // Stop proxies from buffering the stream
+    });
+
+    // The request's own close event fires once the body has been read, so only the response
+    // closing before we end it means the client went away
+    let clientConnected = true;
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        clientConnected = false;
+      }
+    });
+
+    const send = (event: string, data: unknown) => {
+      if (clientConnected && !res.writableEnded && !res.destroyed) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    };
+
+    try {
+      const itinerary = await planItinerary(parsedBody.data, req.session.userId, (progress) => {
+        const { type, ...data } = progress;
+        send(type, data);
+      });
+      send('done', itinerary);
+    } catch (error: any) {
+      console.error("Error creating itinerary:", error);
+      send('error', { message: error.message });
+    } finally {
+      res.end();
+    }
+  });
+
   app.get("/api/itinerary/:id", async (req, res) => {
     const id = parseInt(req.params.id);
     const itinerary = await storage.getItinerary(id);
+    const userId = req.session.userId;
+    const role = itinerary && userId ? await storage.getItineraryRole(id, userId) : undefined;
 
-    if (!itinerary) {
+    // Private itineraries are only for their collaborators and admins
+    if (!itinerary || !canViewItinerary(itinerary, role, await isAdmin(req))) {
       res.status(404).json({ message: "Itinerary not found" });
       return;
     }
 
-    res.json(itinerary);
+    res.json({
+      ...itinerary,
+      costEstimate: estimateItineraryCost(itinerary.places as Place[], getCityPack(itinerary.city))
+    });
+  });
+
+  // Cities a plan can be made for, passed as the city parameter of /api/plan
+  app.get("/api/cities", (_req, res) => {
+    res.json(listCityPacks().map(city => ({
+      id: city.id,
+      name: city.name,
+      timezone: city.timezone,
+      currency: city.currency,
+      center: city.center,
+      bounds: city.bounds,
+      areas: city.areas.map(area => area.name)
+    })));
   });
 
   // Add endpoint to get weather forecast for specific coordinates
@@ -912,8 +962,15 @@ export async function registerRoutes(app: Express) {
     }
   });
   
-  // Test endpoint for timezone functionality
+  // Test endpoint for timezone functionality (?city= picks the timezone, Boston by default)
   app.get("/api/test-timezone", (req, res) => {
+    let timeZone: string;
+    try {
+      timeZone = getCityPack(req.query.city as string | undefined).timezone;
+    } catch (error: any) {
+      return res.status(400).json({ message: error.message });
+    }
+
     // Create a test with different time formats
     const testTimes = [
       "3pm",
@@ -928,8 +985,8 @@ export async function registerRoutes(app: Express) {
     const results = testTimes.map(timeStr => {
       // Process the time using our new functions
       const normalizedTime = parseAndNormalizeTime(timeStr);
-      const isoTime = timeStringToNYCISOString(timeStr);
-      const displayTime = formatISOToNYCTime(isoTime);
+      const isoTime = timeStringToISOString(timeStr, timeZone);
+      const displayTime = formatISOInTimeZone(isoTime, timeZone);
       
       return {
         original: timeStr,
@@ -940,26 +997,12 @@ export async function registerRoutes(app: Express) {
     });
     
     res.status(200).json({
-      message: "NYC timezone test results",
-      currentNYCTime: formatInTimeZone(new Date(), NYC_TIMEZONE, 'yyyy-MM-dd h:mm:ss a zzz'),
+      message: `${timeZone} timezone test results`,
+      timeZone,
+      currentLocalTime: formatInTimeZone(new Date(), timeZone, 'yyyy-MM-dd h:mm:ss a zzz'),
       results
     });
   });
 
   return httpServer;
 }
-
-// Helper function to determine the part of the day (for recommendations)
-function getDayPart(date: Date): 'morning' | 'afternoon' | 'evening' | 'night' {
-  const hour = date.getHours();
-  
-  if (hour >= 5 && hour < 12) {
-    return 'morning';
-  } else if (hour >= 12 && hour < 17) {
-    return 'afternoon';
-  } else if (hour >= 17 && hour < 22) {
-    return 'evening';
-  } else {
-    return 'night';
-  }
-}
\ No newline at end of file
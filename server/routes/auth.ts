@@ -3,14 +3,129 @@ import { db } from '../db';
 import { users } from '@shared/schema';
 import { eq } from 'drizzle-orm';
 import bcrypt from 'bcrypt';
-import { insertLocalUserSchema, loginSchema, googleAuthSchema, insertGoogleUserSchema } from '@shared/schema';
-import { attachCurrentUser } from '../middleware/requireAuth';
+import { insertLocalUserSchema, loginSchema, googleAuthSchema, insertGoogleUserSchema, forgotPasswordSchema, resetPasswordSchema, verifyEmailSchema, linkGoogleSchema, linkPasswordSchema, unlinkGoogleSchema } from '@shared/schema';
+import type { User, AuthTokenPurpose, AuthAuditEvent } from '@shared/schema';
+import { attachCurrentUser, requireAuth, isConfiguredAdminEmail } from '../middleware/requireAuth';
 import { SessionData } from 'express-session';
 import { storage } from '../storage';
+import { createAuthToken, hashAuthToken, buildAuthLink, AUTH_TOKEN_TTL_MINUTES } from '../lib/authTokens';
+import { sendMail } from '../lib/mailer';
+import { throttleKey, getRetryAfterSeconds, describeWait } from '../lib/loginThrottle';
 
 // Create a router for authentication routes
 const router = Router();
 
+/**
+ * Site that links in emails point to
+ * The Host header is set by the client, so production needs APP_URL to keep reset links
+ * from pointing somewhere else
+ */
+function getAppOrigin(req: Request): string {
+  if (process.env.APP_URL) {
+    return process.env.APP_URL.replace(/\/$/, '');
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('APP_URL must be set to send emails with links in production');
+  }
+  return `${req.protocol}://${req.get('host')}`;
+}
+
+/**
+ * Ways a user can sign in, for managing linked accounts
+ */
+function signInMethods(user: User) {
+  return {
+    has_password: !!user.password_hash,
+    google_linked: !!user.google_id
+  };
+}
+
+/**
+ * Email a user a password reset or verification link
+ * Earlier links for the same purpose stop working, so only the newest email counts
+ */
+async function sendAuthLink(req: Request, user: User, purpose: AuthTokenPurpose): Promise<void> {
+  await storage.revokeAuthTokens(user.id, purpose);
+  const { token, record } = createAuthToken(user.id, purpose);
+  await storage.saveAuthToken(record);
+
+  const link = buildAuthLink(getAppOrigin(req), purpose, token);
+  const hours = AUTH_TOKEN_TTL_MINUTES[purpose] / 60;
+  const validFor = hours === 1 ? '1 hour' : `${hours} hours`;
+
+  if (purpose === 'password_reset') {
+    await sendMail({
+      to: user.email,
+      subject: 'Reset your Day Planner password',
+      text: `Someone asked to reset the password for your account. If it was you, open this link to choose a new password:\n\n${link}\n\nThe link works once and expires in ${validFor}. If you didn't ask, you can ignore this email.`
+    });
+  } else {
+    await sendMail({
+      to: user.email,
+      subject: 'Confirm your email for Day Planner',
+      text: `Welcome${user.name ? `, ${user.name}` : ''}! Open this link to confirm your email address:\n\n${link}\n\nThe link works once and expires in ${validFor}.`
+    });
+  }
+}
+
+/**
+ * Client address for throttling; set TRUST_PROXY when behind a proxy so this isn't the proxy's
+ */
+function clientIp(req: Request): string {
+  return req.ip || req.socket.remoteAddress || 'unknown';
+}
+
+/**
+ * Count an attempt against each of the given throttle keys, in order, before any password is checked
+ * An attempt refused by a blocked key still counts against the keys before it.
+ *
+ * @returns Seconds to wait when a key is blocked, or 0 when the attempt may go ahead
+ */
+async function claimThrottledAttempt(keys: string[]): Promise<number> {
+  const now = new Date();
+  for (const key of keys) {
+    if (!(await storage.claimAuthThrottle(key, now))) {
+      return Math.max(1, getRetryAfterSeconds(await storage.getAuthThrottle(key), now));
+    }
+  }
+  return 0;
+}
+
+/**
+ * Record a failed or blocked attempt for admins; a failure to record doesn't fail the request
+ */
+async function auditAuthEvent(req: Request, event: AuthAuditEvent, email: string, reason: string, userId?: string): Promise<void> {
+  try {
+    await storage.addAuthAuditEntry({ event, email: email.toLowerCase(), userId, ip: clientIp(req), reason });
+  } catch (error) {
+    console.error('Error writing auth audit entry:', error);
+  }
+}
+
+/**
+ * Make a user an admin when ADMIN_EMAILS lists their email
+ * Only verified addresses count, so nobody gets the role by registering someone else's email
+ */
+async function grantConfiguredAdmin(req: Request, user: User): Promise<User> {
+  if (user.role === 'admin' || !user.email_verified || !isConfiguredAdminEmail(user.email)) {
+    return user;
+  }
+
+  const promoted = await storage.updateUserRole(user.id, 'admin');
+  await auditAuthEvent(req, 'admin_granted', user.email, 'admin_emails', user.id);
+  console.log(`Granted admin to user ${user.id} from ADMIN_EMAILS`);
+  return promoted || user;
+}
+
+function sendTooManyAttempts(res: Response, retryAfter: number) {
+  res.set('Retry-After', String(retryAfter));
+  return res.status(429).json({
+    error: 'Too many attempts',
+    message: `Too many attempts. Try again in ${describeWait(retryAfter)}.`,
+    retryAfter
+  });
+}
+
 /**
  * Register a new user
  * POST /api/auth/register
@@ -29,13 +144,23 @@ router.post('/register', async (req: Request, res: Response) => {
     
     const { email, password, name } = validation.data;
     
+    // Every registration from an IP counts, so accounts can't be mass-created or emails probed
+    const retryAfter = await claimThrottledAttempt([throttleKey('registration', clientIp(req))]);
+    if (retryAfter > 0) {
+      await auditAuthEvent(req, 'register_blocked', email, 'throttled');
+      return sendTooManyAttempts(res, retryAfter);
+    }
+    
     // Check if user already exists
     const existingUser = await storage.getUserByEmail(email);
     
     if (existingUser) {
+      await auditAuthEvent(req, 'register_failed', email, 'email_taken', existingUser.id);
       return res.status(409).json({ 
         error: 'User already exists',
-        message: 'A user with this email already exists'
+        message: existingUser.password_hash
+          ? 'A user with this email already exists'
+          : 'This email signs in with Google. Sign in with Google, then add a password from your profile.'
       });
     }
     
@@ -52,13 +177,21 @@ router.post('/register', async (req: Request, res: Response) => {
     // Set user ID in session
     req.session.userId = user.id;
     
+    // Ask the registrant to confirm their address; the account works in the meantime
+    try {
+      await sendAuthLink(req, user, 'email_verification');
+    } catch (mailError) {
+      console.error('Error sending verification email:', mailError);
+    }
+    
     // Return user without password hash
     return res.status(201).json({
       message: 'User registered successfully',
       user: {
         id: user.id,
         email: user.email,
-        name: user.name
+        name: user.name,
+        email_verified: user.email_verified
       }
     });
   } catch (error) {
@@ -88,21 +221,34 @@ router.post('/login', async (req: Request, res: Response) => {
     
     const { email, password } = validation.data;
     
+    // Attempts count against both the client and the account, so neither guessing many
+    // passwords for one account nor one password across many accounts gets far;
+    // a successful login takes its attempt back
+    const ipKey = throttleKey('ip', clientIp(req));
+    const accountKey = throttleKey('account', email);
+    const retryAfter = await claimThrottledAttempt([ipKey, accountKey]);
+    if (retryAfter > 0) {
+      await auditAuthEvent(req, 'login_blocked', email, 'throttled');
+      return sendTooManyAttempts(res, retryAfter);
+    }
+    
     // Find user by email
     const user = await storage.getUserByEmail(email);
     
     if (!user) {
+      await auditAuthEvent(req, 'login_failed', email, 'unknown_email');
       return res.status(401).json({ 
         error: 'Authentication failed',
         message: 'Invalid email or password'
       });
     }
     
-    // Check if this is a local auth account
-    if (!user.password_hash || user.auth_provider !== 'local') {
+    // Accounts made with Google only have a password once one is added from the profile
+    if (!user.password_hash) {
+      await auditAuthEvent(req, 'login_failed', email, 'no_password', user.id);
       return res.status(401).json({ 
         error: 'Authentication failed',
-        message: 'Please use the appropriate login method for this account'
+        message: 'This account signs in with Google. Sign in with Google, then add a password from your profile.'
       });
     }
     
@@ -110,12 +256,19 @@ router.post('/login', async (req: Request, res: Response) => {
     const passwordMatch = await bcrypt.compare(password, user.password_hash || '');
     
     if (!passwordMatch) {
+      await auditAuthEvent(req, 'login_failed', email, 'wrong_password', user.id);
       return res.status(401).json({ 
         error: 'Authentication failed',
         message: 'Invalid email or password'
       });
     }
     
+    // The account's owner is back, so earlier guesses no longer slow them down; the IP's
+    // earlier failures stay, as it may have been guessing other accounts too
+    await storage.clearAuthThrottle(accountKey);
+    await storage.releaseAuthThrottle(ipKey);
+    await grantConfiguredAdmin(req, user);
+    
     // Set user ID in session
     req.session.userId = user.id;
     
@@ -125,7 +278,8 @@ router.post('/login', async (req: Request, res: Response) => {
       user: {
         id: user.id,
         email: user.email,
-        name: user.name
+        name: user.name,
+        email_verified: user.email_verified
       }
     });
   } catch (error) {
@@ -215,7 +369,9 @@ router.get('/status', attachCurrentUser, async (req: Request, res: Response) =>
       user: {
         id: user.id,
         email: user.email,
-        name: user.name
+        name: user.name,
+        email_verified: user.email_verified,
+        ...signInMethods(user)
       }
     });
   } catch (error) {
@@ -277,7 +433,9 @@ router.get('/me', async (req: Request, res: Response) => {
         id: user.id,
         email: user.email,
         name: user.name,
-        avatar_url: user.avatar_url
+        avatar_url: user.avatar_url,
+        email_verified: user.email_verified,
+        ...signInMethods(user)
       }
     });
   } catch (error) {
@@ -320,13 +478,11 @@ router.post('/google', async (req: Request, res: Response) => {
         user = await storage.getUserByEmail(googleUserInfo.email);
         
         if (user) {
-          // If user exists but hasn't used Google auth before
-          if (user.auth_provider === 'local') {
-            return res.status(409).json({
-              error: 'Authentication conflict',
-              message: 'An account with this email already exists. Please log in with your password.'
-            });
-          }
+          // Signing in with Google doesn't take over an account; its owner links Google from their profile
+          return res.status(409).json({
+            error: 'Authentication conflict',
+            message: 'An account with this email already exists. Log in with your password, then link Google from your profile.'
+          });
         } else {
           // Create new user with Google info
           user = await storage.createGoogleUser({
@@ -334,10 +490,12 @@ router.post('/google', async (req: Request, res: Response) => {
             name: googleUserInfo.name,
             google_id: googleUserInfo.sub,
             avatar_url: googleUserInfo.picture,
-            auth_provider: 'google'
+            auth_provider: 'google',
+            email_verified: googleUserInfo.email_verified
           });
         }
       }
+      await grantConfiguredAdmin(req, user);
       
       // Set user ID in session
       req.session.userId = user.id;
@@ -349,7 +507,8 @@ router.post('/google', async (req: Request, res: Response) => {
           id: user.id,
           email: user.email,
           name: user.name,
-          avatar_url: user.avatar_url
+          avatar_url: user.avatar_url,
+          email_verified: user.email_verified
         }
       });
     } catch (error) {
@@ -368,4 +527,449 @@ router.post('/google', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Email a password reset link
+ * POST /api/auth/forgot-password
+ */
+router.post('/forgot-password', async (req: Request, res: Response) => {
+  const validation = forgotPasswordSchema.safeParse(req.body);
+  
+  if (!validation.success) {
+    return res.status(400).json({ 
+      error: 'Invalid input', 
+      details: validation.error.format() 
+    });
+  }
+  
+  // Same answer whether or not the account exists, so this can't be used to find accounts
+  const response = {
+    message: 'If an account with a password exists for that email, a reset link is on its way'
+  };
+  
+  try {
+    const user = await storage.getUserByEmail(validation.data.email);
+    
+    // Google accounts have no password to reset
+    if (user && user.password_hash) {
+      await sendAuthLink(req, user, 'password_reset');
+      console.log(`Sent password reset link to user ${user.id}`);
+    }
+  } catch (error) {
+    console.error('Error sending password reset link:', error);
+  }
+  
+  return res.json(response);
+});
+
+/**
+ * Set a new password with a reset link
+ * POST /api/auth/reset-password
+ */
+router.post('/reset-password', async (req: Request, res: Response) => {
+  try {
+    const validation = resetPasswordSchema.safeParse(req.body);
+    
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: 'Invalid input', 
+        details: validation.error.format() 
+      });
+    }
+    
+    const { token, password } = validation.data;
+    const authToken = await storage.consumeAuthToken(hashAuthToken(token), 'password_reset');
+    
+    if (!authToken) {
+      return res.status(400).json({
+        error: 'Invalid token',
+        message: 'This reset link is invalid or has expired. Ask for a new one.'
+      });
+    }
+    
+    const password_hash = await bcrypt.hash(password, 10);
+    const user = await storage.updateUserPassword(authToken.userId, password_hash);
+    
+    if (!user) {
+      return res.status(400).json({
+        error: 'Invalid token',
+        message: 'This reset link is invalid or has expired. Ask for a new one.'
+      });
+    }
+    
+    // The link arrived by email, which also proves the address
+    await storage.markEmailVerified(user.id);
+    await storage.revokeAuthTokens(user.id, 'password_reset');
+    console.log(`Password reset for user ${user.id}`);
+    
+    return res.json({
+      message: 'Your password has been reset. You can now log in.'
+    });
+  } catch (error) {
+    console.error('Error resetting password:', error);
+    return res.status(500).json({ 
+      error: 'Server error',
+      message: 'An error occurred while resetting the password'
+    });
+  }
+});
+
+/**
+ * Confirm an email address with a verification link
+ * POST /api/auth/verify-email
+ */
+router.post('/verify-email', async (req: Request, res: Response) => {
+  try {
+    const validation = verifyEmailSchema.safeParse(req.body);
+    
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: 'Invalid input', 
+        details: validation.error.format() 
+      });
+    }
+    
+    const authToken = await storage.consumeAuthToken(hashAuthToken(validation.data.token), 'email_verification');
+    const user = authToken ? await storage.markEmailVerified(authToken.userId) : undefined;
+    
+    if (!user) {
+      return res.status(400).json({
+        error: 'Invalid token',
+        message: 'This verification link is invalid or has expired. Ask for a new one.'
+      });
+    }
+    
+    console.log(`Verified email for user ${user.id}`);
+    await grantConfiguredAdmin(req, user);
+    return res.json({
+      message: 'Your email address is confirmed'
+    });
+  } catch (error) {
+    console.error('Error verifying email:', error);
+    return res.status(500).json({ 
+      error: 'Server error',
+      message: 'An error occurred while verifying the email address'
+    });
+  }
+});
+
+/**
+ * Send a new verification link to the current user
+ * POST /api/auth/resend-verification
+ */
+router.post('/resend-verification', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = req.session.userId ? await storage.getUserById(req.session.userId) : undefined;
+    
+    if (!user) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Session invalid, please log in again'
+      });
+    }
+    
+    if (user.email_verified) {
+      return res.json({
+        message: 'Your email address is already confirmed'
+      });
+    }
+    
+    await sendAuthLink(req, user, 'email_verification');
+    return res.json({
+      message: `A new verification link was sent to ${user.email}`
+    });
+  } catch (error) {
+    console.error('Error resending verification email:', error);
+    return res.status(500).json({ 
+      error: 'Server error',
+      message: 'An error occurred while sending the verification email'
+    });
+  }
+});
+
+/**
+ * Link a Google account to the current user, who confirms with their password
+ * POST /api/auth/link/google
+ */
+router.post('/link/google', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const validation = linkGoogleSchema.safeParse(req.body);
+    
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: 'Invalid input', 
+        details: validation.error.format() 
+      });
+    }
+    
+    const user = req.session.userId ? await storage.getUserById(req.session.userId) : undefined;
+    
+    if (!user) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Session invalid, please log in again'
+      });
+    }
+    
+    if (user.google_id) {
+      return res.status(409).json({
+        error: 'Already linked',
+        message: 'A Google account is already linked. Unlink it first to link a different one.'
+      });
+    }
+    
+    // Confirming the password is a guess like any login, so it counts against the account
+    const accountKey = throttleKey('account', user.email);
+    const retryAfter = await claimThrottledAttempt([accountKey]);
+    if (retryAfter > 0) {
+      await auditAuthEvent(req, 'login_blocked', user.email, 'throttled', user.id);
+      return sendTooManyAttempts(res, retryAfter);
+    }
+    
+    if (!user.password_hash || !(await bcrypt.compare(validation.data.password, user.password_hash))) {
+      await auditAuthEvent(req, 'login_failed', user.email, 'wrong_password', user.id);
+      return res.status(401).json({
+        error: 'Authentication failed',
+        message: 'Incorrect password'
+      });
+    }
+    await storage.clearAuthThrottle(accountKey);
+    
+    let googleUserInfo;
+    try {
+      const { verifyGoogleToken } = await import('../lib/googleAuth');
+      googleUserInfo = await verifyGoogleToken(validation.data.token);
+    } catch (error) {
+      console.error('Error verifying Google token:', error);
+      return res.status(401).json({
+        error: 'Authentication failed',
+        message: 'Could not verify Google authentication'
+      });
+    }
+    
+    // A Google account, or its email address, can only belong to one account
+    const googleOwner = await storage.getUserByGoogleId(googleUserInfo.sub);
+    if (googleOwner && googleOwner.id !== user.id) {
+      return res.status(409).json({
+        error: 'Account conflict',
+        message: 'This Google account is already linked to another account'
+      });
+    }
+    
+    const emailOwner = await storage.getUserByEmail(googleUserInfo.email);
+    if (emailOwner && emailOwner.id !== user.id) {
+      return res.status(409).json({
+        error: 'Account conflict',
+        message: `${googleUserInfo.email} belongs to another account. Sign in to that account, or link a different Google account.`
+      });
+    }
+    
+    let updated = await storage.updateUserGoogleId(user.id, googleUserInfo.sub);
+    
+    // Google has checked the address, so it counts as confirmed if it's the account's own
+    if (updated && googleUserInfo.email_verified && googleUserInfo.email === user.email) {
+      updated = await storage.markEmailVerified(user.id);
+    }
+    
+    if (!updated) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'User not found'
+      });
+    }
+    
+    console.log(`Linked Google account to user ${user.id}`);
+    return res.json({
+      message: 'Google account linked',
+      user: {
+        id: updated.id,
+        email: updated.email,
+        name: updated.name,
+        avatar_url: updated.avatar_url,
+        email_verified: updated.email_verified,
+        ...signInMethods(updated)
+      }
+    });
+  } catch (error: any) {
+    // Another request linked the same Google account in the meantime
+    if (error.code === '23505') {
+      return res.status(409).json({
+        error: 'Account conflict',
+        message: 'This Google account is already linked to another account'
+      });
+    }
+    console.error('Error linking Google account:', error);
+    return res.status(500).json({ 
+      error: 'Server error',
+      message: 'An error occurred while linking the Google account'
+    });
+  }
+});
+
+/**
+ * Add a password to the current user's Google account, who confirms by signing in with Google again
+ * POST /api/auth/link/password
+ */
+router.post('/link/password', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const validation = linkPasswordSchema.safeParse(req.body);
+    
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: 'Invalid input', 
+        details: validation.error.format() 
+      });
+    }
+    
+    const user = req.session.userId ? await storage.getUserById(req.session.userId) : undefined;
+    
+    if (!user) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Session invalid, please log in again'
+      });
+    }
+    
+    if (user.password_hash) {
+      return res.status(409).json({
+        error: 'Already linked',
+        message: 'This account already has a password. Use "Forgot password" to change it.'
+      });
+    }
+    
+    let googleUserInfo;
+    try {
+      const { verifyGoogleToken } = await import('../lib/googleAuth');
+      googleUserInfo = await verifyGoogleToken(validation.data.token);
+    } catch (error) {
+      console.error('Error verifying Google token:', error);
+      return res.status(401).json({
+        error: 'Authentication failed',
+        message: 'Could not verify Google authentication'
+      });
+    }
+    
+    if (!user.google_id || googleUserInfo.sub !== user.google_id) {
+      return res.status(401).json({
+        error: 'Authentication failed',
+        message: 'Sign in with the Google account linked to this account'
+      });
+    }
+    
+    const password_hash = await bcrypt.hash(validation.data.password, 10);
+    const updated = await storage.updateUserPassword(user.id, password_hash);
+    
+    if (!updated) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'User not found'
+      });
+    }
+    
+    console.log(`Added a password to user ${user.id}`);
+    return res.json({
+      message: 'Password added. You can now log in with your email and password.',
+      user: {
+        id: updated.id,
+        email: updated.email,
+        name: updated.name,
+        avatar_url: updated.avatar_url,
+        email_verified: updated.email_verified,
+        ...signInMethods(updated)
+      }
+    });
+  } catch (error) {
+    console.error('Error adding password:', error);
+    return res.status(500).json({ 
+      error: 'Server error',
+      message: 'An error occurred while adding the password'
+    });
+  }
+});
+
+/**
+ * Unlink Google from the current user, who confirms with their password
+ * POST /api/auth/unlink/google
+ */
+router.post('/unlink/google', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const validation = unlinkGoogleSchema.safeParse(req.body);
+    
+    if (!validation.success) {
+      return res.status(400).json({ 
+        error: 'Invalid input', 
+        details: validation.error.format() 
+      });
+    }
+    
+    const user = req.session.userId ? await storage.getUserById(req.session.userId) : undefined;
+    
+    if (!user) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Session invalid, please log in again'
+      });
+    }
+    
+    if (!user.google_id) {
+      return res.status(400).json({
+        error: 'Not linked',
+        message: 'No Google account is linked'
+      });
+    }
+    
+    // Without a password the account would have no way to sign in
+    if (!user.password_hash) {
+      return res.status(400).json({
+        error: 'No password',
+        message: 'Add a password before unlinking Google'
+      });
+    }
+    
+    // Confirming the password is a guess like any login, so it counts against the account
+    const accountKey = throttleKey('account', user.email);
+    const retryAfter = await claimThrottledAttempt([accountKey]);
+    if (retryAfter > 0) {
+      await auditAuthEvent(req, 'login_blocked', user.email, 'throttled', user.id);
+      return sendTooManyAttempts(res, retryAfter);
+    }
+    
+    if (!(await bcrypt.compare(validation.data.password, user.password_hash))) {
+      await auditAuthEvent(req, 'login_failed', user.email, 'wrong_password', user.id);
+      return res.status(401).json({
+        error: 'Authentication failed',
+        message: 'Incorrect password'
+      });
+    }
+    await storage.clearAuthThrottle(accountKey);
+    
+    const updated = await storage.updateUserGoogleId(user.id, null);
+    
+    if (!updated) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'User not found'
+      });
+    }
+    
+    console.log(`Unlinked Google account from user ${user.id}`);
+    return res.json({
+      message: 'Google account unlinked',
+      user: {
+        id: updated.id,
+        email: updated.email,
+        name: updated.name,
+        avatar_url: updated.avatar_url,
+        email_verified: updated.email_verified,
+        ...signInMethods(updated)
+      }
+    });
+  } catch (error) {
+    console.error('Error unlinking Google account:', error);
+    return res.status(500).json({ 
+      error: 'Server error',
+      message: 'An error occurred while unlinking the Google account'
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
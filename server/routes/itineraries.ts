@@ -1,6 +1,34 @@
 import { Router, Request, Response } from 'express';
 import { storage } from '../storage';
-import { requireAuth } from '../middleware/requireAuth';
+import { requireAuth, isAdmin } from '../middleware/requireAuth';
+import { z } from 'zod';
+import type { Itinerary, ItineraryRole, PlaceDetails, TripDay } from '@shared/schema';
+import {
+  prepareVenueSwap,
+  revalidateItinerary,
+  resolveStopTime,
+  insertStop,
+  removeStop,
+  stopEndTime,
+  retimeStop,
+  reorderStops,
+  ItineraryEditError,
+  checkUnlocked,
+  type ItineraryEditResult,
+  type ItineraryStop,
+  type TravelTimeEntry
+} from '../lib/itineraryEditing';
+import { searchPlace, getPlaceById } from '../lib/googlePlaces';
+import { DEFAULT_VISIT_MINUTES } from '../lib/scheduler';
+import { interpretRefinement, applyPlanDiff, type PlanDiff } from '../lib/planRefinement';
+import { generateSessionId } from '../lib/aiLogging';
+import { getCityPack, type CityPack } from '../lib/cityPacks';
+import { estimateItineraryCost } from '../lib/pricing';
+import { assignTripDays } from '../lib/tripDays';
+import { zonedTimeToDate } from '../lib/timeUtils';
+import type { TravelMode } from '../lib/routing';
+import { createShareToken, verifyShareToken, hasItineraryRole, canViewItinerary, ShareLinkError } from '../lib/sharing';
+import { summarizeStopVotes, votableVenueIds } from '../lib/stopVoting';
 
 const router = Router();
 
@@ -68,20 +96,28 @@ router.get('/:id', async (req: Request, res: Response) => {
     }
     
     const itinerary = await storage.getItinerary(id);
+    const userId = req.session.userId;
+    const role = itinerary && userId ? await storage.getItineraryRole(id, userId) : undefined;
     
-    if (!itinerary) {
+    // Private itineraries look the same as missing ones to everyone but collaborators and admins
+    if (!itinerary || !canViewItinerary(itinerary, role, await isAdmin(req))) {
       return res.status(404).json({
         error: 'Not found',
         message: 'Itinerary not found'
       });
     }
     
-    // We need to check user permissions later when we associate itineraries with users
-    // For now, all itineraries are public
+    // Collaborators also get their role and the votes
+    const votes = role
+      ? summarizeStopVotes(itinerary.places as ItineraryStop[], await storage.getStopVotes(id), userId)
+      : undefined;
     
     return res.json({
       ...itinerary,
       created_at: itinerary.created?.toISOString() || new Date().toISOString(),
+      costEstimate: estimateItineraryCost(itinerary.places as ItineraryStop[], getCityPack(itinerary.city)),
+      role: role || null,
+      ...(votes ? { votes } : {})
     });
   } catch (error) {
     console.error('Error fetching itinerary:', error);
@@ -92,4 +128,732 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
+const swapVenueSchema = z.object({
+  alternativeId: z.string().min(1)
+});
+
+const addStopSchema = z.object({
+  query: z.string().min(1).optional(),
+  placeId: z.string().min(1).optional(),
+  time: z.string().min(1).optional(),
+  day: z.number().int().min(0).optional() // Day of a multi-day trip to add the stop to
+}).refine(body => !!body.query || !!body.placeId, {
+  message: 'Either query or placeId is required'
+});
+
+const reorderStopsSchema = z.object({
+  order: z.array(z.number().int())
+});
+
+const retimeStopSchema = z.object({
+  time: z.string().min(1)
+});
+
+const refineSchema = z.object({
+  instruction: z.string().min(1)
+});
+
+const shareSchema = z.object({
+  role: z.enum(['editor', 'viewer'])
+});
+
+const visibilitySchema = z.object({
+  isPublic: z.boolean()
+});
+
+const joinSchema = z.object({
+  token: z.string().min(1)
+});
+
+const voteSchema = z.object({
+  placeId: z.string().min(1)
+});
+
+const lockStopSchema = z.object({
+  placeId: z.string().min(1).optional() // Defaults to the venue with the most votes
+});
+
+const ROLE_REQUIRED_MESSAGES: Record<ItineraryRole, string> = {
+  owner: 'Only the owner of this itinerary can do that',
+  editor: 'You can only edit itineraries you own or were invited to edit',
+  viewer: 'You have not been invited to this itinerary'
+};
+
+/**
+ * Load an itinerary the current user has at least the given role on
+ * Sends the error response and returns null when the request can't proceed
+ */
+async function getItineraryForRole(
+  req: Request,
+  res: Response,
+  required: ItineraryRole
+): Promise<{ itinerary: Itinerary; userId: string; role: ItineraryRole } | null> {
+  const userId = req.session.userId;
+  const id = parseInt(req.params.id);
+
+  if (!userId) {
+    res.status(401).json({
+      error: 'Unauthorized',
+      message: 'You must be logged in to change itineraries'
+    });
+    return null;
+  }
+
+  if (isNaN(id)) {
+    res.status(400).json({
+      error: 'Invalid ID',
+      message: 'Itinerary ID must be a number'
+    });
+    return null;
+  }
+
+  const itinerary = await storage.getItinerary(id);
+  if (!itinerary) {
+    res.status(404).json({
+      error: 'Not found',
+      message: 'Itinerary not found'
+    });
+    return null;
+  }
+
+  const role = await storage.getItineraryRole(id, userId);
+  if (!role || !hasItineraryRole(role, required)) {
+    res.status(403).json({
+      error: 'Forbidden',
+      message: ROLE_REQUIRED_MESSAGES[required]
+    });
+    return null;
+  }
+
+  return { itinerary, userId, role };
+}
+
+/**
+ * Load an itinerary the current user is allowed to edit: the owner or an invited editor
+ * Sends the error response and returns null when the request can't proceed
+ */
+async function getEditableItinerary(req: Request, res: Response): Promise<Itinerary | null> {
+  const access = await getItineraryForRole(req, res, 'editor');
+  return access ? access.itinerary : null;
+}
+
+/**
+ * Put each stop of a multi-day trip on the day its time now falls on
+ * Single-day itineraries are returned unchanged
+ */
+function withTripDays(itinerary: Itinerary, stops: ItineraryStop[]): ItineraryStop[] {
+  const days = itinerary.days as TripDay[] | null;
+  return days ? assignTripDays(stops, days.map(day => day.date), itinerary.timezone) : stops;
+}
+
+// Modes the plan was routed with, so legs recalculated after an edit keep to the user's choice
+function travelModesOf(itinerary: Itinerary): TravelMode[] {
+  return (itinerary.travelModes as TravelMode[] | null) ?? [];
+}
+
+/**
+ * Save an edited itinerary and send it back with any warnings
+ *
+ * @param extras Refinement details to store (sessionId) and return (diff)
+ */
+async function saveEdit(
+  res: Response,
+  id: number,
+  result: ItineraryEditResult,
+  extras: { sessionId?: string; diff?: PlanDiff } = {}
+) {
+  const updated = await storage.updateItinerary(id, {
+    places: result.stops,
+    travelTimes: result.travelTimes,
+    ...(extras.sessionId ? { sessionId: extras.sessionId } : {})
+  });
+
+  if (!updated) {
+    return res.status(404).json({
+      error: 'Not found',
+      message: 'Itinerary not found'
+    });
+  }
+
+  if (result.warnings.length > 0) {
+    console.warn(`Itinerary #${id} edit warnings:`, result.warnings.map(w => w.message));
+  }
+
+  return res.json({
+    ...updated,
+    created_at: updated.created?.toISOString() || new Date().toISOString(),
+    costEstimate: estimateItineraryCost(result.stops, getCityPack(updated.city)),
+    warnings: result.warnings,
+    ...(extras.diff ? { diff: extras.diff } : {})
+  });
+}
+
+function handleEditError(res: Response, error: unknown) {
+  if (error instanceof ItineraryEditError) {
+    return res.status(error.status).json({
+      error: error.status === 503 ? 'Service unavailable' : 'Invalid edit',
+      message: error.message
+    });
+  }
+
+  console.error('Error editing itinerary:', error);
+  return res.status(500).json({
+    error: 'Server error',
+    message: 'An error occurred while updating the itinerary'
+  });
+}
+
+/**
+ * Look up a venue and store it as a place, ready to be added as a stop
+ *
+ * @param search Free-text query or Google place_id
+ * @param time When the venue will be visited, used for opening hours
+ * @param city City the itinerary is in
+ */
+async function findStop(search: { query?: string; placeId?: string }, time: Date, city: CityPack): Promise<ItineraryStop> {
+  let venue: PlaceDetails;
+  let alternatives: PlaceDetails[] = [];
+
+  if (search.placeId) {
+    venue = await getPlaceById(search.placeId);
+  } else {
+    const result = await searchPlace(search.query!, {
+      scheduledTime: time,
+      visitDurationMinutes: DEFAULT_VISIT_MINUTES,
+      city
+    });
+    venue = result.primary;
+    alternatives = result.alternatives;
+  }
+
+  const place = await storage.createPlace({
+    placeId: venue.place_id,
+    name: venue.name,
+    address: venue.formatted_address,
+    location: venue.geometry.location,
+    details: venue,
+    alternatives,
+    scheduledTime: time.toISOString()
+  });
+
+  return { ...place, details: venue, alternatives };
+}
+
+/**
+ * Replace a stop's venue with one of its stored alternatives
+ *
+ * @returns The stops with the replaced one; the caller revalidates and saves them
+ */
+async function swapStopVenue(stops: ItineraryStop[], index: number, alternativeId: string): Promise<ItineraryStop[]> {
+  const stop = stops[index];
+  if (!stop) {
+    throw new ItineraryEditError(`Itinerary has no stop at index ${index}`, 404);
+  }
+
+  const { venue, alternatives } = prepareVenueSwap(stop, alternativeId);
+
+  const place = await storage.createPlace({
+    placeId: venue.place_id,
+    name: venue.name,
+    address: venue.formatted_address,
+    location: venue.geometry.location,
+    details: venue,
+    alternatives,
+    scheduledTime: stop.scheduledTime
+  });
+
+  const newStop: ItineraryStop = {
+    ...place,
+    details: venue,
+    alternatives,
+    scheduledTime: stop.scheduledTime,
+    isFixed: stop.isFixed,
+    day: stop.day
+  };
+  return stops.map((existing, i) => i === index ? newStop : existing);
+}
+
+function parseStopIndex(req: Request): number {
+  const index = parseInt(req.params.index);
+  if (isNaN(index)) {
+    throw new ItineraryEditError('Stop index must be a number');
+  }
+  return index;
+}
+
+/**
+ * Add a stop, found by free text or by Google place_id
+ * POST /api/itineraries/:id/places
+ */
+router.post('/:id/places', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const body = addStopSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: body.error.errors[0]?.message || 'Invalid stop'
+      });
+    }
+
+    const itinerary = await getEditableItinerary(req, res);
+    if (!itinerary) return;
+
+    const stops = itinerary.places as ItineraryStop[];
+
+    // On a multi-day trip the stop can be added to a given day rather than the first one
+    const tripDay = body.data.day !== undefined ? (itinerary.days as TripDay[] | null)?.[body.data.day] : undefined;
+    if (body.data.day !== undefined && !tripDay) {
+      throw new ItineraryEditError(`Itinerary has no day ${body.data.day}`, 400);
+    }
+    const dayStops = tripDay ? stops.filter(stop => stop.day === body.data.day) : stops;
+    const referenceDate = dayStops[0]?.scheduledTime
+      ? new Date(dayStops[0].scheduledTime)
+      : tripDay ? zonedTimeToDate(tripDay.date, '09:00', itinerary.timezone) : new Date();
+
+    // Without a time, the new stop goes after the last visit
+    let time: Date;
+    if (body.data.time) {
+      time = resolveStopTime(body.data.time, referenceDate, itinerary.timezone);
+    } else if (dayStops.length > 0) {
+      time = stopEndTime(dayStops[dayStops.length - 1]);
+    } else {
+      time = referenceDate;
+    }
+
+    const stop = await findStop(body.data, time, getCityPack(itinerary.city));
+    const inserted = insertStop(stops, {
+      ...stop,
+      scheduledTime: time.toISOString(),
+      isFixed: !!body.data.time
+    });
+
+    console.log(`Added ${stop.name} to itinerary #${itinerary.id} at position ${inserted.index}`);
+
+    const result = await revalidateItinerary(withTripDays(itinerary, inserted.stops), itinerary.travelTimes as TravelTimeEntry[], [inserted.index], itinerary.timezone, travelModesOf(itinerary));
+    return saveEdit(res, itinerary.id, result);
+  } catch (error) {
+    return handleEditError(res, error);
+  }
+});
+
+/**
+ * Refine the plan with a natural-language instruction, e.g. "make dinner later"
+ * POST /api/itineraries/:id/refine
+ */
+router.post('/:id/refine', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const body = refineSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'instruction is required'
+      });
+    }
+
+    const itinerary = await getEditableItinerary(req, res);
+    if (!itinerary) return;
+
+    // Continue the conversation that created the plan so every turn shares one session
+    const sessionId = itinerary.sessionId || generateSessionId();
+    const stops = itinerary.places as ItineraryStop[];
+
+    const city = getCityPack(itinerary.city);
+    const diff = await interpretRefinement(body.data.instruction, stops, sessionId, { itineraryId: itinerary.id }, city);
+    console.log(`Refining itinerary #${itinerary.id}: ${diff.summary}`, diff.operations);
+
+    const applied = await applyPlanDiff(stops, diff, (query, time) => findStop({ query }, time, city), itinerary.timezone);
+    const result = await revalidateItinerary(withTripDays(itinerary, applied.stops), itinerary.travelTimes as TravelTimeEntry[], applied.changedIndices, itinerary.timezone, travelModesOf(itinerary));
+    return saveEdit(res, itinerary.id, result, { sessionId, diff });
+  } catch (error) {
+    return handleEditError(res, error);
+  }
+});
+
+/**
+ * Put the stops in a new order
+ * PUT /api/itineraries/:id/places/order
+ */
+router.put('/:id/places/order', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const body = reorderStopsSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'order must be an array of stop indices'
+      });
+    }
+
+    const itinerary = await getEditableItinerary(req, res);
+    if (!itinerary) return;
+
+    const reordered = reorderStops(itinerary.places as ItineraryStop[], body.data.order);
+    const result = await revalidateItinerary(withTripDays(itinerary, reordered.stops), itinerary.travelTimes as TravelTimeEntry[], reordered.movedIndices, itinerary.timezone, travelModesOf(itinerary));
+    return saveEdit(res, itinerary.id, result);
+  } catch (error) {
+    return handleEditError(res, error);
+  }
+});
+
+/**
+ * Change the time of a stop
+ * PATCH /api/itineraries/:id/places/:index
+ */
+router.patch('/:id/places/:index', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const body = retimeStopSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'time is required'
+      });
+    }
+
+    const index = parseStopIndex(req);
+    const itinerary = await getEditableItinerary(req, res);
+    if (!itinerary) return;
+
+    const stops = itinerary.places as ItineraryStop[];
+    const referenceDate = stops[index]?.scheduledTime ? new Date(stops[index].scheduledTime!) : new Date();
+    const retimed = retimeStop(stops, index, resolveStopTime(body.data.time, referenceDate, itinerary.timezone));
+
+    const result = await revalidateItinerary(withTripDays(itinerary, retimed.stops), itinerary.travelTimes as TravelTimeEntry[], [retimed.index], itinerary.timezone, travelModesOf(itinerary));
+    return saveEdit(res, itinerary.id, result);
+  } catch (error) {
+    return handleEditError(res, error);
+  }
+});
+
+/**
+ * Remove a stop
+ * DELETE /api/itineraries/:id/places/:index
+ */
+router.delete('/:id/places/:index', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const index = parseStopIndex(req);
+    const itinerary = await getEditableItinerary(req, res);
+    if (!itinerary) return;
+
+    const stops = removeStop(itinerary.places as ItineraryStop[], index);
+    const result = await revalidateItinerary(stops, itinerary.travelTimes as TravelTimeEntry[], [], itinerary.timezone, travelModesOf(itinerary));
+    return saveEdit(res, itinerary.id, result);
+  } catch (error) {
+    return handleEditError(res, error);
+  }
+});
+
+/**
+ * Replace a stop with one of its stored alternatives
+ * POST /api/itineraries/:id/places/:index/swap
+ */
+router.post('/:id/places/:index/swap', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const body = swapVenueSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'alternativeId is required'
+      });
+    }
+
+    const index = parseStopIndex(req);
+    const itinerary = await getEditableItinerary(req, res);
+    if (!itinerary) return;
+
+    const stops = itinerary.places as ItineraryStop[];
+    if (stops[index]) {
+      checkUnlocked(stops[index]);
+    }
+    const newStops = await swapStopVenue(stops, index, body.data.alternativeId);
+
+    console.log(`Swapped stop ${index} of itinerary #${itinerary.id}: ${stops[index].name} -> ${newStops[index].name}`);
+
+    // The alternative may have different hours and a different walk to its neighbours
+    const result = await revalidateItinerary(newStops, itinerary.travelTimes as TravelTimeEntry[], [index], itinerary.timezone, travelModesOf(itinerary));
+    return saveEdit(res, itinerary.id, result);
+  } catch (error) {
+    return handleEditError(res, error);
+  }
+});
+
+/**
+ * Create an invite link that adds whoever opens it as an editor or viewer
+ * POST /api/itineraries/:id/share
+ */
+router.post('/:id/share', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const body = shareSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'role must be editor or viewer'
+      });
+    }
+
+    const access = await getItineraryForRole(req, res, 'owner');
+    if (!access) return;
+
+    const { token, expiresAt } = createShareToken(access.itinerary.id, body.data.role);
+    console.log(`Created ${body.data.role} invite for itinerary #${access.itinerary.id}`);
+
+    return res.json({
+      url: `${req.protocol}://${req.get('host')}/join/${token}`,
+      token,
+      role: body.data.role,
+      expiresAt: expiresAt.toISOString()
+    });
+  } catch (error) {
+    console.error('Error creating share link:', error);
+    return res.status(500).json({
+      error: 'Server error',
+      message: 'An error occurred while creating the share link'
+    });
+  }
+});
+
+/**
+ * Make an itinerary public (anyone with the link can read it) or private (collaborators only)
+ * PATCH /api/itineraries/:id/visibility
+ */
+router.patch('/:id/visibility', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const body = visibilitySchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'isPublic must be true or false'
+      });
+    }
+
+    const access = await getItineraryForRole(req, res, 'owner');
+    if (!access) return;
+
+    const updated = await storage.updateItinerary(access.itinerary.id, { isPublic: body.data.isPublic });
+    if (!updated) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'Itinerary not found'
+      });
+    }
+
+    console.log(`Itinerary #${updated.id} is now ${updated.isPublic ? 'public' : 'private'}`);
+    return res.json({ isPublic: updated.isPublic });
+  } catch (error) {
+    console.error('Error changing itinerary visibility:', error);
+    return res.status(500).json({
+      error: 'Server error',
+      message: 'An error occurred while changing the itinerary visibility'
+    });
+  }
+});
+
+/**
+ * Join an itinerary through an invite link
+ * POST /api/itineraries/join
+ */
+router.post('/join', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = req.session.userId;
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'You must be logged in to join an itinerary'
+      });
+    }
+
+    const body = joinSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'token is required'
+      });
+    }
+
+    const invite = verifyShareToken(body.data.token);
+    const itinerary = await storage.getItinerary(invite.itineraryId);
+    if (!itinerary) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'Itinerary not found'
+      });
+    }
+
+    // Following a link never lowers a role, e.g. an editor opening a viewer link
+    const current = await storage.getItineraryRole(itinerary.id, userId);
+    const role = current && hasItineraryRole(current, invite.role)
+      ? current
+      : (await storage.addCollaborator(itinerary.id, userId, invite.role)).role;
+
+    console.log(`User ${userId} joined itinerary #${itinerary.id} as ${role}`);
+    return res.json({ itineraryId: itinerary.id, role });
+  } catch (error) {
+    if (error instanceof ShareLinkError) {
+      return res.status(error.status).json({
+        error: 'Invalid invite',
+        message: error.message
+      });
+    }
+
+    console.error('Error joining itinerary:', error);
+    return res.status(500).json({
+      error: 'Server error',
+      message: 'An error occurred while joining the itinerary'
+    });
+  }
+});
+
+/**
+ * List the people an itinerary is shared with, owner first
+ * GET /api/itineraries/:id/collaborators
+ */
+router.get('/:id/collaborators', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const access = await getItineraryForRole(req, res, 'viewer');
+    if (!access) return;
+
+    const collaborators = await storage.getCollaborators(access.itinerary.id);
+    const people = await Promise.all(collaborators.map(async collaborator => {
+      const user = await storage.getUserById(collaborator.userId);
+      return {
+        userId: collaborator.userId,
+        name: user?.name || null,
+        email: user?.email || null,
+        role: collaborator.role
+      };
+    }));
+
+    return res.json(people.sort((a, b) => (a.role === 'owner' ? 0 : 1) - (b.role === 'owner' ? 0 : 1)));
+  } catch (error) {
+    console.error('Error fetching collaborators:', error);
+    return res.status(500).json({
+      error: 'Server error',
+      message: 'An error occurred while fetching collaborators'
+    });
+  }
+});
+
+/**
+ * Remove someone from a shared itinerary; collaborators can also remove themselves
+ * DELETE /api/itineraries/:id/collaborators/:userId
+ */
+router.delete('/:id/collaborators/:userId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const leaving = req.params.userId === req.session.userId;
+    const access = await getItineraryForRole(req, res, leaving ? 'viewer' : 'owner');
+    if (!access) return;
+
+    const role = await storage.getItineraryRole(access.itinerary.id, req.params.userId);
+    if (role === 'owner') {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'The owner cannot be removed from their itinerary'
+      });
+    }
+
+    if (!role || !(await storage.removeCollaborator(access.itinerary.id, req.params.userId))) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'That person is not on this itinerary'
+      });
+    }
+
+    console.log(`Removed user ${req.params.userId} from itinerary #${access.itinerary.id}`);
+    return res.status(204).end();
+  } catch (error) {
+    console.error('Error removing collaborator:', error);
+    return res.status(500).json({
+      error: 'Server error',
+      message: 'An error occurred while removing the collaborator'
+    });
+  }
+});
+
+/**
+ * Vote for a stop's venue or one of its alternatives; voting again changes the vote
+ * PUT /api/itineraries/:id/places/:index/vote
+ */
+router.put('/:id/places/:index/vote', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const body = voteSchema.safeParse(req.body);
+    if (!body.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'placeId is required'
+      });
+    }
+
+    const index = parseStopIndex(req);
+    const access = await getItineraryForRole(req, res, 'viewer');
+    if (!access) return;
+
+    const stops = access.itinerary.places as ItineraryStop[];
+    const stop = stops[index];
+    if (!stop) {
+      throw new ItineraryEditError(`Itinerary has no stop at index ${index}`, 404);
+    }
+    if (stop.locked) {
+      throw new ItineraryEditError(`Voting on ${stop.name} is closed`, 409);
+    }
+    if (!votableVenueIds(stop).includes(body.data.placeId)) {
+      throw new ItineraryEditError(`${body.data.placeId} is not an option for ${stop.name}`);
+    }
+
+    await storage.setStopVote({
+      itineraryId: access.itinerary.id,
+      userId: access.userId,
+      stopPlaceId: stop.placeId,
+      placeId: body.data.placeId
+    });
+
+    const votes = summarizeStopVotes(stops, await storage.getStopVotes(access.itinerary.id), access.userId);
+    return res.json({ votes });
+  } catch (error) {
+    return handleEditError(res, error);
+  }
+});
+
+/**
+ * Settle a stop's venue, by default the one with the most votes, and close voting on it
+ * POST /api/itineraries/:id/places/:index/lock
+ */
+router.post('/:id/places/:index/lock', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const body = lockStopSchema.safeParse(req.body || {});
+    if (!body.success) {
+      return res.status(400).json({
+        error: 'Invalid request',
+        message: 'placeId must be a string'
+      });
+    }
+
+    const index = parseStopIndex(req);
+    const access = await getItineraryForRole(req, res, 'owner');
+    if (!access) return;
+    const { itinerary } = access;
+
+    const stops = itinerary.places as ItineraryStop[];
+    const stop = stops[index];
+    if (!stop) {
+      throw new ItineraryEditError(`Itinerary has no stop at index ${index}`, 404);
+    }
+
+    const summary = summarizeStopVotes(stops, await storage.getStopVotes(itinerary.id))[index];
+    const placeId = body.data.placeId || summary.leader || stop.placeId;
+    if (!votableVenueIds(stop).includes(placeId)) {
+      throw new ItineraryEditError(`${placeId} is not an option for ${stop.name}`);
+    }
+
+    const swapped = placeId !== stop.placeId;
+    const newStops = (swapped ? await swapStopVenue(stops, index, placeId) : stops)
+      .map((existing, i) => i === index ? { ...existing, locked: true } : existing);
+    await storage.clearStopVotes(itinerary.id, stop.placeId);
+
+    console.log(`Locked stop ${index} of itinerary #${itinerary.id} to ${newStops[index].name}`);
+
+    const result = await revalidateItinerary(newStops, itinerary.travelTimes as TravelTimeEntry[], swapped ? [index] : [], itinerary.timezone, travelModesOf(itinerary));
+    return saveEdit(res, itinerary.id, result);
+  } catch (error) {
+    return handleEditError(res, error);
+  }
+});
+
 export default router;
\ No newline at end of file
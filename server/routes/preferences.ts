@@ -0,0 +1,71 @@
+import { Router, Request, Response } from 'express';
+import { storage } from '../storage';
+import { requireAuth } from '../middleware/requireAuth';
+import { preferenceProfileSchema } from '@shared/schema';
+
+const router = Router();
+
+/**
+ * Get the current user's saved preferences
+ * GET /api/preferences
+ *
+ * Users who haven't saved any get an empty profile
+ */
+router.get('/', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = req.session.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'You must be logged in to see your preferences'
+      });
+    }
+
+    const preferences = await storage.getUserPreferences(userId);
+    return res.json(preferences || preferenceProfileSchema.parse({}));
+  } catch (error) {
+    console.error('Error fetching preferences:', error);
+    return res.status(500).json({
+      error: 'Server error',
+      message: 'An error occurred while fetching preferences'
+    });
+  }
+});
+
+/**
+ * Replace the current user's saved preferences
+ * PUT /api/preferences
+ */
+router.put('/', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = req.session.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'You must be logged in to save preferences'
+      });
+    }
+
+    const validation = preferenceProfileSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        details: validation.error.format()
+      });
+    }
+
+    const preferences = await storage.saveUserPreferences(userId, validation.data);
+    return res.json(preferences);
+  } catch (error) {
+    console.error('Error saving preferences:', error);
+    return res.status(500).json({
+      error: 'Server error',
+      message: 'An error occurred while saving preferences'
+    });
+  }
+});
+
+export default router;
@@ -6,23 +6,103 @@ import {
   type User, 
   type UserItinerary, 
   type InsertLocalUser,
-  type InsertGoogleUser
+  type InsertGoogleUser,
+  type ItineraryRole,
+  type StopVote,
+  type InsertStopVote,
+  type AuthToken,
+  type InsertAuthToken,
+  type AuthTokenPurpose,
+  type AuthThrottle,
+  type AuthAuditEntry,
+  type InsertAuthAuditEntry,
+  type PreferenceProfile,
+  type UserRole
 } from "@shared/schema";
 import { db } from './db';
-import { users, itineraries, places, userItineraries } from '@shared/schema';
-import { eq, desc, or } from 'drizzle-orm';
+import { users, itineraries, places, userItineraries, stopVotes, authTokens, authThrottles, authAuditLog, userPreferences } from '@shared/schema';
+import { eq, desc, or, and, asc, gt, isNull, count, sql, type SQL } from 'drizzle-orm';
+import { getThrottlePolicy, getRetryAfterSeconds, recordThrottleFailure, throttleDelaySeconds } from './lib/loginThrottle';
+
+// Collaborators and votes kept in memory, by MemStorage and by the development fallback
+interface InMemorySharing {
+  userItineraries: Map<string, number[]>;
+  collaborators: UserItinerary[];
+  stopVotes: StopVote[];
+  nextCollaboratorId: number;
+  nextVoteId: number;
+}
 
 // Configure in-memory fallback for development
 const USE_IN_MEMORY_FALLBACK = process.env.NODE_ENV === 'development';
-const inMemoryStorage = {
+const inMemoryStorage: InMemorySharing & {
+  places: Map<string, Place>;
+  itineraries: Map<number, Itinerary>;
+  users: Map<string, User>;
+  nextPlaceId: number;
+  nextItineraryId: number;
+} = {
   places: new Map<string, Place>(),
   itineraries: new Map<number, Itinerary>(),
   users: new Map<string, User>(),
   userItineraries: new Map<string, number[]>(),
+  collaborators: [],
+  stopVotes: [],
   nextPlaceId: 1,
-  nextItineraryId: 1
+  nextItineraryId: 1,
+  nextCollaboratorId: 1,
+  nextVoteId: 1
 };
 
+function findCollaboratorInMemory(store: InMemorySharing, itineraryId: number, userId: string): UserItinerary | undefined {
+  return store.collaborators.find(c => c.itineraryId === itineraryId && c.userId === userId);
+}
+
+function addCollaboratorInMemory(store: InMemorySharing, itineraryId: number, userId: string, role: ItineraryRole): UserItinerary {
+  const existing = findCollaboratorInMemory(store, itineraryId, userId);
+  if (existing) {
+    existing.role = role;
+    return existing;
+  }
+
+  const collaborator: UserItinerary = {
+    id: store.nextCollaboratorId++,
+    userId,
+    itineraryId,
+    createdAt: new Date(),
+    role
+  };
+  store.collaborators.push(collaborator);
+  // Shared itineraries show up in the user's list alongside their own
+  store.userItineraries.set(userId, [...(store.userItineraries.get(userId) || []), itineraryId]);
+  return collaborator;
+}
+
+function removeCollaboratorInMemory(store: InMemorySharing, itineraryId: number, userId: string): boolean {
+  const existing = findCollaboratorInMemory(store, itineraryId, userId);
+  if (!existing) {
+    return false;
+  }
+
+  store.collaborators = store.collaborators.filter(c => c !== existing);
+  store.userItineraries.set(userId, (store.userItineraries.get(userId) || []).filter(id => id !== itineraryId));
+  return true;
+}
+
+function setStopVoteInMemory(store: InMemorySharing, vote: InsertStopVote): StopVote {
+  const existing = store.stopVotes.find(v =>
+    v.itineraryId === vote.itineraryId && v.userId === vote.userId && v.stopPlaceId === vote.stopPlaceId);
+  if (existing) {
+    existing.placeId = vote.placeId;
+    existing.createdAt = new Date();
+    return existing;
+  }
+
+  const saved: StopVote = { ...vote, id: store.nextVoteId++, createdAt: new Date() };
+  store.stopVotes.push(saved);
+  return saved;
+}
+
 export interface IStorage {
   // Place operations
   getPlace(placeId: string): Promise<Place | undefined>;
@@ -33,6 +113,18 @@ export interface IStorage {
   createItinerary(itinerary: InsertItinerary, userId?: string): Promise<Itinerary>;
   getItinerary(id: number): Promise<Itinerary | undefined>;
   getUserItineraries(userId: string): Promise<Itinerary[]>;
+  updateItinerary(id: number, update: Partial<InsertItinerary>): Promise<Itinerary | undefined>;
+  
+  // Sharing operations
+  getItineraryRole(itineraryId: number, userId: string): Promise<ItineraryRole | undefined>;
+  getCollaborators(itineraryId: number): Promise<UserItinerary[]>;
+  addCollaborator(itineraryId: number, userId: string, role: ItineraryRole): Promise<UserItinerary>;
+  removeCollaborator(itineraryId: number, userId: string): Promise<boolean>;
+  
+  // Voting operations
+  getStopVotes(itineraryId: number): Promise<StopVote[]>;
+  setStopVote(vote: InsertStopVote): Promise<StopVote>;
+  clearStopVotes(itineraryId: number, stopPlaceId: string): Promise<void>;
   
   // User operations
   getUserById(id: string): Promise<User | undefined>;
@@ -40,6 +132,41 @@ export interface IStorage {
   getUserByGoogleId(googleId: string): Promise<User | undefined>;
   createLocalUser(userData: InsertLocalUser, passwordHash: string): Promise<User>;
   createGoogleUser(userData: InsertGoogleUser): Promise<User>;
+  updateUserPassword(userId: string, passwordHash: string): Promise<User | undefined>;
+  // Links a Google account to a user, or unlinks it with null
+  updateUserGoogleId(userId: string, googleId: string | null): Promise<User | undefined>;
+  markEmailVerified(userId: string): Promise<User | undefined>;
+  updateUserRole(userId: string, role: UserRole): Promise<User | undefined>;
+  
+  // Saved preference profile, applied to every plan the user makes
+  getUserPreferences(userId: string): Promise<PreferenceProfile | undefined>;
+  saveUserPreferences(userId: string, preferences: PreferenceProfile): Promise<PreferenceProfile>;
+  
+  // Password reset and email verification links
+  saveAuthToken(token: InsertAuthToken): Promise<AuthToken>;
+  // Marks a token as used and returns it, unless it is unknown, expired or already used
+  consumeAuthToken(tokenHash: string, purpose: AuthTokenPurpose, now?: Date): Promise<AuthToken | undefined>;
+  // Marks all of a user's unused tokens for a purpose as used, so older links stop working
+  revokeAuthTokens(userId: string, purpose: AuthTokenPurpose): Promise<void>;
+  
+  // Sign-in throttling and its audit log
+  getAuthThrottle(key: string): Promise<AuthThrottle | undefined>;
+  // Counts an attempt against a key in one atomic step and returns the new counter,
+  // or undefined (counting nothing) while the key is blocked
+  claimAuthThrottle(key: string, now?: Date): Promise<AuthThrottle | undefined>;
+  // Takes back a claimed attempt that turned out to succeed
+  releaseAuthThrottle(key: string): Promise<void>;
+  clearAuthThrottle(key: string): Promise<boolean>;
+  addAuthAuditEntry(entry: InsertAuthAuditEntry): Promise<AuthAuditEntry>;
+  // Most recent first, optionally only for one email or IP
+  getAuthAuditLog(filter: AuthAuditFilter): Promise<{ entries: AuthAuditEntry[]; totalCount: number }>;
+}
+
+export interface AuthAuditFilter {
+  email?: string;
+  ip?: string;
+  limit: number;
+  offset: number;
 }
 
 // Database-backed storage implementation
@@ -154,7 +281,13 @@ export class DbStorage implements IStorage {
       query: itineraries.query,
       places: itineraries.places,
       travelTimes: itineraries.travelTimes,
-      created: itineraries.created
+      created: itineraries.created,
+      sessionId: itineraries.sessionId,
+      city: itineraries.city,
+      timezone: itineraries.timezone,
+      days: itineraries.days,
+      travelModes: itineraries.travelModes,
+      isPublic: itineraries.isPublic
     })
       .from(itineraries)
       .where(
@@ -164,6 +297,81 @@ export class DbStorage implements IStorage {
       .orderBy(desc(itineraries.created)); // Sort newest first
   }
 
+  async updateItinerary(id: number, update: Partial<InsertItinerary>): Promise<Itinerary | undefined> {
+    const results = await db.update(itineraries)
+      .set(update)
+      .where(eq(itineraries.id, id))
+      .returning();
+    
+    return results.length > 0 ? results[0] : undefined;
+  }
+
+  async getItineraryRole(itineraryId: number, userId: string): Promise<ItineraryRole | undefined> {
+    const results = await db.select({ role: userItineraries.role })
+      .from(userItineraries)
+      .where(and(eq(userItineraries.itineraryId, itineraryId), eq(userItineraries.userId, userId)))
+      .limit(1);
+    
+    return results.length > 0 ? results[0].role as ItineraryRole : undefined;
+  }
+
+  async getCollaborators(itineraryId: number): Promise<UserItinerary[]> {
+    return await db.select()
+      .from(userItineraries)
+      .where(eq(userItineraries.itineraryId, itineraryId))
+      .orderBy(asc(userItineraries.createdAt));
+  }
+
+  async addCollaborator(itineraryId: number, userId: string, role: ItineraryRole): Promise<UserItinerary> {
+    // Someone already on the itinerary just gets the new role
+    const updated = await db.update(userItineraries)
+      .set({ role })
+      .where(and(eq(userItineraries.itineraryId, itineraryId), eq(userItineraries.userId, userId)))
+      .returning();
+    
+    if (updated.length > 0) {
+      return updated[0];
+    }
+    
+    const [collaborator] = await db.insert(userItineraries)
+      .values({ userId, itineraryId, role })
+      .returning();
+    
+    return collaborator;
+  }
+
+  async removeCollaborator(itineraryId: number, userId: string): Promise<boolean> {
+    const results = await db.delete(userItineraries)
+      .where(and(eq(userItineraries.itineraryId, itineraryId), eq(userItineraries.userId, userId)))
+      .returning();
+    
+    return results.length > 0;
+  }
+
+  async getStopVotes(itineraryId: number): Promise<StopVote[]> {
+    return await db.select()
+      .from(stopVotes)
+      .where(eq(stopVotes.itineraryId, itineraryId));
+  }
+
+  async setStopVote(vote: InsertStopVote): Promise<StopVote> {
+    // Voting again on the same stop replaces the earlier vote
+    const [saved] = await db.insert(stopVotes)
+      .values(vote)
+      .onConflictDoUpdate({
+        target: [stopVotes.itineraryId, stopVotes.userId, stopVotes.stopPlaceId],
+        set: { placeId: vote.placeId, createdAt: new Date() }
+      })
+      .returning();
+    
+    return saved;
+  }
+
+  async clearStopVotes(itineraryId: number, stopPlaceId: string): Promise<void> {
+    await db.delete(stopVotes)
+      .where(and(eq(stopVotes.itineraryId, itineraryId), eq(stopVotes.stopPlaceId, stopPlaceId)));
+  }
+
   async getUserById(id: string): Promise<User | undefined> {
     const results = await db.select()
       .from(users)
@@ -213,6 +421,170 @@ export class DbStorage implements IStorage {
     
     return user;
   }
+
+  async updateUserPassword(userId: string, passwordHash: string): Promise<User | undefined> {
+    const [user] = await db.update(users)
+      .set({ password_hash: passwordHash })
+      .where(eq(users.id, userId))
+      .returning();
+    
+    return user;
+  }
+
+  async updateUserGoogleId(userId: string, googleId: string | null): Promise<User | undefined> {
+    const [user] = await db.update(users)
+      .set({ google_id: googleId })
+      .where(eq(users.id, userId))
+      .returning();
+    
+    return user;
+  }
+
+  async markEmailVerified(userId: string): Promise<User | undefined> {
+    const [user] = await db.update(users)
+      .set({ email_verified: true })
+      .where(eq(users.id, userId))
+      .returning();
+    
+    return user;
+  }
+
+  async updateUserRole(userId: string, role: UserRole): Promise<User | undefined> {
+    const [user] = await db.update(users)
+      .set({ role })
+      .where(eq(users.id, userId))
+      .returning();
+    
+    return user;
+  }
+
+  async getUserPreferences(userId: string): Promise<PreferenceProfile | undefined> {
+    const [row] = await db.select()
+      .from(userPreferences)
+      .where(eq(userPreferences.userId, userId));
+    
+    return row?.preferences;
+  }
+
+  async saveUserPreferences(userId: string, preferences: PreferenceProfile): Promise<PreferenceProfile> {
+    const [row] = await db.insert(userPreferences)
+      .values({ userId, preferences })
+      .onConflictDoUpdate({
+        target: userPreferences.userId,
+        set: { preferences, updatedAt: new Date() }
+      })
+      .returning();
+    
+    return row.preferences;
+  }
+
+  async saveAuthToken(token: InsertAuthToken): Promise<AuthToken> {
+    const [saved] = await db.insert(authTokens)
+      .values(token)
+      .returning();
+    
+    return saved;
+  }
+
+  async consumeAuthToken(tokenHash: string, purpose: AuthTokenPurpose, now: Date = new Date()): Promise<AuthToken | undefined> {
+    // One conditional update, so two requests racing with the same link can't both use it
+    const [token] = await db.update(authTokens)
+      .set({ usedAt: now })
+      .where(and(
+        eq(authTokens.tokenHash, tokenHash),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt),
+        gt(authTokens.expiresAt, now)
+      ))
+      .returning();
+    
+    return token;
+  }
+
+  async revokeAuthTokens(userId: string, purpose: AuthTokenPurpose): Promise<void> {
+    await db.update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(authTokens.userId, userId),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt)
+      ));
+  }
+
+  async getAuthThrottle(key: string): Promise<AuthThrottle | undefined> {
+    const [throttle] = await db.select()
+      .from(authThrottles)
+      .where(eq(authThrottles.key, key));
+    
+    return throttle;
+  }
+
+  async claimAuthThrottle(key: string, now: Date = new Date()): Promise<AuthThrottle | undefined> {
+    // The same counting as recordThrottleFailure, done by Postgres so concurrent claims can't overwrite each other
+    const policy = getThrottlePolicy(key);
+    const at = sql`${now.toISOString()}::timestamp`;
+    const resetCutoff = new Date(now.getTime() - policy.resetAfterMinutes * 60 * 1000);
+    const failures = sql`CASE WHEN ${authThrottles.lastFailureAt} < ${resetCutoff.toISOString()}::timestamp THEN 1 ELSE ${authThrottles.failures} + 1 END`;
+    const delays = Array.from({ length: policy.lockoutAfter }, (_, i) => throttleDelaySeconds(policy, i + 1));
+    const delay = sql`(${sql.raw(`ARRAY[${delays.join(', ')}]`)})[LEAST(${failures}, ${policy.lockoutAfter})]`;
+
+    const [claimed] = await db.insert(authThrottles)
+      .values(recordThrottleFailure(undefined, key, now))
+      .onConflictDoUpdate({
+        target: authThrottles.key,
+        set: {
+          failures,
+          lastFailureAt: now,
+          blockedUntil: sql`CASE WHEN ${delay} > 0 THEN ${at} + ${delay} * interval '1 second' END`
+        },
+        setWhere: sql`${authThrottles.blockedUntil} IS NULL OR ${authThrottles.blockedUntil} <= ${at}`
+      })
+      .returning();
+    
+    return claimed;
+  }
+
+  async releaseAuthThrottle(key: string): Promise<void> {
+    await db.update(authThrottles)
+      .set({ failures: sql`GREATEST(${authThrottles.failures} - 1, 0)` })
+      .where(eq(authThrottles.key, key));
+  }
+
+  async clearAuthThrottle(key: string): Promise<boolean> {
+    const deleted = await db.delete(authThrottles)
+      .where(eq(authThrottles.key, key))
+      .returning();
+    
+    return deleted.length > 0;
+  }
+
+  async addAuthAuditEntry(entry: InsertAuthAuditEntry): Promise<AuthAuditEntry> {
+    const [saved] = await db.insert(authAuditLog)
+      .values(entry)
+      .returning();
+    
+    return saved;
+  }
+
+  async getAuthAuditLog(filter: AuthAuditFilter): Promise<{ entries: AuthAuditEntry[]; totalCount: number }> {
+    const conditions: SQL[] = [];
+    if (filter.email) conditions.push(eq(authAuditLog.email, filter.email.toLowerCase()));
+    if (filter.ip) conditions.push(eq(authAuditLog.ip, filter.ip));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ value: totalCount }] = await db.select({ value: count() })
+      .from(authAuditLog)
+      .where(where);
+    
+    const entries = await db.select()
+      .from(authAuditLog)
+      .where(where)
+      .orderBy(desc(authAuditLog.createdAt), desc(authAuditLog.id))
+      .limit(filter.limit)
+      .offset(filter.offset);
+    
+    return { entries, totalCount };
+  }
 }
 
 // Memory-based storage implementation for compatibility
@@ -221,16 +593,36 @@ export class MemStorage implements IStorage {
   private itineraries: Map<number, Itinerary>;
   private users: Map<string, User>;
   private userItineraryMap: Map<string, number[]>;
+  private sharing: InMemorySharing;
+  private authTokens: AuthToken[];
+  private authThrottles: Map<string, AuthThrottle>;
+  private authAuditLog: AuthAuditEntry[];
+  private preferences: Map<string, PreferenceProfile>;
   private currentPlaceId: number;
   private currentItineraryId: number;
+  private currentAuthTokenId: number;
+  private currentAuthAuditId: number;
 
   constructor() {
     this.places = new Map();
     this.itineraries = new Map();
     this.users = new Map();
     this.userItineraryMap = new Map();
+    this.sharing = {
+      userItineraries: this.userItineraryMap,
+      collaborators: [],
+      stopVotes: [],
+      nextCollaboratorId: 1,
+      nextVoteId: 1
+    };
+    this.authTokens = [];
+    this.authThrottles = new Map();
+    this.authAuditLog = [];
+    this.preferences = new Map();
     this.currentPlaceId = 1;
     this.currentItineraryId = 1;
+    this.currentAuthTokenId = 1;
+    this.currentAuthAuditId = 1;
   }
 
   async getPlace(placeId: string): Promise<Place | undefined> {
@@ -260,16 +652,20 @@ export class MemStorage implements IStorage {
       ...insertItinerary,
       id,
       created: new Date(),
+      sessionId: insertItinerary.sessionId ?? null,
+      city: insertItinerary.city ?? "boston",
+      timezone: insertItinerary.timezone ?? "America/New_York",
+      days: insertItinerary.days ?? null,
+      travelModes: insertItinerary.travelModes ?? null,
+      isPublic: insertItinerary.isPublic ?? false,
     };
     this.itineraries.set(id, itinerary);
     
     // If userId provided, associate with user
     if (userId) {
       console.log(`MemStorage: Associating itinerary #${id} with user ${userId}`);
-      const userItineraries = this.userItineraryMap.get(userId) || [];
-      userItineraries.push(id);
-      this.userItineraryMap.set(userId, userItineraries);
-      console.log(`MemStorage: User ${userId} now has ${userItineraries.length} itineraries`);
+      addCollaboratorInMemory(this.sharing, id, userId, 'owner');
+      console.log(`MemStorage: User ${userId} now has ${this.userItineraryMap.get(userId)?.length} itineraries`);
     } else {
       console.log(`MemStorage: Created anonymous itinerary #${id} (no user association)`);
     }
@@ -298,6 +694,45 @@ export class MemStorage implements IStorage {
     console.log(`MemStorage: Returning ${userItineraries.length} itineraries for user ${userId}`);
     return userItineraries;
   }
+
+  async updateItinerary(id: number, update: Partial<InsertItinerary>): Promise<Itinerary | undefined> {
+    const itinerary = this.itineraries.get(id);
+    if (!itinerary) {
+      return undefined;
+    }
+    
+    const updated: Itinerary = { ...itinerary, ...update };
+    this.itineraries.set(id, updated);
+    return updated;
+  }
+  
+  async getItineraryRole(itineraryId: number, userId: string): Promise<ItineraryRole | undefined> {
+    return findCollaboratorInMemory(this.sharing, itineraryId, userId)?.role as ItineraryRole | undefined;
+  }
+  
+  async getCollaborators(itineraryId: number): Promise<UserItinerary[]> {
+    return this.sharing.collaborators.filter(c => c.itineraryId === itineraryId);
+  }
+  
+  async addCollaborator(itineraryId: number, userId: string, role: ItineraryRole): Promise<UserItinerary> {
+    return addCollaboratorInMemory(this.sharing, itineraryId, userId, role);
+  }
+  
+  async removeCollaborator(itineraryId: number, userId: string): Promise<boolean> {
+    return removeCollaboratorInMemory(this.sharing, itineraryId, userId);
+  }
+  
+  async getStopVotes(itineraryId: number): Promise<StopVote[]> {
+    return this.sharing.stopVotes.filter(v => v.itineraryId === itineraryId);
+  }
+  
+  async setStopVote(vote: InsertStopVote): Promise<StopVote> {
+    return setStopVoteInMemory(this.sharing, vote);
+  }
+  
+  async clearStopVotes(itineraryId: number, stopPlaceId: string): Promise<void> {
+    this.sharing.stopVotes = this.sharing.stopVotes.filter(v => !(v.itineraryId === itineraryId && v.stopPlaceId === stopPlaceId));
+  }
   
   async getUserById(id: string): Promise<User | undefined> {
     return this.users.get(id);
@@ -339,7 +774,9 @@ export class MemStorage implements IStorage {
       created_at: new Date(),
       auth_provider: 'local',
       google_id: null,
-      avatar_url: null
+      avatar_url: null,
+      role: 'user',
+      email_verified: false
     };
     this.users.set(id, user);
     return user;
@@ -360,11 +797,125 @@ export class MemStorage implements IStorage {
       created_at: new Date(),
       auth_provider: 'google',
       google_id: googleId,
-      avatar_url: avatarUrl
+      avatar_url: avatarUrl,
+      role: 'user',
+      email_verified: userData.email_verified ?? false
     };
     this.users.set(id, user);
     return user;
   }
+
+  async updateUserPassword(userId: string, passwordHash: string): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (user) {
+      user.password_hash = passwordHash;
+    }
+    return user;
+  }
+
+  async updateUserGoogleId(userId: string, googleId: string | null): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (user) {
+      user.google_id = googleId;
+    }
+    return user;
+  }
+
+  async markEmailVerified(userId: string): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (user) {
+      user.email_verified = true;
+    }
+    return user;
+  }
+
+  async updateUserRole(userId: string, role: UserRole): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (user) {
+      user.role = role;
+    }
+    return user;
+  }
+
+  async getUserPreferences(userId: string): Promise<PreferenceProfile | undefined> {
+    return this.preferences.get(userId);
+  }
+
+  async saveUserPreferences(userId: string, preferences: PreferenceProfile): Promise<PreferenceProfile> {
+    this.preferences.set(userId, preferences);
+    return preferences;
+  }
+
+  async saveAuthToken(token: InsertAuthToken): Promise<AuthToken> {
+    const saved: AuthToken = { ...token, id: this.currentAuthTokenId++, usedAt: null, createdAt: new Date() };
+    this.authTokens.push(saved);
+    return saved;
+  }
+
+  async consumeAuthToken(tokenHash: string, purpose: AuthTokenPurpose, now: Date = new Date()): Promise<AuthToken | undefined> {
+    const token = this.authTokens.find(t =>
+      t.tokenHash === tokenHash && t.purpose === purpose && !t.usedAt && t.expiresAt > now);
+    if (token) {
+      token.usedAt = now;
+    }
+    return token;
+  }
+
+  async revokeAuthTokens(userId: string, purpose: AuthTokenPurpose): Promise<void> {
+    this.authTokens
+      .filter(t => t.userId === userId && t.purpose === purpose && !t.usedAt)
+      .forEach(t => { t.usedAt = new Date(); });
+  }
+
+  async getAuthThrottle(key: string): Promise<AuthThrottle | undefined> {
+    return this.authThrottles.get(key);
+  }
+
+  async claimAuthThrottle(key: string, now: Date = new Date()): Promise<AuthThrottle | undefined> {
+    const throttle = this.authThrottles.get(key);
+    if (getRetryAfterSeconds(throttle, now) > 0) {
+      return undefined;
+    }
+    const claimed = recordThrottleFailure(throttle, key, now);
+    this.authThrottles.set(key, claimed);
+    return claimed;
+  }
+
+  async releaseAuthThrottle(key: string): Promise<void> {
+    const throttle = this.authThrottles.get(key);
+    if (throttle) {
+      this.authThrottles.set(key, { ...throttle, failures: Math.max(throttle.failures - 1, 0) });
+    }
+  }
+
+  async clearAuthThrottle(key: string): Promise<boolean> {
+    return this.authThrottles.delete(key);
+  }
+
+  async addAuthAuditEntry(entry: InsertAuthAuditEntry): Promise<AuthAuditEntry> {
+    const saved: AuthAuditEntry = {
+      id: this.currentAuthAuditId++,
+      event: entry.event,
+      email: entry.email ?? null,
+      userId: entry.userId ?? null,
+      ip: entry.ip,
+      reason: entry.reason ?? null,
+      createdAt: new Date()
+    };
+    this.authAuditLog.push(saved);
+    return saved;
+  }
+
+  async getAuthAuditLog(filter: AuthAuditFilter): Promise<{ entries: AuthAuditEntry[]; totalCount: number }> {
+    const matching = this.authAuditLog
+      .filter(e => !filter.email || e.email === filter.email.toLowerCase())
+      .filter(e => !filter.ip || e.ip === filter.ip)
+      .reverse();
+    return {
+      entries: matching.slice(filter.offset, filter.offset + filter.limit),
+      totalCount: matching.length
+    };
+  }
 }
 
 // Add debug logging to the DbStorage implementation
@@ -477,15 +1028,19 @@ export class DbStorageWithLogging extends DbStorage {
         const itinerary: Itinerary = {
           ...insertItinerary,
           id,
-          created: new Date()
+          created: new Date(),
+          sessionId: insertItinerary.sessionId ?? null,
+          city: insertItinerary.city ?? "boston",
+          timezone: insertItinerary.timezone ?? "America/New_York",
+          days: insertItinerary.days ?? null,
+          travelModes: insertItinerary.travelModes ?? null,
+          isPublic: insertItinerary.isPublic ?? false
         };
         inMemoryStorage.itineraries.set(id, itinerary);
         
         // If userId provided, associate with user
         if (userId) {
-          const userItineraries = inMemoryStorage.userItineraries.get(userId) || [];
-          userItineraries.push(id);
-          inMemoryStorage.userItineraries.set(userId, userItineraries);
+          addCollaboratorInMemory(inMemoryStorage, id, userId, 'owner');
         }
         
         return itinerary;
@@ -535,6 +1090,118 @@ export class DbStorageWithLogging extends DbStorage {
       throw err; // Use err instead of error
     }
   }
+
+  async updateItinerary(id: number, update: Partial<InsertItinerary>): Promise<Itinerary | undefined> {
+    console.log(`DbStorage (with logging): Updating itinerary #${id}`);
+    try {
+      return await super.updateItinerary(id, update);
+    } catch (err) {
+      const error = err as Error;
+      console.error(`DbStorage (with logging): Error updating itinerary #${id}:`, error);
+      
+      if (USE_IN_MEMORY_FALLBACK) {
+        console.warn("Using in-memory fallback for updateItinerary due to database error");
+        
+        const itinerary = inMemoryStorage.itineraries.get(id);
+        if (!itinerary) {
+          return undefined;
+        }
+        
+        const updated: Itinerary = { ...itinerary, ...update };
+        inMemoryStorage.itineraries.set(id, updated);
+        return updated;
+      }
+      
+      throw err;
+    }
+  }
+
+  async getItineraryRole(itineraryId: number, userId: string): Promise<ItineraryRole | undefined> {
+    try {
+      return await super.getItineraryRole(itineraryId, userId);
+    } catch (err) {
+      if (USE_IN_MEMORY_FALLBACK) {
+        console.warn("Database error in getItineraryRole, using in-memory fallback:", (err as Error).message);
+        return findCollaboratorInMemory(inMemoryStorage, itineraryId, userId)?.role as ItineraryRole | undefined;
+      }
+      throw err;
+    }
+  }
+
+  async getCollaborators(itineraryId: number): Promise<UserItinerary[]> {
+    try {
+      return await super.getCollaborators(itineraryId);
+    } catch (err) {
+      if (USE_IN_MEMORY_FALLBACK) {
+        console.warn("Database error in getCollaborators, using in-memory fallback:", (err as Error).message);
+        return inMemoryStorage.collaborators.filter(c => c.itineraryId === itineraryId);
+      }
+      throw err;
+    }
+  }
+
+  async addCollaborator(itineraryId: number, userId: string, role: ItineraryRole): Promise<UserItinerary> {
+    console.log(`DbStorage (with logging): Adding user ${userId} to itinerary #${itineraryId} as ${role}`);
+    try {
+      return await super.addCollaborator(itineraryId, userId, role);
+    } catch (err) {
+      if (USE_IN_MEMORY_FALLBACK) {
+        console.warn("Database error in addCollaborator, using in-memory fallback:", (err as Error).message);
+        return addCollaboratorInMemory(inMemoryStorage, itineraryId, userId, role);
+      }
+      throw err;
+    }
+  }
+
+  async removeCollaborator(itineraryId: number, userId: string): Promise<boolean> {
+    console.log(`DbStorage (with logging): Removing user ${userId} from itinerary #${itineraryId}`);
+    try {
+      return await super.removeCollaborator(itineraryId, userId);
+    } catch (err) {
+      if (USE_IN_MEMORY_FALLBACK) {
+        console.warn("Database error in removeCollaborator, using in-memory fallback:", (err as Error).message);
+        return removeCollaboratorInMemory(inMemoryStorage, itineraryId, userId);
+      }
+      throw err;
+    }
+  }
+
+  async getStopVotes(itineraryId: number): Promise<StopVote[]> {
+    try {
+      return await super.getStopVotes(itineraryId);
+    } catch (err) {
+      if (USE_IN_MEMORY_FALLBACK) {
+        console.warn("Database error in getStopVotes, using in-memory fallback:", (err as Error).message);
+        return inMemoryStorage.stopVotes.filter(v => v.itineraryId === itineraryId);
+      }
+      throw err;
+    }
+  }
+
+  async setStopVote(vote: InsertStopVote): Promise<StopVote> {
+    try {
+      return await super.setStopVote(vote);
+    } catch (err) {
+      if (USE_IN_MEMORY_FALLBACK) {
+        console.warn("Database error in setStopVote, using in-memory fallback:", (err as Error).message);
+        return setStopVoteInMemory(inMemoryStorage, vote);
+      }
+      throw err;
+    }
+  }
+
+  async clearStopVotes(itineraryId: number, stopPlaceId: string): Promise<void> {
+    try {
+      await super.clearStopVotes(itineraryId, stopPlaceId);
+    } catch (err) {
+      if (USE_IN_MEMORY_FALLBACK) {
+        console.warn("Database error in clearStopVotes, using in-memory fallback:", (err as Error).message);
+        inMemoryStorage.stopVotes = inMemoryStorage.stopVotes.filter(v => !(v.itineraryId === itineraryId && v.stopPlaceId === stopPlaceId));
+        return;
+      }
+      throw err;
+    }
+  }
 }
 
 // Use the database storage implementation
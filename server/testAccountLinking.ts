@@ -0,0 +1,114 @@
+/**
+ * Test file for linking and unlinking Google sign-in
+ * Drives the auth routes over HTTP with sessions, the way the profile page does; Google's
+ * token check, email and the database are stood in for
+ */
+
+import express from 'express';
+import session from 'express-session';
+import type { AddressInfo } from 'net';
+import { OAuth2Client } from 'google-auth-library';
+
+function check(label: string, actual: string, expected: string) {
+  console.log(`${label}: ${actual} ${actual === expected ? "✅" : `❌ (expected ${expected})`}`);
+}
+
+// Test tokens are "sub|email", standing in for what Google would vouch for
+function stubGoogleTokens() {
+  (OAuth2Client.prototype as any).verifyIdToken = async ({ idToken }: { idToken: string }) => {
+    const [sub, email] = idToken.split('|');
+    if (!sub || !email) throw new Error('Invalid token');
+    return { getPayload: () => ({ sub, email, name: email.split('@')[0], email_verified: true }) };
+  };
+}
+
+// One signed-in browser: keeps the session cookie between requests
+function createClient(baseUrl: string) {
+  let cookie = '';
+  return async (path: string, body: unknown = {}) => {
+    const response = await fetch(`${baseUrl}/api/auth${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json', ...(cookie ? { Cookie: cookie } : {}) },
+      body: JSON.stringify(body)
+    });
+    const setCookie = response.headers.get('set-cookie');
+    if (setCookie) cookie = setCookie.split(';')[0];
+    return { status: response.status, body: await response.json() };
+  };
+}
+
+async function testAccountLinking() {
+  const { storage, MemStorage } = await import('./storage');
+  const { setMailTransport } = await import('./lib/mailer');
+  const { default: authRouter } = await import('./routes/auth');
+
+  const memory = new MemStorage();
+  for (const name of Object.getOwnPropertyNames(MemStorage.prototype)) {
+    const method = (memory as any)[name];
+    if (name !== 'constructor' && typeof method === 'function') {
+      Object.assign(storage, { [name]: method.bind(memory) });
+    }
+  }
+  setMailTransport({ name: 'silent', send: async () => {} });
+  stubGoogleTokens();
+
+  const app = express();
+  app.use(express.json());
+  app.use(session({ secret: 'test-secret', resave: false, saveUninitialized: false }));
+  app.use('/api/auth', authRouter);
+  const server = app.listen(0);
+  await new Promise<void>(resolve => server.once('listening', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  try {
+    const ana = createClient(baseUrl);
+    const ben = createClient(baseUrl);
+    const carol = createClient(baseUrl);
+    const password = 'correct-horse';
+
+    await ana('/register', { email: 'ana@example.com', name: 'Ana', password, confirmPassword: password });
+    await ben('/google', { token: 'google-ben|ben@example.com' });
+
+    console.log("--- Testing Linking Google ---");
+    const wrongPassword = await ana('/link/google', { token: 'google-ana|ana@example.com', password: 'not-my-password' });
+    check("Wrong password rejected", `${wrongPassword.status} ${wrongPassword.body.message}`, '401 Incorrect password');
+
+    const linkedElsewhere = await ana('/link/google', { token: 'google-ben|ben@example.com', password });
+    check("Google account linked elsewhere", `${linkedElsewhere.status} ${linkedElsewhere.body.error}`, '409 Account conflict');
+
+    const emailElsewhere = await ana('/link/google', { token: 'google-other|ben@example.com', password });
+    check("Google email owned by another account", `${emailElsewhere.status} ${emailElsewhere.body.error}`, '409 Account conflict');
+
+    const linked = await ana('/link/google', { token: 'google-ana|ana@example.com', password });
+    check("Own Google account linked", `${linked.status} ${linked.body.user?.google_linked}`, '200 true');
+
+    await carol('/register', { email: 'carol@example.com', password, confirmPassword: password });
+    const takeover = await createClient(baseUrl)('/google', { token: 'google-carol|carol@example.com' });
+    check("Google sign-in doesn't take over an account", String(takeover.status), '409');
+
+    console.log("\n--- Testing Unlinking Google ---");
+    const noPasswordGiven = await ana('/unlink/google', {});
+    check("Unlinking needs the password", String(noPasswordGiven.status), '400');
+
+    const noPasswordSet = await ben('/unlink/google', { password });
+    check("Unlinking the only sign-in refused", `${noPasswordSet.status} ${noPasswordSet.body.error}`, '400 No password');
+
+    console.log("\n--- Testing Adding a Password ---");
+    const added = await ben('/link/password', { token: 'google-ben|ben@example.com', password, confirmPassword: password });
+    check("Password added", `${added.status} ${added.body.user?.has_password}`, '200 true');
+
+    await ben('/logout');
+    const login = await ben('/login', { email: 'ben@example.com', password });
+    check("Google account logs in with the password", `${login.status} ${login.body.user?.email}`, '200 ben@example.com');
+
+    const unlinked = await ben('/unlink/google', { password });
+    check("Unlinked once a password is set", `${unlinked.status} ${unlinked.body.user?.google_linked}`, '200 false');
+  } finally {
+    setMailTransport(null);
+    server.close();
+  }
+}
+
+testAccountLinking()
+  .catch(console.error)
+  .finally(() => process.exit());
@@ -0,0 +1,126 @@
+/**
+ * Test file for granting the admin role from ADMIN_EMAILS
+ * Drives the auth routes over HTTP with sessions; Google's token check, email and the
+ * database are stood in for
+ */
+
+import express from 'express';
+import session from 'express-session';
+import type { AddressInfo } from 'net';
+import { OAuth2Client } from 'google-auth-library';
+
+process.env.ADMIN_EMAILS = ' Ana@example.com, ben@example.com ,carol@example.com,dora@example.com';
+
+function check(label: string, actual: string, expected: string) {
+  console.log(`${label}: ${actual} ${actual === expected ? "✅" : `❌ (expected ${expected})`}`);
+}
+
+// Test tokens are "sub|email|verified", standing in for what Google would vouch for
+function stubGoogleTokens() {
+  (OAuth2Client.prototype as any).verifyIdToken = async ({ idToken }: { idToken: string }) => {
+    const [sub, email, verified] = idToken.split('|');
+    if (!sub || !email) throw new Error('Invalid token');
+    return { getPayload: () => ({ sub, email, name: email.split('@')[0], email_verified: verified === 'verified' }) };
+  };
+}
+
+// One signed-in browser: keeps the session cookie between requests
+function createClient(baseUrl: string) {
+  let cookie = '';
+  return async (path: string, body: unknown = {}) => {
+    const response = await fetch(`${baseUrl}/api/auth${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json', ...(cookie ? { Cookie: cookie } : {}) },
+      body: JSON.stringify(body)
+    });
+    const setCookie = response.headers.get('set-cookie');
+    if (setCookie) cookie = setCookie.split(';')[0];
+    return { status: response.status, body: await response.json() };
+  };
+}
+
+async function testAdminBootstrap() {
+  const { storage, MemStorage } = await import('./storage');
+  const { setMailTransport } = await import('./lib/mailer');
+  const { isConfiguredAdminEmail } = await import('./middleware/requireAuth');
+  const { default: authRouter } = await import('./routes/auth');
+
+  const memory = new MemStorage();
+  for (const name of Object.getOwnPropertyNames(MemStorage.prototype)) {
+    const method = (memory as any)[name];
+    if (name !== 'constructor' && typeof method === 'function') {
+      Object.assign(storage, { [name]: method.bind(memory) });
+    }
+  }
+  // Keeps the last verification link sent to each address
+  const links = new Map<string, string>();
+  setMailTransport({
+    name: 'inbox',
+    send: async message => {
+      const token = message.text.match(/verify-email\?token=([\w-]+)/)?.[1];
+      if (token) links.set(message.to, token);
+    }
+  });
+  stubGoogleTokens();
+
+  const app = express();
+  app.use(express.json());
+  app.use(session({ secret: 'test-secret', resave: false, saveUninitialized: false }));
+  app.use('/api/auth', authRouter);
+  const server = app.listen(0);
+  await new Promise<void>(resolve => server.once('listening', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const roleOf = async (email: string) => (await storage.getUserByEmail(email))?.role ?? 'none';
+
+  try {
+    console.log("--- Testing the ADMIN_EMAILS List ---");
+    check("Listed email matches, ignoring case and spaces", String(isConfiguredAdminEmail('ana@example.com')), 'true');
+    check("Unlisted email doesn't", String(isConfiguredAdminEmail('dan@example.com')), 'false');
+
+    console.log("\n--- Testing Registration and Login ---");
+    const password = 'correct-horse';
+    const ana = createClient(baseUrl);
+    await ana('/register', { email: 'ana@example.com', name: 'Ana', password, confirmPassword: password });
+    check("Unverified address isn't made admin", await roleOf('ana@example.com'), 'user');
+
+    await ana('/logout');
+    await ana('/login', { email: 'ana@example.com', password });
+    check("Logging in before verifying doesn't either", await roleOf('ana@example.com'), 'user');
+
+    const verified = await ana('/verify-email', { token: links.get('ana@example.com') });
+    check("Confirming the email grants admin", `${verified.status} ${await roleOf('ana@example.com')}`, '200 admin');
+
+    const dan = createClient(baseUrl);
+    await dan('/register', { email: 'dan@example.com', password, confirmPassword: password });
+    await dan('/verify-email', { token: links.get('dan@example.com') });
+    check("Unlisted account stays a user", await roleOf('dan@example.com'), 'user');
+
+    // An account verified before its email was added to the list gets the role at its next login
+    await createClient(baseUrl)('/register', { email: 'carol@example.com', password, confirmPassword: password });
+    const carol = await storage.getUserByEmail('carol@example.com');
+    await storage.markEmailVerified(carol!.id);
+    await createClient(baseUrl)('/login', { email: 'carol@example.com', password });
+    check("Verified account made admin at login", await roleOf('carol@example.com'), 'admin');
+
+    console.log("\n--- Testing Google Sign-in ---");
+    await createClient(baseUrl)('/google', { token: 'google-dora|dora@example.com|unverified' });
+    check("Unverified Google email isn't made admin", await roleOf('dora@example.com'), 'user');
+
+    await createClient(baseUrl)('/google', { token: 'google-ben|ben@example.com|verified' });
+    check("Verified Google email made admin", await roleOf('ben@example.com'), 'admin');
+
+    await createClient(baseUrl)('/google', { token: 'google-erin|erin@example.com|verified' });
+    check("Unlisted Google account stays a user", await roleOf('erin@example.com'), 'user');
+
+    const audit = await storage.getAuthAuditLog({ limit: 10, offset: 0 });
+    const grants = audit.entries.filter(entry => entry.event === 'admin_granted').map(entry => entry.email).sort();
+    check("Grants recorded in the audit log", grants.join(', '), 'ana@example.com, ben@example.com, carol@example.com');
+  } finally {
+    setMailTransport(null);
+    server.close();
+  }
+}
+
+testAdminBootstrap()
+  .catch(console.error)
+  .finally(() => process.exit());
@@ -0,0 +1,99 @@
+/**
+ * Test file for replaying logged AI interactions
+ * This tests the field-by-field diff, replaying a logged reply through the current pipeline,
+ * comparing on the model reply when no pipeline result was logged, and asking a scripted model again
+ */
+
+import { diffValues, replayInteraction, formatReplayResult, replayRequestSchema } from './lib/aiReplay';
+import { createScriptedProvider, setLlmProviders } from './lib/llmProviders';
+import { db } from './db';
+import type { AiInteraction } from './lib/aiLogging';
+
+function check(label: string, actual: string, expected: string) {
+  console.log(`${label}: ${actual} ${actual === expected ? "✅" : `❌ (expected ${expected})`}`);
+}
+
+async function testAiReplay() {
+  console.log("--- Testing Diff ---");
+  const changes = diffValues(
+    { startLocation: 'Downtown', fixedTimes: [{ time: '12:00', type: 'attraction' }], preferences: {} },
+    { startLocation: 'Downtown', fixedTimes: [{ time: '12:00', type: 'restaurant' }, { time: '14:00' }], preferences: { budget: undefined } }
+  );
+  check("Changed field", JSON.stringify(changes[0]), '{"path":"fixedTimes[0].type","before":"attraction","after":"restaurant"}');
+  check("Added entry", JSON.stringify(changes[1]), '{"path":"fixedTimes[1]","after":{"time":"14:00"}}');
+  check("Undefined counts as missing", String(changes.length), '2');
+  check("Same values", String(diffValues({ a: [1, 2] }, { a: [1, 2] }).length), '0');
+
+  console.log("\n--- Testing Stored Replies ---");
+  const query = 'Lunch in the North End at 12:30';
+  const reply = JSON.stringify({ fixedTimeEntries: [{ time: '12:30', activity: 'Lunch', location: 'North End' }] });
+  const logged: AiInteraction = {
+    id: 7,
+    sessionId: 'session-7',
+    timestamp: new Date('2026-10-01T12:00:00Z'),
+    userQuery: query,
+    modelName: 'gemini-1.5-pro-latest',
+    promptVersion: 'parse-request@v1',
+    rawRequest: null,
+    rawResponse: reply,
+    parsedResponse: null,
+    processingTimeMs: 900,
+    status: 'success',
+    errorDetails: null,
+    parameters: null,
+    metaData: { city: 'boston' }
+  };
+
+  const notRecorded = await replayInteraction(logged, 'stored');
+  check("Replayed through the current pipeline", String(notRecorded.after?.fixedTimes[0]?.type), 'restaurant');
+  check("Nothing to compare with", formatReplayResult(notRecorded).split('\n')[1], '  nothing was recorded to compare with');
+
+  const pipelineResult = JSON.parse(JSON.stringify(notRecorded.after));
+  const unchanged = await replayInteraction({ ...logged, metaData: { city: 'boston', pipelineResult } }, 'stored');
+  check("Same result, no changes", formatReplayResult(unchanged).split('\n')[1], '  no changes');
+
+  pipelineResult.fixedTimes[0].type = 'attraction';
+  const changed = await replayInteraction({ ...logged, metaData: { city: 'boston', pipelineResult } }, 'stored');
+  check("Adapter change shown", formatReplayResult(changed).split('\n')[1], '  fixedTimes[0].type: "attraction" -> "restaurant"');
+
+  const invalid = await replayInteraction({ ...logged, rawResponse: '{"fixedTimeEntries": "none"}' }, 'stored');
+  check("Reply no longer valid", String(invalid.error?.startsWith('Schema validation error: fixedTimeEntries')), 'true');
+  const unknownCity = await replayInteraction({ ...logged, metaData: {} }, 'stored', 'atlantis');
+  check("Unknown city reported", String(unknownCity.error?.startsWith('Unsupported city "atlantis"')), 'true');
+
+  console.log("\n--- Testing Logged Replies ---");
+  const parsedResponse = JSON.parse(reply);
+  const sameReply = await replayInteraction({ ...logged, parsedResponse }, 'stored');
+  check("Compared on the reply", formatReplayResult(sameReply).split('\n').slice(1).join(' |'),
+    '  compared on the model reply, as no pipeline result was logged |  no changes');
+  const otherReply = await replayInteraction({ ...logged, parsedResponse: { ...parsedResponse, startLocation: 'Back Bay' } }, 'stored');
+  check("Reply change shown", JSON.stringify(otherReply.changes), '[{"path":"startLocation","before":"Back Bay","after":"Downtown"}]');
+  check("Pipeline result preferred", String((await replayInteraction({ ...logged, parsedResponse, metaData: { city: 'boston', pipelineResult } }, 'stored')).compared), 'pipeline');
+
+  console.log("\n--- Testing Requery ---");
+  setLlmProviders([createScriptedProvider({
+    [query]: { fixedTimeEntries: [{ time: '13:00', activity: 'Lunch', location: 'North End' }] }
+  })]);
+  const logRows: Array<Record<string, any>> = [];
+  const insert = db.insert;
+  (db as any).insert = () => ({ values: async (row: Record<string, any>) => { logRows.push(row); } });
+  const requeried = await replayInteraction({ ...logged, metaData: { city: 'boston', pipelineResult: notRecorded.after } }, 'requery');
+  (db as any).insert = insert;
+  check("New model answer compared", JSON.stringify(requeried.changes.map(change => change.path)),
+    '["fixedTimes[0].displayTime","fixedTimes[0].time"]');
+  check("Logged as a replay", `${logRows[0]?.sessionId} ${logRows[0]?.metaData?.turn} ${logRows[0]?.metaData?.replayOf}`, 'replay-session-7 replay 7');
+  check("With the logged prompt version", String(logRows[0]?.promptVersion), 'parse-request@v1');
+  const retired = await replayInteraction({ ...logged, promptVersion: 'parse-request@v0' }, 'requery');
+  check("Retired prompt version reported", String(retired.error), 'Prompt version parse-request@v0 no longer exists');
+  setLlmProviders([]);
+  const noModel = await replayInteraction(logged, 'requery');
+  check("No model available", String(noModel.error), 'No language model could parse the query');
+  setLlmProviders(null);
+
+  console.log("\n--- Testing Request Validation ---");
+  const request = replayRequestSchema.parse({ sessionId: 'session-7', limit: '5' });
+  check("Defaults", `${request.mode} ${request.status} ${request.limit}`, 'stored success 5');
+  check("Limit capped", String(replayRequestSchema.safeParse({ limit: 1000 }).success), 'false');
+}
+
+testAiReplay().catch(console.error);
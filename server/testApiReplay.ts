@@ -0,0 +1,90 @@
+/**
+ * Test file for recorded API fixtures
+ * Records responses from a stub fetch, then replays them with the network switched off
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const fixturesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'api-fixtures-'));
+process.env.API_FIXTURES_DIR = fixturesDir;
+process.env.GOOGLE_PLACES_API_KEY = 'test-key-not-real';
+
+// Stands in for Google: every search finds the same two cafes
+async function stubFetch(input: string | URL | Request): Promise<Response> {
+  const url = input.toString();
+  const place = (id: string, name: string) => ({
+    place_id: id,
+    name,
+    formatted_address: `${name}, Boston, MA`,
+    geometry: { location: { lat: 42.352, lng: -71.062 } },
+    types: ['cafe'],
+    rating: 4.5,
+    business_status: 'OPERATIONAL'
+  });
+
+  let body: unknown;
+  if (url.includes('/details/')) {
+    const id = new URL(url).searchParams.get('place_id')!;
+    body = { status: 'OK', result: place(id, id === 'cup' ? 'Thinking Cup' : 'Tatte Bakery') };
+  } else if (url.includes('/geocode/')) {
+    body = { status: 'OK', results: [{ formatted_address: 'Downtown, Boston, MA', geometry: { location: { lat: 42.355, lng: -71.06 } }, address_components: [] }] };
+  } else {
+    body = { status: 'OK', results: [place('cup', 'Thinking Cup'), place('tatte', 'Tatte Bakery')] };
+  }
+  return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+}
+
+async function testApiReplay() {
+  const { providerFetch, getFixturePath, redactRequestUrl, MissingFixtureError } = await import('./lib/apiProvider');
+  const { searchPlace } = await import('./lib/googlePlaces');
+  const { placesCache } = await import('./lib/placesCache');
+  const liveFetch = globalThis.fetch;
+
+  console.log("===== TESTING API RECORD/REPLAY =====");
+
+  console.log("\n🔐 Testing credentials stay out of fixtures");
+  const a = redactRequestUrl('https://maps.googleapis.com/maps/api/geocode/json?address=Fenway&key=secret');
+  const b = redactRequestUrl('https://maps.googleapis.com/maps/api/geocode/json?key=other&address=Fenway');
+  console.log(`Key removed and parameters sorted: ${a === b && !a.includes('secret') ? "✅" : "❌"}`);
+
+  try {
+    console.log("\n🎙️ Recording a venue search");
+    process.env.API_PROVIDER_MODE = 'record';
+    globalThis.fetch = stubFetch as typeof fetch;
+    const recorded = await searchPlace("coffee in Downtown", { type: 'cafe' });
+    const fixtureFiles = fs.readdirSync(path.join(fixturesDir, 'places'));
+    console.log(`Found ${recorded.primary.name} and recorded ${fixtureFiles.length} responses ${fixtureFiles.length > 0 ? "✅" : "❌"}`);
+    const leaked = fixtureFiles.some(file => fs.readFileSync(path.join(fixturesDir, 'places', file), 'utf-8').includes('test-key-not-real'));
+    console.log(`No API key in the recorded files: ${!leaked ? "✅" : "❌"}`);
+
+    console.log("\n▶️ Replaying the search with the network off");
+    process.env.API_PROVIDER_MODE = 'replay';
+    let networkCalls = 0;
+    globalThis.fetch = (async () => {
+      networkCalls++;
+      throw new Error('Network is off');
+    }) as typeof fetch;
+    await placesCache.invalidate();
+    const replayed = await searchPlace("coffee in Downtown", { type: 'cafe' });
+    console.log(`Same result as recorded: ${JSON.stringify(replayed) === JSON.stringify(recorded) ? "✅" : "❌"}`);
+    console.log(`No network calls: ${networkCalls === 0 ? "✅" : "❌"}`);
+
+    console.log("\n❓ Testing a request that was never recorded");
+    const missingUrl = 'https://maps.googleapis.com/maps/api/geocode/json?address=Nowhere&key=x';
+    try {
+      await providerFetch('geocoding', missingUrl);
+      console.log("Missing fixture reported: ❌");
+    } catch (error) {
+      const reported = error instanceof MissingFixtureError && error.fixturePath === getFixturePath('geocoding', missingUrl);
+      console.log(`Missing fixture reported: ${reported ? "✅" : "❌"}`);
+    }
+  } finally {
+    globalThis.fetch = liveFetch;
+    fs.rmSync(fixturesDir, { recursive: true, force: true });
+  }
+}
+
+// Run the tests
+testApiReplay();
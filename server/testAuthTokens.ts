@@ -0,0 +1,65 @@
+/**
+ * Test file for password reset and email verification links
+ * This tests that only hashes of tokens are stored, that tokens expire, can be used once
+ * and can be revoked, and that the file mail transport writes out the email with the link
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createAuthToken, hashAuthToken, buildAuthLink, AUTH_TOKEN_TTL_MINUTES } from './lib/authTokens';
+import { createFileTransport, setMailTransport, sendMail } from './lib/mailer';
+import { MemStorage } from './storage';
+
+function check(label: string, actual: string, expected: string) {
+  console.log(`${label}: ${actual} ${actual === expected ? "✅" : `❌ (expected ${expected})`}`);
+}
+
+async function testAuthTokens() {
+  const now = new Date('2026-06-12T12:00:00Z');
+
+  console.log("--- Testing Tokens ---");
+  const { token, record } = createAuthToken('user-1', 'password_reset', now);
+  check("Only the hash is stored", String(record.tokenHash === hashAuthToken(token) && !record.tokenHash.includes(token)), 'true');
+  check("Reset links expire after an hour",
+    String((record.expiresAt.getTime() - now.getTime()) / 60000), String(AUTH_TOKEN_TTL_MINUTES.password_reset));
+  check("Tokens are random", String(createAuthToken('user-1', 'password_reset', now).token === token), 'false');
+  check("Reset link opens the reset page",
+    buildAuthLink('https://planner.example.com', 'password_reset', 'abc'), 'https://planner.example.com/reset-password?token=abc');
+  check("Verification link opens the verify page",
+    buildAuthLink('https://planner.example.com', 'email_verification', 'abc'), 'https://planner.example.com/verify-email?token=abc');
+
+  console.log("\n--- Testing Single Use ---");
+  const storage = new MemStorage();
+  await storage.saveAuthToken(record);
+  const hash = hashAuthToken(token);
+  check("Token is for the wrong purpose", String(await storage.consumeAuthToken(hash, 'email_verification', now)), 'undefined');
+  check("Token works once", String((await storage.consumeAuthToken(hash, 'password_reset', now))?.userId), 'user-1');
+  check("Token doesn't work twice", String(await storage.consumeAuthToken(hash, 'password_reset', now)), 'undefined');
+
+  const expiring = createAuthToken('user-1', 'email_verification', now);
+  await storage.saveAuthToken(expiring.record);
+  const afterExpiry = new Date(now.getTime() + (AUTH_TOKEN_TTL_MINUTES.email_verification + 1) * 60000);
+  check("Expired token is rejected",
+    String(await storage.consumeAuthToken(hashAuthToken(expiring.token), 'email_verification', afterExpiry)), 'undefined');
+
+  const older = createAuthToken('user-2', 'password_reset', now);
+  await storage.saveAuthToken(older.record);
+  await storage.revokeAuthTokens('user-2', 'password_reset');
+  check("Revoked token is rejected",
+    String(await storage.consumeAuthToken(hashAuthToken(older.token), 'password_reset', now)), 'undefined');
+
+  console.log("\n--- Testing File Mail Transport ---");
+  const outbox = fs.mkdtempSync(path.join(os.tmpdir(), 'mail-'));
+  setMailTransport(createFileTransport(outbox));
+  await sendMail({ to: 'ana@example.com', subject: 'Reset your password', text: 'https://planner.example.com/reset-password?token=abc' });
+  const files = fs.readdirSync(outbox);
+  check("One email written", String(files.length), '1');
+  const email = fs.readFileSync(path.join(outbox, files[0]), 'utf8');
+  check("Email has the recipient and link",
+    String(email.startsWith('To: ana@example.com') && email.includes('reset-password?token=abc')), 'true');
+  fs.rmSync(outbox, { recursive: true, force: true });
+  setMailTransport(null);
+}
+
+testAuthTokens().catch(console.error);
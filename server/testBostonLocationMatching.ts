@@ -5,7 +5,7 @@
  * by testing various common and colloquial Boston location references.
  */
 
-import { normalizeLocationName, verifyPlaceMatch, suggestSimilarLocations } from './lib/bostonLocationNormalizer';
+import { normalizeLocationName, verifyPlaceMatch, suggestSimilarLocations } from './lib/locationNormalizer';
 
 async function testBostonLocationMatching() {
   console.log('Running Boston Location Matching Test');
@@ -0,0 +1,61 @@
+/**
+ * Test file for city packs
+ * Checks city lookup, per-city location normalization and the shared area helpers
+ */
+
+import { getCityPack, findCityPack, listCityPacks, isInCity, isGenericLocation } from './lib/cityPacks';
+import { normalizeLocationName, suggestSimilarLocations, verifyPlaceMatch } from './lib/locationNormalizer';
+import { findQuietAreas, getAreaCrowdLevel } from './data/areas';
+
+function testCityPacks() {
+  console.log("===== TESTING CITY PACKS =====");
+
+  console.log("\n🏙️ Testing city lookup");
+  console.log(`Registered: ${listCityPacks().map(city => city.id).join(', ')}`);
+  console.log(`Defaults to Boston: ${getCityPack().id === 'boston' ? "✅" : "❌"}`);
+  console.log(`"NYC" and "New York City" find New York: ${findCityPack('NYC')?.id === 'nyc' && findCityPack('new york city')?.id === 'nyc' ? "✅" : "❌"}`);
+  let rejected = false;
+  try {
+    getCityPack('atlantis');
+  } catch (error) {
+    rejected = (error as Error).message.includes('Unsupported city');
+  }
+  console.log(`Unknown city rejected: ${rejected ? "✅" : "❌"}`);
+
+  const boston = getCityPack('boston');
+  const nyc = getCityPack('nyc');
+  const london = getCityPack('london');
+  console.log(`London uses its own timezone and currency: ${london.timezone === 'Europe/London' && london.currency === 'GBP' ? "✅" : "❌"}`);
+
+  console.log("\n🗺️ Testing bounding boxes");
+  console.log(`Fenway is in Boston: ${isInCity(boston, { lat: 42.3467, lng: -71.0972 }) ? "✅" : "❌"}`);
+  console.log(`Times Square isn't: ${!isInCity(boston, { lat: 40.758, lng: -73.9855 }) && isInCity(nyc, { lat: 40.758, lng: -73.9855 }) ? "✅" : "❌"}`);
+
+  console.log("\n🔤 Testing location normalization per city");
+  const cases: Array<[typeof boston, string, string]> = [
+    [boston, 'backbay', 'Back Bay'],
+    [boston, 'south station', 'South Station'],
+    [nyc, 'fidi', 'Financial District'],
+    [nyc, 'grand central', 'Grand Central Station'],
+    [london, 'Piccadily', 'Piccadilly'],
+    [london, 'Kings Cross', "King's Cross"]
+  ];
+  for (const [city, input, expected] of cases) {
+    const result = normalizeLocationName(input, city);
+    console.log(`${city.name}: "${input}" -> "${result}" ${result === expected ? "✅" : "❌"}`);
+  }
+  console.log(`NYC nicknames only match in New York: ${verifyPlaceMatch('uws', 'Upper West Side', [], nyc) && !verifyPlaceMatch('uws', 'Upper West Side', [], boston) ? "✅" : "❌"}`);
+  console.log(`London suggestions come from London: ${suggestSimilarLocations('covent', london).includes('Covent Garden') ? "✅" : "❌"}`);
+
+  console.log("\n🌿 Testing shared area helpers");
+  const northEnd = boston.areas.find(area => area.name === 'North End')!;
+  console.log(`Clock times and day parts agree: ${getAreaCrowdLevel(northEnd, '19:30', false) === getAreaCrowdLevel(northEnd, 'evening', false) ? "✅" : "❌"}`);
+  const quiet = findQuietAreas(london.areas, 'morning', false);
+  console.log(`Quiet London mornings: ${quiet.slice(0, 3).map(area => area.name).join(', ')} ${quiet.length > 0 && quiet.every(area => area.crowdLevels.morning < 3) ? "✅" : "❌"}`);
+
+  console.log("\n📍 Testing generic locations");
+  console.log(`"Downtown Boston" is generic, "Back Bay" isn't: ${isGenericLocation(boston, 'Downtown Boston') && !isGenericLocation(boston, 'Back Bay') ? "✅" : "❌"}`);
+}
+
+// Run the tests
+testCityPacks();
@@ -1,129 +1,96 @@
 /**
- * Test file for the enhanced gap-filling logic
- * This tests the findInterestingActivities function with different parameters
+ * Test file for the gap-filling suggestion engine
+ * This tests gap detection, venue type selection, proximity and crowd preferences
+ * (the parts that don't need the Google Places API)
  */
 
-import { findInterestingActivities } from './routes';
+import {
+  findGaps,
+  chooseGapActivityTypes,
+  detourMeters,
+  wantsToAvoidCrowds,
+  MAX_DETOUR_METERS
+} from './lib/gapFilling';
+import { getDayPart } from './lib/timeUtils';
+import type { PlaceDetails } from '@shared/schema';
+import type { StructuredRequest } from '@shared/types';
+
+function makePlace(name: string, lat: number, lng: number): PlaceDetails {
+  return {
+    name,
+    formatted_address: `${name}, Boston, MA`,
+    place_id: name.toLowerCase().replace(/\s+/g, '-'),
+    geometry: { location: { lat, lng } }
+  };
+}
+
+function at(time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date('2025-06-14T00:00:00');
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+}
+
+function makeRequest(preferences: StructuredRequest['preferences']): StructuredRequest {
+  return { startLocation: null, destinations: [], fixedTimes: [], preferences };
+}
 
 function testGapFilling() {
-  // Test cases with different parameters
-  const testCases = [
-    {
-      location: "Covent Garden",
-      duration: 1.5,
-      timeOfDay: "10:30",
-      preferences: { type: "cultural", requirements: ["indoor"] }
-    },
-    {
-      location: "South Bank",
-      duration: 2,
-      timeOfDay: "14:00",
-      preferences: { type: "relaxing", requirements: ["outdoor"] }
-    },
-    {
-      location: "Soho",
-      duration: 3,
-      timeOfDay: "19:00",
-      preferences: { type: "dining", requirements: ["lively"] }
-    }
-  ];
-  
-  console.log("--- Testing Gap Filling Logic ---");
-  
-  for (const test of testCases) {
-    console.log(`\nScenario: ${test.duration} hours in ${test.location} at ${test.timeOfDay}`);
-    console.log(`Preferences: ${test.preferences.type}, Requirements: [${test.preferences.requirements.join(', ')}]`);
-    
-    const suggestions = findInterestingActivities(
-      test.location,
-      test.duration,
-      test.timeOfDay,
-      test.preferences
-    );
-    
-    if (suggestions.length === 0) {
-      console.log(`❌ No activities suggested`);
-    } else {
-      console.log(`✅ Suggested activities (${suggestions.length}):`);
-      suggestions.forEach((activity: string, i: number) => {
-        console.log(`  ${i+1}. ${activity}`);
-      });
-    }
-  }
-  
-  // Test time appropriateness
-  console.log("\n--- Testing Time Appropriateness ---");
-  const timeTests = [
-    { time: "08:00", location: "King's Cross" },
-    { time: "13:00", location: "Soho" },
-    { time: "19:00", location: "Shoreditch" },
-    { time: "22:00", location: "Soho" }
-  ];
-  
-  for (const test of timeTests) {
-    console.log(`\nAt ${test.time} in ${test.location}:`);
-    const suggestions = findInterestingActivities(test.location, 1.5, test.time, {});
-    if (suggestions.length > 0) {
-      suggestions.forEach((suggestion: string, i: number) => {
-        console.log(`  ${i+1}. ${suggestion}`);
-      });
-    } else {
-      console.log(`❌ No activities suggested`);
-    }
+  const faneuilHall = makePlace("Faneuil Hall", 42.3600, -71.0568);
+  const bostonCommon = makePlace("Boston Common", 42.3550, -71.0656);
+  const fenwayPark = makePlace("Fenway Park", 42.3467, -71.0972);
+
+  console.log("--- Testing Gap Detection ---");
+  const gaps = findGaps([
+    { place: faneuilHall, time: at('09:00'), durationMinutes: 60 },
+    { place: bostonCommon, time: at('10:30'), durationMinutes: 60 },
+    { place: fenwayPark, time: at('15:00'), durationMinutes: 180 }
+  ]);
+  console.log(`Found ${gaps.length} gap(s) ${gaps.length === 1 ? "✅" : "❌"}`);
+  if (gaps[0]) {
+    const gap = gaps[0];
+    console.log(`Gap between ${gap.after.place.name} and ${gap.before.place.name}: ${gap.minutes} minutes ${gap.minutes === 210 ? "✅" : "❌"}`);
   }
-  
-  // Test meal-specific suggestions
-  console.log("\n--- Testing Meal-Specific Suggestions ---");
-  const mealTests = [
-    { time: "09:00", location: "Chelsea", type: "breakfast" },
-    { time: "13:00", location: "Covent Garden", type: "lunch" },
-    { time: "19:30", location: "Mayfair", type: "dinner" }
+
+  console.log("\n--- Testing Day Parts ---");
+  const dayPartTests = [
+    { time: '08:00', expected: 'morning' },
+    { time: '13:00', expected: 'afternoon' },
+    { time: '19:00', expected: 'evening' },
+    { time: '23:00', expected: 'night' }
   ];
-  
-  for (const test of mealTests) {
-    console.log(`\n${test.type.charAt(0).toUpperCase() + test.type.slice(1)} at ${test.time} in ${test.location}:`);
-    const suggestions = findInterestingActivities(
-      test.location, 
-      1.5, 
-      test.time, 
-      { type: test.type }
-    );
-    
-    if (suggestions.length > 0) {
-      suggestions.forEach((suggestion: string, i: number) => {
-        console.log(`  ${i+1}. ${suggestion}`);
-      });
-    } else {
-      console.log(`❌ No suggestions for ${test.type}`);
-    }
+  for (const test of dayPartTests) {
+    const dayPart = getDayPart(at(test.time));
+    console.log(`${test.time} → ${dayPart} ${dayPart === test.expected ? "✅" : "❌"}`);
   }
-  
-  // Test different durations
-  console.log("\n--- Testing Duration-Based Suggestions ---");
-  const durationTests = [
-    { duration: 0.5, location: "Leicester Square", time: "15:00" },
-    { duration: 1.5, location: "South Kensington", time: "11:00" },
-    { duration: 3, location: "Camden", time: "14:00" }
+
+  console.log("\n--- Testing Activity Types ---");
+  const typeTests = [
+    { dayPart: 'afternoon' as const, interests: ['art', 'history'], expected: 'art_gallery' },
+    { dayPart: 'morning' as const, interests: [], expected: 'cafe' },
+    { dayPart: 'night' as const, interests: ['museums'], expected: 'bar' },
+    { dayPart: 'evening' as const, interests: ['craft beer'], expected: 'bar' }
   ];
-  
-  for (const test of durationTests) {
-    console.log(`\nWith ${test.duration} hours available at ${test.time} in ${test.location}:`);
-    const suggestions = findInterestingActivities(
-      test.location, 
-      test.duration, 
-      test.time, 
-      {}
-    );
-    
-    if (suggestions.length > 0) {
-      suggestions.forEach((suggestion: string, i: number) => {
-        console.log(`  ${i+1}. ${suggestion}`);
-      });
-    } else {
-      console.log(`❌ No suggestions for ${test.duration} hour duration`);
-    }
+  for (const test of typeTests) {
+    const types = chooseGapActivityTypes(test.dayPart, test.interests);
+    console.log(`${test.dayPart} with [${test.interests.join(', ')}] → ${types.join(', ')} ${types[0] === test.expected ? "✅" : "❌"}`);
   }
+
+  console.log("\n--- Testing Proximity To Both Stops ---");
+  const onTheWay = makePlace("Old State House", 42.3588, -71.0575);
+  const farAway = makePlace("Arnold Arboretum", 42.2990, -71.1230);
+  const nearDetour = detourMeters(faneuilHall.geometry.location, onTheWay.geometry.location, bostonCommon.geometry.location);
+  const farDetour = detourMeters(faneuilHall.geometry.location, farAway.geometry.location, bostonCommon.geometry.location);
+  console.log(`Old State House detour ${Math.round(nearDetour)}m ${nearDetour <= MAX_DETOUR_METERS ? "✅" : "❌"}`);
+  console.log(`Arnold Arboretum detour ${Math.round(farDetour)}m rejected ${farDetour > MAX_DETOUR_METERS ? "✅" : "❌"}`);
+
+  console.log("\n--- Testing Crowd Preferences ---");
+  const quietRequest = makeRequest({ requirements: ['somewhere quiet'] });
+  const normalRequest = makeRequest({ interests: ['food'] });
+  console.log(`"somewhere quiet" avoids crowds ${wantsToAvoidCrowds(quietRequest) ? "✅" : "❌"}`);
+  console.log(`"avoid the crowds" in query ${wantsToAvoidCrowds(normalRequest, "Coffee at 9, avoid the crowds") ? "✅" : "❌"}`);
+  console.log(`No crowd preference ${!wantsToAvoidCrowds(normalRequest, "Lunch in the North End") ? "✅" : "❌"}`);
 }
 
 // Run the tests
-testGapFilling();
\ No newline at end of file
+testGapFilling();
@@ -0,0 +1,117 @@
+/**
+ * Test file for gap filling in a planned day
+ * Plans a day with a gap shorter than a museum visit usually takes, through POST /api/plan, and
+ * checks the suggestion is scheduled for the time that fits; the model, Google and the database
+ * are stood in for
+ */
+
+import express from 'express';
+import type { AddressInfo } from 'net';
+
+process.env.GOOGLE_PLACES_API_KEY = 'test-key-not-real';
+process.env.API_PROVIDER_MODE = 'live';
+
+function check(label: string, actual: string, expected: string) {
+  console.log(`${label}: ${actual} ${actual === expected ? "✅" : `❌ (expected ${expected})`}`);
+}
+
+const QUERY = 'Coffee downtown at 10am and lunch downtown at 1pm, I love museums';
+
+function makePlace(place_id: string, name: string, types: string[], lat: number, lng: number) {
+  return {
+    place_id,
+    name,
+    formatted_address: `${name}, Boston, MA`,
+    geometry: { location: { lat, lng } },
+    types,
+    rating: 4.6,
+    business_status: 'OPERATIONAL'
+  };
+}
+
+const PLACES = {
+  cafe: makePlace('cup', 'Thinking Cup', ['cafe'], 42.3520, -71.0620),
+  restaurant: makePlace('bistro', 'Downtown Bistro', ['restaurant'], 42.3530, -71.0610),
+  museum: makePlace('museum', 'Small Museum', ['museum'], 42.3525, -71.0615)
+};
+
+// Stands in for Google: searches find a cafe, a restaurant or a museum by type, and every trip takes ten minutes
+function stubGoogle(liveFetch: typeof fetch): typeof fetch {
+  return (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = input.toString();
+    if (!url.includes('googleapis.com')) return liveFetch(input, init);
+
+    const place = url.includes('museum') ? PLACES.museum
+      : url.includes('restaurant') || url.includes('bistro') ? PLACES.restaurant
+      : PLACES.cafe;
+    let body: unknown;
+    if (url.includes('/directions/')) {
+      body = { status: 'OK', routes: [{ legs: [{ duration: { value: 600 }, distance: { value: 500 }, steps: [] }] }] };
+    } else if (url.includes('/details/')) {
+      body = { status: 'OK', result: place };
+    } else if (url.includes('/geocode/')) {
+      body = { status: 'OK', results: [{ formatted_address: 'Downtown, Boston, MA', geometry: { location: { lat: 42.3525, lng: -71.0615 } }, address_components: [] }] };
+    } else {
+      body = { status: 'OK', results: [place] };
+    }
+    return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+  }) as typeof fetch;
+}
+
+async function testGapFillingPlan() {
+  const { registerRoutes } = await import('./routes');
+  const { storage, MemStorage } = await import('./storage');
+  const { createScriptedProvider, setLlmProviders } = await import('./lib/llmProviders');
+
+  const memory = new MemStorage();
+  Object.assign(storage, {
+    createPlace: memory.createPlace.bind(memory),
+    createItinerary: memory.createItinerary.bind(memory)
+  });
+  setLlmProviders([createScriptedProvider({
+    [QUERY]: {
+      fixedTimeEntries: [
+        { time: '10:00', activity: 'Coffee', location: 'Downtown', searchParameters: { venueType: 'cafe' } },
+        { time: '13:00', activity: 'Lunch', location: 'Downtown', searchParameters: { venueType: 'restaurant' } }
+      ],
+      preferences: { interests: ['museums'] }
+    }
+  })]);
+  const liveFetch = globalThis.fetch;
+  globalThis.fetch = stubGoogle(liveFetch);
+
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    (req as any).session = {};
+    next();
+  });
+  const server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    console.log("--- Testing a Gap Shorter Than the Typical Visit ---");
+    // Coffee ends at 10:45 and lunch is at 13:00: with ten minutes each way, 115 minutes are left for a 120-minute museum
+    const response = await liveFetch(`http://127.0.0.1:${port}/api/plan`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: QUERY, date: '2026-06-12', fillGaps: true })
+    });
+    const plan = await response.json();
+    const names = (plan.places || []).map((place: any) => place.name);
+    check("Gap filled", names.join(', '), 'Thinking Cup, Small Museum, Downtown Bistro');
+
+    const museum = (plan.places || []).find((place: any) => place.placeId === 'museum');
+    check("Visit cut to fit the gap", String(museum?.details?.visitDurationMinutes), '115');
+    check("No schedule warnings", JSON.stringify((plan.warnings || []).map((warning: any) => warning.message)), '[]');
+  } finally {
+    globalThis.fetch = liveFetch;
+    setLlmProviders(null);
+    server.close();
+  }
+}
+
+testGapFillingPlan()
+  .catch(console.error)
+  .finally(() => process.exit());
@@ -0,0 +1,134 @@
+/**
+ * Test file for group planning on shared itineraries
+ * This tests that invite links can't be altered or used after they expire,
+ * that roles are ranked, that private itineraries are only readable by collaborators and admins,
+ * that votes are counted per stop with the current venue winning ties,
+ * and that locked stops can't be retimed, removed, moved or replaced, by hand or by a refinement
+ */
+
+import { createShareToken, verifyShareToken, hasItineraryRole, canViewItinerary, ShareLinkError, SHARE_LINK_TTL_DAYS } from './lib/sharing';
+import { summarizeStopVotes } from './lib/stopVoting';
+import { MemStorage } from './storage';
+import { removeStop, retimeStop, reorderStops, checkUnlocked, ItineraryEditError, type ItineraryStop } from './lib/itineraryEditing';
+import { applyPlanDiff, describeStops } from './lib/planRefinement';
+import type { StopVote } from '@shared/schema';
+
+function check(label: string, actual: string, expected: string) {
+  console.log(`${label}: ${actual} ${actual === expected ? "✅" : `❌ (expected ${expected})`}`);
+}
+
+// Message and status of the error a token is rejected with, or "ok"
+function tokenError(token: string, now: Date, secret = 'test-secret'): string {
+  try {
+    verifyShareToken(token, now, secret);
+    return 'ok';
+  } catch (e) {
+    return e instanceof ShareLinkError ? `${e.status}` : (e as Error).message;
+  }
+}
+
+// Status of the error an edit is refused with, or "ok"
+async function editError(edit: () => unknown): Promise<string> {
+  try {
+    await edit();
+    return 'ok';
+  } catch (e) {
+    return e instanceof ItineraryEditError ? `${e.status}` : (e as Error).message;
+  }
+}
+
+async function testGroupPlanning() {
+  const now = new Date('2026-06-12T12:00:00Z');
+
+  console.log("--- Testing Invite Links ---");
+  const { token, expiresAt } = createShareToken(42, 'viewer', now, 'test-secret');
+  const invite = verifyShareToken(token, now, 'test-secret');
+  check("Link round-trips", `${invite.itineraryId} ${invite.role}`, '42 viewer');
+  check("Link expires after the TTL", String((expiresAt.getTime() - now.getTime()) / 86400000), String(SHARE_LINK_TTL_DAYS));
+
+  const [payload, signature] = token.split('.');
+  const editorPayload = Buffer.from(
+    Buffer.from(payload, 'base64url').toString().replace('"viewer"', '"editor"')
+  ).toString('base64url');
+  check("Changing the role breaks the signature", tokenError(`${editorPayload}.${signature}`, now), '400');
+  check("Another server's secret is rejected", tokenError(token, now, 'other-secret'), '400');
+  check("Garbage is rejected", tokenError('not-a-token', now), '400');
+  const later = new Date(now.getTime() + (SHARE_LINK_TTL_DAYS * 24 + 1) * 60 * 60 * 1000);
+  check("Expired link is gone (410)", tokenError(token, later), '410');
+
+  console.log("\n--- Testing Roles ---");
+  check("Owner can edit", String(hasItineraryRole('owner', 'editor')), 'true');
+  check("Editor can view", String(hasItineraryRole('editor', 'viewer')), 'true');
+  check("Viewer can't edit", String(hasItineraryRole('viewer', 'editor')), 'false');
+  check("Editor isn't owner", String(hasItineraryRole('editor', 'owner')), 'false');
+  check("No role can't view", String(hasItineraryRole(undefined, 'viewer')), 'false');
+
+  console.log("\n--- Testing Visibility ---");
+  check("Public plan is open to anyone", String(canViewItinerary({ isPublic: true }, undefined, false)), 'true');
+  check("Private plan is closed to strangers", String(canViewItinerary({ isPublic: false }, undefined, false)), 'false');
+  check("Private plan is open to viewers", String(canViewItinerary({ isPublic: false }, 'viewer', false)), 'true');
+  check("Private plan is open to admins", String(canViewItinerary({ isPublic: false }, undefined, true)), 'true');
+
+  console.log("\n--- Testing Vote Counting ---");
+  const stops = [
+    { name: 'Tatte', placeId: 'tatte', alternatives: [{ place_id: 'flour' }, { place_id: 'thinking-cup' }] },
+    { name: 'Neptune Oyster', placeId: 'neptune', alternatives: [{ place_id: 'saltie-girl' }] }
+  ] as ItineraryStop[];
+  const vote = (userId: string, stopPlaceId: string, placeId: string) => ({ userId, stopPlaceId, placeId } as StopVote);
+  const votes = [
+    vote('ana', 'tatte', 'flour'),
+    vote('ben', 'tatte', 'flour'),
+    vote('cy', 'tatte', 'tatte'),
+    vote('ana', 'neptune', 'saltie-girl'),
+    vote('ben', 'neptune', 'neptune'),
+    vote('cy', 'neptune', 'somewhere-else') // No longer an option, e.g. after a swap
+  ];
+  const [breakfast, dinner] = summarizeStopVotes(stops, votes, 'ana');
+  check("Counts per venue", `${breakfast.counts.flour} ${breakfast.counts.tatte}`, '2 1');
+  check("Most votes leads", String(breakfast.leader), 'flour');
+  check("Own vote is reported", String(breakfast.myVote), 'flour');
+  check("Current venue wins a tie", String(dinner.leader), 'neptune');
+  check("Votes for venues that aren't options are ignored", String(dinner.counts['somewhere-else']), 'undefined');
+  check("No votes means no leader", String(summarizeStopVotes(stops, [])[0].leader), 'null');
+
+  console.log("\n--- Testing Locked Stops ---");
+  const planned = [
+    { ...stops[0], scheduledTime: '2026-06-12T13:00:00.000Z', details: { name: 'Tatte' }, locked: true },
+    { ...stops[1], scheduledTime: '2026-06-12T23:00:00.000Z', details: { name: 'Neptune Oyster' } }
+  ] as ItineraryStop[];
+  const findVenue = async (query: string) => ({ name: query, placeId: query, details: { name: query } } as ItineraryStop);
+  check("Locked stop refused", await editError(() => checkUnlocked(planned[0])), '409');
+  check("Unlocked stop allowed", await editError(() => checkUnlocked(planned[1])), 'ok');
+  check("Can't remove a locked stop", await editError(() => removeStop(planned, 0)), '409');
+  check("Can't retime a locked stop", await editError(() => retimeStop(planned, 0, new Date('2026-06-12T14:00:00Z'))), '409');
+  check("Can't move a locked stop", await editError(() => reorderStops(planned, [1, 0])), '409');
+  check("Other stops still editable", await editError(() => removeStop(planned, 1)), 'ok');
+  check("Refinement can't replace it", await editError(() =>
+    applyPlanDiff(planned, { operations: [{ op: 'replace', stop: 0, query: 'bagels' }], summary: '' }, findVenue)), '409');
+  check("Refinement can't remove it", await editError(() =>
+    applyPlanDiff(planned, { operations: [{ op: 'remove', stop: 1 }, { op: 'remove', stop: 0 }], summary: '' }, findVenue)), '409');
+  check("Refinement can add after it", await editError(() =>
+    applyPlanDiff(planned, { operations: [{ op: 'add', query: 'coffee', after: 0 }], summary: '' }, findVenue)), 'ok');
+  check("Model is told it's locked", String(describeStops(planned).split('\n')[0].endsWith('[locked]')), 'true');
+
+  console.log("\n--- Testing In-Memory Collaborators ---");
+  const storage = new MemStorage();
+  const itinerary = await storage.createItinerary({ query: 'Brunch then the Common', places: [], travelTimes: [] }, 'owner-1');
+  check("Creator is the owner", String(await storage.getItineraryRole(itinerary.id, 'owner-1')), 'owner');
+  await storage.addCollaborator(itinerary.id, 'friend-1', 'viewer');
+  await storage.addCollaborator(itinerary.id, 'friend-1', 'editor');
+  check("Adding again changes the role", String(await storage.getItineraryRole(itinerary.id, 'friend-1')), 'editor');
+  check("Collaborators are listed once", String((await storage.getCollaborators(itinerary.id)).length), '2');
+
+  await storage.setStopVote({ itineraryId: itinerary.id, userId: 'friend-1', stopPlaceId: 'tatte', placeId: 'flour' });
+  await storage.setStopVote({ itineraryId: itinerary.id, userId: 'friend-1', stopPlaceId: 'tatte', placeId: 'thinking-cup' });
+  const stored = await storage.getStopVotes(itinerary.id);
+  check("Voting again replaces the vote", stored.map(v => v.placeId).join(' '), 'thinking-cup');
+  await storage.clearStopVotes(itinerary.id, 'tatte');
+  check("Locking in clears the votes", String((await storage.getStopVotes(itinerary.id)).length), '0');
+
+  await storage.removeCollaborator(itinerary.id, 'friend-1');
+  check("Removed collaborator has no role", String(await storage.getItineraryRole(itinerary.id, 'friend-1')), 'undefined');
+}
+
+testGroupPlanning().catch(console.error);
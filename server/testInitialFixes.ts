@@ -8,6 +8,7 @@
  */
 
 import { normalizeLocationName } from './lib/locationNormalizer';
+import { getCityPack } from './lib/cityPacks';
 import * as assert from 'assert';
 
 /**
@@ -58,7 +59,7 @@ function testLocationNormalization() {
   let failCount = 0;
   
   for (const pair of testPairs) {
-    const result = normalizeLocationName(pair.input);
+    const result = normalizeLocationName(pair.input, getCityPack('london'));
     
     if (result === pair.expected) {
       console.log(`✅ "${pair.input}" normalized correctly to "${result}"`);
@@ -0,0 +1,135 @@
+/**
+ * Test file for editing saved itineraries
+ * Covers venue swaps, stop edits, schedule revalidation and partial travel-time
+ * recomputation using the local routing provider
+ */
+
+import { LocalRoutingProvider, setRoutingProvider } from './lib/routing';
+import {
+  prepareVenueSwap,
+  rebuildTravelTimes,
+  revalidateItinerary,
+  resolveStopTime,
+  insertStop,
+  removeStop,
+  retimeStop,
+  reorderStops,
+  ItineraryEditError,
+  type ItineraryStop,
+  type TravelTimeEntry
+} from './lib/itineraryEditing';
+import type { PlaceDetails } from '@shared/schema';
+
+function makePlace(name: string, lat: number, lng: number): PlaceDetails {
+  return {
+    name,
+    formatted_address: `${name}, Boston, MA`,
+    place_id: name.toLowerCase().replace(/\s+/g, '-'),
+    geometry: { location: { lat, lng } }
+  };
+}
+
+function makeStop(id: number, details: PlaceDetails, scheduledTime: string, alternatives: PlaceDetails[] = []): ItineraryStop {
+  return {
+    id,
+    placeId: details.place_id,
+    name: details.name,
+    address: details.formatted_address,
+    location: details.geometry.location,
+    details,
+    alternatives,
+    scheduledTime
+  };
+}
+
+async function testItineraryEditing() {
+  setRoutingProvider(new LocalRoutingProvider());
+
+  const faneuilHall = makePlace("Faneuil Hall", 42.3600, -71.0568);
+  const neptuneOyster = makePlace("Neptune Oyster", 42.3634, -71.0557);
+  const giacomos = makePlace("Giacomo's", 42.3645, -71.0546);
+  const fenwayPark = makePlace("Fenway Park", 42.3467, -71.0972);
+
+  const stops = [
+    makeStop(1, faneuilHall, '2025-06-14T13:00:00.000Z'),
+    makeStop(2, neptuneOyster, '2025-06-14T16:00:00.000Z', [giacomos]),
+    makeStop(3, fenwayPark, '2025-06-14T19:00:00.000Z')
+  ];
+
+  console.log("===== TESTING ITINERARY EDITING =====");
+
+  console.log("\n🔄 Testing venue swap");
+  const swap = prepareVenueSwap(stops[1], giacomos.place_id);
+  console.log(`New venue: ${swap.venue.name} ${swap.venue.name === "Giacomo's" ? "✅" : "❌"}`);
+  console.log(`New venue marked primary: ${swap.venue.is_primary ? "✅" : "❌"}`);
+  console.log(`Old venue kept as alternative: ${swap.alternatives[0]?.name === "Neptune Oyster" ? "✅" : "❌"}`);
+  console.log(`Chosen venue removed from alternatives: ${!swap.alternatives.some(alt => alt.place_id === giacomos.place_id) ? "✅" : "❌"}`);
+
+  try {
+    prepareVenueSwap(stops[1], 'not-an-alternative');
+    console.log("Unknown alternative rejected ❌");
+  } catch (error) {
+    console.log(`Unknown alternative rejected ${error instanceof ItineraryEditError ? "✅" : "❌"}`);
+  }
+
+  console.log("\n🚶 Testing travel recomputation");
+  // A stale leg that should be reused untouched when nothing around it changes
+  const previous: TravelTimeEntry[] = [
+    { from: "Faneuil Hall", to: "Neptune Oyster", duration: 99 },
+    { from: "Neptune Oyster", to: "Fenway Park", duration: 99 }
+  ];
+
+  const unchanged = await rebuildTravelTimes(stops, previous, []);
+  console.log(`Unchanged legs reused: ${unchanged.every(leg => leg.duration === 99) ? "✅" : "❌"}`);
+
+  const swappedStops = stops.map((stop, i) => i === 1
+    ? { ...stop, name: swap.venue.name, details: swap.venue, alternatives: swap.alternatives }
+    : stop);
+  const rebuilt = await rebuildTravelTimes(swappedStops, previous, [1]);
+  console.log(`Legs now go via Giacomo's: ${rebuilt[0]?.to === "Giacomo's" && rebuilt[1]?.from === "Giacomo's" ? "✅" : "❌"}`);
+  console.log(`Adjacent legs recalculated: ${rebuilt.every(leg => leg.duration !== 99 && !!leg.mode) ? "✅" : "❌"}`);
+
+  console.log("\n✏️ Testing stop edits");
+  const clockTime = resolveStopTime('5:30pm', new Date(stops[0].scheduledTime!));
+  console.log(`"5:30pm" → ${clockTime.toISOString()} ${clockTime.toISOString() === '2025-06-14T21:30:00.000Z' ? "✅" : "❌"}`);
+
+  const added = insertStop(stops, makeStop(4, giacomos, '2025-06-14T17:00:00.000Z'));
+  console.log(`Added stop lands in time order at index ${added.index} ${added.index === 2 ? "✅" : "❌"}`);
+
+  const removed = removeStop(stops, 1);
+  console.log(`Removed stop: ${removed.map(stop => stop.name).join(' → ')} ${removed.length === 2 && removed[1].name === "Fenway Park" ? "✅" : "❌"}`);
+
+  const retimed = retimeStop(stops, 0, new Date('2025-06-14T18:00:00.000Z'));
+  console.log(`Retimed stop moved to index ${retimed.index} and fixed ${retimed.index === 1 && retimed.stops[1].isFixed ? "✅" : "❌"}`);
+
+  const reordered = reorderStops(stops, [1, 0, 2]);
+  console.log(`Reordered stops keep the time slots ${reordered.stops[0].name === "Neptune Oyster" && reordered.stops[0].scheduledTime === stops[0].scheduledTime ? "✅" : "❌"}`);
+
+  try {
+    reorderStops([{ ...stops[0], isFixed: true }, stops[1], stops[2]], [1, 0, 2]);
+    console.log("Moving a fixed stop rejected ❌");
+  } catch (error) {
+    console.log(`Moving a fixed stop rejected ${error instanceof ItineraryEditError ? "✅" : "❌"}`);
+  }
+
+  console.log("\n🗓️ Testing revalidation");
+  // Ten minutes after Faneuil Hall starts isn't enough time, so the flexible stop should move later
+  const crowded = [stops[0], { ...stops[1], scheduledTime: '2025-06-14T13:10:00.000Z' }, stops[2]];
+  const revalidated = await revalidateItinerary(crowded, [], [1]);
+  const shifted = new Date(revalidated.stops[1].scheduledTime!).getTime() > new Date('2025-06-14T13:10:00.000Z').getTime();
+  console.log(`Flexible stop shifted for travel: ${shifted ? "✅" : "❌"}`);
+  console.log(`Shift reported: ${revalidated.warnings.some(w => w.type === 'shifted') ? "✅" : "❌"}`);
+  console.log(`Travel legs rebuilt: ${revalidated.travelTimes.length === 2 ? "✅" : "❌"}`);
+
+  console.log("\n🚶 Testing the chosen transport mode is kept");
+  // Fenway is far enough from the North End that walking isn't the fastest way there
+  const fastest = await revalidateItinerary(swappedStops, previous, [1, 2]);
+  console.log(`Without a preference, the fastest mode is used: ${fastest.travelTimes.map(leg => leg.mode).join(', ')} ${fastest.travelTimes.some(leg => leg.mode !== 'walking') ? "✅" : "❌"}`);
+  const walking = await revalidateItinerary(swappedStops, previous, [1, 2], undefined, ['walking']);
+  console.log(`Walking plan still walks after the edit: ${walking.travelTimes.map(leg => leg.mode).join(', ')} ${walking.travelTimes.length === 2 && walking.travelTimes.every(leg => leg.mode === 'walking') ? "✅" : "❌"}`);
+
+  setRoutingProvider(null);
+}
+
+// Run the tests
+testItineraryEditing();
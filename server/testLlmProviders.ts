@@ -0,0 +1,66 @@
+/**
+ * Test file for language model providers
+ * This tests that request understanding fails over to the next provider when one errors
+ * or replies with JSON that doesn't match the schema, using scripted providers
+ */
+
+import { createScriptedProvider, setLlmProviders, getLlmProviders } from './lib/llmProviders';
+import { processWithGemini } from './lib/geminiProcessor';
+
+function check(label: string, actual: string, expected: string) {
+  console.log(`${label}: ${actual} ${actual === expected ? "✅" : `❌ (expected ${expected})`}`);
+}
+
+async function testLlmProviders() {
+  const query = 'Lunch in the North End at 12';
+  const validReply = {
+    fixedTimeEntries: [{ time: '12:00', activity: 'Lunch', location: 'North End' }]
+  };
+
+  console.log("--- Testing Scripted Provider ---");
+  const scripted = createScriptedProvider({ [query]: ['first', validReply] }, 'scripted-test');
+  const request = { prompt: 'prompt', userQuery: query, temperature: 0.2, maxOutputTokens: 100 };
+  check("First reply", (await scripted.generate(request)).text, 'first');
+  check("Objects sent back as JSON", (await scripted.generate(request)).text, JSON.stringify(validReply));
+  check("Last reply repeats", (await scripted.generate(request)).text, JSON.stringify(validReply));
+  check("Model name", (await scripted.generate(request)).model, 'scripted-test');
+  const unknown = await scripted.generate({ ...request, userQuery: 'something else' }).catch(error => error.message);
+  check("Unknown query fails", String(unknown), 'No scripted reply for "something else"');
+
+  console.log("\n--- Testing Failover ---");
+  const calls: string[] = [];
+  const track = (name: string, replies: Record<string, unknown>) => {
+    const provider = createScriptedProvider(replies, name);
+    return {
+      ...provider,
+      generate: (req: typeof request) => {
+        calls.push(name);
+        return provider.generate(req);
+      }
+    };
+  };
+
+  setLlmProviders([track('down', {}), track('invalid', { [query]: { fixedTimeEntries: 'none' } }), track('good', { [query]: validReply })]);
+  const result = await processWithGemini(query);
+  check("Parsed by the third provider", String(result?.fixedTimeEntries[0]?.location), 'North End');
+  check("Providers tried in order, repairing invalid replies first", calls.join(','), 'down,invalid,invalid,invalid,good');
+
+  calls.length = 0;
+  setLlmProviders([track('garbled', { [query]: ['not json at all', validReply] })]);
+  const retried = await processWithGemini(query);
+  check("Garbled reply repaired", String(retried?.fixedTimeEntries.length), '1');
+  check("Two attempts", calls.join(','), 'garbled,garbled');
+
+  setLlmProviders([track('down', {})]);
+  check("All providers failing gives null", String(await processWithGemini(query)), 'null');
+
+  setLlmProviders([]);
+  check("No providers gives null", String(await processWithGemini(query)), 'null');
+
+  console.log("\n--- Testing Configuration ---");
+  setLlmProviders(null);
+  process.env.LLM_PROVIDERS = 'nonsense';
+  check("Unknown providers skipped", String(getLlmProviders().length), '0');
+}
+
+testLlmProviders().catch(console.error);
@@ -0,0 +1,73 @@
+/**
+ * Test file for sign-in throttling
+ * This tests the backoff and lockout for accounts and IPs, that failures are forgotten
+ * after a quiet period, that attempts are claimed before they're checked (so parallel guesses all count
+ * and none get past a block), and the in-memory throttle store and audit log
+ */
+
+import { throttleKey, getRetryAfterSeconds, recordThrottleFailure, describeWait, THROTTLE_POLICIES } from './lib/loginThrottle';
+import type { AuthThrottle } from '@shared/schema';
+import { MemStorage } from './storage';
+
+function check(label: string, actual: string, expected: string) {
+  console.log(`${label}: ${actual} ${actual === expected ? "✅" : `❌ (expected ${expected})`}`);
+}
+
+// Fail n times in a row at the same moment
+function failTimes(key: string, n: number, now: Date): AuthThrottle | undefined {
+  let throttle: AuthThrottle | undefined;
+  for (let i = 0; i < n; i++) {
+    throttle = recordThrottleFailure(throttle, key, now);
+  }
+  return throttle;
+}
+
+async function testLoginThrottle() {
+  const now = new Date('2026-06-20T12:00:00Z');
+  const account = throttleKey('account', ' Ana@Example.com ');
+
+  console.log("--- Testing Keys ---");
+  check("Account keys ignore case and spaces", account, 'account:ana@example.com');
+  check("IP keys are scoped", throttleKey('ip', '203.0.113.7'), 'ip:203.0.113.7');
+
+  console.log("\n--- Testing Backoff ---");
+  const free = THROTTLE_POLICIES.account.freeAttempts;
+  check("Free attempts aren't delayed", String(getRetryAfterSeconds(failTimes(account, free, now), now)), '0');
+  check("First delay", String(getRetryAfterSeconds(failTimes(account, free + 1, now), now)), '2');
+  check("Delay doubles", String(getRetryAfterSeconds(failTimes(account, free + 3, now), now)), '8');
+  check("Delay shrinks as time passes",
+    String(getRetryAfterSeconds(failTimes(account, free + 3, now), new Date(now.getTime() + 5000))), '3');
+
+  console.log("\n--- Testing Lockout ---");
+  const locked = failTimes(account, THROTTLE_POLICIES.account.lockoutAfter, now);
+  check("Account locked for 15 minutes", String(getRetryAfterSeconds(locked, now)), String(15 * 60));
+  check("IP isn't delayed after as many failures",
+    String(getRetryAfterSeconds(failTimes(throttleKey('ip', '203.0.113.7'), THROTTLE_POLICIES.account.lockoutAfter, now), now)), '0');
+  const later = new Date(now.getTime() + (THROTTLE_POLICIES.account.resetAfterMinutes + 1) * 60000);
+  check("Failures forgotten after a quiet hour", String(recordThrottleFailure(locked, account, later).failures), '1');
+  check("Wait described in minutes", describeWait(15 * 60), '15 minutes');
+  check("Wait described in seconds", describeWait(1), '1 second');
+
+  console.log("\n--- Testing Memory Storage ---");
+  const storage = new MemStorage();
+  const claims = await Promise.all(Array.from({ length: free + 3 }, () => storage.claimAuthThrottle(account, now)));
+  check("Parallel claims all count", claims.map(claim => claim?.failures ?? 'blocked').join(','), '1,2,3,4,blocked,blocked');
+  check("Blocked claims aren't counted", String((await storage.getAuthThrottle(account))?.failures), String(free + 1));
+  check("Claim allowed once the block passes", String((await storage.claimAuthThrottle(account, new Date(now.getTime() + 2000)))?.failures), String(free + 2));
+  await storage.releaseAuthThrottle(account);
+  check("Released claim is taken back", String((await storage.getAuthThrottle(account))?.failures), String(free + 1));
+  check("Throttle is stored", String((await storage.getAuthThrottle(account))?.failures), String(free + 1));
+  check("Throttle is cleared", String(await storage.clearAuthThrottle(account)), 'true');
+  check("Cleared throttle is gone", String(await storage.getAuthThrottle(account)), 'undefined');
+
+  await storage.addAuthAuditEntry({ event: 'login_failed', email: 'ana@example.com', ip: '203.0.113.7', reason: 'wrong_password' });
+  await storage.addAuthAuditEntry({ event: 'login_failed', email: 'ben@example.com', ip: '203.0.113.7', reason: 'unknown_email' });
+  await storage.addAuthAuditEntry({ event: 'login_blocked', email: 'ana@example.com', ip: '198.51.100.2', reason: 'throttled' });
+  const forAna = await storage.getAuthAuditLog({ email: 'Ana@example.com', limit: 10, offset: 0 });
+  check("Audit log filtered by email", String(forAna.totalCount), '2');
+  check("Audit log most recent first", forAna.entries[0].event, 'login_blocked');
+  const page = await storage.getAuthAuditLog({ ip: '203.0.113.7', limit: 1, offset: 1 });
+  check("Audit log paginated", `${page.totalCount}/${page.entries[0].email}`, '2/ana@example.com');
+}
+
+testLoginThrottle().catch(console.error);
@@ -7,6 +7,9 @@
 
 import { verifyPlaceMatch, suggestSimilarLocations } from './lib/locationNormalizer';
 import { searchPlace } from './lib/googlePlaces';
+import { getCityPack } from './lib/cityPacks';
+
+const nyc = getCityPack('nyc');
 
 async function testNYCLocationMatching() {
   console.log('Running NYC Location Matching Test');
@@ -32,11 +35,11 @@ async function testNYCLocationMatching() {
     
     // First test if location is recognized by our normalizer
     // Using the same name twice simulates checking if a location matches itself (should always be true)
-    const matchingResult = verifyPlaceMatch(location, location, ['neighborhood']);
+    const matchingResult = verifyPlaceMatch(location, location, ['neighborhood'], nyc);
     console.log(`Location normalizer match: ${matchingResult ? 'Yes' : 'No'}`);
     
     if (!matchingResult) {
-      const suggestions = suggestSimilarLocations(location);
+      const suggestions = suggestSimilarLocations(location, nyc);
       if (suggestions.length > 0) {
         console.log(`Suggested alternatives: ${suggestions.join(', ')}`);
       } else {
@@ -46,7 +49,7 @@ async function testNYCLocationMatching() {
     
     try {
       // Test searching with Google Places API
-      const searchResult = await searchPlace(location, { type: 'neighborhood' });
+      const searchResult = await searchPlace(location, { type: 'neighborhood', city: nyc });
       if (searchResult && searchResult.primary) {
         console.log('Google Places API result:');
         console.log(`- Name: ${searchResult.primary.name}`);
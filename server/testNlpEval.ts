@@ -0,0 +1,71 @@
+/**
+ * Test file for the golden-query evaluation
+ * This tests breaking requests into scored facts, precision and recall per field, and
+ * diffing a report against the baseline
+ */
+
+import { requestFacts, runEvaluation, formatReport, diffReports, type GoldenQuery } from './lib/nlpEval';
+import type { StructuredRequest } from '@shared/types';
+
+function check(label: string, actual: string, expected: string) {
+  console.log(`${label}: ${actual} ${actual === expected ? "✅" : `❌ (expected ${expected})`}`);
+}
+
+async function testNlpEval() {
+  const golden: GoldenQuery = {
+    id: 'lunch-and-museum',
+    query: 'Lunch in the North End at noon, then the MFA at 2',
+    expected: {
+      fixedTimes: [
+        { time: '12:00', location: 'North End', type: 'restaurant' },
+        { time: '14:00', location: 'Fenway' }
+      ],
+      preferences: { cuisine: ['Italian'] }
+    }
+  };
+  const parsed: StructuredRequest = {
+    startLocation: 'Downtown',
+    destinations: [],
+    fixedTimes: [
+      { time: '14:00', location: 'Fenway', type: 'attraction', searchPreference: 'art museum' },
+      { time: '12:00', location: 'north  end', type: 'restaurant' }
+    ],
+    preferences: { cuisine: ['italian', 'pizza'] }
+  };
+
+  console.log("--- Testing Facts ---");
+  const facts = requestFacts(parsed, golden.expected).map(fact => fact.label);
+  check("Entries keyed by time", facts.slice(0, 3).join(' | '), '14:00 | 14:00 location=fenway | 14:00 type=attraction');
+  check("Values normalized", facts[4], '12:00 location=north end');
+  check("Fields the query doesn't expect are left out", String(facts.some(label => label.includes('searchPreference') || label.includes('startLocation'))), 'false');
+  check("List preferences one fact per item", facts.filter(label => label.startsWith('cuisine')).join(','), 'cuisine=italian,cuisine=pizza');
+
+  console.log("\n--- Testing Scores ---");
+  const report = await runEvaluation([golden, { ...golden, id: 'broken' }], async query => {
+    if (query.id === 'broken') throw new Error('model unavailable');
+    return parsed;
+  });
+  const field = (name: string) => report.fields.find(score => score.field === name)!;
+  check("Times found", `${field('time').correct}/${field('time').expected}`, '2/4');
+  check("Type precision", field('type').precision.toFixed(2), '0.50');
+  check("Cuisine precision and recall", `${field('cuisine').precision} ${field('cuisine').recall}`, '0.5 0.5');
+  check("Overall recall", report.overall.recall.toFixed(3), '0.500');
+  check("Wrong type reported", report.cases[0].unexpected.join(','), '14:00 type=attraction,cuisine=pizza');
+  check("Failed parse reported", String(report.cases[1].error), 'model unavailable');
+  check("Failed parse misses everything", String(report.cases[1].missing.length), '6');
+
+  console.log("\n--- Testing Report ---");
+  const text = formatReport(report);
+  check("Same results, same report", String(text === formatReport(report)), 'true');
+  check("Case listed", String(text.includes('## lunch-and-museum\nquery: Lunch in the North End')), 'true');
+  check("No changes from itself", String(diffReports(text, text).length), '0');
+
+  const fixed = formatReport({
+    ...report,
+    cases: [{ ...report.cases[0], unexpected: ['cuisine=pizza'] }, report.cases[1]]
+  });
+  const changes = diffReports(text, fixed);
+  check("Change shown under its query", changes.join(' | '), '## lunch-and-museum | -+ unexpected: 14:00 type=attraction');
+}
+
+testNlpEval().catch(console.error);
@@ -0,0 +1,80 @@
+/**
+ * Test file for opening-hours validation at the scheduled visit time
+ * Covers regular hours, overnight periods, 24-hour venues and re-ranking to alternatives
+ */
+
+import { checkOpeningHours, selectOpenVenue } from './lib/openingHours';
+import type { PlaceDetails } from '@shared/schema';
+
+// Weekday hours 11:00-22:00 (Mon-Sat), closed Sunday
+const restaurantHours = {
+  periods: [1, 2, 3, 4, 5, 6].map(day => ({
+    open: { day, time: '1100' },
+    close: { day, time: '2200' }
+  }))
+};
+
+// Bar open 17:00 until 02:00 the next day, every day
+const barHours = {
+  periods: [0, 1, 2, 3, 4, 5, 6].map(day => ({
+    open: { day, time: '1700' },
+    close: { day: (day + 1) % 7, time: '0200' }
+  }))
+};
+
+// Open 24 hours
+const alwaysOpen = {
+  periods: [{ open: { day: 0, time: '0000' } }]
+};
+
+function makePlace(name: string, opening_hours?: PlaceDetails['opening_hours']): PlaceDetails {
+  return {
+    name,
+    formatted_address: `${name}, Boston, MA`,
+    place_id: name.toLowerCase().replace(/\s+/g, '-'),
+    geometry: { location: { lat: 42.36, lng: -71.06 } },
+    opening_hours
+  };
+}
+
+function testOpeningHours() {
+  console.log("===== TESTING OPENING HOURS =====");
+
+  // Times are given with an explicit Eastern offset (EDT, -04:00)
+  const tests = [
+    { name: "Restaurant, Saturday 8pm", hours: restaurantHours, time: '2025-06-14T20:00:00-04:00', expected: 'open' },
+    { name: "Restaurant, Saturday 10:30pm", hours: restaurantHours, time: '2025-06-14T22:30:00-04:00', expected: 'closed' },
+    { name: "Restaurant, Sunday noon", hours: restaurantHours, time: '2025-06-15T12:00:00-04:00', expected: 'closed' },
+    { name: "Bar, Saturday 1am (Friday night)", hours: barHours, time: '2025-06-14T01:00:00-04:00', expected: 'open' },
+    { name: "Bar, Sunday 1am (wraps into Sunday)", hours: barHours, time: '2025-06-15T01:00:00-04:00', expected: 'open' },
+    { name: "Bar, Saturday 3pm", hours: barHours, time: '2025-06-14T15:00:00-04:00', expected: 'closed' },
+    { name: "24-hour venue, Tuesday 4am", hours: alwaysOpen, time: '2025-06-17T04:00:00-04:00', expected: 'open' },
+    { name: "No hours available", hours: undefined, time: '2025-06-17T04:00:00-04:00', expected: 'unknown' }
+  ];
+
+  console.log("\n🕒 Testing checkOpeningHours");
+  for (const test of tests) {
+    const result = checkOpeningHours(test.hours, new Date(test.time));
+    const passed = result.status === test.expected;
+    console.log(`${test.name}: ${result.status}${result.reason ? ` (${result.reason})` : ''} ${passed ? "✅" : "❌"}`);
+  }
+
+  console.log("\n⏰ Testing visits that run past closing");
+  const lateDinner = checkOpeningHours(restaurantHours, new Date('2025-06-14T21:00:00-04:00'), 90);
+  console.log(`9pm dinner closes during visit: ${lateDinner.closesDuringVisit ? "✅" : "❌"}`);
+
+  console.log("\n🔁 Testing closed primary drops to alternatives");
+  const result = selectOpenVenue(
+    {
+      primary: makePlace("Sunday Closed Bistro", restaurantHours),
+      alternatives: [makePlace("Late Night Bar", barHours), makePlace("Diner 24", alwaysOpen)]
+    },
+    new Date('2025-06-15T18:00:00-04:00')
+  );
+  console.log(`Primary: ${result.primary.name} ${result.primary.name === "Late Night Bar" ? "✅" : "❌"}`);
+  const dropped = result.alternatives.find(place => place.name === "Sunday Closed Bistro");
+  console.log(`Closed venue kept as alternative with reason: ${dropped?.closedReason} ${dropped?.openAtScheduledTime === false ? "✅" : "❌"}`);
+}
+
+// Run the tests
+testOpeningHours();
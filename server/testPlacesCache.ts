@@ -0,0 +1,86 @@
+/**
+ * Test file for the Google Places cache
+ * Exercises the in-memory cache with stub fetchers (persistence needs a database and isn't covered here)
+ */
+
+import { LruCache, PlacesCache, normalizeRequestKey } from './lib/placesCache';
+
+async function testPlacesCache() {
+  console.log("===== TESTING PLACES CACHE =====");
+
+  console.log("\n🔑 Testing request key normalization");
+  const a = normalizeRequestKey('textsearch', new URLSearchParams({ query: '  Coffee   Shop ', location: '42.36,-71.06', key: 'secret-1' }));
+  const b = normalizeRequestKey('textsearch', new URLSearchParams({ location: '42.36,-71.06', query: 'coffee shop', key: 'secret-2' }));
+  const c = normalizeRequestKey('nearbysearch', new URLSearchParams({ query: 'coffee shop', location: '42.36,-71.06' }));
+  console.log(`Key: ${a}`);
+  console.log(`Order, case, whitespace and API key ignored: ${a === b ? "✅" : "❌"}`);
+  console.log(`Different endpoints kept apart: ${a !== c ? "✅" : "❌"}`);
+  console.log(`API key left out: ${!a.includes('secret') ? "✅" : "❌"}`);
+
+  console.log("\n♻️ Testing LRU eviction and TTL");
+  const lru = new LruCache<number>(2);
+  lru.set('one', 1, 1000, 0);
+  lru.set('two', 2, 1000, 0);
+  lru.get('one', 10);          // "two" becomes least recently used
+  lru.set('three', 3, 1000, 20);
+  console.log(`Least recently used entry evicted: ${lru.get('two', 30) === undefined && lru.get('one', 30) === 1 ? "✅" : "❌"}`);
+  console.log(`Eviction counted: ${lru.evictions === 1 ? "✅" : "❌"}`);
+  console.log(`Entry expires after its TTL: ${lru.get('three', 1020) === undefined ? "✅" : "❌"}`);
+
+  console.log("\n📦 Testing hits, misses and copies");
+  const cache = new PlacesCache(10, false);
+  let calls = 0;
+  const fetcher = async () => {
+    calls++;
+    return { status: 'OK', results: [{ name: 'Thinking Cup' }] };
+  };
+  const first = await cache.getOrFetch('search', a, fetcher);
+  first.results.push({ name: 'Modified by caller' });
+  const second = await cache.getOrFetch('search', a, fetcher);
+  console.log(`Second lookup served from cache: ${calls === 1 ? "✅" : "❌"}`);
+  console.log(`Caller changes don't leak into the cache: ${second.results.length === 1 ? "✅" : "❌"}`);
+
+  console.log("\n🚫 Testing failed responses aren't cached");
+  const failing = async () => {
+    calls++;
+    return { status: 'OVER_QUERY_LIMIT', results: [] };
+  };
+  const isOk = (data: { status: string }) => data.status === 'OK';
+  calls = 0;
+  await cache.getOrFetch('search', 'textsearch?query=bar', failing, isOk);
+  await cache.getOrFetch('search', 'textsearch?query=bar', failing, isOk);
+  console.log(`Error response fetched again: ${calls === 2 ? "✅" : "❌"}`);
+
+  console.log("\n🤝 Testing concurrent lookups share one request");
+  calls = 0;
+  const slow = async () => {
+    calls++;
+    await new Promise(resolve => setTimeout(resolve, 20));
+    return { status: 'OK', result: { name: 'Boston Public Library' } };
+  };
+  await Promise.all([
+    cache.getOrFetch('details', 'bpl', slow),
+    cache.getOrFetch('details', 'bpl', slow),
+    cache.getOrFetch('details', 'bpl', slow)
+  ]);
+  console.log(`One API call for three lookups: ${calls === 1 ? "✅" : "❌"}`);
+
+  console.log("\n📊 Testing metrics");
+  const metrics = cache.getMetrics();
+  console.log(JSON.stringify(metrics));
+  console.log(`Search: 1 hit, 3 misses: ${metrics.byNamespace.search.hits === 1 && metrics.byNamespace.search.misses === 3 ? "✅" : "❌"}`);
+  console.log(`Details: 2 shared, 1 miss: ${metrics.sharedRequests === 2 && metrics.byNamespace.details.misses === 1 ? "✅" : "❌"}`);
+
+  console.log("\n🧹 Testing invalidation");
+  await cache.getOrFetch('details', 'bpl:reviews', slow);
+  const removedPlace = await cache.invalidate({ placeId: 'bpl' });
+  console.log(`Both details entries for the place removed: ${removedPlace === 2 ? "✅" : "❌"}`);
+  const removedSearch = await cache.invalidate({ namespace: 'search' });
+  console.log(`Search entries removed: ${removedSearch === 1 && cache.getMetrics().size === 0 ? "✅" : "❌"}`);
+  calls = 0;
+  await cache.getOrFetch('search', a, fetcher);
+  console.log(`Invalidated entry fetched again: ${calls === 1 ? "✅" : "❌"}`);
+}
+
+// Run the tests
+testPlacesCache();
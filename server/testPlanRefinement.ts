@@ -0,0 +1,138 @@
+/**
+ * Test file for conversational plan refinement
+ * Applies structured diffs like the ones the model returns, using a stub venue lookup,
+ * and interprets instructions with scripted model replies
+ */
+
+import { applyPlanDiff, describeStops, interpretRefinement, PlanDiffSchema, type PlanDiff } from './lib/planRefinement';
+import { ItineraryEditError, type ItineraryStop } from './lib/itineraryEditing';
+import { createScriptedProvider, setLlmProviders } from './lib/llmProviders';
+import type { PlaceDetails } from '@shared/schema';
+
+function makeStop(id: number, name: string, scheduledTime: string, details: Partial<PlaceDetails> = {}): ItineraryStop {
+  const placeId = name.toLowerCase().replace(/\s+/g, '-');
+  return {
+    id,
+    placeId,
+    name,
+    address: `${name}, Boston, MA`,
+    location: { lat: 42.36, lng: -71.06 },
+    details: {
+      name,
+      formatted_address: `${name}, Boston, MA`,
+      place_id: placeId,
+      geometry: { location: { lat: 42.36, lng: -71.06 } },
+      ...details
+    },
+    alternatives: [],
+    scheduledTime
+  };
+}
+
+// Stands in for the Places search: every query finds a venue named after it
+async function findVenue(query: string): Promise<ItineraryStop> {
+  return makeStop(100, `Found ${query}`, new Date().toISOString(), { types: ['cafe'] });
+}
+
+async function testPlanRefinement() {
+  // Times are 10:00, 12:30 and 19:00 in Boston (EDT)
+  const stops = [
+    makeStop(1, "Museum of Fine Arts", '2025-06-14T14:00:00.000Z', { types: ['museum'] }),
+    makeStop(2, "Neptune Oyster", '2025-06-14T16:30:00.000Z', { activityDescription: 'lunch' }),
+    { ...makeStop(3, "Union Oyster House", '2025-06-14T23:00:00.000Z', { activityDescription: 'dinner' }), isFixed: true }
+  ];
+
+  console.log("===== TESTING PLAN REFINEMENT =====");
+
+  console.log("\n📝 Testing plan description");
+  const description = describeStops(stops);
+  console.log(description);
+  console.log(`Local days, times and fixed marker shown: ${description.includes('0: Sat 2025-06-14 10:00 - Museum of Fine Arts (museum)') && description.includes('19:00 - Union Oyster House (dinner) [fixed time]') ? "✅" : "❌"}`);
+
+  console.log("\n🧾 Testing diff validation");
+  const valid = PlanDiffSchema.safeParse({ operations: [{ op: 'remove', stop: 0 }], summary: 'Skip the museum' });
+  const invalid = PlanDiffSchema.safeParse({ operations: [{ op: 'teleport', stop: 0 }], summary: '' });
+  console.log(`Valid diff accepted: ${valid.success ? "✅" : "❌"}`);
+  console.log(`Unknown operation rejected: ${!invalid.success ? "✅" : "❌"}`);
+
+  console.log("\n🌙 Testing \"make dinner later\"");
+  const later: PlanDiff = { operations: [{ op: 'retime', stop: 2, time: '20:30' }], summary: 'Moved dinner to 8:30pm' };
+  const laterResult = await applyPlanDiff(stops, later, findVenue);
+  console.log(`Dinner now at ${laterResult.stops[2].scheduledTime} ${laterResult.stops[2].scheduledTime === '2025-06-15T00:30:00.000Z' ? "✅" : "❌"}`);
+  console.log(`Changed index reported: ${JSON.stringify(laterResult.changedIndices)} ${JSON.stringify(laterResult.changedIndices) === '[2]' ? "✅" : "❌"}`);
+
+  console.log("\n🌳 Testing \"replace the museum with a park\"");
+  const replace: PlanDiff = { operations: [{ op: 'replace', stop: 0, query: 'park' }], summary: 'Swapped the museum for a park' };
+  const replaceResult = await applyPlanDiff(stops, replace, findVenue);
+  console.log(`First stop: ${replaceResult.stops[0].name} ${replaceResult.stops[0].name === 'Found park' ? "✅" : "❌"}`);
+  console.log(`Keeps the museum's time slot: ${replaceResult.stops[0].scheduledTime === stops[0].scheduledTime ? "✅" : "❌"}`);
+
+  console.log("\n☕ Testing \"add coffee after lunch\"");
+  const add: PlanDiff = { operations: [{ op: 'add', query: 'coffee shop', after: 1 }], summary: 'Added coffee after lunch' };
+  const addResult = await applyPlanDiff(stops, add, findVenue);
+  console.log(`Order: ${addResult.stops.map(stop => stop.name).join(' → ')}`);
+  console.log(`Coffee follows lunch: ${addResult.stops[2].name === 'Found coffee shop' ? "✅" : "❌"}`);
+
+  console.log("\n🔗 Testing indices stay tied to the original plan");
+  const combined: PlanDiff = {
+    operations: [
+      { op: 'remove', stop: 0 },
+      { op: 'retime', stop: 1, time: '13:00' }
+    ],
+    summary: 'Skipped the museum and pushed lunch back'
+  };
+  const combinedResult = await applyPlanDiff(stops, combined, findVenue);
+  const lunch = combinedResult.stops.find(stop => stop.name === "Neptune Oyster");
+  console.log(`Lunch retimed after the museum was removed: ${combinedResult.stops.length === 2 && lunch?.scheduledTime === '2025-06-14T17:00:00.000Z' ? "✅" : "❌"}`);
+
+  console.log("\n📅 Testing a trip over two days");
+  // Saturday as above, then brunch at 11:00 and a walk at 14:00 on Sunday
+  const trip = [
+    ...stops.map(stop => ({ ...stop, day: 0 })),
+    { ...makeStop(4, "Tatte Bakery", '2025-06-15T15:00:00.000Z', { activityDescription: 'brunch' }), day: 1 },
+    { ...makeStop(5, "Public Garden", '2025-06-15T18:00:00.000Z', { types: ['park'] }), day: 1 }
+  ];
+  console.log(`Each stop's day shown: ${describeStops(trip).includes('3: Sun 2025-06-15 11:00 - Tatte Bakery (brunch)') ? "✅" : "❌"}`);
+
+  const sundayBrunch: PlanDiff = { operations: [{ op: 'retime', stop: 3, time: '12:00' }], summary: 'Moved brunch to noon' };
+  const brunch = (await applyPlanDiff(trip, sundayBrunch, findVenue)).stops.find(stop => stop.name === 'Tatte Bakery');
+  console.log(`Retimed brunch stays on Sunday: ${brunch?.scheduledTime} ${brunch?.scheduledTime === '2025-06-15T16:00:00.000Z' ? "✅" : "❌"}`);
+
+  const sundayAdds: PlanDiff = {
+    operations: [
+      { op: 'add', query: 'ice cream', time: '15:30', day: '2025-06-15' },
+      { op: 'add', query: 'bookshop', day: '2025-06-15' },
+      { op: 'add', query: 'coffee', time: '16:00', after: 3 }
+    ],
+    summary: 'Added ice cream, a bookshop and coffee on Sunday'
+  };
+  const added = (await applyPlanDiff(trip, sundayAdds, findVenue)).stops;
+  const timeOf = (name: string) => added.find(stop => stop.name === name)?.scheduledTime;
+  console.log(`Added at a time on the given day: ${timeOf('Found ice cream')} ${timeOf('Found ice cream') === '2025-06-15T19:30:00.000Z' ? "✅" : "❌"}`);
+  console.log(`Added without a time after that day's last stop: ${timeOf('Found bookshop')} ${timeOf('Found bookshop') === '2025-06-15T20:30:00.000Z' ? "✅" : "❌"}`);
+  console.log(`Added after a Sunday stop lands on Sunday: ${timeOf('Found coffee')} ${timeOf('Found coffee') === '2025-06-15T20:00:00.000Z' ? "✅" : "❌"}`);
+  console.log(`Malformed day rejected: ${!PlanDiffSchema.safeParse({ operations: [{ op: 'add', query: 'tea', day: 'Sunday' }], summary: '' }).success ? "✅" : "❌"}`);
+
+  console.log("\n🤖 Testing instructions sent to the model");
+  setLlmProviders([createScriptedProvider({
+    'make dinner later': [
+      { operations: [{ op: 'retime', stop: 2 }], summary: 'Moved dinner' },
+      { operations: [{ op: 'retime', stop: 2, time: '20:30' }], summary: 'Moved dinner to 8:30pm' }
+    ],
+    'teleport me': 'not json'
+  })]);
+  const interpreted = await interpretRefinement('make dinner later', stops, 'refinement-test');
+  console.log(`Diff missing its time repaired: ${JSON.stringify(interpreted.operations)} ${interpreted.operations[0].op === 'retime' && interpreted.operations[0].time === '20:30' ? "✅" : "❌"}`);
+
+  const statusOf = (instruction: string) => interpretRefinement(instruction, stops, 'refinement-test')
+    .then(() => 'ok', error => error instanceof ItineraryEditError ? String(error.status) : String(error));
+  const unusable = await statusOf('teleport me');
+  console.log(`Unusable replies rejected: ${unusable} ${unusable === '422' ? "✅" : "❌"}`);
+  setLlmProviders([]);
+  const unconfigured = await statusOf('make dinner later');
+  console.log(`No model configured: ${unconfigured} ${unconfigured === '503' ? "✅" : "❌"}`);
+  setLlmProviders(null);
+}
+
+// Run the tests
+testPlanRefinement();
@@ -0,0 +1,117 @@
+/**
+ * Test file for streaming plan progress
+ * POSTs to /api/plan/stream through express.json, as the app does, checks every event arrives in
+ * order, then opens the saved plan again; the model, Google and the database are stood in for
+ */
+
+import express from 'express';
+import type { AddressInfo } from 'net';
+
+process.env.GOOGLE_PLACES_API_KEY = 'test-key-not-real';
+process.env.API_PROVIDER_MODE = 'live';
+
+function check(label: string, actual: string, expected: string) {
+  console.log(`${label}: ${actual} ${actual === expected ? "✅" : `❌ (expected ${expected})`}`);
+}
+
+const QUERY = 'Coffee in Downtown at 10am, then lunch in the North End at 1pm';
+
+// Stands in for Google: searches find one cafe, places geocode downtown and every trip takes ten minutes
+function stubGoogle(liveFetch: typeof fetch): typeof fetch {
+  return (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = input.toString();
+    if (!url.includes('googleapis.com')) return liveFetch(input, init);
+
+    const place = {
+      place_id: 'cup',
+      name: 'Thinking Cup',
+      formatted_address: 'Thinking Cup, Boston, MA',
+      geometry: { location: { lat: 42.352, lng: -71.062 } },
+      types: ['cafe', 'restaurant'],
+      rating: 4.5,
+      price_level: 1,
+      business_status: 'OPERATIONAL'
+    };
+    let body: unknown;
+    if (url.includes('/directions/')) {
+      body = { status: 'OK', routes: [{ legs: [{ duration: { value: 600 }, distance: { value: 800 }, steps: [] }] }] };
+    } else if (url.includes('/details/')) {
+      body = { status: 'OK', result: place };
+    } else if (url.includes('/geocode/')) {
+      body = { status: 'OK', results: [{ formatted_address: 'Downtown, Boston, MA', geometry: { location: { lat: 42.355, lng: -71.06 } }, address_components: [] }] };
+    } else {
+      body = { status: 'OK', results: [place] };
+    }
+    return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+  }) as typeof fetch;
+}
+
+async function testPlanStream() {
+  const { registerRoutes } = await import('./routes');
+  const { storage, MemStorage } = await import('./storage');
+  const { createScriptedProvider, setLlmProviders } = await import('./lib/llmProviders');
+
+  const memory = new MemStorage();
+  Object.assign(storage, {
+    createPlace: memory.createPlace.bind(memory),
+    createItinerary: memory.createItinerary.bind(memory),
+    getItinerary: memory.getItinerary.bind(memory)
+  });
+  setLlmProviders([createScriptedProvider({
+    [QUERY]: {
+      fixedTimeEntries: [
+        { time: '10:00', activity: 'Coffee', location: 'Downtown', searchParameters: { venueType: 'cafe' } },
+        { time: '13:00', activity: 'Lunch', location: 'North End', searchParameters: { venueType: 'restaurant' } }
+      ]
+    }
+  })]);
+  const liveFetch = globalThis.fetch;
+  globalThis.fetch = stubGoogle(liveFetch);
+
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    (req as any).session = {};
+    next();
+  });
+  const server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    const post = (body: unknown) => liveFetch(`http://127.0.0.1:${port}/api/plan/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+
+    console.log("--- Testing Stream Events ---");
+    const response = await post({ query: QUERY, date: '2026-06-12' });
+    check("Streamed as events", String(response.headers.get('content-type')), 'text/event-stream');
+    const text = await response.text();
+    const events = text.split('\n\n').filter(Boolean).map(block => block.match(/^event: (\w+)/)?.[1]);
+    check("Parsed first, done last", `${events[0]} ... ${events[events.length - 1]}`, 'parsed ... done');
+    check("A venue per stop", String(events.filter(event => event === 'venue').length), '2');
+    check("Travel between them", String(events.includes('travel')), 'true');
+    check("No error", String(events.includes('error')), 'false');
+
+    const done = JSON.parse(text.split('event: done\ndata: ')[1]);
+    check("Saved itinerary sent", `${typeof done.id} ${done.places.length}`, 'number 2');
+
+    console.log("\n--- Testing Reopened Itinerary ---");
+    const reopened = await (await liveFetch(`http://127.0.0.1:${port}/api/itinerary/${done.id}`)).json();
+    check("Cost estimate sent again", `${reopened.costEstimate?.currency} ${reopened.costEstimate?.total}`, 'USD 30');
+
+    console.log("\n--- Testing Invalid Requests ---");
+    const invalid = await post({});
+    check("Rejected before streaming", String(invalid.status), '400');
+  } finally {
+    globalThis.fetch = liveFetch;
+    setLlmProviders(null);
+    server.close();
+  }
+}
+
+testPlanStream()
+  .catch(console.error)
+  .finally(() => process.exit());
@@ -0,0 +1,54 @@
+/**
+ * Test file for saved preference profiles
+ * This tests that the request wins over the saved profile, that needs from both are kept,
+ * and that the merged preferences end up in venue search options
+ */
+
+import { mergePreferences, applyPreferencesToSearch } from './lib/preferences';
+import { preferenceProfileSchema } from '@shared/schema';
+import { MemStorage } from './storage';
+
+function check(label: string, actual: string, expected: string) {
+  console.log(`${label}: ${actual} ${actual === expected ? "✅" : `❌ (expected ${expected})`}`);
+}
+
+async function testPreferences() {
+  const profile = preferenceProfileSchema.parse({
+    dietary: ['vegetarian'],
+    budget: 'budget',
+    pace: 'relaxed',
+    accessibility: ['wheelchair accessible'],
+    cuisine: ['thai'],
+    dislikedVenueTypes: ['night_club'],
+    minRating: 4.5
+  });
+
+  console.log("--- Testing Merge ---");
+  const merged = mergePreferences({ budget: 'expensive', cuisine: ['italian'], dietary: ['Vegetarian', 'nut free'] }, profile);
+  check("Request budget wins", String(merged.budget), 'expensive');
+  check("Request cuisine wins", String(merged.cuisine), 'italian');
+  check("Saved pace fills in", String(merged.pace), 'relaxed');
+  check("Dietary needs from both, without duplicates", String(merged.dietary), 'Vegetarian,nut free');
+  check("Saved accessibility kept", String(merged.accessibility), 'wheelchair accessible');
+  check("No profile leaves the request alone", String(mergePreferences({ pace: 'busy' }, undefined).pace), 'busy');
+
+  console.log("\n--- Testing Search Options ---");
+  const lunch = applyPreferencesToSearch({ type: 'restaurant', keywords: ['lunch'], minRating: 4.0 }, merged);
+  check("Higher saved rating used", String(lunch.minRating), '4.5');
+  check("Budget becomes the price level", String(lunch.priceLevel), 'expensive');
+  check("Disliked types excluded", String(lunch.excludeTypes), 'night_club');
+  check("Food search gets dietary and cuisine keywords",
+    String(lunch.keywords), 'lunch,Vegetarian,nut free,italian,wheelchair accessible');
+  const museum = applyPreferencesToSearch({ type: 'museum', keywords: [], priceLevel: 'budget' }, merged);
+  check("Non-food search gets only accessibility", String(museum.keywords), 'wheelchair accessible');
+  check("Activity's own price level kept", String(museum.priceLevel), 'budget');
+
+  console.log("\n--- Testing Memory Storage ---");
+  const storage = new MemStorage();
+  check("No saved profile", String(await storage.getUserPreferences('user-1')), 'undefined');
+  await storage.saveUserPreferences('user-1', profile);
+  check("Profile saved", String((await storage.getUserPreferences('user-1'))?.budget), 'budget');
+  check("Invalid profile rejected", String(preferenceProfileSchema.safeParse({ pace: 'frantic' }).success), 'false');
+}
+
+testPreferences().catch(console.error);
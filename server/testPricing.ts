@@ -0,0 +1,57 @@
+/**
+ * Test file for price levels and cost estimates
+ * This tests that venues within a budget are picked first, that venues outside it are only
+ * used when nothing else was found, and the per-stop and total cost estimates
+ */
+
+import { preferPriceLevel, isWithinPriceLevel, estimateStopCost, estimateItineraryCost } from './lib/pricing';
+import { getCityPack } from './lib/cityPacks';
+
+function check(label: string, actual: string, expected: string) {
+  console.log(`${label}: ${actual} ${actual === expected ? "✅" : `❌ (expected ${expected})`}`);
+}
+
+function testPricing() {
+  const venues = [
+    { name: 'Steakhouse', price_level: 4 },
+    { name: 'Diner', price_level: 1 },
+    { name: 'Food Truck' },
+    { name: 'Bistro', price_level: 2 }
+  ];
+  const names = (list: Array<{ name: string }>) => list.map(venue => venue.name).join(',');
+
+  console.log("--- Testing Price Levels ---");
+  check("Cheap venue fits a budget", String(isWithinPriceLevel(1, 'budget')), 'true');
+  check("Pricey venue doesn't fit moderate", String(isWithinPriceLevel(3, 'moderate')), 'false');
+  check("Unknown price level", String(isWithinPriceLevel(undefined, 'budget')), 'undefined');
+  check("Budget: fitting first, then unknown", names(preferPriceLevel(venues, 'budget')), 'Diner,Food Truck');
+  check("Moderate keeps relevance order", names(preferPriceLevel(venues, 'moderate')), 'Diner,Bistro,Food Truck');
+  check("Expensive", names(preferPriceLevel(venues, 'expensive')), 'Steakhouse,Food Truck');
+  check("Nothing fits: keep everything", names(preferPriceLevel([{ name: 'Steakhouse', price_level: 4 }], 'budget')), 'Steakhouse');
+
+  console.log("\n--- Testing Cost Estimates ---");
+  check("Restaurant from price level", String(estimateStopCost('Bistro', { price_level: 2, types: ['restaurant'] }).amount), '35');
+  check("Museum from typical admission", JSON.stringify(estimateStopCost('MFA', { types: ['museum', 'point_of_interest'] })),
+    '{"name":"MFA","amount":20,"basis":"admission"}');
+  check("Park is free", String(estimateStopCost('Common', { types: ['park'] }).amount), '0');
+  check("Shop is unknown", String(estimateStopCost('Shop', { types: ['store'] }).amount), 'null');
+
+  const estimate = estimateItineraryCost([
+    { name: 'Cafe', details: { price_level: 1, types: ['cafe'] } },
+    { name: 'MFA', details: { types: ['museum'] } },
+    { name: 'Shop', details: { types: ['store'] } },
+    { name: 'Bistro', details: { price_level: 2 } }
+  ], getCityPack('boston'));
+  check("Total leaves out unknown stops", String(estimate.total), '70');
+  check("One estimate per stop", String(estimate.stops.length), '4');
+  check("City currency", estimate.currency, 'USD');
+
+  const london = estimateItineraryCost([
+    { name: 'Bistro', details: { price_level: 2 } },
+    { name: 'British Museum', details: { types: ['museum'] } }
+  ], getCityPack('london'));
+  check("London prices in pounds", `${london.currency} ${london.stops.map(stop => stop.amount).join(',')}`, 'GBP 32,18');
+  check("Scaled amounts rounded", String(estimateStopCost('Cafe', { price_level: 1 }, 1.2).amount), '18');
+}
+
+testPricing();
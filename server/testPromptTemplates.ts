@@ -0,0 +1,76 @@
+/**
+ * Test file for prompt templates
+ * This tests filling in a template for a city, routing a share of sessions to a candidate
+ * version, and the per-version comparison shown in the admin statistics
+ */
+
+import {
+  PROMPT_TEMPLATES,
+  getPromptTemplate,
+  selectPromptTemplate,
+  renderPrompt,
+  promptVersionId,
+  comparePromptVersions
+} from './lib/promptTemplates';
+
+function check(label: string, actual: string, expected: string) {
+  console.log(`${label}: ${actual} ${actual === expected ? "✅" : `❌ (expected ${expected})`}`);
+}
+
+function testPromptTemplates() {
+  const current = getPromptTemplate('parse-request', 'v1')!;
+
+  console.log("--- Testing Rendering ---");
+  const prompt = renderPrompt(current, {
+    city: 'London',
+    defaultArea: 'Central London',
+    exampleAreas: "'Soho', 'Camden'",
+    query: 'Tea at the Ritz at 4pm'
+  });
+  check("City injected", String(prompt.startsWith('You are a travel planning assistant for London.')), 'true');
+  check("Rules numbered", String(prompt.includes('\n16. MULTI-DAY TRIPS')), 'true');
+  check("Rules get the city too", String(prompt.includes("use the exact string 'Central London'")), 'true');
+  check("Query at the end", String(prompt.endsWith('Tea at the Ritz at 4pm')), 'true');
+  check("No placeholders left", String(prompt.includes('{{')), 'false');
+  check("No other city mentioned", String(/NYC|Boston/.test(prompt)), 'false');
+  let missing = '';
+  try {
+    renderPrompt(current, { city: 'London' });
+  } catch (error) {
+    missing = (error as Error).message;
+  }
+  check("Missing value rejected", missing, 'No value for {{exampleAreas}} in prompt parse-request@v1');
+
+  console.log("\n--- Testing Version Selection ---");
+  PROMPT_TEMPLATES.push({ ...current, version: 'test-candidate' });
+  const sessions = Array.from({ length: 200 }, (_, index) => `session-${index}`);
+  const candidateShare = (fraction: string) => {
+    process.env.PROMPT_CANDIDATE_FRACTION = fraction;
+    return sessions.filter(session => selectPromptTemplate('parse-request', session).version === 'test-candidate').length;
+  };
+
+  check("No candidate configured", promptVersionId(selectPromptTemplate('parse-request', 'session-1')), 'parse-request@v1');
+  process.env.PROMPT_CANDIDATE = 'parse-request@test-candidate';
+  check("Fraction 0 keeps everyone on current", String(candidateShare('0')), '0');
+  check("Fraction 1 sends everyone to the candidate", String(candidateShare('1')), '200');
+  const quarter = candidateShare('0.25');
+  check("Fraction 0.25 sends about a quarter", String(quarter > 30 && quarter < 70), 'true');
+  check("A session keeps its version",
+    String(selectPromptTemplate('parse-request', 'session-7').version === selectPromptTemplate('parse-request', 'session-7').version), 'true');
+  process.env.PROMPT_CANDIDATE = 'parse-request@v9';
+  check("Unknown candidate falls back to current", String(candidateShare('1')), '0');
+  delete process.env.PROMPT_CANDIDATE;
+  delete process.env.PROMPT_CANDIDATE_FRACTION;
+
+  console.log("\n--- Testing Comparison ---");
+  const [stats] = comparePromptVersions([
+    { promptVersion: 'parse-request@v1', attempts: 8, successes: 6, validationFailures: 2, averageLatencyMs: 1200 }
+  ]);
+  check("Success rate", String(stats.successRate), '0.75');
+  check("Validation failure rate", String(stats.validationFailureRate), '0.25');
+  check("No attempts", String(comparePromptVersions([
+    { promptVersion: 'parse-request@v2', attempts: 0, successes: 0, validationFailures: 0, averageLatencyMs: null }
+  ])[0].successRate), '0');
+}
+
+testPromptTemplates();
@@ -0,0 +1,81 @@
+/**
+ * Test file for the routing subsystem
+ * Uses the deterministic local provider so it runs without API keys
+ */
+
+import {
+  LocalRoutingProvider,
+  setRoutingProvider,
+  getRoutes,
+  mapTransportPreferences,
+  selectPreferredLeg,
+  encodePolyline
+} from './lib/routing';
+import { calculateTravelTime } from './lib/itinerary';
+import { PlaceDetails } from '@shared/schema';
+
+function makePlace(name: string, lat: number, lng: number): PlaceDetails {
+  return {
+    name,
+    formatted_address: `${name}, Boston, MA`,
+    place_id: name.toLowerCase().replace(/\s+/g, '-'),
+    geometry: { location: { lat, lng } }
+  };
+}
+
+async function testRouting() {
+  setRoutingProvider(new LocalRoutingProvider());
+
+  const faneuilHall = makePlace("Faneuil Hall", 42.3600, -71.0568);
+  const quincyMarket = makePlace("Quincy Market", 42.3601, -71.0549);
+  const fenwayPark = makePlace("Fenway Park", 42.3467, -71.0972);
+
+  console.log("===== TESTING ROUTING =====");
+
+  // Polyline encoding should match Google's reference example
+  console.log("\n🗺️ Testing polyline encoding");
+  const encoded = encodePolyline([
+    { lat: 38.5, lng: -120.2 },
+    { lat: 40.7, lng: -120.95 },
+    { lat: 43.252, lng: -126.453 }
+  ]);
+  console.log(`Encoded: ${encoded} ${encoded === '_p~iF~ps|U_ulLnnqC_mqNvxq`@' ? "✅" : "❌"}`);
+
+  // Every mode should be returned for a longer leg
+  console.log("\n🚇 Testing multi-modal legs (Faneuil Hall → Fenway Park)");
+  const legs = await getRoutes(faneuilHall.geometry.location, fenwayPark.geometry.location);
+  for (const leg of legs) {
+    console.log(`  ${leg.mode}: ${leg.durationMinutes} min, ${leg.distanceMeters} m (${leg.provider})`);
+  }
+  console.log(`All four modes returned: ${legs.length === 4 ? "✅" : "❌"}`);
+
+  // Short hops should skip transit entirely
+  console.log("\n🚶 Testing short hop (Faneuil Hall → Quincy Market)");
+  const shortLegs = await getRoutes(faneuilHall.geometry.location, quincyMarket.geometry.location);
+  console.log(`Transit skipped for short hop: ${!shortLegs.some(leg => leg.mode === 'transit') ? "✅" : "❌"}`);
+
+  // Preference mapping from Gemini's transportMode values
+  console.log("\n🚕 Testing transport preference mapping");
+  const mapped = mapTransportPreferences(["tube", "bus", "taxi"]);
+  console.log(`["tube", "bus", "taxi"] → ${JSON.stringify(mapped)} ${JSON.stringify(mapped) === '["transit","driving"]' ? "✅" : "❌"}`);
+
+  // Leg selection
+  console.log("\n⚖️ Testing leg selection");
+  const walkingOnly = selectPreferredLeg(legs, ['walking']);
+  console.log(`Preferred walking → ${walkingOnly?.mode} ${walkingOnly?.mode === 'walking' ? "✅" : "❌"}`);
+  const noPreference = selectPreferredLeg(shortLegs);
+  console.log(`Short hop without preference → ${noPreference?.mode} ${noPreference?.mode === 'walking' ? "✅" : "❌"}`);
+
+  // calculateTravelTime end to end
+  console.log("\n⏱️ Testing calculateTravelTime");
+  const result = await calculateTravelTime(faneuilHall, fenwayPark, { preferredModes: ['cycling'] });
+  console.log(`Cycling to Fenway: ${result.duration} min via ${result.mode} ${result.mode === 'cycling' ? "✅" : "❌"}`);
+
+  const missing = await calculateTravelTime(faneuilHall, { ...fenwayPark, geometry: undefined as any });
+  console.log(`Missing geometry falls back to ${missing.duration} min ${missing.duration === 30 ? "✅" : "❌"}`);
+
+  setRoutingProvider(null);
+}
+
+// Run the tests
+testRouting();
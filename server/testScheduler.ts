@@ -0,0 +1,81 @@
+/**
+ * Test file for the duration-aware scheduler
+ * Checks typical durations, shifting of flexible entries and conflict warnings
+ */
+
+import { getTypicalDuration, getVisitDuration, resolveSchedule, DEFAULT_VISIT_MINUTES } from './lib/scheduler';
+
+function at(time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date('2025-06-14T00:00:00');
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+}
+
+function hhmm(date: Date): string {
+  return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+}
+
+function testScheduler() {
+  console.log("===== TESTING SCHEDULER =====");
+
+  // Typical durations
+  console.log("\n⏳ Testing typical durations");
+  const durationTests = [
+    { types: ['cafe', 'food'], activity: undefined, expected: 45 },
+    { types: ['museum', 'point_of_interest'], activity: undefined, expected: 120 },
+    { types: ['point_of_interest'], activity: 'dinner', expected: 90 },
+    { types: undefined, activity: undefined, expected: DEFAULT_VISIT_MINUTES }
+  ];
+  for (const test of durationTests) {
+    const result = getTypicalDuration(test.types, test.activity);
+    console.log(`${JSON.stringify(test.types)} / ${test.activity}: ${result} min ${result === test.expected ? "✅" : "❌"}`);
+  }
+
+  // A duration chosen when the stop was added, e.g. to fit a gap, wins over the typical one
+  const planned = getVisitDuration({ types: ['museum'], plannedDurationMinutes: 75 });
+  console.log(`Planned museum visit: ${planned} min ${planned === 75 ? "✅" : "❌"}`);
+  const typical = getVisitDuration({ types: ['museum'] });
+  console.log(`Museum visit without a plan: ${typical} min ${typical === 120 ? "✅" : "❌"}`);
+
+  // Flexible entries move later when the previous visit runs over
+  console.log("\n➡️ Testing flexible entry shift");
+  const shifted = resolveSchedule([
+    { name: "Museum of Fine Arts", time: at('10:00'), isFixed: true, durationMinutes: 120 },
+    { name: "Tatte Bakery", time: at('11:00'), isFixed: false, durationMinutes: 45, travelMinutes: 15 }
+  ]);
+  const bakery = shifted.items[1];
+  console.log(`Tatte starts at ${hhmm(bakery.startTime)} ${hhmm(bakery.startTime) === '12:15' ? "✅" : "❌"}`);
+  console.log(`Warning type: ${shifted.warnings[0]?.type} ${shifted.warnings[0]?.type === 'shifted' ? "✅" : "❌"}`);
+
+  // Fixed entries shorten the previous visit when there is room to do so
+  console.log("\n✂️ Testing shortened visit");
+  const shortened = resolveSchedule([
+    { name: "Boston Common", time: at('14:00'), isFixed: true, durationMinutes: 60 },
+    { name: "Neptune Oyster", time: at('15:00'), isFixed: true, durationMinutes: 90, travelMinutes: 15 }
+  ]);
+  console.log(`Boston Common now ${shortened.items[0].durationMinutes} min ${shortened.items[0].durationMinutes === 45 ? "✅" : "❌"}`);
+  console.log(`Warning type: ${shortened.warnings[0]?.type} ${shortened.warnings[0]?.type === 'shortened' ? "✅" : "❌"}`);
+
+  // Fixed entries that can't be reconciled produce an explicit conflict
+  console.log("\n⚠️ Testing unresolvable conflict");
+  const conflict = resolveSchedule([
+    { name: "Fenway Park", time: at('13:00'), isFixed: true, durationMinutes: 180 },
+    { name: "Legal Sea Foods", time: at('14:00'), isFixed: true, durationMinutes: 90, travelMinutes: 20 }
+  ]);
+  const warning = conflict.warnings[0];
+  console.log(`Warning: ${warning?.message}`);
+  console.log(`Conflict reported: ${warning?.type === 'conflict' ? "✅" : "❌"}`);
+  console.log(`Fixed time kept: ${hhmm(conflict.items[1].startTime) === '14:00' ? "✅" : "❌"}`);
+
+  // Feasible schedules are left alone
+  console.log("\n👌 Testing feasible schedule");
+  const feasible = resolveSchedule([
+    { name: "Thinking Cup", time: at('09:00'), isFixed: true, durationMinutes: 45 },
+    { name: "Isabella Stewart Gardner Museum", time: at('11:00'), isFixed: true, durationMinutes: 120, travelMinutes: 25 }
+  ]);
+  console.log(`No warnings: ${feasible.warnings.length === 0 ? "✅" : "❌"}`);
+}
+
+// Run the tests
+testScheduler();
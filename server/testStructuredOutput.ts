@@ -0,0 +1,73 @@
+/**
+ * Test file for structured output
+ * This tests converting the request schema for providers' structured output, and that replies
+ * which don't match it are sent back with the problems found instead of simply retried
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema, describeZodIssues, buildRepairPrompt } from './lib/structuredOutput';
+import { createScriptedProvider, setLlmProviders, type LlmProvider, type LlmRequest } from './lib/llmProviders';
+import { processWithGemini } from './lib/geminiProcessor';
+
+function check(label: string, actual: string, expected: string) {
+  console.log(`${label}: ${actual} ${actual === expected ? "✅" : `❌ (expected ${expected})`}`);
+}
+
+async function testStructuredOutput() {
+  console.log("--- Testing Schema Conversion ---");
+  const schema = z.object({
+    time: z.string().describe("Start time"),
+    count: z.number().int().optional(),
+    pace: z.enum(['relaxed', 'busy']).optional().describe("Pace"),
+    tags: z.array(z.string()).optional()
+  });
+  const json = zodToJsonSchema(schema);
+  check("Object properties", Object.keys(json.properties || {}).join(','), 'time,count,pace,tags');
+  check("Only required fields listed", String(json.required), 'time');
+  check("Descriptions kept", String(json.properties?.time.description), 'Start time');
+  check("Integers", String(json.properties?.count.type), 'integer');
+  check("Enums", JSON.stringify(json.properties?.pace), '{"type":"string","enum":["relaxed","busy"],"description":"Pace"}');
+  check("Arrays", JSON.stringify(json.properties?.tags), '{"type":"array","items":{"type":"string"}}');
+
+  console.log("\n--- Testing Repair Prompts ---");
+  const result = schema.safeParse({ pace: 'frantic' });
+  const problems = result.success ? [] : describeZodIssues(result.error);
+  check("Problems by path", problems[0], 'time: Required');
+  check("Enum problem", String(problems[1]?.startsWith('pace: Invalid enum value')), 'true');
+  const repairPrompt = buildRepairPrompt('Original prompt', '{"pace":"frantic"}', problems);
+  check("Repair prompt starts from the original", String(repairPrompt.startsWith('Original prompt')), 'true');
+  check("Repair prompt quotes the reply", String(repairPrompt.includes('{"pace":"frantic"}')), 'true');
+  check("Repair prompt lists problems", String(repairPrompt.includes('- time: Required')), 'true');
+
+  console.log("\n--- Testing Repairs ---");
+  const query = 'Coffee in Back Bay at 9';
+  const requests: LlmRequest[] = [];
+  const scripted = createScriptedProvider({
+    [query]: [
+      { fixedTimeEntries: [{ time: '09:00', activity: 'Coffee' }] },
+      { fixedTimeEntries: [{ time: '09:00', activity: 'Coffee', location: 'Back Bay' }] }
+    ]
+  });
+  const recording: LlmProvider = {
+    ...scripted,
+    generate: (request) => {
+      requests.push(request);
+      return scripted.generate(request);
+    }
+  };
+
+  setLlmProviders([recording]);
+  const parsed = await processWithGemini(query);
+  check("Repaired reply used", String(parsed?.fixedTimeEntries[0]?.location), 'Back Bay');
+  check("Two requests", String(requests.length), '2');
+  check("Schema sent with the request", String(requests[0].responseFormat?.schema.required), 'fixedTimeEntries');
+  check("Repair names the missing field", String(requests[1].prompt.includes('fixedTimeEntries.0.location: Required')), 'true');
+
+  requests.length = 0;
+  setLlmProviders([{ ...recording, generate: (request) => { requests.push(request); return Promise.resolve({ text: '{}', model: 'broken' }); } }]);
+  check("Gives up after the repair attempts", String(await processWithGemini(query)), 'null');
+  check("One request and two repairs", String(requests.length), '3');
+  setLlmProviders(null);
+}
+
+testStructuredOutput().catch(console.error);
@@ -0,0 +1,143 @@
+/**
+ * Test file for the alternatives a planned stop can be swapped to
+ * Plans a day through POST /api/plan while the venue's place record already holds alternatives
+ * from an earlier, unrelated search, then swaps through the itinerary routes; the model, Google
+ * and the database are stood in for
+ */
+
+import express from 'express';
+import type { AddressInfo } from 'net';
+
+process.env.GOOGLE_PLACES_API_KEY = 'test-key-not-real';
+process.env.API_PROVIDER_MODE = 'live';
+
+function check(label: string, actual: string, expected: string) {
+  console.log(`${label}: ${actual} ${actual === expected ? "✅" : `❌ (expected ${expected})`}`);
+}
+
+const QUERY = 'Coffee downtown at 10am';
+const USER_ID = 'planner-1';
+
+function makePlace(place_id: string, name: string, lat: number, lng: number) {
+  return {
+    place_id,
+    name,
+    formatted_address: `${name}, Boston, MA`,
+    geometry: { location: { lat, lng } },
+    types: ['cafe'],
+    rating: 4.6,
+    business_status: 'OPERATIONAL'
+  };
+}
+
+const CAFES = [
+  makePlace('cup', 'Thinking Cup', 42.3520, -71.0620),
+  makePlace('tatte', 'Tatte', 42.3522, -71.0618),
+  makePlace('blue-bottle', 'Blue Bottle', 42.3518, -71.0622)
+];
+// Left on the Thinking Cup record by a search in another part of town
+const STALE_ALTERNATIVE = makePlace('far-cafe', 'Far Away Cafe', 42.3300, -71.1200);
+
+// Stands in for Google: searches find the three cafes, details are looked up by place_id
+function stubGoogle(liveFetch: typeof fetch): typeof fetch {
+  return (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = input.toString();
+    if (!url.includes('googleapis.com')) return liveFetch(input, init);
+
+    let body: unknown;
+    if (url.includes('/directions/')) {
+      body = { status: 'OK', routes: [{ legs: [{ duration: { value: 300 }, distance: { value: 300 }, steps: [] }] }] };
+    } else if (url.includes('/details/')) {
+      const placeId = new URL(url).searchParams.get('place_id');
+      body = { status: 'OK', result: CAFES.find(cafe => cafe.place_id === placeId) ?? CAFES[0] };
+    } else if (url.includes('/geocode/')) {
+      body = { status: 'OK', results: [{ formatted_address: 'Downtown, Boston, MA', geometry: { location: { lat: 42.3520, lng: -71.0620 } }, address_components: [] }] };
+    } else {
+      body = { status: 'OK', results: CAFES };
+    }
+    return new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json' } });
+  }) as typeof fetch;
+}
+
+async function testSwapAlternatives() {
+  const { registerRoutes } = await import('./routes');
+  const { default: itinerariesRouter } = await import('./routes/itineraries');
+  const { storage, MemStorage } = await import('./storage');
+  const { createScriptedProvider, setLlmProviders } = await import('./lib/llmProviders');
+
+  const memory = new MemStorage();
+  for (const name of Object.getOwnPropertyNames(MemStorage.prototype)) {
+    const method = (memory as any)[name];
+    if (name !== 'constructor' && typeof method === 'function') {
+      Object.assign(storage, { [name]: method.bind(memory) });
+    }
+  }
+  // Like the database, hand back a venue's existing record rather than overwriting it
+  Object.assign(storage, {
+    createPlace: async (place: Parameters<typeof memory.createPlace>[0]) =>
+      (await memory.getPlaceByPlaceId(place.placeId)) ?? memory.createPlace(place)
+  });
+  await memory.createPlace({
+    placeId: 'cup',
+    name: 'Thinking Cup',
+    address: CAFES[0].formatted_address,
+    location: CAFES[0].geometry.location,
+    details: CAFES[0],
+    alternatives: [STALE_ALTERNATIVE],
+    scheduledTime: '2026-05-01T14:00:00.000Z'
+  });
+
+  setLlmProviders([createScriptedProvider({
+    [QUERY]: {
+      fixedTimeEntries: [
+        { time: '10:00', activity: 'Coffee', location: 'Downtown', searchParameters: { venueType: 'cafe' } }
+      ]
+    }
+  })]);
+  const liveFetch = globalThis.fetch;
+  globalThis.fetch = stubGoogle(liveFetch);
+
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    (req as any).session = { userId: USER_ID };
+    next();
+  });
+  app.use('/api/itineraries', itinerariesRouter);
+  const server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const post = async (path: string, body: unknown) => {
+    const response = await liveFetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify(body)
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  try {
+    console.log("--- Testing a Planned Stop's Alternatives ---");
+    const plan = await post('/api/plan', { query: QUERY, date: '2026-06-12' });
+    const stop = plan.body.places?.[0];
+    check("Planned venue", String(stop?.name), 'Thinking Cup');
+    check("Alternatives from this search", (stop?.alternatives || []).map((alt: any) => alt.name).join(', '), 'Tatte, Blue Bottle');
+
+    console.log("\n--- Testing Swapping ---");
+    const stale = await post(`/api/itineraries/${plan.body.id}/places/0/swap`, { alternativeId: 'far-cafe' });
+    check("Earlier search's alternative rejected", String(stale.status), '400');
+
+    const swapped = await post(`/api/itineraries/${plan.body.id}/places/0/swap`, { alternativeId: 'tatte' });
+    const newStop = swapped.body.places?.[0];
+    check("Swapped to an alternative", `${swapped.status} ${newStop?.name}`, '200 Tatte');
+    check("Old venue offered instead", (newStop?.alternatives || []).map((alt: any) => alt.name).join(', '), 'Thinking Cup, Blue Bottle');
+  } finally {
+    globalThis.fetch = liveFetch;
+    setLlmProviders(null);
+    server.close();
+  }
+}
+
+testSwapAlternatives()
+  .catch(console.error)
+  .finally(() => process.exit());
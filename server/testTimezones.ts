@@ -0,0 +1,59 @@
+/**
+ * Test file for per-itinerary timezone handling
+ * This tests that local times are placed on the plan's day in the itinerary's timezone,
+ * independent of the server's own timezone, including daylight saving transitions
+ */
+
+// Pretend the server runs in Boston so London results can't come from the local clock
+process.env.TZ = 'America/New_York';
+
+import {
+  zonedTimeToDate,
+  getDateInTimeZone,
+  formatISOInTimeZone,
+  timeStringToISOString,
+  addMinutesToTime,
+  getDayPart,
+  formatClockTime
+} from './lib/timeUtils';
+import { resolveStopTime } from './lib/itineraryEditing';
+import { getCityPack } from './lib/cityPacks';
+
+function check(label: string, actual: string, expected: string) {
+  console.log(`${label}: ${actual} ${actual === expected ? "✅" : `❌ (expected ${expected})`}`);
+}
+
+function testTimezones() {
+  const london = getCityPack('london').timezone;
+  const boston = getCityPack('boston').timezone;
+
+  console.log("--- Testing Local Times In The City ---");
+  check("London 19:00 in winter", zonedTimeToDate('2026-01-15', '19:00', london).toISOString(), '2026-01-15T19:00:00.000Z');
+  check("London 19:00 in summer", zonedTimeToDate('2026-07-15', '19:00', london).toISOString(), '2026-07-15T18:00:00.000Z');
+  check("Boston 7pm in summer", zonedTimeToDate('2026-07-15', '7pm', boston).toISOString(), '2026-07-15T23:00:00.000Z');
+  check("London late dinner stays on the plan's day", getDateInTimeZone(zonedTimeToDate('2026-07-15', '23:30', london), london), '2026-07-15');
+
+  console.log("\n--- Testing Daylight Saving Transitions ---");
+  const skipped = zonedTimeToDate('2026-03-08', '02:30', boston);
+  check("Boston 2:30am on spring-forward day moves to 3:30 EDT", formatISOInTimeZone(skipped.toISOString(), boston, 'HH:mm zzz'), '03:30 EDT');
+  const repeated = zonedTimeToDate('2026-11-01', '01:30', boston);
+  check("Boston 1:30am on fall-back day is the first one", formatISOInTimeZone(repeated.toISOString(), boston, 'HH:mm zzz'), '01:30 EDT');
+  const londonRepeated = zonedTimeToDate('2026-10-25', '01:30', london);
+  check("London 1:30am on fall-back day is the first one", londonRepeated.toISOString(), '2026-10-25T00:30:00.000Z');
+  check("London morning before and after the clocks change",
+    `${zonedTimeToDate('2026-03-28', '09:00', london).toISOString()} ${zonedTimeToDate('2026-03-29', '09:00', london).toISOString()}`,
+    '2026-03-28T09:00:00.000Z 2026-03-29T08:00:00.000Z');
+
+  console.log("\n--- Testing Display And Editing Helpers ---");
+  check("ISO shown in London", formatISOInTimeZone('2026-07-15T18:00:00.000Z', london), '7:00 PM');
+  check("Time string to ISO on a given day", timeStringToISOString('noon', london, '2026-12-01'), '2026-12-01T12:00:00.000Z');
+  check("Adding minutes keeps 24-hour format", addMinutesToTime('23:30', 45, london), '00:15');
+  check("Day part uses the city's clock", getDayPart(new Date('2026-07-15T18:00:00.000Z'), london), 'evening');
+  check("Clock time without a timezone", formatClockTime('18:30'), '6:30 PM');
+
+  const reference = new Date('2026-07-15T08:00:00.000Z'); // 9am in London
+  check("Retiming a London stop to 5:30pm", resolveStopTime('5:30pm', reference, london).toISOString(), '2026-07-15T16:30:00.000Z');
+  check("Retiming without a timezone uses Boston", resolveStopTime('5:30pm', new Date('2026-07-15T13:00:00.000Z')).toISOString(), '2026-07-15T21:30:00.000Z');
+}
+
+testTimezones();
@@ -0,0 +1,81 @@
+/**
+ * Test file for multi-day trip planning
+ * This tests that activities asked for on different days are grouped into the days of a trip,
+ * that edited stops land on the right day, and that each day gets its own weather summary
+ */
+
+import { resolveTripDay, groupByTripDay, assignTripDays, MAX_TRIP_DAYS } from './lib/tripDays';
+import { summarizeDayWeather } from './lib/weatherService';
+import type { ItineraryStop } from './lib/itineraryEditing';
+
+function check(label: string, actual: string, expected: string) {
+  console.log(`${label}: ${actual} ${actual === expected ? "✅" : `❌ (expected ${expected})`}`);
+}
+
+function testTripDays() {
+  // Friday 12 June 2026
+  const start = '2026-06-12';
+
+  console.log("--- Testing Day Resolution ---");
+  check("No day is the first day", resolveTripDay(undefined, start), '2026-06-12');
+  check("Tomorrow", resolveTripDay('tomorrow', start), '2026-06-13');
+  check("Day after tomorrow", resolveTripDay('the day after tomorrow', start), '2026-06-14');
+  check("Day 3", resolveTripDay('Day 3', start), '2026-06-14');
+  check("Saturday is the next Saturday", resolveTripDay('Saturday', start), '2026-06-13');
+  check("Friday is the first day itself", resolveTripDay('Friday', start), '2026-06-12');
+  check("Abbreviated weekday", resolveTripDay('sun morning', start), '2026-06-14');
+  check("ISO date", resolveTripDay('2026-06-15', start), '2026-06-15');
+  check("ISO date before the trip falls back to the first day", resolveTripDay('2026-06-01', start), '2026-06-12');
+  check("Unknown text falls back to the first day", resolveTripDay('whenever', start), '2026-06-12');
+
+  console.log("\n--- Testing Grouping Into Days ---");
+  const entries = [
+    { location: 'Back Bay', time: '19:00', day: 'Saturday' },
+    { location: 'North End', time: '10:00' },
+    { location: 'Seaport', time: '11:00', day: 'Sunday' },
+    { location: 'Fenway', time: '14:00', day: 'Saturday' }
+  ];
+  const days = groupByTripDay(entries, start);
+  check("Days in date order", days.map(day => day.date).join(' '), '2026-06-12 2026-06-13 2026-06-14');
+  check("Saturday keeps its activities in order", days[1].entries.map(entry => entry.location).join(', '), 'Back Bay, Fenway');
+  const singleDay: Array<{ location: string; day?: string }> = [{ location: 'Cambridge' }];
+  check("Single-day request is one day", groupByTripDay(singleDay, start).length.toString(), '1');
+  check("No activities is still one day", groupByTripDay([], start).map(day => day.date).join(' '), '2026-06-12');
+
+  let error = '';
+  try {
+    groupByTripDay([{ location: 'Salem', day: `day ${MAX_TRIP_DAYS + 1}` }], start);
+  } catch (e) {
+    error = (e as Error).message;
+  }
+  check("Trips longer than the limit are rejected", error, `Trips can span at most ${MAX_TRIP_DAYS} days`);
+
+  console.log("\n--- Testing Edited Stops ---");
+  const stops = [
+    { name: 'Tatte', scheduledTime: '2026-06-12T13:00:00.000Z', day: 0 },
+    { name: 'Neptune Oyster', scheduledTime: '2026-06-13T23:00:00.000Z', day: 0 }, // moved to Saturday 7pm
+    { name: 'Somewhere later', scheduledTime: '2026-06-20T14:00:00.000Z', day: 1 }
+  ] as ItineraryStop[];
+  const assigned = assignTripDays(stops, ['2026-06-12', '2026-06-13'], 'America/New_York');
+  check("Stop moved to the next day follows it", assigned.map(stop => String(stop.day)).join(' '), '0 1 1');
+  check("Unchanged stops are kept as they were", String(assigned[0] === stops[0]), 'true');
+
+  console.log("\n--- Testing Weather Per Day ---");
+  const forecast = {
+    list: [
+      // Friday afternoon and evening in Boston
+      { dt: Date.parse('2026-06-12T18:00:00Z') / 1000, main: { temp: 24.4 }, weather: [{ main: 'Clear' }], wind: { speed: 3 } },
+      { dt: Date.parse('2026-06-12T21:00:00Z') / 1000, main: { temp: 22.1 }, weather: [{ main: 'Clear' }], wind: { speed: 3 } },
+      // 10pm Friday in Boston, already Saturday in UTC
+      { dt: Date.parse('2026-06-13T02:00:00Z') / 1000, main: { temp: 15.2 }, weather: [{ main: 'Rain' }], wind: { speed: 4 } },
+      { dt: Date.parse('2026-06-13T16:00:00Z') / 1000, main: { temp: 17.6 }, weather: [{ main: 'Rain' }], wind: { speed: 6 } }
+    ]
+  };
+  const friday = summarizeDayWeather(forecast, '2026-06-12', 'America/New_York');
+  check("Friday conditions", `${friday?.conditions} ${friday?.tempHigh}/${friday?.tempLow}`, 'Clear 24/15');
+  const saturday = summarizeDayWeather(forecast, '2026-06-13', 'America/New_York');
+  check("Saturday uses the city's calendar day", `${saturday?.conditions} ${saturday?.tempHigh}/${saturday?.tempLow}`, 'Rain 18/18');
+  check("Day beyond the forecast has no weather", String(summarizeDayWeather(forecast, '2026-06-20', 'America/New_York')), 'null');
+}
+
+testTripDays();
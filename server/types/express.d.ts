@@ -8,6 +8,7 @@ declare global {
         email: string;
         name: string;
         avatar_url?: string;
+        role: 'user' | 'admin';
       };
     }
   }
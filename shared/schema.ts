@@ -1,4 +1,4 @@
-import { pgTable, text, serial, timestamp, jsonb, uuid, varchar, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, jsonb, uuid, varchar, boolean, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -11,7 +11,20 @@ export const users = pgTable("users", {
   created_at: timestamp("created_at").notNull().defaultNow(),
   avatar_url: text("avatar_url"),
   google_id: text("google_id").unique(),
-  auth_provider: text("auth_provider").default("local"),  // "local" or "google"
+  auth_provider: text("auth_provider").default("local"),  // How the account was created: "local" or "google"; password_hash and google_id say how it can sign in
+  role: text("role").notNull().default("user"),  // UserRole: admins can use the /api/admin endpoints; see ADMIN_EMAILS
+  email_verified: boolean("email_verified").notNull().default(false),  // Confirmed through a verification link, or by Google
+});
+
+// Single-use links sent by email; only a hash of each token is stored
+export const authTokens = pgTable("auth_tokens", {
+  id: serial("id").primaryKey(),
+  userId: uuid("user_id").notNull().references(() => users.id),
+  purpose: text("purpose").notNull(), // AuthTokenPurpose
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the token in the link
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"), // Set when the link is used; it can't be used again
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 // Session table with structure compatible with connect-pg-simple
@@ -21,6 +34,32 @@ export const sessions = pgTable("sessions", {
   expire: timestamp("expire").notNull(),
 });
 
+// Each user's saved preferences, applied to every plan they make
+export const userPreferences = pgTable("user_preferences", {
+  userId: uuid("user_id").primaryKey().references(() => users.id),
+  preferences: jsonb("preferences").$type<PreferenceProfile>().notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Failed sign-in attempts per client IP or account, for backoff and temporary lockout
+export const authThrottles = pgTable("auth_throttles", {
+  key: text("key").primaryKey(), // e.g. "ip:203.0.113.7" or "account:ana@example.com"
+  failures: integer("failures").notNull().default(0),
+  lastFailureAt: timestamp("last_failure_at").notNull(),
+  blockedUntil: timestamp("blocked_until"), // No attempts are accepted before this
+});
+
+// Failed and blocked sign-in and registration attempts, for admins
+export const authAuditLog = pgTable("auth_audit_log", {
+  id: serial("id").primaryKey(),
+  event: text("event").notNull(), // AuthAuditEvent
+  email: text("email"),
+  userId: uuid("user_id"), // Set when the email belongs to an account
+  ip: text("ip").notNull(),
+  reason: text("reason"), // e.g. "wrong_password", "unknown_email"
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const places = pgTable("places", {
   id: serial("id").primaryKey(),
   placeId: text("place_id").notNull().unique(),
@@ -38,6 +77,12 @@ export const itineraries = pgTable("itineraries", {
   places: jsonb("places").notNull(),
   travelTimes: jsonb("travel_times").notNull(),
   created: timestamp("created").notNull().defaultNow(),
+  sessionId: text("session_id"), // ai_interactions session linking the planning and refinement turns
+  city: text("city").notNull().default("boston"), // City pack the plan was made with
+  timezone: text("timezone").notNull().default("America/New_York"), // IANA timezone stop times are planned and shown in
+  days: jsonb("days"), // TripDay[] for trips spanning several days; null for single-day plans
+  travelModes: jsonb("travel_modes"), // TravelMode[] the user asked to get around by; null when they named none
+  isPublic: boolean("is_public").notNull().default(false), // Readable by anyone with the link, not just collaborators
 });
 
 // Update itineraries schema to include user association
@@ -46,10 +91,26 @@ export const userItineraries = pgTable("user_itineraries", {
   userId: uuid("user_id").notNull().references(() => users.id),
   itineraryId: serial("itinerary_id").notNull().references(() => itineraries.id),
   createdAt: timestamp("created_at").notNull().defaultNow(),
+  role: text("role").notNull().default("owner"), // ItineraryRole: the creator is the owner, invitees are editors or viewers
 });
 
+// Collaborators' votes between a stop's venue and its alternatives, one per user per stop
+export const stopVotes = pgTable("stop_votes", {
+  id: serial("id").primaryKey(),
+  itineraryId: integer("itinerary_id").notNull().references(() => itineraries.id),
+  userId: uuid("user_id").notNull().references(() => users.id),
+  stopPlaceId: text("stop_place_id").notNull(), // place_id of the stop's venue, which identifies the stop
+  placeId: text("place_id").notNull(), // Venue voted for: the stop's venue or one of its alternatives
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique().on(table.itineraryId, table.userId, table.stopPlaceId),
+]);
+
 export const insertPlaceSchema = createInsertSchema(places).omit({ id: true });
 export const insertItinerarySchema = createInsertSchema(itineraries).omit({ id: true, created: true });
+export const insertStopVoteSchema = createInsertSchema(stopVotes).omit({ id: true, createdAt: true });
+export const insertAuthTokenSchema = createInsertSchema(authTokens).omit({ id: true, usedAt: true, createdAt: true });
+export const insertAuthAuditEntrySchema = createInsertSchema(authAuditLog).omit({ id: true, createdAt: true });
 // Schema for local registration
 export const insertLocalUserSchema = createInsertSchema(users).omit({ 
   id: true, 
@@ -57,7 +118,9 @@ export const insertLocalUserSchema = createInsertSchema(users).omit({
   password_hash: true,
   google_id: true,
   avatar_url: true,
-  auth_provider: true
+  auth_provider: true,
+  role: true,
+  email_verified: true
 })
   .extend({
     password: z.string().min(8).max(100),
@@ -73,7 +136,8 @@ export const insertGoogleUserSchema = createInsertSchema(users).omit({
   id: true,
   created_at: true,
   password_hash: true,
-  auth_provider: true
+  auth_provider: true,
+  role: true
 }).extend({
   auth_provider: z.literal("google")
 });
@@ -89,6 +153,62 @@ export const googleAuthSchema = z.object({
   token: z.string()
 });
 
+// Schema for linking a Google account to an account with a password
+export const linkGoogleSchema = z.object({
+  token: z.string().min(1),   // Google ID token of the account to link
+  password: z.string().min(1) // Current password, to confirm it's the account holder
+});
+
+// Schema for adding a password to an account that signs in with Google
+export const linkPasswordSchema = z.object({
+  token: z.string().min(1), // Fresh Google ID token, to confirm it's the account holder
+  password: z.string().min(8).max(100),
+  confirmPassword: z.string().min(8).max(100)
+}).refine(data => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"]
+});
+
+// Schema for unlinking Google from an account that also has a password
+export const unlinkGoogleSchema = z.object({
+  password: z.string().min(1)
+});
+
+// Schema for asking for a password reset link
+export const forgotPasswordSchema = z.object({
+  email: z.string().email()
+});
+
+// Schema for setting a new password with a reset link
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(8).max(100),
+  confirmPassword: z.string().min(8).max(100)
+}).refine(data => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"]
+});
+
+// Schema for confirming an email address with a verification link
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1)
+});
+
+// Preferences a user saves once instead of restating in every request
+export const PRICE_LEVELS = ["budget", "moderate", "expensive"] as const;
+export const PACES = ["relaxed", "moderate", "busy"] as const;
+const preferenceList = z.array(z.string().trim().min(1).max(50)).max(20);
+export const preferenceProfileSchema = z.object({
+  dietary: preferenceList.default([]),             // e.g. "vegetarian", "gluten free"
+  budget: z.enum(PRICE_LEVELS).optional(),
+  pace: z.enum(PACES).optional(),
+  accessibility: preferenceList.default([]),       // e.g. "wheelchair accessible"
+  cuisine: preferenceList.default([]),
+  interests: preferenceList.default([]),
+  dislikedVenueTypes: preferenceList.default([]),  // Google place types to avoid, e.g. "night_club"
+  minRating: z.number().min(0).max(5).optional(),
+});
+
 export type Place = typeof places.$inferSelect;
 export type InsertPlace = z.infer<typeof insertPlaceSchema>;
 export type Itinerary = typeof itineraries.$inferSelect;
@@ -97,6 +217,16 @@ export type User = typeof users.$inferSelect;
 export type InsertLocalUser = z.infer<typeof insertLocalUserSchema>;
 export type InsertGoogleUser = z.infer<typeof insertGoogleUserSchema>;
 export type UserItinerary = typeof userItineraries.$inferSelect;
+export type StopVote = typeof stopVotes.$inferSelect;
+export type InsertStopVote = z.infer<typeof insertStopVoteSchema>;
+export type AuthToken = typeof authTokens.$inferSelect;
+export type InsertAuthToken = z.infer<typeof insertAuthTokenSchema>;
+export type AuthThrottle = typeof authThrottles.$inferSelect;
+export type AuthAuditEntry = typeof authAuditLog.$inferSelect;
+export type InsertAuthAuditEntry = z.infer<typeof insertAuthAuditEntrySchema>;
+export type PreferenceProfile = z.infer<typeof preferenceProfileSchema>;
+export type PriceLevel = typeof PRICE_LEVELS[number];
+export type Pace = typeof PACES[number];
 export type LoginCredentials = z.infer<typeof loginSchema>;
 export type GoogleAuthCredentials = z.infer<typeof googleAuthSchema>;
 
@@ -112,11 +242,12 @@ export type PlaceDetails = {
   };
   types?: string[];
   rating?: number;
+  price_level?: number;  // Google price level, 0 (free) to 4 (very expensive)
   opening_hours?: {
     open_now?: boolean;
     periods?: Array<{
       open: { time: string; day: number };
-      close: { time: string; day: number };
+      close?: { time: string; day: number };  // Omitted for venues open 24 hours
     }>;
   };
   is_primary?: boolean;
@@ -130,6 +261,67 @@ export type PlaceDetails = {
   isOutdoorVenue?: boolean;
   weatherSuitable?: boolean;
   weatherAwareRecommendation?: boolean;
+  // Scheduling information
+  visitDurationMinutes?: number;
+  plannedDurationMinutes?: number;  // Visit length chosen when the stop was added, e.g. to fit a gap; used instead of the typical one
+  suggestionReason?: string;  // Why a gap-filling suggestion was added
+  // Opening hours at the scheduled time (undefined when hours are unknown)
+  openAtScheduledTime?: boolean;
+  closesDuringVisit?: boolean;
+  closedReason?: string;
+};
+
+// Site-wide roles of user accounts
+export const USER_ROLES = ["user", "admin"] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+// What an emailed link lets its holder do
+export const AUTH_TOKEN_PURPOSES = ["password_reset", "email_verification"] as const;
+export type AuthTokenPurpose = typeof AUTH_TOKEN_PURPOSES[number];
+
+// What the auth audit log records
+export const AUTH_AUDIT_EVENTS = ["login_failed", "login_blocked", "register_failed", "register_blocked", "admin_granted"] as const;
+export type AuthAuditEvent = typeof AUTH_AUDIT_EVENTS[number];
+
+// What each collaborator may do with a shared itinerary; every role can vote on venues
+export const ITINERARY_ROLES = ["owner", "editor", "viewer"] as const;
+export type ItineraryRole = typeof ITINERARY_ROLES[number];
+
+// Votes on one stop of a shared itinerary
+export type StopVoteSummary = {
+  counts: Record<string, number>; // place_id -> number of votes
+  myVote: string | null;          // place_id the current user voted for
+  leader: string | null;          // place_id with the most votes; ties keep the current venue
+};
+
+// Weather summary for one day of a trip
+export type DayWeather = {
+  conditions: string;      // Most common forecast condition, e.g. "Clear" or "Rain"
+  tempHigh: number;        // °C
+  tempLow: number;         // °C
+  outdoorFriendly: boolean;
+};
+
+// One day of a multi-day trip; its stops and travel legs are the itinerary entries with this day's index
+export type TripDay = {
+  date: string;            // yyyy-MM-dd in the itinerary's timezone
+  startLocation?: string;
+  endLocation?: string;    // Where the day ends, e.g. the hotel
+  weather?: DayWeather | null;  // Null when the day is beyond the forecast or weather is unavailable
+};
+
+// Rough spend per person at one stop, in the itinerary city's currency
+export type StopCostEstimate = {
+  name: string;
+  amount: number | null;  // Null when there is nothing to base an estimate on
+  basis: "price_level" | "admission" | "free" | "unknown";
+};
+
+// Rough spend per person for a whole itinerary; stops without an estimate count as nothing
+export type CostEstimate = {
+  currency: string;         // ISO 4217 code
+  total: number;
+  stops: StopCostEstimate[]; // In the same order as the itinerary's places
 };
 
 export type VenueSearchResult = {
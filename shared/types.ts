@@ -2,21 +2,34 @@
 
 export interface StructuredRequest {
   startLocation: string | null;
+  endLocation?: string | null; // Where each day ends on a multi-day trip, e.g. the hotel
   destinations: string[];
   fixedTimes: Array<{
     location: string;
-    time: string;  // Format: ISO timestamp or "HH:MM" (24-hour)
+    time: string;  // Format: "HH:MM" (24-hour) wall-clock time in the city, or an ISO timestamp
     type?: string; // e.g., "restaurant", "cafe"
     // Additional parameters for enhanced search
     searchTerm?: string;
     keywords?: string[];
     minRating?: number;
-    displayTime?: string; // Format: "h:mm a" for display in NYC timezone
+    displayTime?: string; // Format: "h:mm a" wall-clock time in the city
     searchPreference?: string; // Specific venue preference (e.g., "sandwich place", "sports bar")
+    priceLevel?: "budget" | "moderate" | "expensive"; // Price asked for this activity; wins over the overall budget
+    day?: string; // Day it was asked for on a multi-day trip, e.g. "Saturday", "day 2", "2025-06-14"
   }>;
   preferences: {
     type?: string;
     requirements?: string[];
+    transportModes?: string[]; // e.g. ["walking", "tube"] from the Gemini transportMode preference
+    interests?: string[]; // General interests, e.g. ["art", "history"]
+    // From the query, merged with the user's saved profile when planning
+    budget?: "budget" | "moderate" | "expensive";
+    pace?: "relaxed" | "moderate" | "busy";
+    cuisine?: string[];
+    accessibility?: string[];
+    dietary?: string[];
+    dislikedVenueTypes?: string[];
+    minRating?: number;
   };
   // Enhanced response from Gemini with detailed activity information
   activities?: Array<{